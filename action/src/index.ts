@@ -1,7 +1,19 @@
 import * as core from '@actions/core';
 import * as path from 'path';
 import * as fs from 'fs';
-import { scan, format, OutputFormat, Severity, type Finding, type ScanResult } from 'shiplint';
+import {
+  scan,
+  format,
+  OutputFormat,
+  Severity,
+  ExitCode,
+  exitCodeForResult,
+  exitCodeForError,
+  type Confidence,
+  type FailurePolicy,
+  type Finding,
+  type ScanResult,
+} from 'shiplint';
 
 /**
  * Severity mapping for GitHub annotations
@@ -74,6 +86,11 @@ async function run(): Promise<void> {
     const failOnError = core.getBooleanInput('fail-on-error');
     const rulesInput = core.getInput('rules');
     const excludeInput = core.getInput('exclude');
+    const configInput = core.getInput('config');
+    const baselineInput = core.getInput('baseline');
+    const failOnInput = core.getInput('fail-on');
+    const minConfidenceInput = core.getInput('min-confidence');
+    const maxWarningsInput = core.getInput('max-warnings');
     
     // Resolve absolute path
     const workspacePath = process.env.GITHUB_WORKSPACE || process.cwd();
@@ -91,19 +108,46 @@ async function run(): Promise<void> {
     if (exclude?.length) {
       core.info(`🚫 Excluding: ${exclude.join(', ')}`);
     }
+    const configPath = configInput ? path.resolve(workspacePath, configInput) : undefined;
+    if (configPath) {
+      core.info(`⚙️ Config: ${configPath}`);
+    }
+    const baselinePath = baselineInput ? path.resolve(workspacePath, baselineInput) : undefined;
+    if (baselinePath) {
+      core.info(`📌 Baseline: ${baselinePath}`);
+    }
+    
+    // Failure policy (empty inputs fall back to the config file, then the defaults)
+    const policy: FailurePolicy = {
+      ...(failOnInput ? { failOn: failOnInput.toLowerCase() as Severity | 'none' } : {}),
+      ...(minConfidenceInput ? { minConfidence: minConfidenceInput.toLowerCase() as Confidence } : {}),
+      ...(maxWarningsInput ? { maxWarnings: Number(maxWarningsInput) } : {}),
+    };
     
     // Run scan
     const result = await scan({
       path: absolutePath,
       rules,
       exclude,
+      config: configPath,
+      baseline: baselinePath,
+      policy,
     });
     
     core.info(`✅ Scanned with ${result.rulesRun.length} rules in ${result.duration}ms`);
+    if (result.configPath && !configPath) {
+      core.info(`⚙️ Using config: ${result.configPath}`);
+    }
     
-    // Set outputs
+    if (result.baselinedFindings) {
+      core.info(`📌 ${result.baselinedFindings.length} existing issue(s) recorded in the baseline`);
+    }
+    
+    // Set outputs (baselined findings are not counted)
+    const exitCode = exitCodeForResult(result);
     core.setOutput('findings-count', result.findings.length);
-    core.setOutput('exit-code', result.findings.length > 0 ? 1 : 0);
+    core.setOutput('baselined-count', result.baselinedFindings?.length ?? 0);
+    core.setOutput('exit-code', exitCode);
     
     // Create annotations for each finding
     createAnnotations(result.findings, workspacePath);
@@ -163,13 +207,19 @@ async function run(): Promise<void> {
           `**[${f.ruleId}]** ${f.title}${f.location ? ` (${path.relative(workspacePath, f.location)})` : ''}`
         ))
         .write();
-      
+    }
+    
+    if (exitCode !== ExitCode.Success) {
+      const reasons = result.policy?.reasons.join('; ') ?? `${result.findings.length} issue(s)`;
       if (failOnError) {
-        core.setFailed(`ShipLint found ${result.findings.length} issue(s)`);
+        core.setFailed(`ShipLint failed: ${reasons}`);
+      } else {
+        core.warning(`ShipLint policy not met: ${reasons}`);
       }
     }
     
   } catch (error) {
+    core.setOutput('exit-code', exitCodeForError(error));
     if (error instanceof Error) {
       core.setFailed(`ShipLint failed: ${error.message}`);
     } else {
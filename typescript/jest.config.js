@@ -7,6 +7,8 @@ module.exports = {
   testPathIgnorePatterns: ['/node_modules/', '\\.integration\\.test\\.ts$'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
+    // Tests run as CommonJS, where require() does not take the file URLs plugins are imported by
+    '^file://(.*)$': '$1',
   },
   transform: {
     '^.+\\.tsx?$': ['ts-jest', {
@@ -11,7 +11,7 @@
 
 const ANALYTICS_ENDPOINT = 'https://shiplint.app/api/ping';
 
-export type ProjectType = 'xcodeproj' | 'swiftpm' | 'both' | 'unknown';
+export type ProjectType = 'xcodeproj' | 'swiftpm' | 'both' | 'ipa' | 'app' | 'react-native' | 'flutter' | 'capacitor' | 'unity' | 'kmp' | 'unknown';
 export type FrameworkDetectionMethod = 'pbxproj' | 'import-scan' | 'both';
 export type ScanMode = 'cli' | 'mcp';
 
@@ -4,11 +4,20 @@
  * 
  * App Store Review Guideline scanner for iOS projects
  */
+import * as fs from 'fs';
 import { Command } from 'commander';
 import { scan } from '../core/scanner.js';
+import { InvalidConfigError, resolveConfigPath } from '../core/config.js';
+import { loadConfiguredPlugins } from '../core/plugins.js';
+import { createBaseline, writeBaseline, BASELINE_FILE_NAME } from '../core/baseline.js';
+import { ExitCode, exitCodeForError, exitCodeForResult } from '../core/policy.js';
+import { collectFixes, planFixes, writeFixPlan, formatFixDiff } from '../core/fixer.js';
+import { generatePrivacyManifest, formatPrivacyManifestDiff } from '../core/privacy-manifest.js';
+import { createPrivacyReport, formatPrivacyReportJSON, formatPrivacyReportMarkdown } from '../core/privacy-report.js';
 import { format } from '../formatters/index.js';
 import { allRules } from '../rules/index.js';
 import { OutputFormat } from '../types/index.js';
+import type { Confidence, FailurePolicy, PluginError, Severity } from '../types/index.js';
 import { startMcpServer } from '../mcp/server.js';
 import { ping, buildEnhancedPayload } from './analytics.js';
 import packageJson from '../../package.json';
@@ -24,13 +33,27 @@ program
 
 program
   .command('scan')
-  .description('Scan an Xcode project for potential App Store Review issues')
-  .argument('<path>', 'Path to Xcode project, workspace, or directory')
+  .description('Scan an Xcode project or built app for potential App Store Review issues')
+  .argument('<path>', 'Path to Xcode project, workspace, directory, .ipa or .app bundle')
   .option('-f, --format <format>', 'Output format: text, json, sarif, xcode', 'text')
   .option('-v, --verbose', 'Show verbose output', false)
   .option('-r, --rules <rules...>', 'Only run specific rules (by ID)')
   .option('-e, --exclude <rules...>', 'Exclude specific rules (by ID)')
   .option('--show-suppressed', 'Show suppressed findings in output', false)
+  .option('-c, --config <file>', 'Config file (default: .shiplintrc or shiplint.config.json in the project root)')
+  .option('-p, --plugin <modules...>', 'Load custom rules from plugin modules')
+  .option('-b, --baseline <file>', 'Only report findings not recorded in this baseline file (see: shiplint baseline create)')
+  .option('--configuration <name>', 'Build configuration to scan (default: Release)')
+  .option('--all-configurations', 'Scan every build configuration and show which ones each finding applies to', false)
+  .option('--fail-on <severity>', 'Fail on findings at or above this severity: critical, high, medium, low, info, none (default: critical)')
+  .option('--min-confidence <confidence>', 'Ignore findings below this confidence when deciding failure: high, medium, low')
+  .option('--max-warnings <count>', 'Fail when more than this many findings below the --fail-on severity remain')
+  .addHelpText('after', `
+Exit codes:
+  ${ExitCode.Success}  Passed the failure policy
+  ${ExitCode.PolicyFailed}  Findings violate the failure policy (--fail-on, --max-warnings)
+  ${ExitCode.ToolError}  ShipLint could not complete the scan
+  ${ExitCode.InvalidConfig}  Invalid config file, options, baseline or policy`)
   .action(async (path: string, options) => {
     try {
       const outputFormat = parseOutputFormat(options.format);
@@ -41,6 +64,12 @@ program
         verbose: options.verbose,
         rules: options.rules,
         exclude: options.exclude,
+        config: options.config,
+        plugins: options.plugin,
+        baseline: options.baseline,
+        policy: parsePolicyOptions(options),
+        configuration: options.configuration,
+        allConfigurations: options.allConfigurations,
       });
       
       const output = await format(result, outputFormat, {
@@ -61,21 +90,197 @@ program
         targetCount: result.targetCount,
       }));
       
-      // Exit with error code if critical issues found
-      const hasCritical = result.findings.some(f => f.severity === 'critical');
-      if (hasCritical) {
-        process.exit(1);
+      // Exit code follows the failure policy (baselined and suppressed findings are not counted)
+      const exitCode = exitCodeForResult(result);
+      if (exitCode !== ExitCode.Success) {
+        if (result.policy) {
+          console.error(`Failed: ${result.policy.reasons.join('; ')}`);
+        }
+        process.exit(exitCode);
       }
     } catch (error) {
-      if (error instanceof Error) {
-        console.error(`Error: ${error.message}`);
-        if (options.verbose) {
-          console.error(error.stack);
+      reportError(error, options.verbose);
+      process.exit(exitCodeForError(error));
+    }
+  });
+
+const baselineCommand = program
+  .command('baseline')
+  .description('Record existing findings so later scans only fail on new ones');
+
+baselineCommand
+  .command('create')
+  .description('Scan a project and write its current findings to a baseline file')
+  .argument('<path>', 'Path to Xcode project, workspace, directory, .ipa or .app bundle')
+  .option('-o, --output <file>', 'Baseline file to write', BASELINE_FILE_NAME)
+  .option('-r, --rules <rules...>', 'Only run specific rules (by ID)')
+  .option('-e, --exclude <rules...>', 'Exclude specific rules (by ID)')
+  .option('-c, --config <file>', 'Config file (default: .shiplintrc or shiplint.config.json in the project root)')
+  .option('-p, --plugin <modules...>', 'Load custom rules from plugin modules')
+  .option('--configuration <name>', 'Build configuration to scan (default: Release)')
+  .option('-v, --verbose', 'Show verbose output', false)
+  .action(async (path: string, options) => {
+    try {
+      const result = await scan({
+        path,
+        verbose: options.verbose,
+        rules: options.rules,
+        exclude: options.exclude,
+        config: options.config,
+        plugins: options.plugin,
+        configuration: options.configuration,
+      });
+      reportPluginErrors(result.pluginErrors);
+      const baseline = createBaseline(result);
+      writeBaseline(options.output, baseline);
+      
+      console.log(`Recorded ${baseline.findings.length} finding${baseline.findings.length === 1 ? '' : 's'} in ${options.output}`);
+      console.log(`Run: shiplint scan ${path} --baseline ${options.output}`);
+    } catch (error) {
+      reportError(error, options.verbose);
+      process.exit(exitCodeForError(error));
+    }
+  });
+
+program
+  .command('fix')
+  .description('Apply automatic fixes to Info.plist, entitlements, privacy manifests and build settings')
+  .argument('<path>', 'Path to Xcode project, workspace or directory')
+  .option('--dry-run', 'Print a unified diff instead of writing files', false)
+  .option('-r, --rules <rules...>', 'Only run specific rules (by ID)')
+  .option('-e, --exclude <rules...>', 'Exclude specific rules (by ID)')
+  .option('-c, --config <file>', 'Config file (default: .shiplintrc or shiplint.config.json in the project root)')
+  .option('-p, --plugin <modules...>', 'Load custom rules from plugin modules')
+  .option('--configuration <name>', 'Build configuration to scan (default: Release)')
+  .option('-v, --verbose', 'Show verbose output', false)
+  .action(async (path: string, options) => {
+    try {
+      const result = await scan({
+        path,
+        verbose: options.verbose,
+        rules: options.rules,
+        exclude: options.exclude,
+        config: options.config,
+        plugins: options.plugin,
+        configuration: options.configuration,
+      });
+      reportPluginErrors(result.pluginErrors);
+      const plan = planFixes(collectFixes(result.findings));
+      for (const { edit, reason } of plan.skipped) {
+        console.warn(`Warning: could not apply "${edit.description}" to ${edit.file}: ${reason}`);
+      }
+
+      if (options.dryRun) {
+        process.stdout.write(formatFixDiff(plan, process.cwd()));
+      } else {
+        writeFixPlan(plan);
+        for (const patch of plan.patches) {
+          for (const edit of patch.edits) {
+            console.log(`Fixed ${patch.file}: ${edit.description}`);
+          }
         }
+      }
+
+      const manual = result.findings.filter(finding => !finding.fixes?.length).length;
+      const edits = plan.patches.reduce((count, patch) => count + patch.edits.length, 0);
+      const files = plan.patches.length;
+      console.log(
+        `${options.dryRun ? 'Would apply' : 'Applied'} ${edits} fix${edits === 1 ? '' : 'es'} ` +
+        `to ${files} file${files === 1 ? '' : 's'}` +
+        (manual > 0 ? `; ${manual} finding${manual === 1 ? '' : 's'} need${manual === 1 ? 's' : ''} a manual fix` : '')
+      );
+    } catch (error) {
+      reportError(error, options.verbose);
+      process.exit(exitCodeForError(error));
+    }
+  });
+
+const privacyManifestCommand = program
+  .command('privacy-manifest')
+  .description('Work with PrivacyInfo.xcprivacy');
+
+privacyManifestCommand
+  .command('generate')
+  .description('Create or update the app\'s privacy manifest from detected API usage and SDKs')
+  .argument('<path>', 'Path to Xcode project, workspace or directory')
+  .option('-o, --output <file>', 'Manifest to write (default: the existing manifest, or PrivacyInfo.xcprivacy next to Info.plist)')
+  .option('--dry-run', 'Print a unified diff instead of writing the manifest', false)
+  .option('-c, --config <file>', 'Config file (default: .shiplintrc or shiplint.config.json in the project root)')
+  .option('-p, --plugin <modules...>', 'Load custom rules from plugin modules')
+  .option('-v, --verbose', 'Show verbose output', false)
+  .action(async (path: string, options) => {
+    try {
+      const generated = await generatePrivacyManifest({
+        path,
+        output: options.output,
+        config: options.config,
+        plugins: options.plugin,
+      });
+      const changed = generated.content !== generated.original;
+
+      if (options.dryRun) {
+        process.stdout.write(formatPrivacyManifestDiff(generated, process.cwd()));
+      } else if (changed) {
+        fs.writeFileSync(generated.path, generated.content, 'utf-8');
+      }
+
+      if (!changed) {
+        console.log(`${generated.path} is up to date`);
+      } else if (generated.original === undefined) {
+        console.log(`${options.dryRun ? 'Would create' : 'Created'} ${generated.path}`);
       } else {
-        console.error('An unknown error occurred');
+        console.log(`${options.dryRun ? 'Would update' : 'Updated'} ${generated.path}`);
       }
-      process.exit(1);
+      for (const { category, reasons } of generated.added) {
+        console.log(`  + ${category}${reasons.length > 0 ? ` (${reasons.join(', ')})` : ''}`);
+      }
+      if (generated.todos.length > 0) {
+        console.log(`\nTODO (marked in the manifest):`);
+        for (const todo of generated.todos) {
+          console.log(`  - ${todo}`);
+        }
+      }
+      if (generated.original === undefined && changed) {
+        console.log('\nAdd the new file to your app target in Xcode so it is copied into the bundle.');
+      }
+    } catch (error) {
+      reportError(error, options.verbose);
+      process.exit(exitCodeForError(error));
+    }
+  });
+
+privacyManifestCommand
+  .command('report')
+  .description('Merge the app\'s and its SDKs\' privacy manifests into one privacy report')
+  .argument('<path>', 'Path to Xcode project, workspace, directory, .ipa or .app')
+  .option('-f, --format <format>', 'Output format: markdown, json', 'markdown')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('-c, --config <file>', 'Config file (default: .shiplintrc or shiplint.config.json in the project root)')
+  .option('-p, --plugin <modules...>', 'Load custom rules from plugin modules')
+  .option('-v, --verbose', 'Show verbose output', false)
+  .action(async (path: string, options) => {
+    try {
+      const reportFormat = options.format.toLowerCase();
+      if (reportFormat !== 'markdown' && reportFormat !== 'json') {
+        throw new Error(`Unknown report format: ${options.format}. Use markdown or json.`);
+      }
+      const report = await createPrivacyReport({ path, config: options.config, plugins: options.plugin });
+      const output = reportFormat === 'json'
+        ? formatPrivacyReportJSON(report, process.cwd())
+        : formatPrivacyReportMarkdown(report, process.cwd());
+
+      if (options.output) {
+        fs.writeFileSync(options.output, output, 'utf-8');
+        console.log(`Wrote privacy report for ${report.app} to ${options.output} (${report.manifests.length} manifests)`);
+      } else {
+        process.stdout.write(output);
+      }
+      for (const sdk of report.sdksWithoutManifest) {
+        console.warn(`Warning: ${sdk.dependency} is a commonly used SDK but ships no privacy manifest`);
+      }
+    } catch (error) {
+      reportError(error, options.verbose);
+      process.exit(exitCodeForError(error));
     }
   });
 
@@ -83,7 +288,17 @@ program
   .command('rules')
   .description('List all available rules')
   .option('-f, --format <format>', 'Output format: text, json', 'text')
-  .action((options) => {
+  .option('-c, --config <file>', 'Config file whose plugins to load (default: .shiplintrc or shiplint.config.json in the current directory)')
+  .option('-p, --plugin <modules...>', 'Load custom rules from plugin modules')
+  .action(async (options) => {
+    try {
+      const { errors } = await loadConfiguredPlugins(resolveConfigPath(process.cwd(), options.config), options.plugin);
+      reportPluginErrors(errors);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(exitCodeForError(error));
+    }
+    
     if (options.format === 'json') {
       const rules = allRules.map(rule => ({
         id: rule.id,
@@ -92,6 +307,7 @@ program
         category: rule.category,
         severity: rule.severity,
         guideline: rule.guidelineReference,
+        ...(rule.plugin ? { plugin: rule.plugin } : {}),
       }));
       console.log(JSON.stringify(rules, null, 2));
     } else {
@@ -105,6 +321,9 @@ program
         console.log(`  Severity:    ${rule.severity}`);
         console.log(`  Guideline:   ${rule.guidelineReference}`);
         console.log(`  Description: ${rule.description}`);
+        if (rule.plugin) {
+          console.log(`  Plugin:      ${rule.plugin}`);
+        }
       }
       console.log('\n');
     }
@@ -126,6 +345,46 @@ program
     }
   });
 
+function reportError(error: unknown, verbose: boolean): void {
+  if (error instanceof InvalidConfigError) {
+    console.error(`Error: Invalid config file ${error.configPath}:`);
+    for (const problem of error.problems) {
+      console.error(`  - ${problem}`);
+    }
+  } else if (error instanceof Error) {
+    console.error(`Error: ${error.message}`);
+    if (verbose) {
+      console.error(error.stack);
+    }
+  } else {
+    console.error('An unknown error occurred');
+  }
+}
+
+/**
+ * Print plugin problems for commands that do not format a scan result
+ */
+function reportPluginErrors(errors: PluginError[] = []): void {
+  for (const pluginError of errors) {
+    const rule = pluginError.ruleId ? ` (${pluginError.ruleId})` : '';
+    console.error(`Warning: Plugin ${pluginError.plugin}${rule}: ${pluginError.message}`);
+  }
+}
+
+/**
+ * Collect --fail-on, --min-confidence and --max-warnings (validated by scan())
+ */
+function parsePolicyOptions(options: { failOn?: string; minConfidence?: string; maxWarnings?: string }): FailurePolicy | undefined {
+  if (options.failOn === undefined && options.minConfidence === undefined && options.maxWarnings === undefined) {
+    return undefined;
+  }
+  return {
+    failOn: options.failOn?.toLowerCase() as Severity | 'none' | undefined,
+    minConfidence: options.minConfidence?.toLowerCase() as Confidence | undefined,
+    maxWarnings: options.maxWarnings !== undefined ? Number(options.maxWarnings) : undefined,
+  };
+}
+
 function parseOutputFormat(format: string): CliOutputFormat {
   switch (format.toLowerCase()) {
     case 'text':
@@ -0,0 +1,139 @@
+/**
+ * Baseline support for ShipLint
+ *
+ * A baseline records the fingerprints of findings that already exist, so a
+ * legacy project can adopt ShipLint and only fail on findings introduced
+ * afterwards:
+ *
+ *   shiplint baseline create .            # writes shiplint-baseline.json
+ *   shiplint scan . --baseline shiplint-baseline.json
+ *
+ * Findings are matched by their stable fingerprint (see fingerprint.ts).
+ */
+import * as fs from 'fs';
+import type { Finding, ScanResult } from '../types/index.js';
+import { fingerprintFinding, getFingerprintRoot, normalizeLocation } from './fingerprint.js';
+
+/**
+ * Default baseline file name (written to the current directory)
+ */
+export const BASELINE_FILE_NAME = 'shiplint-baseline.json';
+
+const BASELINE_VERSION = 1;
+
+/**
+ * A finding recorded in a baseline
+ */
+export interface BaselineEntry {
+  fingerprint: string;
+  /** Rule, target and location are kept for humans reviewing the file */
+  ruleId: string;
+  targetName?: string;
+  location?: string;
+}
+
+/**
+ * Contents of a baseline file
+ */
+export interface Baseline {
+  version: number;
+  createdAt: string;
+  findings: BaselineEntry[];
+}
+
+/**
+ * Findings split by whether a baseline already records them
+ */
+export interface BaselineResult {
+  newFindings: Finding[];
+  baselinedFindings: Finding[];
+}
+
+/**
+ * Error thrown when a baseline file cannot be read or has the wrong shape
+ */
+export class InvalidBaselineError extends Error {
+  constructor(public baselinePath: string, reason: string) {
+    super(`Invalid baseline file ${baselinePath}: ${reason}`);
+    this.name = 'InvalidBaselineError';
+  }
+}
+
+/**
+ * Build a baseline from the active findings of a scan
+ */
+export function createBaseline(result: ScanResult): Baseline {
+  const projectRoot = getFingerprintRoot(result);
+  const findings = result.findings.map(finding => ({
+    fingerprint: finding.fingerprint ?? fingerprintFinding(finding, projectRoot),
+    ruleId: finding.ruleId,
+    ...(finding.targetName ? { targetName: finding.targetName } : {}),
+    ...(finding.location ? { location: normalizeLocation(finding.location, projectRoot) } : {}),
+  }));
+  findings.sort((a, b) => a.ruleId.localeCompare(b.ruleId) || a.fingerprint.localeCompare(b.fingerprint));
+
+  return { version: BASELINE_VERSION, createdAt: new Date().toISOString(), findings };
+}
+
+/**
+ * Write a baseline file
+ */
+export function writeBaseline(baselinePath: string, baseline: Baseline): void {
+  fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Read and validate a baseline file
+ */
+export function loadBaseline(baselinePath: string): Baseline {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code === 'ENOENT'
+      ? 'file not found'
+      : error instanceof Error ? error.message : String(error);
+    throw new InvalidBaselineError(baselinePath, reason);
+  }
+
+  const baseline = raw as Partial<Baseline>;
+  if (typeof raw !== 'object' || raw === null || !Array.isArray(baseline.findings)) {
+    throw new InvalidBaselineError(baselinePath, 'expected an object with a "findings" array');
+  }
+  if (baseline.version !== BASELINE_VERSION) {
+    throw new InvalidBaselineError(baselinePath, `unsupported version ${baseline.version} (expected ${BASELINE_VERSION})`);
+  }
+  if (baseline.findings.some(entry => typeof entry?.fingerprint !== 'string')) {
+    throw new InvalidBaselineError(baselinePath, 'every finding needs a "fingerprint" string');
+  }
+
+  return baseline as Baseline;
+}
+
+/**
+ * Split findings into new ones and ones recorded in the baseline
+ *
+ * Each baseline entry matches at most one finding, so a second copy of a
+ * baselined problem (same rule, file and line text) still counts as new.
+ */
+export function applyBaseline(findings: Finding[], baseline: Baseline, projectRoot: string): BaselineResult {
+  const remaining = new Map<string, number>();
+  for (const entry of baseline.findings) {
+    remaining.set(entry.fingerprint, (remaining.get(entry.fingerprint) ?? 0) + 1);
+  }
+
+  const newFindings: Finding[] = [];
+  const baselinedFindings: Finding[] = [];
+  for (const finding of findings) {
+    const fingerprint = finding.fingerprint ?? fingerprintFinding(finding, projectRoot);
+    const count = remaining.get(fingerprint) ?? 0;
+    if (count > 0) {
+      remaining.set(fingerprint, count - 1);
+      baselinedFindings.push(finding);
+    } else {
+      newFindings.push(finding);
+    }
+  }
+
+  return { newFindings, baselinedFindings };
+}
@@ -0,0 +1,388 @@
+/**
+ * Project configuration file support
+ *
+ * ShipLint looks for a checked-in config file in the project root:
+ * .shiplintrc, .shiplintrc.json or shiplint.config.json (all JSON).
+ *
+ * Example:
+ * {
+ *   "exclude": ["config-002-missing-encryption-flag"],
+ *   "severity": { "code-003-dynamic-code-execution": "high" },
+ *   "sources": { "exclude": ["Vendor/**"] },
+ *   "configuration": "Release",
+ *   "kidsCategory": true,
+ *   "plugins": ["./shiplint-rules/banned-sdks.js"],
+ *   "policy": { "failOn": "high", "minConfidence": "high", "maxWarnings": 10 },
+ *   "ruleOptions": {
+ *     "code-003-dynamic-code-execution": { "safeClasses": ["MyPluginHost"] }
+ *   }
+ * }
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FailurePolicy, Rule, RuleOptionType } from '../types/index.js';
+import { Severity, Confidence } from '../types/index.js';
+
+/**
+ * Config file names, in lookup order
+ */
+export const CONFIG_FILE_NAMES = ['.shiplintrc', '.shiplintrc.json', 'shiplint.config.json'];
+
+/**
+ * Parsed project configuration
+ */
+export interface ShiplintConfig {
+  /** Only run these rules (same as --rules) */
+  rules?: string[];
+  /** Never run these rules (same as --exclude) */
+  exclude?: string[];
+  /** Severity overrides by rule ID */
+  severity?: Record<string, Severity>;
+  /** Source globs (relative to the project root) used by source-scanning rules */
+  sources?: {
+    include?: string[];
+    exclude?: string[];
+  };
+  /** Build configuration to read build settings from (default: Release) */
+  configuration?: string;
+  /** Scan every build configuration instead of one (same as --all-configurations) */
+  allConfigurations?: boolean;
+  /** Rule-specific options by rule ID */
+  ruleOptions?: Record<string, Record<string, unknown>>;
+  /** Whether the app is in the Kids Category (Guideline 1.3); unset infers it from the project */
+  kidsCategory?: boolean;
+  /** Custom rule modules, relative to the config file */
+  plugins?: string[];
+  /** When the scan counts as failed (see --fail-on, --min-confidence, --max-warnings) */
+  policy?: FailurePolicy;
+}
+
+/**
+ * A config file together with where it was loaded from
+ */
+export interface LoadedConfig {
+  path: string;
+  config: ShiplintConfig;
+}
+
+/**
+ * Error thrown when a config file cannot be parsed or fails validation
+ */
+export class InvalidConfigError extends Error {
+  constructor(public configPath: string, public problems: string[]) {
+    super(
+      `Invalid config file ${configPath}: ${problems.join('; ')}`
+    );
+    this.name = 'InvalidConfigError';
+  }
+}
+
+const TOP_LEVEL_KEYS = new Set(['rules', 'exclude', 'severity', 'sources', 'configuration', 'allConfigurations', 'ruleOptions', 'kidsCategory', 'plugins', 'policy']);
+const SOURCES_KEYS = new Set(['include', 'exclude']);
+const POLICY_KEYS = new Set(['failOn', 'minConfidence', 'maxWarnings']);
+const SEVERITY_VALUES = new Set<string>(Object.values(Severity));
+const FAIL_ON_VALUES = new Set<string>([...SEVERITY_VALUES, 'none']);
+const CONFIDENCE_VALUES = new Set<string>(Object.values(Confidence));
+
+/**
+ * Find the config file in a project root
+ */
+export function findConfigFile(projectRoot: string): string | undefined {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(projectRoot, name);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pick the config file to use: the explicit path (which must exist) or the discovered one
+ */
+export function resolveConfigPath(projectRoot: string, explicitPath?: string): string | undefined {
+  if (explicitPath) {
+    if (!fs.existsSync(explicitPath)) {
+      throw new InvalidConfigError(explicitPath, ['file not found']);
+    }
+    return explicitPath;
+  }
+  return findConfigFile(projectRoot);
+}
+
+/**
+ * Read a config file as unvalidated JSON
+ */
+export function readConfigFile(configPath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new InvalidConfigError(configPath, [`could not parse JSON (${error instanceof Error ? error.message : error})`]);
+  }
+}
+
+/**
+ * Load and validate a config file
+ *
+ * @param configPath Path to the config file
+ * @param rules Known rules, including plugin rules (used to validate rule IDs and rule options)
+ */
+export function loadConfigFile(configPath: string, rules: Rule[]): LoadedConfig {
+  const raw = readConfigFile(configPath);
+
+  const problems = validateConfig(raw, rules);
+  if (problems.length > 0) {
+    throw new InvalidConfigError(configPath, problems);
+  }
+
+  return { path: configPath, config: raw as ShiplintConfig };
+}
+
+/**
+ * Discover and load the config file for a project, if any
+ *
+ * @param projectRoot Directory to look in
+ * @param rules Known rules, including plugin rules (used to validate rule IDs and rule options)
+ * @param explicitPath Config path given on the command line (must exist)
+ */
+export function loadConfig(projectRoot: string, rules: Rule[], explicitPath?: string): LoadedConfig | undefined {
+  const configPath = resolveConfigPath(projectRoot, explicitPath);
+  return configPath ? loadConfigFile(configPath, rules) : undefined;
+}
+
+/**
+ * Validate a parsed config object
+ *
+ * @returns Human-readable problems (empty when valid)
+ */
+export function validateConfig(raw: unknown, rules: Rule[]): string[] {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return ['root must be a JSON object'];
+  }
+
+  const problems: string[] = [];
+  const config = raw as Record<string, unknown>;
+  const ruleById = new Map(rules.map(rule => [rule.id, rule]));
+
+  const checkRuleIds = (key: string, ids: string[]) => {
+    const unknownIds = ids.filter(id => !ruleById.has(id));
+    if (unknownIds.length > 0) {
+      problems.push(`unknown rule ID(s) in "${key}": ${unknownIds.join(', ')}`);
+    }
+  };
+
+  for (const key of Object.keys(config)) {
+    if (!TOP_LEVEL_KEYS.has(key)) {
+      problems.push(`unknown key "${key}"`);
+    }
+  }
+
+  for (const key of ['rules', 'exclude']) {
+    if (config[key] === undefined) continue;
+    if (!isStringArray(config[key])) {
+      problems.push(`"${key}" must be an array of rule IDs`);
+    } else {
+      checkRuleIds(key, config[key] as string[]);
+    }
+  }
+
+  if (config.plugins !== undefined && !isStringArray(config.plugins)) {
+    problems.push('"plugins" must be an array of module paths');
+  }
+
+  if (config.severity !== undefined) {
+    if (!isPlainObject(config.severity)) {
+      problems.push('"severity" must be an object mapping rule IDs to severities');
+    } else {
+      const severity = config.severity as Record<string, unknown>;
+      checkRuleIds('severity', Object.keys(severity));
+      for (const [ruleId, value] of Object.entries(severity)) {
+        if (typeof value !== 'string' || !SEVERITY_VALUES.has(value)) {
+          problems.push(`invalid severity "${value}" for ${ruleId} (use ${[...SEVERITY_VALUES].join(', ')})`);
+        }
+      }
+    }
+  }
+
+  if (config.sources !== undefined) {
+    if (!isPlainObject(config.sources)) {
+      problems.push('"sources" must be an object with "include" and/or "exclude" globs');
+    } else {
+      const sources = config.sources as Record<string, unknown>;
+      for (const key of Object.keys(sources)) {
+        if (!SOURCES_KEYS.has(key)) {
+          problems.push(`unknown key "sources.${key}"`);
+        } else if (!isStringArray(sources[key])) {
+          problems.push(`"sources.${key}" must be an array of globs`);
+        }
+      }
+    }
+  }
+
+  if (config.configuration !== undefined && (typeof config.configuration !== 'string' || !config.configuration.trim())) {
+    problems.push('"configuration" must be a build configuration name');
+  }
+
+  if (config.allConfigurations !== undefined && typeof config.allConfigurations !== 'boolean') {
+    problems.push('"allConfigurations" must be true or false');
+  } else if (config.allConfigurations && config.configuration !== undefined) {
+    problems.push('set either "configuration" or "allConfigurations", not both');
+  }
+
+  if (config.kidsCategory !== undefined && typeof config.kidsCategory !== 'boolean') {
+    problems.push('"kidsCategory" must be true or false');
+  }
+
+  if (config.policy !== undefined) {
+    problems.push(...validateFailurePolicy(config.policy, 'policy.'));
+  }
+
+  if (config.ruleOptions !== undefined) {
+    if (!isPlainObject(config.ruleOptions)) {
+      problems.push('"ruleOptions" must be an object keyed by rule ID');
+    } else {
+      const ruleOptions = config.ruleOptions as Record<string, unknown>;
+      checkRuleIds('ruleOptions', Object.keys(ruleOptions));
+      for (const [ruleId, options] of Object.entries(ruleOptions)) {
+        const rule = ruleById.get(ruleId);
+        if (!rule) continue;
+        if (!isPlainObject(options)) {
+          problems.push(`"ruleOptions.${ruleId}" must be an object`);
+          continue;
+        }
+        problems.push(...validateRuleOptions(rule, options as Record<string, unknown>));
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a failure policy from the config file or the scan options
+ *
+ * @param prefix Prepended to key names in problem messages (e.g. "policy.")
+ * @returns Human-readable problems (empty when valid)
+ */
+export function validateFailurePolicy(raw: unknown, prefix = ''): string[] {
+  if (!isPlainObject(raw)) {
+    return ['"policy" must be an object with "failOn", "minConfidence" and/or "maxWarnings"'];
+  }
+
+  const problems: string[] = [];
+  const policy = raw as Record<string, unknown>;
+  for (const key of Object.keys(policy)) {
+    if (!POLICY_KEYS.has(key)) {
+      problems.push(`unknown key "${prefix}${key}"`);
+    }
+  }
+  if (policy.failOn !== undefined && (typeof policy.failOn !== 'string' || !FAIL_ON_VALUES.has(policy.failOn))) {
+    problems.push(`invalid "${prefix}failOn" value "${policy.failOn}" (use ${[...FAIL_ON_VALUES].join(', ')})`);
+  }
+  if (policy.minConfidence !== undefined &&
+    (typeof policy.minConfidence !== 'string' || !CONFIDENCE_VALUES.has(policy.minConfidence))) {
+    problems.push(`invalid "${prefix}minConfidence" value "${policy.minConfidence}" (use ${[...CONFIDENCE_VALUES].join(', ')})`);
+  }
+  if (policy.maxWarnings !== undefined &&
+    (typeof policy.maxWarnings !== 'number' || !Number.isInteger(policy.maxWarnings) || policy.maxWarnings < 0)) {
+    problems.push(`"${prefix}maxWarnings" must be a non-negative integer`);
+  }
+  return problems;
+}
+
+/**
+ * Validate options for a single rule against its declared option types
+ */
+function validateRuleOptions(rule: Rule, options: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  const schema = rule.options ?? {};
+
+  for (const [key, value] of Object.entries(options)) {
+    const expected = schema[key];
+    if (!expected) {
+      const available = Object.keys(schema);
+      problems.push(
+        `unknown option "${key}" for ${rule.id}` +
+        (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (rule has no options)')
+      );
+    } else if (!matchesOptionType(value, expected)) {
+      problems.push(`option "${key}" for ${rule.id} must be ${expected}`);
+    }
+  }
+
+  return problems;
+}
+
+function matchesOptionType(value: unknown, type: RuleOptionType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'string[]':
+      return isStringArray(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number';
+  }
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a glob (supports **, * and ?) to a regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, trailing "**" matches everything
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (ch === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Build a source file filter from include/exclude globs relative to a project root
+ *
+ * @returns undefined when no globs are configured (every file is included)
+ */
+export function createSourceFilter(
+  projectRoot: string,
+  sources?: ShiplintConfig['sources']
+): ((filePath: string) => boolean) | undefined {
+  const include = (sources?.include ?? []).map(globToRegExp);
+  const exclude = (sources?.exclude ?? []).map(globToRegExp);
+  if (include.length === 0 && exclude.length === 0) {
+    return undefined;
+  }
+
+  return (filePath: string) => {
+    const relative = path.relative(projectRoot, filePath).split(path.sep).join('/');
+    if (include.length > 0 && !include.some(re => re.test(relative))) {
+      return false;
+    }
+    return !exclude.some(re => re.test(relative));
+  };
+}
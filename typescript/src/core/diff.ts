@@ -0,0 +1,137 @@
+/**
+ * Unified diff output for `shiplint fix --dry-run`
+ */
+
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @param fileName Name shown in the ---/+++ header
+ * @param context Number of unchanged lines around each change
+ * @returns The diff, or an empty string when the contents are equal
+ */
+export function createUnifiedDiff(fileName: string, before: string, after: string, context = 3): string {
+  if (before === after) return '';
+
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+
+  // Line numbers (1-based) in the old and new file before each diff line
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let a = 1;
+  let b = 1;
+  for (const line of lines) {
+    oldLine.push(a);
+    newLine.push(b);
+    if (line.op !== '+') a++;
+    if (line.op !== '-') b++;
+  }
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].op === ' ') {
+      i++;
+      continue;
+    }
+
+    // Grow the hunk while the next change is close enough to share context
+    let lastChange = i;
+    let j = i + 1;
+    while (j < lines.length) {
+      if (lines[j].op !== ' ') {
+        lastChange = j++;
+        continue;
+      }
+      let k = j;
+      while (k < lines.length && lines[k].op === ' ') k++;
+      if (k < lines.length && k - j <= context * 2) {
+        j = k;
+      } else {
+        break;
+      }
+    }
+
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length, lastChange + 1 + context);
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.op !== '+').length;
+    const newCount = hunk.filter(line => line.op !== '-').length;
+    const oldStart = oldCount === 0 ? oldLine[start] - 1 : oldLine[start];
+    const newStart = newCount === 0 ? newLine[start] - 1 : newLine[start];
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map(line => line.op + line.text));
+    i = end;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff using Myers' O(ND) algorithm (fast when few lines change)
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards from the end of both files
+  const result: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = prev[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ op: ' ', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ op: '+', text: b[--y] });
+      } else {
+        result.push({ op: '-', text: a[--x] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
@@ -0,0 +1,82 @@
+/**
+ * Stable finding fingerprints
+ *
+ * Descriptions embed file lists and counts that change between runs, so they
+ * cannot identify a finding. A fingerprint instead hashes:
+ *
+ * - the rule ID and the target the finding applies to
+ * - the location relative to the project root
+ * - the rule's discriminator (e.g. the API category key or SDK name), or the
+ *   finding's title when the rule does not provide one
+ * - the text of the flagged source line, so two findings in the same file stay
+ *   apart without depending on line numbers
+ *
+ * The same problem in the same place therefore keeps its fingerprint across
+ * runs, machines and unrelated code moves. SARIF uploads, baselines and other
+ * downstream tools use it to match findings between scans.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Finding, ScanResult } from '../types/index.js';
+
+/**
+ * Directory that finding locations are made relative to
+ *
+ * Built bundles, projects and workspaces resolve to the directory that
+ * contains them, so the same project scanned through a different entry point
+ * keeps its fingerprints.
+ */
+export function getFingerprintRoot(result: Pick<ScanResult, 'projectPath' | 'projectType'>): string {
+  const resolved = path.resolve(result.projectPath);
+  const isContainer = result.projectType === 'ipa' || result.projectType === 'app' ||
+    /\.(xcodeproj|xcworkspace)$/.test(resolved);
+  return isContainer ? path.dirname(resolved) : resolved;
+}
+
+/**
+ * Location of a finding relative to the project root, with forward slashes
+ */
+export function normalizeLocation(location: string | undefined, projectRoot: string): string {
+  if (!location) return '';
+  const absolute = path.resolve(projectRoot, location);
+  const relative = path.relative(projectRoot, absolute);
+  const normalized = relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : location;
+  return normalized.split(path.sep).join('/');
+}
+
+/**
+ * Compute the stable fingerprint of a finding
+ */
+export function fingerprintFinding(finding: Finding, projectRoot: string): string {
+  const parts = [
+    finding.ruleId,
+    finding.targetName ?? '',
+    normalizeLocation(finding.location, projectRoot),
+    finding.discriminator ?? finding.title,
+    flaggedLineText(finding, projectRoot),
+  ];
+  return crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex').slice(0, 32);
+}
+
+/**
+ * Set `fingerprint` on each finding that does not have one yet
+ */
+export function addFingerprints(findings: Finding[], projectRoot: string): Finding[] {
+  return findings.map(finding =>
+    finding.fingerprint ? finding : { ...finding, fingerprint: fingerprintFinding(finding, projectRoot) }
+  );
+}
+
+/**
+ * Whitespace-normalized text of the line a finding points at, if readable
+ */
+function flaggedLineText(finding: Finding, projectRoot: string): string {
+  if (!finding.location || !finding.line) return '';
+  try {
+    const lines = fs.readFileSync(path.resolve(projectRoot, finding.location), 'utf-8').split('\n');
+    return (lines[finding.line - 1] ?? '').replace(/\s+/g, ' ').trim();
+  } catch {
+    return '';
+  }
+}
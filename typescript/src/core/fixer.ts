@@ -0,0 +1,128 @@
+/**
+ * Automatic fixing for ShipLint
+ *
+ * Rules attach structured edits (FixEdit) to findings whose fix is mechanical,
+ * such as adding ITSAppUsesNonExemptEncryption or a missing privacy manifest
+ * entry. `shiplint fix` collects them, applies them per file as text edits
+ * (keeping the original formatting and key order) and either writes the files
+ * or prints a unified diff:
+ *
+ *   shiplint fix . --dry-run
+ *   shiplint fix .
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Finding, FixEdit } from '../types/index.js';
+import { setPlistKey, appendToPlistArray } from '../parsers/plist-editor.js';
+import { setTargetBuildSetting } from '../parsers/pbxproj-editor.js';
+import { createUnifiedDiff } from './diff.js';
+
+/**
+ * New contents for one file
+ */
+export interface FilePatch {
+  file: string;
+  original: string;
+  updated: string;
+  /** Edits that changed the file */
+  edits: FixEdit[];
+}
+
+/**
+ * Result of planning fixes: file changes plus edits that could not be applied
+ */
+export interface FixPlan {
+  patches: FilePatch[];
+  skipped: Array<{ edit: FixEdit; reason: string }>;
+}
+
+/**
+ * Collect the fix edits of a set of findings, dropping duplicates
+ *
+ * The same Info.plist edit can come from several targets that share the file.
+ */
+export function collectFixes(findings: Finding[]): FixEdit[] {
+  const seen = new Set<string>();
+  const edits: FixEdit[] = [];
+  for (const edit of findings.flatMap(finding => finding.fixes ?? [])) {
+    const key = JSON.stringify(edit);
+    if (!seen.has(key)) {
+      seen.add(key);
+      edits.push(edit);
+    }
+  }
+  return edits;
+}
+
+/**
+ * Apply edits in memory, grouped by file
+ *
+ * Files are not written; see writeFixPlan. Edits that fail (missing file,
+ * binary plist, unknown target) are reported in `skipped`.
+ */
+export function planFixes(edits: FixEdit[]): FixPlan {
+  const byFile = new Map<string, FixEdit[]>();
+  for (const edit of edits) {
+    const file = path.resolve(edit.file);
+    byFile.set(file, [...(byFile.get(file) ?? []), edit]);
+  }
+
+  const plan: FixPlan = { patches: [], skipped: [] };
+  for (const [file, fileEdits] of byFile) {
+    let original: string;
+    try {
+      original = fs.readFileSync(file, 'utf-8');
+    } catch (error) {
+      const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'file not found' : String(error);
+      plan.skipped.push(...fileEdits.map(edit => ({ edit, reason })));
+      continue;
+    }
+
+    let updated = original;
+    const applied: FixEdit[] = [];
+    for (const edit of fileEdits) {
+      try {
+        const next = applyEdit(updated, edit);
+        if (next !== updated) {
+          applied.push(edit);
+          updated = next;
+        }
+      } catch (error) {
+        plan.skipped.push({ edit, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    if (applied.length > 0) {
+      plan.patches.push({ file, original, updated, edits: applied });
+    }
+  }
+  return plan;
+}
+
+/**
+ * Write the planned file changes to disk
+ */
+export function writeFixPlan(plan: FixPlan): void {
+  for (const patch of plan.patches) {
+    fs.writeFileSync(patch.file, patch.updated, 'utf-8');
+  }
+}
+
+/**
+ * Unified diff of all planned changes, with paths relative to `baseDir`
+ */
+export function formatFixDiff(plan: FixPlan, baseDir: string): string {
+  return plan.patches
+    .map(patch => createUnifiedDiff(path.relative(baseDir, patch.file).split(path.sep).join('/'), patch.original, patch.updated))
+    .join('');
+}
+
+function applyEdit(content: string, edit: FixEdit): string {
+  switch (edit.type) {
+    case 'plist-set':
+      return setPlistKey(content, edit.key, edit.value);
+    case 'plist-append':
+      return appendToPlistArray(content, edit.key, edit.value, edit.comment);
+    case 'build-setting':
+      return setTargetBuildSetting(content, edit.target, edit.key, edit.value);
+  }
+}
@@ -2,3 +2,12 @@
  * Core module exports
  */
 export * from './scanner.js';
+export * from './config.js';
+export * from './plugins.js';
+export * from './baseline.js';
+export * from './fingerprint.js';
+export * from './policy.js';
+export * from './fixer.js';
+export * from './diff.js';
+export * from './privacy-manifest.js';
+export * from './privacy-report.js';
@@ -0,0 +1,224 @@
+/**
+ * Custom rule plugins
+ *
+ * A plugin is a local JS (or TS, when running under a TS-aware loader) module
+ * listed under "plugins" in the config file or passed with --plugin. It can export:
+ * - a Rule, an array of Rules, or { rules: Rule[] } (default or named `rules` export)
+ * - a function receiving the plugin API and returning any of the above
+ *
+ * Loaded rules are registered in ruleRegistry next to the built-in rules until
+ * unloadPlugins() removes them, so one project's plugins do not run on the next.
+ * Problems are reported per plugin instead of aborting the scan.
+ */
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { Rule, PluginError } from '../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../types/index.js';
+import { makeFinding, makeCustomFinding, getRuleOption } from '../rules/base.js';
+import { registerRule, unregisterRule } from '../rules/index.js';
+import { readConfigFile } from './config.js';
+
+/**
+ * Helpers handed to plugin factory functions
+ */
+export const pluginApi = {
+  makeFinding,
+  makeCustomFinding,
+  getRuleOption,
+  Severity,
+  Confidence,
+  RuleCategory,
+};
+
+export type PluginApi = typeof pluginApi;
+
+/**
+ * A plugin that loaded successfully
+ */
+export interface LoadedPlugin {
+  /** Specifier as written in the config file or on the command line */
+  name: string;
+  /** Resolved module path */
+  path: string;
+  /** Rules registered by this plugin */
+  rules: Rule[];
+}
+
+/**
+ * Outcome of loading a set of plugins
+ */
+export interface PluginLoadResult {
+  plugins: LoadedPlugin[];
+  errors: PluginError[];
+}
+
+const SEVERITY_VALUES = new Set<string>(Object.values(Severity));
+const CONFIDENCE_VALUES = new Set<string>(Object.values(Confidence));
+
+/**
+ * Resolve a plugin specifier to a module path
+ *
+ * Relative and absolute paths resolve against baseDir; anything else is
+ * treated as a package name installed next to the project.
+ */
+export function resolvePluginPath(specifier: string, baseDir: string): string {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return path.resolve(baseDir, specifier);
+  }
+  return createRequire(path.join(baseDir, 'noop.js')).resolve(specifier);
+}
+
+/**
+ * Load plugins and register their rules
+ *
+ * @param specifiers Plugin paths or package names
+ * @param baseDir Directory relative specifiers resolve against
+ */
+export async function loadPlugins(specifiers: string[], baseDir: string): Promise<PluginLoadResult> {
+  const result: PluginLoadResult = { plugins: [], errors: [] };
+
+  for (const name of [...new Set(specifiers)]) {
+    let modulePath: string;
+    let exported: unknown;
+    try {
+      modulePath = resolvePluginPath(name, baseDir);
+      // ESM import() takes URLs; a bare Windows path (C:\...) is not one
+      exported = await import(pathToFileURL(modulePath).href);
+    } catch (error) {
+      result.errors.push({ plugin: name, message: `failed to load: ${errorMessage(error)}` });
+      continue;
+    }
+
+    let candidates: unknown[];
+    try {
+      candidates = await extractRules(exported);
+    } catch (error) {
+      result.errors.push({ plugin: name, message: `plugin factory threw: ${errorMessage(error)}` });
+      continue;
+    }
+
+    if (candidates.length === 0) {
+      result.errors.push({ plugin: name, message: 'module does not export any rules' });
+      continue;
+    }
+
+    const rules: Rule[] = [];
+    for (const candidate of candidates) {
+      const problems = validatePluginRule(candidate);
+      const ruleId = isObject(candidate) && typeof candidate.id === 'string' ? candidate.id : undefined;
+      if (problems.length > 0) {
+        result.errors.push({ plugin: name, ruleId, message: `invalid rule: ${problems.join(', ')}` });
+        continue;
+      }
+      try {
+        // Inherit from the plugin's object rather than copying it: class-based
+        // rules keep evaluate() on their prototype
+        const rule: Rule = Object.create(candidate as Rule, { plugin: { value: name, enumerable: true } });
+        rules.push(registerRule(rule));
+      } catch (error) {
+        result.errors.push({ plugin: name, ruleId, message: errorMessage(error) });
+      }
+    }
+
+    result.plugins.push({ name, path: modulePath, rules });
+  }
+
+  return result;
+}
+
+/**
+ * Load the plugins declared in a config file plus extra ones from the command line
+ *
+ * Config entries resolve against the config file's directory, extra ones
+ * against the current working directory.
+ */
+export async function loadConfiguredPlugins(
+  configPath: string | undefined,
+  extra: string[] = []
+): Promise<PluginLoadResult> {
+  const fromConfig: string[] = [];
+  if (configPath) {
+    const raw = readConfigFile(configPath);
+    const plugins = isObject(raw) ? raw.plugins : undefined;
+    // Shape errors are reported by config validation once plugin rules are registered
+    if (Array.isArray(plugins)) {
+      fromConfig.push(...plugins.filter((p): p is string => typeof p === 'string'));
+    }
+  }
+
+  const configResult = fromConfig.length > 0
+    ? await loadPlugins(fromConfig, path.dirname(configPath!))
+    : { plugins: [], errors: [] };
+  const extraResult = extra.length > 0
+    ? await loadPlugins(extra, process.cwd())
+    : { plugins: [], errors: [] };
+
+  return {
+    plugins: [...configResult.plugins, ...extraResult.plugins],
+    errors: [...configResult.errors, ...extraResult.errors],
+  };
+}
+
+/**
+ * Unregister the rules of previously loaded plugins
+ */
+export function unloadPlugins(plugins: LoadedPlugin[]): void {
+  for (const plugin of plugins) {
+    plugin.rules.forEach(unregisterRule);
+  }
+}
+
+/**
+ * Pull rule candidates out of a plugin module's exports
+ */
+async function extractRules(exported: unknown): Promise<unknown[]> {
+  const mod = isObject(exported) ? exported : {};
+  // ESM default export, or CommonJS module.exports surfaced as default
+  let value: unknown = mod.default ?? mod.rules ?? exported;
+
+  if (typeof value === 'function') {
+    value = await (value as (api: PluginApi) => unknown)(pluginApi);
+  }
+  if (isObject(value) && Array.isArray(value.rules)) {
+    value = value.rules;
+  }
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return isObject(value) && 'id' in value ? [value] : [];
+}
+
+/**
+ * Check that a plugin export implements the Rule interface
+ */
+export function validatePluginRule(candidate: unknown): string[] {
+  if (!isObject(candidate)) {
+    return ['not an object'];
+  }
+
+  const problems: string[] = [];
+  for (const key of ['id', 'name', 'description', 'category', 'guidelineReference']) {
+    if (typeof candidate[key] !== 'string' || !(candidate[key] as string).trim()) {
+      problems.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  if (typeof candidate.severity !== 'string' || !SEVERITY_VALUES.has(candidate.severity)) {
+    problems.push(`"severity" must be one of ${[...SEVERITY_VALUES].join(', ')}`);
+  }
+  if (typeof candidate.confidence !== 'string' || !CONFIDENCE_VALUES.has(candidate.confidence)) {
+    problems.push(`"confidence" must be one of ${[...CONFIDENCE_VALUES].join(', ')}`);
+  }
+  if (typeof candidate.evaluate !== 'function') {
+    problems.push('"evaluate" must be a function');
+  }
+  return problems;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
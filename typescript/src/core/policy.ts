@@ -0,0 +1,140 @@
+/**
+ * Failure policy: decides whether a scan passed
+ *
+ * The CLI exit code, the GitHub Action's pass/fail state and
+ * ScanResult.policy all come from evaluatePolicy(), so every entry point
+ * agrees on whether a run passed. A release policy of "fail on critical/high
+ * with high confidence, allow a few medium/low warnings" is:
+ *
+ *   { "failOn": "high", "minConfidence": "high", "maxWarnings": 10 }
+ *
+ * Info findings never fail a run and never count as warnings.
+ */
+import type { FailurePolicy, Finding, PolicyResult, ScanResult } from '../types/index.js';
+import { Severity, Confidence } from '../types/index.js';
+import { InvalidConfigError, validateFailurePolicy } from './config.js';
+import { InvalidBaselineError } from './baseline.js';
+import { InvalidRulesError, NoRulesError, UnknownConfigurationError, InvalidOptionsError } from './scanner.js';
+
+/**
+ * Process exit codes used by the CLI (and reported by the GitHub Action)
+ */
+export enum ExitCode {
+  /** The scan passed the failure policy */
+  Success = 0,
+  /** Findings violate the failure policy */
+  PolicyFailed = 1,
+  /** ShipLint could not complete the scan */
+  ToolError = 2,
+  /** The config file, command-line options, baseline or policy are invalid */
+  InvalidConfig = 3,
+}
+
+/**
+ * Policy used when neither the config file nor the options set one
+ */
+export const DEFAULT_FAILURE_POLICY: PolicyResult['policy'] = {
+  failOn: Severity.Critical,
+  minConfidence: Confidence.Low,
+};
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  [Severity.Info]: 0,
+  [Severity.Low]: 1,
+  [Severity.Medium]: 2,
+  [Severity.High]: 3,
+  [Severity.Critical]: 4,
+};
+
+const CONFIDENCE_RANK: Record<Confidence, number> = {
+  [Confidence.Low]: 0,
+  [Confidence.Medium]: 1,
+  [Confidence.High]: 2,
+};
+
+/**
+ * Error thrown when failure policy options passed to scan() are invalid
+ */
+export class InvalidPolicyError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid failure policy: ${problems.join('; ')}`);
+    this.name = 'InvalidPolicyError';
+  }
+}
+
+/**
+ * Merge the config file's policy with explicit options (options win key by key)
+ */
+export function resolvePolicy(configPolicy?: FailurePolicy, overrides?: FailurePolicy): PolicyResult['policy'] {
+  if (overrides) {
+    const problems = validateFailurePolicy(overrides);
+    if (problems.length > 0) {
+      throw new InvalidPolicyError(problems);
+    }
+  }
+
+  const pick = <K extends keyof FailurePolicy>(key: K) => overrides?.[key] ?? configPolicy?.[key];
+  const maxWarnings = pick('maxWarnings');
+  return {
+    failOn: pick('failOn') ?? DEFAULT_FAILURE_POLICY.failOn,
+    minConfidence: pick('minConfidence') ?? DEFAULT_FAILURE_POLICY.minConfidence,
+    ...(maxWarnings !== undefined ? { maxWarnings } : {}),
+  };
+}
+
+/**
+ * Apply a failure policy to the findings that count (not suppressed or baselined)
+ */
+export function evaluatePolicy(findings: Finding[], policy: PolicyResult['policy'] = DEFAULT_FAILURE_POLICY): PolicyResult {
+  const counted = findings.filter(
+    finding => CONFIDENCE_RANK[finding.confidence] >= CONFIDENCE_RANK[policy.minConfidence]
+  );
+  const failing = policy.failOn === 'none'
+    ? []
+    : counted.filter(finding => SEVERITY_RANK[finding.severity] >= SEVERITY_RANK[policy.failOn as Severity]);
+  const warningCount = counted.filter(
+    finding => finding.severity !== Severity.Info && !failing.includes(finding)
+  ).length;
+
+  const reasons: string[] = [];
+  if (failing.length > 0) {
+    reasons.push(`${failing.length} finding${failing.length === 1 ? '' : 's'} at or above ${policy.failOn} severity`);
+  }
+  if (policy.maxWarnings !== undefined && warningCount > policy.maxWarnings) {
+    reasons.push(`${warningCount} warning${warningCount === 1 ? '' : 's'} (maximum ${policy.maxWarnings})`);
+  }
+
+  return {
+    passed: reasons.length === 0,
+    policy,
+    failingCount: failing.length,
+    warningCount,
+    reasons,
+  };
+}
+
+/**
+ * Exit code for a completed scan
+ */
+export function exitCodeForResult(result: ScanResult): ExitCode {
+  const policy = result.policy ?? evaluatePolicy(result.findings);
+  return policy.passed ? ExitCode.Success : ExitCode.PolicyFailed;
+}
+
+/**
+ * Exit code for a scan that threw
+ */
+export function exitCodeForError(error: unknown): ExitCode {
+  if (
+    error instanceof InvalidConfigError ||
+    error instanceof InvalidBaselineError ||
+    error instanceof InvalidPolicyError ||
+    error instanceof InvalidRulesError ||
+    error instanceof NoRulesError ||
+    error instanceof UnknownConfigurationError ||
+    error instanceof InvalidOptionsError
+  ) {
+    return ExitCode.InvalidConfig;
+  }
+  return ExitCode.ToolError;
+}
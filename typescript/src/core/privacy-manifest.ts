@@ -0,0 +1,227 @@
+/**
+ * Privacy manifest generation for ShipLint
+ *
+ * Builds PrivacyInfo.xcprivacy from what the scan can see: Required Reason
+ * API usage in sources and app binaries, and tracking SDKs among the
+ * dependencies. An existing manifest is merged into (declared categories and
+ * keys are left alone), otherwise a new one is created next to Info.plist:
+ *
+ *   shiplint privacy-manifest generate . --dry-run
+ *   shiplint privacy-manifest generate .
+ *
+ * Reason codes are only pre-selected when the usage leaves no doubt. Every
+ * other decision is written as a TODO comment in the manifest and listed in
+ * the result.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BinaryImage, ScanContext } from '../types/index.js';
+import { discoverProject, cleanupDiscovery, createScanContexts } from '../parsers/project-parser.js';
+import { isBinaryPlist } from '../parsers/bplist-parser.js';
+import { parsePlistString } from '../parsers/plist-parser.js';
+import { setPlistKey, appendToPlistArray } from '../parsers/plist-editor.js';
+import { detectTrackingSDKs } from '../parsers/framework-detector.js';
+import {
+  REQUIRED_REASON_API_CATEGORIES,
+  findSourceFiles,
+  detectRequiredReasonAPIs,
+  detectRequiredReasonAPIsInBinaries,
+  findContextPrivacyManifest,
+  findBinaryPrivacyManifest,
+  inferRequiredReasons,
+  describeRequiredReasons,
+} from '../rules/privacy/required-reason-api.js';
+import { ATTTrackingMismatchRule } from '../rules/privacy/att-tracking-mismatch.js';
+import { getRuleOption } from '../rules/base.js';
+import { allRules } from '../rules/index.js';
+import { resolveConfigPath, loadConfigFile, createSourceFilter } from './config.js';
+import type { ShiplintConfig } from './config.js';
+import { loadConfiguredPlugins, unloadPlugins } from './plugins.js';
+import type { LoadedPlugin } from './plugins.js';
+import { createUnifiedDiff } from './diff.js';
+
+export const PRIVACY_MANIFEST_FILE_NAME = 'PrivacyInfo.xcprivacy';
+
+const EMPTY_MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+</dict>
+</plist>
+`;
+
+/**
+ * Options for generatePrivacyManifest
+ */
+export interface PrivacyManifestOptions {
+  /** Project, workspace or directory to inspect */
+  path: string;
+  /** Manifest to write (default: the app's existing manifest, or one next to Info.plist) */
+  output?: string;
+  /** Config file (default: .shiplintrc or shiplint.config.json in the project root) */
+  config?: string;
+  /** Plugin modules to load before reading the config */
+  plugins?: string[];
+}
+
+/**
+ * An API category added to the manifest
+ */
+export interface GeneratedAPIType {
+  category: string;
+  /** Pre-selected reason codes (empty when a human has to choose) */
+  reasons: string[];
+}
+
+/**
+ * Result of generating a privacy manifest (nothing is written yet)
+ */
+export interface PrivacyManifestGeneration {
+  /** Manifest file to write */
+  path: string;
+  /** Content of the existing manifest, when merging */
+  original?: string;
+  /** New manifest content */
+  content: string;
+  added: GeneratedAPIType[];
+  trackingSDKs: string[];
+  /** Decisions left to a human, also marked as TODO comments in the manifest */
+  todos: string[];
+}
+
+/**
+ * Generate (or merge into) the app's privacy manifest
+ */
+export async function generatePrivacyManifest(options: PrivacyManifestOptions): Promise<PrivacyManifestGeneration> {
+  const discovery = discoverProject(options.path);
+  let plugins: LoadedPlugin[] = [];
+  try {
+    if (discovery.bundle) {
+      throw new Error('privacy manifests can only be generated for projects, not built .ipa or .app bundles');
+    }
+
+    const configPath = resolveConfigPath(discovery.projectPath, options.config);
+    const { plugins: loadedPlugins, errors: pluginErrors } = await loadConfiguredPlugins(configPath, options.plugins);
+    plugins = loadedPlugins;
+    for (const pluginError of pluginErrors) {
+      console.warn(`⚠️  Plugin ${pluginError.plugin}: ${pluginError.message}`);
+    }
+    const config: ShiplintConfig = configPath ? loadConfigFile(configPath, allRules).config : {};
+
+    // The main app target comes first
+    const [context] = createScanContexts(discovery, {
+      configuration: config.configuration,
+      ruleOptions: config.ruleOptions,
+      sourceFilter: createSourceFilter(discovery.projectPath, config.sources),
+    });
+    return buildManifest(context, options.output);
+  } finally {
+    unloadPlugins(plugins);
+    cleanupDiscovery(discovery);
+  }
+}
+
+function buildManifest(context: ScanContext, output?: string): PrivacyManifestGeneration {
+  const manifestPath = path.resolve(output ?? findContextPrivacyManifest(context) ?? defaultManifestPath(context));
+  const original = readManifest(manifestPath);
+  const existing = original !== undefined ? parsePlistString(original) : {};
+
+  let content = original ?? EMPTY_MANIFEST;
+  const todos: string[] = [];
+  const todo = (text: string): string => {
+    todos.push(text);
+    return `TODO: ${text}`;
+  };
+
+  // Tracking
+  const extraPatterns = getRuleOption<string[]>(context, ATTTrackingMismatchRule, 'trackingSDKs') ?? [];
+  const trackingSDKs = detectTrackingSDKs(context.dependencies, extraPatterns);
+  if (trackingSDKs.length > 0) {
+    if (existing.NSPrivacyTracking === undefined) {
+      content = setPlistKey(content, 'NSPrivacyTracking', true, `Tracking SDKs detected: ${trackingSDKs.join(', ')}`);
+    } else if (existing.NSPrivacyTracking !== true) {
+      todos.push(`NSPrivacyTracking is false but tracking SDKs were detected (${trackingSDKs.join(', ')}); check whether the app tracks users`);
+    }
+    if (existing.NSPrivacyTrackingDomains === undefined) {
+      content = setPlistKey(content, 'NSPrivacyTrackingDomains', [],
+        todo(`list the tracking domains contacted by ${trackingSDKs.join(', ')} (see each SDK's documentation)`));
+    }
+  } else if (original === undefined) {
+    content = setPlistKey(content, 'NSPrivacyTracking', false);
+    content = setPlistKey(content, 'NSPrivacyTrackingDomains', []);
+  }
+
+  if (existing.NSPrivacyCollectedDataTypes === undefined) {
+    content = setPlistKey(content, 'NSPrivacyCollectedDataTypes', [],
+      todo('declare the data types the app and its SDKs collect (NSPrivacyCollectedDataTypes)'));
+  }
+
+  // Required Reason APIs
+  const declared = new Set(
+    (Array.isArray(existing.NSPrivacyAccessedAPITypes) ? existing.NSPrivacyAccessedAPITypes : [])
+      .map(entry => (entry as Record<string, unknown>)?.NSPrivacyAccessedAPIType)
+  );
+  const sourceUsage = detectRequiredReasonAPIs(findSourceFiles(context.sourceRoot, context.sourceFilter));
+  const binaryUsage = detectRequiredReasonAPIsInBinaries(appBinaries(context));
+
+  const added: GeneratedAPIType[] = [];
+  for (const category of REQUIRED_REASON_API_CATEGORIES) {
+    const files = sourceUsage.get(category.key) ?? [];
+    const binaries = binaryUsage.get(category.key) ?? [];
+    if ((files.length === 0 && binaries.length === 0) || declared.has(category.key)) continue;
+
+    const reasons = binaries.length === 0 ? inferRequiredReasons(category.key, files) : [];
+    let comment: string | undefined;
+    if (reasons.length === 0) {
+      const usedIn = [...files, ...binaries].slice(0, 3).map(file => path.relative(context.projectPath, file)).join(', ');
+      comment = [
+        todo(`choose NSPrivacyAccessedAPITypeReasons for ${category.key} (used in ${usedIn})`),
+        ...describeRequiredReasons(category),
+      ].join('\n');
+    }
+    content = appendToPlistArray(content, 'NSPrivacyAccessedAPITypes', {
+      NSPrivacyAccessedAPIType: category.key,
+      NSPrivacyAccessedAPITypeReasons: reasons,
+    }, comment);
+    added.push({ category: category.key, reasons });
+  }
+  if (existing.NSPrivacyAccessedAPITypes === undefined && added.length === 0) {
+    content = setPlistKey(content, 'NSPrivacyAccessedAPITypes', []);
+  }
+
+  return { path: manifestPath, original, content, added, trackingSDKs, todos };
+}
+
+/**
+ * Unified diff of the generated manifest, with its path relative to `baseDir`
+ */
+export function formatPrivacyManifestDiff(generation: PrivacyManifestGeneration, baseDir: string): string {
+  const fileName = path.relative(baseDir, generation.path).split(path.sep).join('/');
+  return createUnifiedDiff(fileName, generation.original ?? '', generation.content);
+}
+
+/**
+ * App binaries whose API usage belongs in the app's manifest (SDKs that ship
+ * their own manifest are excluded, as in RequiredReasonAPIRule)
+ */
+function appBinaries(context: ScanContext): BinaryImage[] {
+  return (context.binaries ?? []).filter(binary => !findBinaryPrivacyManifest(context, binary));
+}
+
+function defaultManifestPath(context: ScanContext): string {
+  const dir = context.infoPlistPath ? path.dirname(context.infoPlistPath) : context.sourceRoot;
+  return path.join(dir, PRIVACY_MANIFEST_FILE_NAME);
+}
+
+function readManifest(manifestPath: string): string | undefined {
+  let buffer: Buffer;
+  try {
+    buffer = fs.readFileSync(manifestPath);
+  } catch {
+    return undefined;
+  }
+  if (isBinaryPlist(buffer)) {
+    throw new Error(`${manifestPath} is a binary plist; convert it to XML first (plutil -convert xml1)`);
+  }
+  return buffer.toString('utf-8');
+}
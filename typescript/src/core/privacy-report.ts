@@ -0,0 +1,317 @@
+/**
+ * App privacy report for ShipLint
+ *
+ * Apple merges the app's privacy manifest with the manifests of every SDK it
+ * embeds and shows the result as the app's privacy report in Xcode. This
+ * module builds the same merged view from a project or a built bundle, adds
+ * the commonly used SDKs that ship no manifest, and exports it as JSON or
+ * Markdown for filling in App Store Connect's privacy nutrition labels:
+ *
+ *   shiplint privacy-manifest report .
+ *   shiplint privacy-manifest report MyApp.ipa --format json -o privacy-report.json
+ */
+import * as path from 'path';
+import type { ScanContext } from '../types/index.js';
+import { discoverProject, cleanupDiscovery, createScanContexts } from '../parsers/project-parser.js';
+import { discoverContextPrivacyManifests } from '../parsers/privacy-manifest-discovery.js';
+import type { DiscoveredPrivacyManifest, PrivacyManifestOrigin } from '../parsers/privacy-manifest-discovery.js';
+import { parsePrivacyManifest } from '../parsers/privacy-manifest-parser.js';
+import { findSDKsWithoutPrivacyManifest } from '../rules/privacy/sdk-missing-privacy-manifest.js';
+import type { SDKWithoutPrivacyManifest } from '../rules/privacy/sdk-missing-privacy-manifest.js';
+import { allRules } from '../rules/index.js';
+import { resolveConfigPath, loadConfigFile } from './config.js';
+import type { ShiplintConfig } from './config.js';
+import { loadConfiguredPlugins, unloadPlugins } from './plugins.js';
+import type { LoadedPlugin } from './plugins.js';
+
+/**
+ * Options for createPrivacyReport
+ */
+export interface PrivacyReportOptions {
+  /** Project, workspace, directory, .ipa or .app to inspect */
+  path: string;
+  /** Config file (default: .shiplintrc or shiplint.config.json in the project root) */
+  config?: string;
+  /** Plugin modules to load before reading the config */
+  plugins?: string[];
+}
+
+/**
+ * A manifest that contributed to the report
+ */
+export interface PrivacyReportManifest extends DiscoveredPrivacyManifest {
+  /** Why the manifest could not be read (it contributes nothing) */
+  error?: string;
+}
+
+/**
+ * A collected data type, merged across manifests
+ */
+export interface PrivacyReportDataType {
+  type: string;
+  /** Linked to the user's identity by any manifest */
+  linked: boolean;
+  /** Used for tracking by any manifest */
+  tracking: boolean;
+  purposes: string[];
+  /** Owners of the manifests declaring the type */
+  declaredBy: string[];
+}
+
+/**
+ * A Required Reason API category, merged across manifests
+ */
+export interface PrivacyReportAPIType {
+  category: string;
+  reasons: string[];
+  declaredBy: string[];
+}
+
+/**
+ * The app's privacy manifests merged into one report
+ */
+export interface AppPrivacyReport {
+  /** Scanned app (target or bundle name) */
+  app: string;
+  projectPath: string;
+  manifests: PrivacyReportManifest[];
+  /** Whether any manifest declares NSPrivacyTracking */
+  tracking: boolean;
+  trackingDomains: string[];
+  collectedDataTypes: PrivacyReportDataType[];
+  accessedAPITypes: PrivacyReportAPIType[];
+  /** Commonly used SDKs that ship no manifest of their own */
+  sdksWithoutManifest: SDKWithoutPrivacyManifest[];
+}
+
+const ORIGIN_LABELS: Record<PrivacyManifestOrigin, string> = {
+  'app': 'App',
+  'local-package': 'Local package',
+  'cocoapods': 'CocoaPods',
+  'spm': 'Swift package',
+  'embedded': 'Embedded SDK',
+};
+
+/**
+ * Labels App Store Connect uses where they differ from the split key name
+ */
+const LABEL_OVERRIDES: Record<string, string> = {
+  NSPrivacyCollectedDataTypePhotosorVideos: 'Photos or Videos',
+  NSPrivacyCollectedDataTypePurposeThirdPartyAdvertising: 'Third-Party Advertising',
+};
+
+/**
+ * Build the privacy report of the scanned app (the main target, or the app in a bundle)
+ */
+export async function createPrivacyReport(options: PrivacyReportOptions): Promise<AppPrivacyReport> {
+  const discovery = discoverProject(options.path);
+  let plugins: LoadedPlugin[] = [];
+  try {
+    const configPath = resolveConfigPath(discovery.projectPath, options.config);
+    const { plugins: loadedPlugins, errors: pluginErrors } = await loadConfiguredPlugins(configPath, options.plugins);
+    plugins = loadedPlugins;
+    for (const pluginError of pluginErrors) {
+      console.warn(`⚠️  Plugin ${pluginError.plugin}: ${pluginError.message}`);
+    }
+    const config: ShiplintConfig = configPath ? loadConfigFile(configPath, allRules).config : {};
+
+    const [context] = createScanContexts(discovery, {
+      configuration: config.configuration,
+      ruleOptions: config.ruleOptions,
+    });
+    return buildPrivacyReport(context);
+  } finally {
+    unloadPlugins(plugins);
+    cleanupDiscovery(discovery);
+  }
+}
+
+/**
+ * Merge the privacy manifests of a scan context into a report
+ */
+export function buildPrivacyReport(context: ScanContext): AppPrivacyReport {
+  return {
+    app: context.targetName ?? path.basename(path.resolve(context.projectPath)),
+    projectPath: context.projectPath,
+    ...mergePrivacyManifests(discoverContextPrivacyManifests(context)),
+    sdksWithoutManifest: findSDKsWithoutPrivacyManifest(context),
+  };
+}
+
+/**
+ * Merge privacy manifests the way Apple's privacy report does
+ *
+ * A data type is linked or used for tracking if any manifest says so, and its
+ * purposes are the union of all declared purposes. Invalid entries are skipped;
+ * the privacy manifest validation rules report them.
+ */
+export function mergePrivacyManifests(
+  discovered: DiscoveredPrivacyManifest[]
+): Pick<AppPrivacyReport, 'manifests' | 'tracking' | 'trackingDomains' | 'collectedDataTypes' | 'accessedAPITypes'> {
+  const manifests: PrivacyReportManifest[] = [];
+  let tracking = false;
+  const trackingDomains = new Set<string>();
+  const dataTypes = new Map<string, PrivacyReportDataType>();
+  const apiTypes = new Map<string, PrivacyReportAPIType>();
+
+  for (const manifest of discovered) {
+    const parsed = parsePrivacyManifest(manifest.path);
+    manifests.push(parsed.error ? { ...manifest, error: parsed.error } : manifest);
+    const data = parsed.data;
+    if (!data) continue;
+
+    if (data.NSPrivacyTracking === true) {
+      tracking = true;
+    }
+    for (const domain of strings(data.NSPrivacyTrackingDomains)) {
+      trackingDomains.add(domain);
+    }
+
+    for (const entry of dictionaries(data.NSPrivacyCollectedDataTypes)) {
+      const type = entry.NSPrivacyCollectedDataType;
+      if (typeof type !== 'string') continue;
+      const merged = dataTypes.get(type) ?? { type, linked: false, tracking: false, purposes: [], declaredBy: [] };
+      merged.linked ||= entry.NSPrivacyCollectedDataTypeLinked === true;
+      merged.tracking ||= entry.NSPrivacyCollectedDataTypeTracking === true;
+      addUnique(merged.purposes, strings(entry.NSPrivacyCollectedDataTypePurposes));
+      addUnique(merged.declaredBy, [manifest.owner]);
+      dataTypes.set(type, merged);
+    }
+
+    for (const entry of dictionaries(data.NSPrivacyAccessedAPITypes)) {
+      const category = entry.NSPrivacyAccessedAPIType;
+      if (typeof category !== 'string') continue;
+      const merged = apiTypes.get(category) ?? { category, reasons: [], declaredBy: [] };
+      addUnique(merged.reasons, strings(entry.NSPrivacyAccessedAPITypeReasons));
+      addUnique(merged.declaredBy, [manifest.owner]);
+      apiTypes.set(category, merged);
+    }
+  }
+
+  return {
+    manifests,
+    tracking,
+    trackingDomains: [...trackingDomains].sort(),
+    collectedDataTypes: [...dataTypes.values()].sort((a, b) => a.type.localeCompare(b.type)),
+    accessedAPITypes: [...apiTypes.values()].sort((a, b) => a.category.localeCompare(b.category)),
+  };
+}
+
+/**
+ * JSON export of a report, with paths relative to `baseDir` where possible
+ */
+export function formatPrivacyReportJSON(report: AppPrivacyReport, baseDir: string): string {
+  const relative = (file: string) => displayPath(file, baseDir);
+  return JSON.stringify({
+    ...report,
+    projectPath: relative(report.projectPath),
+    manifests: report.manifests.map(manifest => ({ ...manifest, path: relative(manifest.path) })),
+    sdksWithoutManifest: report.sdksWithoutManifest.map(sdk => ({ ...sdk, path: relative(sdk.path) })),
+  }, null, 2) + '\n';
+}
+
+/**
+ * Markdown export of a report, grouped like App Store Connect's privacy questions
+ */
+export function formatPrivacyReportMarkdown(report: AppPrivacyReport, baseDir: string): string {
+  const lines: string[] = [`# App Privacy Report: ${report.app}`, ''];
+
+  const groups: Array<{ title: string; types: PrivacyReportDataType[] }> = [
+    { title: 'Data Used to Track You', types: report.collectedDataTypes.filter(t => t.tracking) },
+    { title: 'Data Linked to You', types: report.collectedDataTypes.filter(t => t.linked) },
+    { title: 'Data Not Linked to You', types: report.collectedDataTypes.filter(t => !t.linked) },
+  ];
+  for (const { title, types } of groups) {
+    lines.push(`## ${title}`, '');
+    if (types.length === 0) {
+      lines.push('None declared.', '');
+      continue;
+    }
+    lines.push('| Data type | Purposes | Declared by |', '| --- | --- | --- |');
+    for (const type of types) {
+      lines.push(`| ${label(type.type, 'NSPrivacyCollectedDataType')} | ` +
+        `${type.purposes.map(purpose => label(purpose, 'NSPrivacyCollectedDataTypePurpose')).join(', ') || '-'} | ` +
+        `${type.declaredBy.join(', ')} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Tracking', '');
+  lines.push(`NSPrivacyTracking: ${report.tracking ? 'yes' : 'no'}`, '');
+  if (report.trackingDomains.length > 0) {
+    lines.push('Tracking domains:', '', ...report.trackingDomains.map(domain => `- ${domain}`), '');
+  }
+
+  lines.push('## Required Reason APIs', '');
+  if (report.accessedAPITypes.length === 0) {
+    lines.push('None declared.', '');
+  } else {
+    lines.push('| Category | Reasons | Declared by |', '| --- | --- | --- |');
+    for (const api of report.accessedAPITypes) {
+      lines.push(`| ${label(api.category, 'NSPrivacyAccessedAPICategory')} | ${api.reasons.join(', ') || '-'} | ` +
+        `${api.declaredBy.join(', ')} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Privacy Manifests', '');
+  if (report.manifests.length === 0) {
+    lines.push('No privacy manifests found.', '');
+  } else {
+    lines.push('| Source | Owner | Manifest |', '| --- | --- | --- |');
+    for (const manifest of report.manifests) {
+      const error = manifest.error ? ` (unreadable: ${manifest.error})` : '';
+      lines.push(`| ${ORIGIN_LABELS[manifest.origin]} | ${manifest.owner} | \`${displayPath(manifest.path, baseDir)}\`${error} |`);
+    }
+    lines.push('');
+  }
+
+  if (report.sdksWithoutManifest.length > 0) {
+    lines.push('## Commonly Used SDKs Without a Privacy Manifest', '');
+    lines.push('App Store Connect rejects apps embedding these SDKs until they ship their own manifest:', '');
+    for (const sdk of report.sdksWithoutManifest) {
+      lines.push(`- ${sdk.dependency}${sdk.version ? ` ${sdk.version}` : ''} (\`${displayPath(sdk.path, baseDir)}\`)`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Human-readable name of a privacy manifest value (NSPrivacyCollectedDataTypeEmailAddress -> Email Address)
+ */
+function label(value: string, prefix: string): string {
+  if (LABEL_OVERRIDES[value]) return LABEL_OVERRIDES[value];
+  if (!value.startsWith(prefix)) return value;
+  return value.slice(prefix.length)
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\bOr\b/g, 'or');
+}
+
+/**
+ * Path relative to `baseDir`, or absolute when it lies outside
+ */
+function displayPath(file: string, baseDir: string): string {
+  const relative = path.relative(baseDir, file);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return file;
+  return relative.split(path.sep).join('/') || '.';
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function dictionaries(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null && !Array.isArray(item))
+    : [];
+}
+
+function addUnique(target: string[], values: string[]): void {
+  for (const value of values) {
+    if (!target.includes(value)) {
+      target.push(value);
+    }
+  }
+}
@@ -3,11 +3,20 @@
  */
 import * as fs from 'fs';
 import * as path from 'path';
-import type { Rule, Finding, ScanResult, ScanContext, ScanOptions } from '../types/index.js';
-import { discoverProject, createScanContext } from '../parsers/project-parser.js';
-import type { ProjectDiscovery } from '../parsers/project-parser.js';
+import type { Rule, Finding, PluginError, ScanResult, ScanContext, ScanOptions } from '../types/index.js';
+import { discoverProject, createConfigurationContexts, cleanupDiscovery, listBuildConfigurations, selectBuildConfiguration } from '../parsers/project-parser.js';
+import type { ProjectDiscovery, BundleDiscovery } from '../parsers/project-parser.js';
+import { expoKeyLocation } from '../parsers/expo-config-parser.js';
+import type { ExpoConfig } from '../parsers/expo-config-parser.js';
 import { allRules, getRulesWithValidation, getRulesExcluding } from '../rules/index.js';
 import { applySuppression } from './suppression.js';
+import { loadBaseline, applyBaseline } from './baseline.js';
+import { addFingerprints, getFingerprintRoot } from './fingerprint.js';
+import { resolvePolicy, evaluatePolicy } from './policy.js';
+import { resolveConfigPath, loadConfigFile, createSourceFilter } from './config.js';
+import type { ShiplintConfig } from './config.js';
+import { loadConfiguredPlugins, unloadPlugins } from './plugins.js';
+import type { LoadedPlugin } from './plugins.js';
 
 /**
  * Error thrown when invalid rule IDs are specified
@@ -32,20 +41,84 @@ export class NoRulesError extends Error {
   }
 }
 
+/**
+ * Error thrown when the requested build configuration is not in the project
+ */
+export class UnknownConfigurationError extends Error {
+  constructor(public configuration: string, public availableConfigurations: string[]) {
+    super(
+      `Unknown build configuration: ${configuration}. ` +
+      `Available configurations: ${availableConfigurations.join(', ')}`
+    );
+    this.name = 'UnknownConfigurationError';
+  }
+}
+
+/**
+ * Error thrown when scan options contradict each other
+ */
+export class InvalidOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidOptionsError';
+  }
+}
+
 /**
  * Run a scan on the given path
  */
 export async function scan(options: ScanOptions): Promise<ScanResult> {
   const startTime = Date.now();
   
-  // Discover project structure
+  // Discover project structure (IPAs are extracted to a temporary directory)
   const discovery = discoverProject(options.path);
+  let plugins: LoadedPlugin[] = [];
+  try {
+    // Plugins are registered first so the config can refer to their rule IDs
+    const configPath = resolveConfigPath(discovery.projectPath, options.config);
+    const loaded = await loadConfiguredPlugins(configPath, options.plugins);
+    plugins = loaded.plugins;
+    return await scanDiscovery(discovery, configPath, loaded.errors, options, startTime);
+  } finally {
+    // Plugin rules belong to this scan only (the MCP server and library callers scan again)
+    unloadPlugins(plugins);
+    cleanupDiscovery(discovery);
+  }
+}
+
+/**
+ * Run the configured rules against a discovered project or bundle
+ */
+async function scanDiscovery(
+  discovery: ProjectDiscovery,
+  configPath: string | undefined,
+  pluginErrors: PluginError[],
+  options: ScanOptions,
+  startTime: number
+): Promise<ScanResult> {
+  // Load the project config file (.shiplintrc / shiplint.config.json), if any
+  const loadedConfig = configPath ? loadConfigFile(configPath, allRules) : undefined;
+  const config: ShiplintConfig = loadedConfig?.config ?? {};
+  
+  // Read the baseline up front so a bad path fails before the rules run
+  const baselinePath = options.baseline ? path.resolve(options.baseline) : undefined;
+  const baseline = baselinePath ? loadBaseline(baselinePath) : undefined;
+  const policy = resolvePolicy(config.policy, options.policy);
   
-  // Create scan context
-  const context = createScanContext(discovery);
+  // Pick the build configuration(s) to scan (command-line options win over the config file)
+  const availableConfigurations = listBuildConfigurations(discovery);
+  const { configuration: requestedConfiguration, allConfigurations } = resolveConfigurationOptions(config, options);
+  if (requestedConfiguration && availableConfigurations.length > 0 &&
+      !availableConfigurations.some(name => name.toLowerCase() === requestedConfiguration.toLowerCase())) {
+    throw new UnknownConfigurationError(requestedConfiguration, availableConfigurations);
+  }
+  const scanAllConfigurations = allConfigurations && availableConfigurations.length > 0;
+  const configuration = selectBuildConfiguration(availableConfigurations, requestedConfiguration);
+  const configurations = scanAllConfigurations ? availableConfigurations : [configuration ?? requestedConfiguration];
   
-  // Determine which rules to run
+  // Determine which rules to run (command-line selection wins over the config file)
   let rules: Rule[];
+  const excludeIds = [...(config.exclude ?? []), ...(options.exclude ?? [])];
   
   if (options.rules && options.rules.length > 0) {
     // BUG FIX #2: Validate rule IDs and error on unknown
@@ -65,8 +138,16 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     }
     
     rules = foundRules;
-  } else if (options.exclude && options.exclude.length > 0) {
-    rules = getRulesExcluding(options.exclude);
+  } else if (config.rules && config.rules.length > 0) {
+    rules = getRulesWithValidation(config.rules).rules.filter(rule => !excludeIds.includes(rule.id));
+    
+    if (rules.length === 0) {
+      throw new NoRulesError(
+        `No rules left to run. Check "rules" and "exclude" in ${loadedConfig!.path}.`
+      );
+    }
+  } else if (excludeIds.length > 0) {
+    rules = getRulesExcluding(excludeIds);
     
     if (rules.length === 0) {
       throw new NoRulesError(
@@ -74,7 +155,7 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
       );
     }
   } else {
-    rules = allRules;
+    rules = [...allRules];
   }
   
   // Final safety check: never run with zero rules
@@ -84,57 +165,274 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     );
   }
   
-  // Run all rules
-  const findings: Finding[] = [];
-  const rulesRun: string[] = [];
-  const ruleErrors: string[] = [];
+  // Run all rules against every target, once per scanned configuration
+  const sourceFilter = createSourceFilter(discovery.projectPath, config.sources);
+  const failedRuleIds = new Set<string>();
+  const findingsByConfiguration: Finding[][] = [];
   
-  for (const rule of rules) {
-    try {
-      const ruleFindings = await rule.evaluate(context);
-      findings.push(...ruleFindings);
-      rulesRun.push(rule.id);
-    } catch (error) {
-      ruleErrors.push(rule.id);
-      if (options.verbose) {
-        console.error(`Error running rule ${rule.id}:`, error);
-      }
-    }
+  // One scan context per shippable target (main app first) in each configuration
+  const contextsByConfiguration = createConfigurationContexts(discovery, configurations, {
+    ruleOptions: config.ruleOptions,
+    kidsCategory: config.kidsCategory,
+    sourceFilter,
+  });
+  for (const configurationContexts of contextsByConfiguration) {
+    const findings = await runRules(rules, configurationContexts, options, failedRuleIds, pluginErrors);
+    findingsByConfiguration.push(dedupeFindings(findings, configurationContexts));
   }
+  const contexts = contextsByConfiguration.flat();
   
+  const rulesRun = rules.filter(rule => !failedRuleIds.has(rule.id)).map(rule => rule.id);
+  const ruleErrors = rules.filter(rule => failedRuleIds.has(rule.id) && !rule.plugin).map(rule => rule.id);
   if (ruleErrors.length > 0) {
     console.warn(`⚠️  ${ruleErrors.length} rule(s) failed to run: ${ruleErrors.join(', ')}. Use --verbose for details.`);
   }
   
   const duration = Date.now() - startTime;
   
-  // Apply suppression (inline comments + .shiplintignore)
-  const { activeFindings, suppressedFindings } = applySuppression(findings, options.path);
-  
   // Determine project type and framework detection method from discovery
   const projectType = deriveProjectType(discovery);
-  const frameworkDetectionMethod = deriveFrameworkDetectionMethod(discovery, context);
-  const frameworksDetected = [...context.linkedFrameworks].sort();
-  const targetCount = rules.length > 0 ? 1 : 0; // Currently scans main target
+  const projectRoot = getFingerprintRoot({ projectPath: options.path, projectType });
+  
+  let deduped = applySeverityOverrides(
+    scanAllConfigurations
+      ? mergeConfigurationFindings(findingsByConfiguration, availableConfigurations)
+      : findingsByConfiguration[0],
+    config.severity
+  );
+  if (discovery.bundle) {
+    // Built bundles are signed (and IPAs are extracted to a temp dir): never edit them
+    deduped = deduped.map(finding => mapBundleLocation({ ...finding, fixes: undefined }, discovery.bundle!));
+  }
+  if (discovery.expoConfig) {
+    deduped = deduped.map(finding => mapExpoLocation(finding, discovery.expoConfig!));
+  }
+  // Fingerprint every finding (including suppressed ones) once locations are final
+  deduped = addFingerprints(deduped, projectRoot);
+  
+  // Apply suppression (inline comments + .shiplintignore)
+  const suppressionRoot = discovery.bundle ? discovery.projectPath : options.path;
+  const { activeFindings, suppressedFindings } = applySuppression(deduped, suppressionRoot);
+  
+  const frameworkDetectionMethod = deriveFrameworkDetectionMethod(discovery, contexts[0]);
+  const frameworksDetected = [...new Set(contexts.flatMap(c => [...c.linkedFrameworks]))].sort();
+  const targetCount = contextsByConfiguration[0].length;
+  
+  // Findings recorded in the baseline do not count as new
+  const { newFindings, baselinedFindings } = baseline
+    ? applyBaseline(activeFindings, baseline, projectRoot)
+    : { newFindings: activeFindings, baselinedFindings: undefined };
   
   return {
     projectPath: options.path,
     timestamp: new Date(),
-    findings: activeFindings,
+    findings: newFindings,
     suppressedFindings,
+    ...(baselinedFindings ? { baselinedFindings } : {}),
     rulesRun,
     duration,
     projectType,
     frameworkDetectionMethod,
     frameworksDetected,
     targetCount,
+    ...(scanAllConfigurations ? { configurations: availableConfigurations } : configuration ? { configuration } : {}),
+    ...(loadedConfig ? { configPath: loadedConfig.path } : {}),
+    ...(baselinePath ? { baselinePath } : {}),
+    ...(pluginErrors.length > 0 ? { pluginErrors } : {}),
+    policy: evaluatePolicy(newFindings, policy),
   };
 }
 
+/**
+ * Apply per-rule severity overrides from the config file
+ */
+function applySeverityOverrides(findings: Finding[], overrides?: ShiplintConfig['severity']): Finding[] {
+  if (!overrides || Object.keys(overrides).length === 0) {
+    return findings;
+  }
+  return findings.map(finding => {
+    const severity = overrides[finding.ruleId];
+    return severity ? { ...finding, severity } : finding;
+  });
+}
+
+/**
+ * Decide which configuration to scan, or whether to scan them all
+ * 
+ * Either command-line option replaces both config file keys.
+ */
+function resolveConfigurationOptions(
+  config: ShiplintConfig,
+  options: ScanOptions
+): { configuration?: string; allConfigurations: boolean } {
+  if (options.configuration && options.allConfigurations) {
+    throw new InvalidOptionsError('Use either --configuration or --all-configurations, not both');
+  }
+  if (options.configuration || options.allConfigurations) {
+    return { configuration: options.configuration, allConfigurations: !!options.allConfigurations };
+  }
+  return { configuration: config.configuration, allConfigurations: !!config.allConfigurations };
+}
+
+/**
+ * Run each rule against every context, collecting findings tagged with their target
+ * 
+ * Rules that throw are added to failedRuleIds; plugin failures are reported once per rule.
+ */
+async function runRules(
+  rules: Rule[],
+  contexts: ScanContext[],
+  options: ScanOptions,
+  failedRuleIds: Set<string>,
+  pluginErrors: PluginError[]
+): Promise<Finding[]> {
+  const findings: Finding[] = [];
+  for (const rule of rules) {
+    for (const context of contexts) {
+      try {
+        const ruleFindings = await rule.evaluate(context);
+        findings.push(...ruleFindings.map(finding => tagFindingWithTarget(finding, context)));
+      } catch (error) {
+        if (rule.plugin && !failedRuleIds.has(rule.id)) {
+          // Plugin failures are returned in pluginErrors, not folded into the built-in rule warning
+          const message = `threw during evaluation: ${error instanceof Error ? error.message : String(error)}`;
+          pluginErrors.push({ plugin: rule.plugin, ruleId: rule.id, message });
+        }
+        failedRuleIds.add(rule.id);
+        if (options.verbose) {
+          const target = context.targetName ? ` on target ${context.targetName}` : '';
+          console.error(`Error running rule ${rule.id}${target}:`, error);
+        }
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Combine the findings of every scanned configuration, listing the
+ * configurations each finding was reported for
+ */
+function mergeConfigurationFindings(findingsByConfiguration: Finding[][], configurations: string[]): Finding[] {
+  const byKey = new Map<string, Finding>();
+  findingsByConfiguration.forEach((findings, index) => {
+    for (const finding of findings) {
+      const key = [finding.ruleId, finding.targetName ?? '', finding.title, finding.description, finding.location ?? '', finding.line ?? ''].join('\u0000');
+      const existing = byKey.get(key);
+      if (existing) {
+        existing.configurations!.push(configurations[index]);
+      } else {
+        byKey.set(key, { ...finding, configurations: [configurations[index]] });
+      }
+    }
+  });
+  return [...byKey.values()];
+}
+
+/**
+ * Point finding locations inside an extracted IPA back at the archive
+ * (e.g. /tmp/shiplint-ipa-x/Payload/App.app/Info.plist → App.ipa/Payload/App.app/Info.plist)
+ * 
+ * Locations are relative to the IPA's directory (the fingerprint root), so the
+ * same archive scanned from another working directory keeps its fingerprints.
+ */
+function mapBundleLocation(finding: Finding, bundle: BundleDiscovery): Finding {
+  if (!bundle.tempDir || !finding.location?.startsWith(bundle.tempDir + path.sep)) {
+    return finding;
+  }
+  const inArchive = path.relative(bundle.tempDir, finding.location).split(path.sep).join('/');
+  return { ...finding, location: `${path.basename(bundle.inputPath)}/${inArchive}` };
+}
+
+/**
+ * Info.plist and entitlements keys named in a finding's text
+ */
+const PLIST_KEY_PATTERN = new RegExp([
+  '\\bNS[A-Za-z]+(?:UsageDescription|Security|Services)\\b',
+  '\\bUI(?:BackgroundModes|LaunchStoryboardName|LaunchScreen|SupportedInterfaceOrientations|RequiredDeviceCapabilities)\\b',
+  '\\b(?:ITSAppUsesNonExemptEncryption|LSApplicationQueriesSchemes|BGTaskSchedulerPermittedIdentifiers)\\b',
+  '\\bSKExternalPurchase[A-Za-z]*\\b',
+  '\\bCFBundle[A-Za-z]+\\b',
+  '\\bcom\\.apple\\.[\\w.-]*\\w',
+].join('|'));
+
+/**
+ * Point findings on the Info.plist or entitlements Expo generates at the path
+ * in app.json that sets (or should set) the key. The generated files can't be
+ * edited, so their fixes are dropped.
+ */
+function mapExpoLocation(finding: Finding, expoConfig: ExpoConfig): Finding {
+  if (finding.location !== expoConfig.path) {
+    return finding;
+  }
+  const fixKey = finding.fixes?.flatMap(fix => fix.type === 'build-setting' ? [] : [fix.key])[0];
+  const key = fixKey ?? `${finding.title}\n${finding.description}`.match(PLIST_KEY_PATTERN)?.[0];
+  const source = key ? expoKeyLocation(expoConfig, key) : expoConfig.infoPlistSource;
+  return {
+    ...finding,
+    location: source.file,
+    line: source.line,
+    description: `${finding.description}\n\nExpo generates this app's Info.plist and entitlements from ` +
+      `${path.basename(source.file)}; the setting belongs at ${source.jsonPath}.`,
+    fixes: undefined,
+  };
+}
+
+/**
+ * Attach the context's target identity to a finding
+ */
+function tagFindingWithTarget(finding: Finding, context: ScanContext): Finding {
+  if (!context.targetName) {
+    return finding;
+  }
+  return {
+    ...finding,
+    targetName: finding.targetName ?? context.targetName,
+    productType: finding.productType ?? context.productType,
+  };
+}
+
+/**
+ * Collapse identical findings reported by several targets
+ * 
+ * Source scans produce the same finding for every target whose source root
+ * covers the file. The copy from the target with the most specific source root
+ * wins, so a widget's source file is attributed to the widget rather than the
+ * app that contains it. Findings without a source line, or located at a
+ * target's own Info.plist or entitlements, stay separate per target.
+ */
+function dedupeFindings(findings: Finding[], contexts: ScanContext[]): Finding[] {
+  const contextByTarget = new Map(contexts.map(c => [c.targetName, c]));
+  const specificity = (finding: Finding) => contextByTarget.get(finding.targetName)?.sourceRoot.length ?? 0;
+  const isSharedSourceLocation = (finding: Finding) => {
+    const context = contextByTarget.get(finding.targetName);
+    return finding.line !== undefined &&
+      !!finding.location && path.isAbsolute(finding.location) &&
+      finding.location !== context?.infoPlistPath &&
+      finding.location !== context?.entitlementsPath;
+  };
+  
+  const byKey = new Map<string, Finding>();
+  for (const finding of findings) {
+    const key = [
+      finding.ruleId, finding.title, finding.description, finding.location ?? '', finding.line ?? '',
+      isSharedSourceLocation(finding) ? '' : finding.targetName ?? '',
+    ].join('\u0000');
+    const existing = byKey.get(key);
+    if (!existing || specificity(finding) > specificity(existing)) {
+      byKey.set(key, finding);
+    }
+  }
+  return [...byKey.values()];
+}
+
 /**
  * Derive project type from discovery info
  */
-function deriveProjectType(discovery: ProjectDiscovery): 'xcodeproj' | 'swiftpm' | 'both' | 'unknown' {
+function deriveProjectType(discovery: ProjectDiscovery): ScanResult['projectType'] {
+  if (discovery.bundle) return discovery.bundle.kind;
+  if (discovery.crossPlatform) return discovery.crossPlatform.kind;
+  
   const hasXcodeproj = !!discovery.pbxprojPath;
   
   // Check for Package.swift in project directory
@@ -3,16 +3,30 @@
  */
 import type { ScanResult } from '../types/index.js';
 
+/**
+ * Add new vs. baselined counts when the scan used a baseline
+ */
+function withBaselineCounts(result: ScanResult): ScanResult | (ScanResult & { baselineCounts: { new: number; baselined: number } }) {
+  if (!result.baselinedFindings) return result;
+  return {
+    ...result,
+    baselineCounts: {
+      new: result.findings.length,
+      baselined: result.baselinedFindings.length,
+    },
+  };
+}
+
 /**
  * Format scan results as JSON
  */
 export function formatJSON(result: ScanResult): string {
-  return JSON.stringify(result, null, 2);
+  return JSON.stringify(withBaselineCounts(result), null, 2);
 }
 
 /**
  * Format scan results as compact JSON (single line)
  */
 export function formatJSONCompact(result: ScanResult): string {
-  return JSON.stringify(result);
+  return JSON.stringify(withBaselineCounts(result));
 }
@@ -16,6 +16,11 @@ import packageJson from '../../package.json';
 const SARIF_VERSION = '2.1.0';
 const SARIF_SCHEMA = 'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json';
 
+/**
+ * partialFingerprints key for ShipLint's stable finding fingerprint
+ */
+const FINGERPRINT_KEY = 'shiplintFingerprint/v1';
+
 /**
  * Convert severity to SARIF level
  */
@@ -34,18 +39,32 @@ function toSarifLevel(severity: Severity): 'error' | 'warning' | 'note' | 'none'
 
 /**
  * Convert finding to SARIF result
+ * 
+ * When the scan used a baseline, new findings are marked `baselineState: new`;
+ * baselined ones are `unchanged` and carry an external suppression so viewers
+ * hide them by default.
  */
-function toSarifResult(finding: Finding) {
+function toSarifResult(finding: Finding, baselineState?: 'new' | 'unchanged', baselinePath?: string) {
   const result: Record<string, unknown> = {
     ruleId: finding.ruleId,
     level: toSarifLevel(finding.severity),
     message: {
       text: finding.description,
     },
+    ...(finding.fingerprint && {
+      partialFingerprints: { [FINGERPRINT_KEY]: finding.fingerprint },
+    }),
+    ...(baselineState && { baselineState }),
+    ...(baselineState === 'unchanged' && {
+      suppressions: [{ kind: 'external', justification: `Recorded in baseline ${baselinePath}` }],
+    }),
     properties: {
       confidence: finding.confidence,
       guideline: finding.guideline,
       fixGuidance: finding.fixGuidance,
+      ...(finding.targetName && { targetName: finding.targetName }),
+      ...(finding.productType && { productType: finding.productType }),
+      ...(finding.configurations && { configurations: finding.configurations }),
     },
   };
   
@@ -96,6 +115,14 @@ function buildRules(findings: Finding[]) {
  * Format scan results as SARIF
  */
 export function formatSARIF(result: ScanResult): string {
+  const baselined = result.baselinedFindings;
+  const results = baselined
+    ? [
+      ...result.findings.map(finding => toSarifResult(finding, 'new')),
+      ...baselined.map(finding => toSarifResult(finding, 'unchanged', result.baselinePath)),
+    ]
+    : result.findings.map(finding => toSarifResult(finding));
+  
   const sarif = {
     $schema: SARIF_SCHEMA,
     version: SARIF_VERSION,
@@ -106,14 +133,31 @@ export function formatSARIF(result: ScanResult): string {
             name: 'ShipLint',
             version: packageJson.version,
             informationUri: 'https://github.com/Signal26AI/ShipLint',
-            rules: buildRules(result.findings),
+            rules: buildRules([...result.findings, ...(baselined ?? [])]),
           },
         },
-        results: result.findings.map(toSarifResult),
+        results,
+        ...((baselined || result.configuration || result.configurations) && {
+          properties: {
+            ...(result.configuration && { configuration: result.configuration }),
+            ...(result.configurations && { configurations: result.configurations }),
+            ...(baselined && {
+              newFindings: result.findings.length,
+              baselinedFindings: baselined.length,
+            }),
+          },
+        }),
         invocations: [
           {
             executionSuccessful: true,
             endTimeUtc: result.timestamp.toISOString(),
+            ...(result.pluginErrors?.length ? {
+              toolExecutionNotifications: result.pluginErrors.map(pluginError => ({
+                level: 'error',
+                message: { text: `Plugin ${pluginError.plugin}: ${pluginError.message}` },
+                ...(pluginError.ruleId ? { associatedRule: { id: pluginError.ruleId } } : {}),
+              })),
+            } : {}),
           },
         ],
       },
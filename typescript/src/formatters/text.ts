@@ -5,7 +5,7 @@
 import * as path from 'path';
 import type { ScanResult, Finding } from '../types/index.js';
 import { Severity } from '../types/index.js';
-import { allRules } from '../rules/index.js';
+import { getRule } from '../rules/index.js';
 import packageJson from '../../package.json';
 
 // Dynamic import for chalk (ESM)
@@ -41,8 +41,6 @@ const FINDING_ORDER: Record<Severity, number> = {
   [Severity.Info]: 4,
 };
 
-const RULE_NAME_BY_ID = new Map(allRules.map((rule) => [rule.id, rule.name]));
-
 const PASSED_LABEL_OVERRIDES: Record<string, string> = {
   'privacy-001-missing-camera-purpose': 'Camera usage description present',
   'privacy-002-missing-location-purpose': 'Location usage descriptions present',
@@ -54,14 +52,52 @@ const PASSED_LABEL_OVERRIDES: Record<string, string> = {
   'privacy-008-missing-bluetooth-purpose': 'Bluetooth usage description present',
   'privacy-009-missing-face-id-purpose': 'Face ID usage description present',
   'privacy-010-required-reason-api': 'Required-reason API declarations present',
+  'privacy-011-malformed-privacy-manifest': 'Privacy manifest well-formed',
+  'privacy-012-invalid-required-reason-declaration': 'Privacy manifest reason codes valid',
+  'privacy-013-tracking-without-domains': 'Tracking domains declared',
+  'privacy-014-invalid-collected-data-type': 'Collected data types valid',
+  'privacy-015-sdk-missing-privacy-manifest': 'Commonly used SDKs ship privacy manifests',
+  'privacy-016-missing-calendars-purpose': 'Calendars usage descriptions present',
+  'privacy-017-missing-reminders-purpose': 'Reminders usage description present',
+  'privacy-018-missing-health-purpose': 'HealthKit usage descriptions present',
+  'privacy-019-missing-motion-purpose': 'Motion usage description present',
+  'privacy-020-missing-speech-recognition-purpose': 'Speech recognition usage description present',
+  'privacy-021-missing-homekit-purpose': 'HomeKit usage description present',
+  'privacy-022-missing-siri-purpose': 'Siri usage description present',
+  'privacy-023-missing-apple-music-purpose': 'Apple Music usage description present',
+  'privacy-024-missing-nfc-purpose': 'NFC usage description present',
+  'privacy-025-missing-local-network-purpose': 'Local network usage description and Bonjour services present',
+  'privacy-026-missing-focus-status-purpose': 'Focus status usage description present',
+  'privacy-027-missing-nearby-interaction-purpose': 'Nearby interaction usage description present',
+  'privacy-028-missing-photo-library-add-purpose': 'Photo library add usage description present',
   'auth-001-third-party-login-no-siwa': 'Sign in with Apple compliance OK',
+  'auth-002-missing-account-deletion': 'Account deletion offered',
+  'auth-003-siwa-token-revocation': 'Sign in with Apple tokens revocable',
+  'auth-004-custom-apple-sign-in-button': 'Sign in with Apple uses the system button',
+  'auth-005-siwa-redundant-scope-prompt': 'Sign in with Apple data not requested again',
   'metadata-001-missing-privacy-manifest': 'Privacy manifest assets present',
   'metadata-002-missing-supported-orientations': 'Supported orientations configured',
+  'metadata-003-unsigned-sdk-xcframework': 'Commonly used binary SDKs signed',
+  'entitlements-001-push-notification-mismatch': 'Push notification configuration consistent',
+  'entitlements-002-background-mode-capability': 'Background modes valid and entitled',
+  'entitlements-003-malformed-associated-domains': 'Associated domains well-formed',
+  'entitlements-004-healthkit-capability-mismatch': 'HealthKit capability consistent',
+  'entitlements-005-container-identifier-prefix': 'App Group and iCloud identifiers valid',
+  'entitlements-006-unjustified-background-mode': 'Background modes backed by code',
+  'payments-001-external-payment-sdk': 'Digital goods sold with in-app purchase',
+  'payments-002-external-purchase-link': 'External purchase links entitled',
+  'payments-003-missing-restore-purchases': 'Restore purchases available',
+  'payments-004-store-product-view-misuse': 'Store product sheet presented correctly',
+  'kids-001-third-party-analytics': 'No third-party analytics or ads in kids app',
+  'kids-002-advertising-identifier': 'No advertising identifier or tracking in kids app',
+  'kids-003-unguarded-external-link': 'External links behind a parental gate',
+  'kids-004-personal-data-permission': 'No contacts or location access in kids app',
   'config-001-ats-exception-without-justification': 'ATS exceptions justified',
   'config-002-missing-encryption-flag': 'Export compliance flag configured',
   'config-003-missing-launch-storyboard': 'Launch storyboard configured',
   'code-001-private-api-usage': 'No private API usage detected',
   'code-003-dynamic-code-execution': 'No dynamic code execution detected',
+  'code-004-hot-code-push': 'No hot code push detected',
 };
 
 function getIconForSeverity(severity: Severity): string {
@@ -155,7 +191,8 @@ function displayProjectName(projectPath: string): string {
 }
 
 function fallbackPassedLabel(ruleId: string): string {
-  const ruleName = RULE_NAME_BY_ID.get(ruleId) ?? ruleId;
+  // Looked up at format time so plugin rules registered after import are found
+  const ruleName = getRule(ruleId)?.name ?? ruleId;
 
   if (ruleName.startsWith('Missing ')) {
     return `${ruleName.replace(/^Missing\s+/, '')} present`;
@@ -188,13 +225,23 @@ function getPassedRuleIds(result: ScanResult): string[] {
   return passed;
 }
 
-async function formatFinding(finding: Finding, verbose: boolean): Promise<string[]> {
+async function formatFinding(
+  finding: Finding,
+  verbose: boolean,
+  showTarget: boolean = false,
+  scannedConfigurations: string[] = []
+): Promise<string[]> {
   const c = await getChalk();
   const color = getSeverityColor(c, finding.severity);
   const icon = getIconForSeverity(finding.severity);
+  const target = showTarget && finding.targetName ? c.dim(` [${finding.targetName}]`) : '';
+  // Only worth noting when the finding does not apply to every scanned configuration
+  const configurations = finding.configurations && finding.configurations.length < scannedConfigurations.length
+    ? c.dim(` [${finding.configurations.join(', ')}]`)
+    : '';
 
   const lines: string[] = [];
-  lines.push(`  ${color(`${icon} ${finding.title}`)}`);
+  lines.push(`  ${color(`${icon} ${finding.title}`)}${target}${configurations}`);
   lines.push(`    ${color(`→ ${shortExplanation(finding)}`)}`);
 
   if (!verbose) {
@@ -246,9 +293,11 @@ export async function formatText(result: ScanResult, options: TextFormatOptions
   const warningCount = result.findings.filter((finding) => finding.severity === Severity.Medium).length;
 
   const lines: string[] = [];
-  lines.push(`${brandColor(c)(`ShipLint v${version}`)} — scanning ${displayProjectName(result.projectPath)}`);
+  const scannedConfigurations = result.configurations ?? (result.configuration ? [result.configuration] : []);
+  const configurationNote = scannedConfigurations.length > 0 ? ` (${scannedConfigurations.join(', ')})` : '';
+  lines.push(`${brandColor(c)(`ShipLint v${version}`)} — scanning ${displayProjectName(result.projectPath)}${configurationNote}`);
   if (verbose) {
-    lines.push(c.dim(`  ${result.timestamp.toISOString()} · ${result.duration}ms · ${result.rulesRun.length} rules`));
+    lines.push(c.dim(`  ${result.timestamp.toISOString()} · ${result.duration}ms · ${result.rulesRun.length} rules · ${result.targetCount} target${result.targetCount === 1 ? '' : 's'}`));
   }
   lines.push('');
 
@@ -256,7 +305,7 @@ export async function formatText(result: ScanResult, options: TextFormatOptions
 
   for (let i = 0; i < sortedFindings.length; i++) {
     const finding = sortedFindings[i];
-    lines.push(...(await formatFinding(finding, verbose)));
+    lines.push(...(await formatFinding(finding, verbose, result.targetCount > 1, result.configurations)));
     if (i < sortedFindings.length - 1) {
       if (verbose) {
         lines.push('────────────────────────────────────────');
@@ -270,11 +319,24 @@ export async function formatText(result: ScanResult, options: TextFormatOptions
     lines.push('');
   }
 
+  for (const pluginError of result.pluginErrors ?? []) {
+    const rule = pluginError.ruleId ? ` (${pluginError.ruleId})` : '';
+    lines.push(c.yellow(`  ⚠ Plugin ${pluginError.plugin}${rule}: ${pluginError.message}`));
+  }
+  if (result.pluginErrors?.length) {
+    lines.push('');
+  }
+
+  // With a baseline, the findings shown are the new ones; baselined ones are only counted
+  const baselinedCount = result.baselinedFindings?.length;
+  const fresh = baselinedCount !== undefined ? 'new ' : '';
+
   const parts: string[] = [];
-  if (errorCount > 0) parts.push(c.red(`${errorCount} error${errorCount === 1 ? '' : 's'}`));
-  if (warningCount > 0) parts.push(c.yellow(`${warningCount} warning${warningCount === 1 ? '' : 's'}`));
-  if (errorCount === 0 && warningCount === 0) parts.push(brandColor(c)('No issues found'));
+  if (errorCount > 0) parts.push(c.red(`${errorCount} ${fresh}error${errorCount === 1 ? '' : 's'}`));
+  if (warningCount > 0) parts.push(c.yellow(`${warningCount} ${fresh}warning${warningCount === 1 ? '' : 's'}`));
+  if (errorCount === 0 && warningCount === 0) parts.push(brandColor(c)(fresh ? 'No new issues' : 'No issues found'));
   if (passedCount > 0) parts.push(brandColor(c)(`${passedCount} passed`));
+  if (baselinedCount !== undefined) parts.push(c.dim(`${baselinedCount} baselined`));
   lines.push(parts.join(' \u00b7 '));
 
   if (sortedFindings.length > 0) {
@@ -17,6 +17,8 @@ export {
   getRule, 
   getRules, 
   getRulesExcluding,
+  registerRule,
+  unregisterRule,
   MissingCameraPurposeRule,
   MissingLocationPurposeRule,
   LocationAlwaysUnjustifiedRule,
@@ -27,6 +29,21 @@ export {
 // Core
 export { scan, scanWithContext } from './core/scanner.js';
 export { applySuppression, parseShiplintIgnore, loadShiplintIgnore } from './core/suppression.js';
+export { loadConfig, loadConfigFile, findConfigFile, validateConfig, InvalidConfigError, CONFIG_FILE_NAMES } from './core/config.js';
+export type { ShiplintConfig, LoadedConfig } from './core/config.js';
+export { loadPlugins, loadConfiguredPlugins, unloadPlugins, pluginApi } from './core/plugins.js';
+export type { PluginApi, LoadedPlugin, PluginLoadResult } from './core/plugins.js';
+export { createBaseline, loadBaseline, writeBaseline, applyBaseline, InvalidBaselineError, BASELINE_FILE_NAME } from './core/baseline.js';
+export { fingerprintFinding, getFingerprintRoot } from './core/fingerprint.js';
+export type { Baseline, BaselineEntry, BaselineResult } from './core/baseline.js';
+export { evaluatePolicy, resolvePolicy, exitCodeForResult, exitCodeForError, ExitCode, InvalidPolicyError, DEFAULT_FAILURE_POLICY } from './core/policy.js';
+export { collectFixes, planFixes, writeFixPlan, formatFixDiff } from './core/fixer.js';
+export type { FilePatch, FixPlan } from './core/fixer.js';
+export { createUnifiedDiff } from './core/diff.js';
+export { generatePrivacyManifest, formatPrivacyManifestDiff, PRIVACY_MANIFEST_FILE_NAME } from './core/privacy-manifest.js';
+export type { PrivacyManifestOptions, PrivacyManifestGeneration, GeneratedAPIType } from './core/privacy-manifest.js';
+export { createPrivacyReport, buildPrivacyReport, mergePrivacyManifests, formatPrivacyReportJSON, formatPrivacyReportMarkdown } from './core/privacy-report.js';
+export type { PrivacyReportOptions, AppPrivacyReport, PrivacyReportManifest, PrivacyReportDataType, PrivacyReportAPIType } from './core/privacy-report.js';
 
 // Formatters
 export { format, formatText, formatJSON, formatSARIF, formatXcode } from './formatters/index.js';
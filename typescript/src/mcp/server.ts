@@ -7,9 +7,13 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { scan, InvalidRulesError, NoRulesError } from '../core/scanner.js';
+import { scan, InvalidRulesError, NoRulesError, UnknownConfigurationError, InvalidOptionsError } from '../core/scanner.js';
+import { InvalidConfigError, resolveConfigPath } from '../core/config.js';
+import { loadConfiguredPlugins, unloadPlugins } from '../core/plugins.js';
+import type { LoadedPlugin } from '../core/plugins.js';
 import { allRules, getRule } from '../rules/index.js';
 import { Severity } from '../types/index.js';
+import type { PluginError } from '../types/index.js';
 import { ping, buildEnhancedPayload } from '../cli/analytics.js';
 import { evaluatePurposeString, getContextualSuggestion } from './sampling.js';
 import packageJson from '../../package.json';
@@ -63,9 +67,13 @@ export function createMcpServer(): McpServer {
       description: 'Scan an iOS/Xcode project for potential App Store Review issues. ' +
         'Returns findings with severity, descriptions, and fix guidance.',
       inputSchema: {
-        path: z.string().describe('Path to Xcode project, workspace, or directory to scan'),
+        path: z.string().describe('Path to Xcode project, workspace, directory, .ipa or .app bundle to scan'),
         rules: z.array(z.string()).optional().describe('Only run specific rules (by ID). If omitted, runs all rules.'),
         exclude: z.array(z.string()).optional().describe('Exclude specific rules (by ID)'),
+        config: z.string().optional().describe('Path to a config file. If omitted, .shiplintrc or shiplint.config.json in the project root is used.'),
+        plugins: z.array(z.string()).optional().describe('Extra plugin modules with custom rules (absolute paths)'),
+        configuration: z.string().optional().describe('Build configuration to scan (default: Release)'),
+        allConfigurations: z.boolean().optional().describe('Scan every build configuration and list which ones each finding applies to'),
       },
       outputSchema: {
         findings: z.array(z.object({
@@ -78,7 +86,12 @@ export function createMcpServer(): McpServer {
           guideline: z.string(),
           fixGuidance: z.string(),
           documentationURL: z.string().optional(),
+          targetName: z.string().optional(),
+          productType: z.string().optional(),
+          configurations: z.array(z.string()).optional(),
         })),
+        configuration: z.string().optional(),
+        configurations: z.array(z.string()).optional(),
         summary: z.object({
           total: z.number(),
           critical: z.number(),
@@ -89,14 +102,31 @@ export function createMcpServer(): McpServer {
           rulesRun: z.number(),
           durationMs: z.number(),
         }),
+        pluginErrors: z.array(z.object({
+          plugin: z.string(),
+          ruleId: z.string().optional(),
+          message: z.string(),
+        })).optional(),
       },
     },
-    async ({ path, rules, exclude }: { path: string; rules?: string[]; exclude?: string[] }) => {
+    async ({ path, rules, exclude, config, plugins, configuration, allConfigurations }: {
+      path: string;
+      rules?: string[];
+      exclude?: string[];
+      config?: string;
+      plugins?: string[];
+      configuration?: string;
+      allConfigurations?: boolean;
+    }) => {
       try {
         const result = await scan({
           path,
           rules,
           exclude,
+          config,
+          plugins,
+          configuration,
+          allConfigurations,
         });
 
         // Compute summary
@@ -169,7 +199,10 @@ export function createMcpServer(): McpServer {
 
         const structuredContent = {
           findings: enhancedFindings,
+          ...(result.configuration ? { configuration: result.configuration } : {}),
+          ...(result.configurations ? { configurations: result.configurations } : {}),
           summary,
+          ...(result.pluginErrors ? { pluginErrors: result.pluginErrors } : {}),
         };
 
         return {
@@ -193,7 +226,18 @@ export function createMcpServer(): McpServer {
             isError: true,
           };
         }
-        if (error instanceof NoRulesError) {
+        if (error instanceof InvalidConfigError) {
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: `Invalid config file ${error.configPath}:\n${error.problems.map(p => `- ${p}`).join('\n')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        if (error instanceof NoRulesError || error instanceof UnknownConfigurationError || error instanceof InvalidOptionsError) {
           return {
             content: [
               {
@@ -214,7 +258,12 @@ export function createMcpServer(): McpServer {
   server.registerTool(
     'shiplint_rules',
     {
-      description: 'List all available ShipLint rules with their IDs, categories, and severities.',
+      description: 'List all available ShipLint rules with their IDs, categories, and severities. ' +
+        'Pass a project path to include custom rules from plugins declared in its config file.',
+      inputSchema: {
+        path: z.string().optional().describe('Project directory whose config file plugins should be loaded'),
+        plugins: z.array(z.string()).optional().describe('Extra plugin modules with custom rules (absolute paths)'),
+      },
       outputSchema: {
         rules: z.array(z.object({
           id: z.string(),
@@ -222,19 +271,46 @@ export function createMcpServer(): McpServer {
           category: z.string(),
           severity: z.enum(['critical', 'high', 'medium', 'low', 'info']),
           guideline: z.string(),
+          plugin: z.string().optional(),
         })),
+        pluginErrors: z.array(z.object({
+          plugin: z.string(),
+          ruleId: z.string().optional(),
+          message: z.string(),
+        })).optional(),
       },
     },
-    async () => {
+    async ({ path, plugins }: { path?: string; plugins?: string[] }) => {
+      let loadedPlugins: LoadedPlugin[] = [];
+      let pluginErrors: PluginError[] = [];
+      try {
+        const configPath = path ? resolveConfigPath(path) : undefined;
+        ({ plugins: loadedPlugins, errors: pluginErrors } = await loadConfiguredPlugins(configPath, plugins));
+      } catch (error) {
+        if (error instanceof InvalidConfigError) {
+          return {
+            content: [{ type: 'text' as const, text: error.message }],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+
       const rules = allRules.map(rule => ({
         id: rule.id,
         name: rule.name,
         category: rule.category,
         severity: rule.severity,
         guideline: rule.guidelineReference,
+        ...(rule.plugin ? { plugin: rule.plugin } : {}),
       }));
+      // The server lists other projects' rules next
+      unloadPlugins(loadedPlugins);
 
-      const structuredContent = { rules };
+      const structuredContent = {
+        rules,
+        ...(pluginErrors.length > 0 ? { pluginErrors } : {}),
+      };
 
       return {
         content: [
@@ -0,0 +1,181 @@
+/**
+ * Parser for binary property lists (bplist00)
+ *
+ * Xcode compiles Info.plist (and usually other plists) to the binary format
+ * when building, so bundles taken from an archive or IPA need this decoder.
+ *
+ * Format: "bplist00" header, object table, offset table, 32-byte trailer.
+ * See CFBinaryPList.c in CoreFoundation for the reference implementation.
+ */
+
+const HEADER = 'bplist00';
+const TRAILER_SIZE = 32;
+
+/** Seconds between the Unix epoch and the Core Data epoch (2001-01-01) */
+const CF_EPOCH_OFFSET = 978307200;
+
+/**
+ * Keyed archiver UID value
+ */
+export interface PlistUID {
+  UID: number;
+}
+
+/**
+ * Whether a buffer holds a binary plist
+ */
+export function isBinaryPlist(buffer: Buffer): boolean {
+  return buffer.length >= HEADER.length && buffer.toString('latin1', 0, HEADER.length) === HEADER;
+}
+
+/**
+ * Decode a binary plist into plain JS values
+ *
+ * dict → object, array/set → array, string → string, int/real → number,
+ * bool → boolean, date → Date, data → Buffer, UID → { UID }.
+ */
+export function parseBinaryPlist(buffer: Buffer): unknown {
+  if (!isBinaryPlist(buffer)) {
+    throw new Error('Not a binary plist (missing bplist00 header)');
+  }
+  if (buffer.length < HEADER.length + TRAILER_SIZE) {
+    throw new Error('Binary plist is truncated');
+  }
+
+  const trailer = buffer.length - TRAILER_SIZE;
+  const offsetSize = buffer[trailer + 6];
+  const refSize = buffer[trailer + 7];
+  const numObjects = readUInt(buffer, trailer + 8, 8);
+  const topObject = readUInt(buffer, trailer + 16, 8);
+  const offsetTableOffset = readUInt(buffer, trailer + 24, 8);
+
+  if (offsetSize < 1 || offsetSize > 8 || refSize < 1 || refSize > 8) {
+    throw new Error('Binary plist has an invalid trailer');
+  }
+  if (topObject >= numObjects || offsetTableOffset + numObjects * offsetSize > trailer) {
+    throw new Error('Binary plist offset table is out of range');
+  }
+
+  const objectOffset = (ref: number): number => {
+    if (ref >= numObjects) {
+      throw new Error(`Binary plist object reference ${ref} is out of range`);
+    }
+    const offset = readUInt(buffer, offsetTableOffset + ref * offsetSize, offsetSize);
+    if (offset < HEADER.length || offset >= offsetTableOffset) {
+      throw new Error(`Binary plist object ${ref} has an invalid offset`);
+    }
+    return offset;
+  };
+
+  // Object references form a DAG; `stack` guards against malicious cycles
+  const parseObject = (ref: number, stack: Set<number>): unknown => {
+    if (stack.has(ref)) {
+      throw new Error('Binary plist contains a reference cycle');
+    }
+
+    const offset = objectOffset(ref);
+    const marker = buffer[offset];
+    const type = marker >> 4;
+    const info = marker & 0x0f;
+
+    switch (type) {
+      case 0x0:
+        if (info === 0x8) return false;
+        if (info === 0x9) return true;
+        return null;
+      case 0x1:
+        return readInt(buffer, offset + 1, 1 << info);
+      case 0x2:
+        return info === 2 ? buffer.readFloatBE(offset + 1) : buffer.readDoubleBE(offset + 1);
+      case 0x3:
+        return new Date((buffer.readDoubleBE(offset + 1) + CF_EPOCH_OFFSET) * 1000);
+      case 0x4: {
+        const { length, start } = readLength(buffer, offset, info);
+        return Buffer.from(buffer.subarray(start, start + length));
+      }
+      case 0x5: {
+        const { length, start } = readLength(buffer, offset, info);
+        return buffer.toString('latin1', start, start + length);
+      }
+      case 0x6: {
+        const { length, start } = readLength(buffer, offset, info);
+        const bytes = Buffer.from(buffer.subarray(start, start + length * 2));
+        return bytes.swap16().toString('utf16le');
+      }
+      case 0x8:
+        return { UID: readUInt(buffer, offset + 1, info + 1) } as PlistUID;
+      case 0xa:
+      case 0xc: {
+        const { length, start } = readLength(buffer, offset, info);
+        stack.add(ref);
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(parseObject(readUInt(buffer, start + i * refSize, refSize), stack));
+        }
+        stack.delete(ref);
+        return items;
+      }
+      case 0xd: {
+        const { length, start } = readLength(buffer, offset, info);
+        stack.add(ref);
+        const dict: Record<string, unknown> = {};
+        for (let i = 0; i < length; i++) {
+          const key = parseObject(readUInt(buffer, start + i * refSize, refSize), stack);
+          const value = parseObject(readUInt(buffer, start + (length + i) * refSize, refSize), stack);
+          dict[String(key)] = value;
+        }
+        stack.delete(ref);
+        return dict;
+      }
+      default:
+        throw new Error(`Unsupported binary plist object type 0x${marker.toString(16)}`);
+    }
+  };
+
+  return parseObject(topObject, new Set());
+}
+
+/**
+ * Read the length of a variable-size object (inline nibble, or a following int object)
+ */
+function readLength(buffer: Buffer, offset: number, info: number): { length: number; start: number } {
+  if (info !== 0x0f) {
+    return { length: info, start: offset + 1 };
+  }
+  const intMarker = buffer[offset + 1];
+  if (intMarker >> 4 !== 0x1) {
+    throw new Error('Binary plist has an invalid length marker');
+  }
+  const size = 1 << (intMarker & 0x0f);
+  return { length: readUInt(buffer, offset + 2, size), start: offset + 2 + size };
+}
+
+/**
+ * Read a big-endian unsigned integer of 1-8 bytes
+ */
+function readUInt(buffer: Buffer, offset: number, size: number): number {
+  if (offset + size > buffer.length) {
+    throw new Error('Binary plist is truncated');
+  }
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + buffer[offset + i];
+  }
+  return value;
+}
+
+/**
+ * Read a plist integer (1, 2 and 4 bytes are unsigned, 8 signed, 16 takes the low 8 bytes)
+ */
+function readInt(buffer: Buffer, offset: number, size: number): number {
+  if (offset + size > buffer.length) {
+    throw new Error('Binary plist is truncated');
+  }
+  if (size === 8) {
+    return Number(buffer.readBigInt64BE(offset));
+  }
+  if (size === 16) {
+    return Number(buffer.readBigUInt64BE(offset + 8));
+  }
+  return readUInt(buffer, offset, size);
+}
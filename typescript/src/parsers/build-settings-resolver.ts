@@ -0,0 +1,171 @@
+/**
+ * Build setting resolution following Xcode's layering
+ *
+ * A target's settings come from five levels, each overriding the one below:
+ * SDK defaults, the project's base .xcconfig, the project's build settings,
+ * the target's base .xcconfig and the target's build settings.
+ * `$(inherited)` refers to the value from below the assignment; other `$(VAR)`
+ * references are expanded against the final settings once every level is applied.
+ */
+import type { BuildSettingAssignment } from './xcconfig-parser.js';
+
+/**
+ * What the settings are resolved for (matched against `[sdk=...]`, `[arch=...]`, `[config=...]`)
+ */
+export interface BuildSettingEnvironment {
+  /** Build configuration name (e.g., "Release") */
+  configuration?: string;
+  /** SDK name (default: taken from SDKROOT, otherwise iphoneos) */
+  sdk?: string;
+  /** Architecture (default: arm64) */
+  arch?: string;
+  /** Values that are not build settings of the project but can be referenced (TARGET_NAME, PROJECT_NAME, ...) */
+  variables?: Record<string, string>;
+}
+
+/**
+ * Defaults Xcode supplies from the SDK that ShipLint's rules depend on
+ */
+export const SDK_DEFAULT_BUILD_SETTINGS: readonly BuildSettingAssignment[] = [
+  { key: 'PRODUCT_NAME', conditions: {}, value: '$(TARGET_NAME)' },
+  { key: 'GENERATE_INFOPLIST_FILE', conditions: {}, value: 'NO' },
+];
+
+/**
+ * SDKROOT values that name an SDK usable in `[sdk=...]` conditions
+ */
+const SDK_NAME_PATTERN = /^(iphoneos|iphonesimulator|macosx|watchos|watchsimulator|appletvos|appletvsimulator|xros|xrsimulator)/;
+
+/**
+ * Resolve layered build setting assignments into final values
+ *
+ * @param layers Assignments from the lowest level (SDK defaults) to the highest (target)
+ * @param env Configuration, SDK and architecture the settings are resolved for
+ * @returns Fully expanded settings; references to unknown variables (e.g. $(SRCROOT)) are kept as written
+ */
+export function resolveBuildSettingLayers(
+  layers: BuildSettingAssignment[][],
+  env: BuildSettingEnvironment = {}
+): Record<string, string> {
+  let sdk = env.sdk;
+  if (!sdk) {
+    const sdkroot = applyLayers(layers, { ...env, sdk: 'iphoneos' }).SDKROOT;
+    sdk = sdkroot?.match(SDK_NAME_PATTERN)?.[1] ?? 'iphoneos';
+  }
+
+  const unexpanded = applyLayers(layers, { ...env, sdk });
+  const variables: Record<string, string> = {
+    ...(env.configuration ? { CONFIGURATION: env.configuration } : {}),
+    PLATFORM_NAME: sdk,
+    ...env.variables,
+  };
+
+  const resolved: Record<string, string> = {};
+  for (const key of Object.keys(unexpanded)) {
+    resolved[key] = expandBuildSettingValue(unexpanded[key], name => unexpanded[name] ?? variables[name], new Set([key]));
+  }
+  return resolved;
+}
+
+/**
+ * Check whether an assignment's conditions hold in the given environment
+ *
+ * Condition values may use `*` wildcards (`[sdk=iphoneos*]`). Conditions on
+ * anything other than sdk, arch and config never match.
+ */
+export function matchesBuildSettingConditions(
+  conditions: Record<string, string>,
+  env: BuildSettingEnvironment
+): boolean {
+  for (const [name, pattern] of Object.entries(conditions)) {
+    const actual = name === 'sdk' ? env.sdk ?? 'iphoneos'
+      : name === 'arch' ? env.arch ?? 'arm64'
+      : name === 'config' ? env.configuration
+      : undefined;
+    if (actual === undefined || !globMatches(pattern, actual)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Expand `$(VAR)` / `${VAR}` references in a value
+ *
+ * Supports the `lower`, `upper`, `identifier`, `c99extidentifier`,
+ * `rfc1034identifier` and `default=` operators. References that cannot be
+ * resolved are left in place.
+ *
+ * @param value The value to expand
+ * @param lookup Returns the unexpanded value of a setting, or undefined when unknown
+ * @param expanding Settings currently being expanded (breaks reference cycles)
+ */
+export function expandBuildSettingValue(
+  value: string,
+  lookup: (name: string) => string | undefined,
+  expanding: Set<string> = new Set()
+): string {
+  return value.replace(/\$(?:\(([^()]*)\)|\{([^{}]*)\})/g, (reference, paren?: string, brace?: string) => {
+    const [name, ...operators] = (paren ?? brace ?? '').split(':');
+    const raw = expanding.has(name) ? undefined : lookup(name);
+
+    let result = raw === undefined
+      ? undefined
+      : expandBuildSettingValue(raw, lookup, new Set([...expanding, name]));
+    for (const operator of operators) {
+      if (operator.startsWith('default=')) {
+        result = result ? result : operator.slice('default='.length);
+      } else if (result !== undefined) {
+        result = applyOperator(result, operator);
+      }
+    }
+    return result ?? reference;
+  });
+}
+
+/**
+ * Apply each level's matching assignments in order, substituting $(inherited)
+ *
+ * Within a level, conditional assignments are applied after unconditional ones
+ * so the more specific value wins.
+ */
+function applyLayers(layers: BuildSettingAssignment[][], env: BuildSettingEnvironment): Record<string, string> {
+  const settings: Record<string, string> = {};
+  for (const layer of layers) {
+    const ordered = layer
+      .map((assignment, index) => ({ assignment, index }))
+      .filter(({ assignment }) => matchesBuildSettingConditions(assignment.conditions, env))
+      .sort((a, b) =>
+        Object.keys(a.assignment.conditions).length - Object.keys(b.assignment.conditions).length || a.index - b.index);
+
+    for (const { assignment } of ordered) {
+      const { key, value } = assignment;
+      const inherited = settings[key] ?? '';
+      settings[key] = /\$[({]inherited[)}]/.test(value)
+        ? value.replace(/\$[({]inherited[)}]/g, () => inherited).replace(/\s+/g, ' ').trim()
+        : value;
+    }
+  }
+  return settings;
+}
+
+function applyOperator(value: string, operator: string): string | undefined {
+  switch (operator) {
+    case 'lower':
+      return value.toLowerCase();
+    case 'upper':
+      return value.toUpperCase();
+    case 'identifier':
+    case 'c99extidentifier':
+      return value.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(\d)/, '_$1');
+    case 'rfc1034identifier':
+      return value.replace(/[^A-Za-z0-9.-]/g, '-');
+    default:
+      return undefined;
+  }
+}
+
+function globMatches(pattern: string, value: string): boolean {
+  const regex = new RegExp('^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+  return regex.test(value);
+}
@@ -0,0 +1,318 @@
+/**
+ * Parser for built app bundles (.ipa archives and .app directories)
+ *
+ * Reads what is actually uploaded to App Store Connect rather than the
+ * project sources: the compiled Info.plist, the entitlements granted by the
+ * embedded provisioning profile, bundled privacy manifests, embedded
+ * frameworks and nested bundles (extensions, watch app, App Clip).
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePlist, parsePlistString } from './plist-parser.js';
+import { ProductType } from './pbxproj-parser.js';
+import { readZipEntries, extractZipEntries } from './zip-reader.js';
+import type { BundledPrivacyManifest } from '../types/index.js';
+
+const PRIVACY_MANIFEST_NAME = 'PrivacyInfo.xcprivacy';
+const PROVISIONING_PROFILE_NAME = 'embedded.mobileprovision';
+
+/**
+ * Directories inside an app bundle that hold nested bundles, with their product type
+ */
+const NESTED_BUNDLE_DIRS: { dir: string; extension: string; productType: ProductType }[] = [
+  { dir: 'PlugIns', extension: '.appex', productType: ProductType.AppExtension },
+  { dir: 'Extensions', extension: '.appex', productType: ProductType.ExtensionKitExtension },
+  { dir: 'Watch', extension: '.app', productType: ProductType.WatchApp },
+  { dir: 'AppClips', extension: '.app', productType: ProductType.ApplicationOnDemandInstall },
+];
+
+/**
+ * A framework embedded in an app bundle (Frameworks/*.framework)
+ */
+export interface EmbeddedFramework {
+  /** Framework name without extension (e.g. "FirebaseCore") */
+  name: string;
+  path: string;
+  /** CFBundleShortVersionString from the framework's Info.plist */
+  version?: string;
+  bundleIdentifier?: string;
+  privacyManifestPath?: string;
+  /** The framework's Mach-O binary */
+  executablePath?: string;
+}
+
+/**
+ * A parsed app, extension, watch app or App Clip bundle
+ */
+export interface AppBundle {
+  path: string;
+  /** Bundle directory name without extension */
+  name: string;
+  productType: ProductType;
+  infoPlistPath?: string;
+  infoPlist: Record<string, unknown>;
+  /** The bundle's main Mach-O binary (CFBundleExecutable) */
+  executablePath?: string;
+  /** Entitlements from the embedded provisioning profile */
+  entitlements: Record<string, unknown>;
+  provisioningProfilePath?: string;
+  frameworks: EmbeddedFramework[];
+  /** Privacy manifests shipped in this bundle, its frameworks and resource bundles */
+  privacyManifests: BundledPrivacyManifest[];
+  /** Extensions, watch app and App Clip embedded in this bundle */
+  nestedBundles: AppBundle[];
+}
+
+/**
+ * An IPA extracted to a temporary directory
+ */
+export interface ExtractedIpa {
+  /** Path of Payload/<Name>.app inside tempDir */
+  appPath: string;
+  /** Temporary directory the caller must remove when done */
+  tempDir: string;
+}
+
+/**
+ * Extract the Payload of an IPA to a temporary directory
+ *
+ * Only Payload/ is extracted (Symbols/, SwiftSupport/ and the like are skipped).
+ * If the IPA holds several apps, the first one is used.
+ */
+export function extractIpa(ipaPath: string): ExtractedIpa {
+  const entries = readZipEntries(ipaPath).filter(entry => entry.name.startsWith('Payload/'));
+  const appNames = [...new Set(
+    entries
+      .map(entry => entry.name.split('/')[1])
+      .filter(name => name && name.endsWith('.app'))
+  )].sort();
+
+  if (appNames.length === 0) {
+    throw new Error(`No Payload/*.app found in ${ipaPath}`);
+  }
+  if (appNames.length > 1) {
+    console.warn(`Warning: ${ipaPath} contains several apps (${appNames.join(', ')}); scanning ${appNames[0]}`);
+  }
+
+  const appPrefix = `Payload/${appNames[0]}/`;
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-ipa-'));
+  try {
+    extractZipEntries(ipaPath, entries.filter(entry => entry.name.startsWith(appPrefix)), tempDir);
+  } catch (error) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return { appPath: path.join(tempDir, 'Payload', appNames[0]), tempDir };
+}
+
+/**
+ * Parse an embedded.mobileprovision file
+ *
+ * The profile is a CMS-signed message wrapping an XML plist; the plist is
+ * read directly without verifying the signature.
+ */
+export function parseMobileProvision(filePath: string): Record<string, unknown> {
+  const content = fs.readFileSync(filePath).toString('latin1');
+  const start = content.indexOf('<?xml');
+  const end = content.indexOf('</plist>', start);
+
+  if (start < 0 || end < 0) {
+    throw new Error(`No property list found in provisioning profile ${filePath}`);
+  }
+
+  // Re-decode the plist slice as UTF-8 so non-ASCII team and app names survive
+  const xml = Buffer.from(content.slice(start, end + '</plist>'.length), 'latin1').toString('utf-8');
+  return parsePlistString(xml);
+}
+
+/**
+ * Read an .app / .appex bundle with its frameworks and nested bundles
+ */
+export function readAppBundle(bundlePath: string, productType: ProductType = ProductType.Application): AppBundle {
+  const name = path.basename(bundlePath).replace(/\.(app|appex)$/, '');
+
+  const bundle: AppBundle = {
+    path: bundlePath,
+    name,
+    productType,
+    infoPlist: {},
+    entitlements: {},
+    frameworks: [],
+    privacyManifests: [],
+    nestedBundles: [],
+  };
+
+  const infoPlistPath = path.join(bundlePath, 'Info.plist');
+  if (fs.existsSync(infoPlistPath)) {
+    bundle.infoPlistPath = infoPlistPath;
+    try {
+      bundle.infoPlist = parsePlist(infoPlistPath);
+    } catch (error) {
+      console.warn(`Warning: Could not parse Info.plist in ${path.basename(bundlePath)}: ${error}`);
+    }
+  }
+
+  bundle.executablePath = existingFile(path.join(bundlePath, executableName(bundle.infoPlist, name)));
+
+  const profilePath = path.join(bundlePath, PROVISIONING_PROFILE_NAME);
+  if (fs.existsSync(profilePath)) {
+    bundle.provisioningProfilePath = profilePath;
+    try {
+      const profile = parseMobileProvision(profilePath);
+      const entitlements = profile['Entitlements'];
+      if (typeof entitlements === 'object' && entitlements !== null && !Array.isArray(entitlements)) {
+        bundle.entitlements = entitlements as Record<string, unknown>;
+      }
+    } catch (error) {
+      console.warn(`Warning: Could not parse provisioning profile in ${path.basename(bundlePath)}: ${error}`);
+    }
+  }
+
+  const ownManifest = path.join(bundlePath, PRIVACY_MANIFEST_NAME);
+  if (fs.existsSync(ownManifest)) {
+    bundle.privacyManifests.push({ path: ownManifest, bundleName: path.basename(bundlePath), isAppManifest: true });
+  }
+
+  // Resource bundles (SwiftPM / CocoaPods) at the bundle root can carry an SDK's manifest
+  for (const entry of listDirectory(bundlePath)) {
+    if (!entry.endsWith('.bundle')) continue;
+    const manifestPath = findBundleManifest(path.join(bundlePath, entry));
+    if (manifestPath) {
+      bundle.privacyManifests.push({ path: manifestPath, bundleName: entry, isAppManifest: false });
+    }
+  }
+
+  const frameworksDir = path.join(bundlePath, 'Frameworks');
+  for (const entry of listDirectory(frameworksDir)) {
+    if (!entry.endsWith('.framework')) continue;
+    const framework = readEmbeddedFramework(path.join(frameworksDir, entry));
+    bundle.frameworks.push(framework);
+    if (framework.privacyManifestPath) {
+      bundle.privacyManifests.push({ path: framework.privacyManifestPath, bundleName: entry, isAppManifest: false });
+    }
+  }
+
+  for (const { dir, extension, productType: nestedType } of NESTED_BUNDLE_DIRS) {
+    const nestedDir = path.join(bundlePath, dir);
+    for (const entry of listDirectory(nestedDir)) {
+      if (entry.endsWith(extension)) {
+        bundle.nestedBundles.push(readAppBundle(path.join(nestedDir, entry), nestedType));
+      }
+    }
+  }
+
+  return bundle;
+}
+
+/**
+ * Flatten a bundle tree into shippable bundles (the app itself first)
+ */
+export function flattenAppBundles(bundle: AppBundle): AppBundle[] {
+  return [bundle, ...bundle.nestedBundles.flatMap(flattenAppBundles)];
+}
+
+function readEmbeddedFramework(frameworkPath: string): EmbeddedFramework {
+  const framework: EmbeddedFramework = {
+    name: path.basename(frameworkPath, '.framework'),
+    path: frameworkPath,
+  };
+
+  // iOS frameworks are shallow; macOS-style ones keep Info.plist under Resources/
+  let info: Record<string, unknown> = {};
+  for (const candidate of ['Info.plist', path.join('Resources', 'Info.plist')]) {
+    const plistPath = path.join(frameworkPath, candidate);
+    if (!fs.existsSync(plistPath)) continue;
+    try {
+      info = parsePlist(plistPath);
+      if (typeof info['CFBundleShortVersionString'] === 'string') {
+        framework.version = info['CFBundleShortVersionString'];
+      }
+      if (typeof info['CFBundleIdentifier'] === 'string') {
+        framework.bundleIdentifier = info['CFBundleIdentifier'];
+      }
+    } catch {
+      // Version info is optional
+    }
+    break;
+  }
+
+  framework.privacyManifestPath = findBundleManifest(frameworkPath);
+  framework.executablePath = existingFile(path.join(frameworkPath, executableName(info, framework.name)));
+  return framework;
+}
+
+/**
+ * Locate the Mach-O binary of a vendored .framework or .xcframework
+ *
+ * For an XCFramework the iOS device library is picked from its Info.plist
+ * (AvailableLibraries), falling back to an ios-arm64* directory.
+ */
+export function findFrameworkBinary(frameworkPath: string): string | undefined {
+  if (frameworkPath.endsWith('.framework')) {
+    return readEmbeddedFramework(frameworkPath).executablePath;
+  }
+
+  let libraryDir: string | undefined;
+  let libraryPath: string | undefined;
+  try {
+    const info = parsePlist(path.join(frameworkPath, 'Info.plist'));
+    const libraries = Array.isArray(info['AvailableLibraries']) ? info['AvailableLibraries'] : [];
+    const device = (libraries as Record<string, unknown>[]).find(lib =>
+      lib['SupportedPlatform'] === 'ios' && !lib['SupportedPlatformVariant']
+    );
+    if (device && typeof device['LibraryIdentifier'] === 'string' && typeof device['LibraryPath'] === 'string') {
+      libraryDir = device['LibraryIdentifier'];
+      libraryPath = typeof device['BinaryPath'] === 'string' ? device['BinaryPath'] : device['LibraryPath'];
+    }
+  } catch {
+    // Fall back to the directory layout below
+  }
+
+  if (!libraryDir) {
+    libraryDir = listDirectory(frameworkPath).find(entry => entry.startsWith('ios-arm64') && !entry.includes('simulator'));
+  }
+  if (!libraryDir) return undefined;
+
+  if (libraryPath) {
+    const candidate = path.join(frameworkPath, libraryDir, libraryPath);
+    return candidate.endsWith('.framework') ? findFrameworkBinary(candidate) : existingFile(candidate);
+  }
+
+  const library = listDirectory(path.join(frameworkPath, libraryDir))
+    .find(entry => entry.endsWith('.framework') || entry.endsWith('.a'));
+  if (!library) return undefined;
+  const libraryFullPath = path.join(frameworkPath, libraryDir, library);
+  return library.endsWith('.framework') ? findFrameworkBinary(libraryFullPath) : libraryFullPath;
+}
+
+function executableName(info: Record<string, unknown>, fallback: string): string {
+  return typeof info['CFBundleExecutable'] === 'string' ? info['CFBundleExecutable'] : fallback;
+}
+
+function existingFile(filePath: string): string | undefined {
+  try {
+    return fs.statSync(filePath).isFile() ? filePath : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function findBundleManifest(bundlePath: string): string | undefined {
+  for (const candidate of [PRIVACY_MANIFEST_NAME, path.join('Resources', PRIVACY_MANIFEST_NAME)]) {
+    const manifestPath = path.join(bundlePath, candidate);
+    if (fs.existsSync(manifestPath)) {
+      return manifestPath;
+    }
+  }
+  return undefined;
+}
+
+function listDirectory(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir).sort();
+  } catch {
+    return [];
+  }
+}
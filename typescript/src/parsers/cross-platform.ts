@@ -0,0 +1,325 @@
+/**
+ * Detection of cross-platform projects (React Native, Flutter, Capacitor,
+ * Unity, Kotlin Multiplatform) that keep their iOS app in a subdirectory
+ *
+ * These apps reach most platform APIs through plugins whose native code lives
+ * in node_modules, the pub cache or a Kotlin framework, so the frameworks they
+ * use never show up in the app's Swift imports. The plugins and permission
+ * macros the project declares stand in for those imports.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePackageJson, parsePubspecLock } from './framework-detector.js';
+
+/**
+ * Cross-platform frameworks ShipLint recognizes
+ */
+export type CrossPlatformKind = 'react-native' | 'flutter' | 'capacitor' | 'unity' | 'kmp';
+
+/**
+ * A cross-platform project around an iOS app
+ */
+export interface CrossPlatformProject {
+  kind: CrossPlatformKind;
+  /** Root of the cross-platform project (package.json, pubspec.yaml, settings.gradle, ...) */
+  rootDir: string;
+  /** Directory holding the iOS Xcode project, when it exists */
+  iosDir?: string;
+}
+
+/**
+ * How far above the scanned directory to look for the project root
+ * (ios/ in React Native and Flutter, ios/App/ in Capacitor)
+ */
+const MAX_ROOT_LEVELS = 2;
+
+/**
+ * Name of the Xcode project Unity exports for iOS
+ */
+const UNITY_XCODEPROJ = 'Unity-iPhone.xcodeproj';
+
+/**
+ * Directories that never hold a Unity iOS export
+ */
+const UNITY_SEARCH_SKIP_DIRS = new Set(['Assets', 'Library', 'Packages', 'ProjectSettings', 'Temp', 'Logs', 'node_modules', '.git']);
+
+/**
+ * Frameworks used by common plugins, by npm (React Native, Expo, Capacitor)
+ * and pub (Flutter) package name
+ */
+export const pluginFrameworks: Array<{ npm: string[]; pub: string[]; frameworks: string[] }> = [
+  {
+    npm: ['react-native-vision-camera', 'react-native-camera', 'expo-camera', 'expo-barcode-scanner', '@capacitor/camera', '@capacitor-mlkit/barcode-scanning'],
+    pub: ['camera', 'mobile_scanner', 'qr_code_scanner'],
+    frameworks: ['AVFoundation'],
+  },
+  {
+    npm: ['expo-image-picker', 'expo-media-library', 'react-native-image-picker', 'react-native-image-crop-picker', '@react-native-camera-roll/camera-roll', '@capacitor/camera'],
+    pub: ['image_picker', 'photo_manager'],
+    frameworks: ['Photos', 'PhotosUI'],
+  },
+  {
+    npm: ['expo-av', 'expo-audio', 'react-native-audio-recorder-player'],
+    pub: ['record', 'flutter_sound'],
+    frameworks: ['AVFAudio'],
+  },
+  {
+    npm: ['@react-native-voice/voice'],
+    pub: ['speech_to_text'],
+    frameworks: ['Speech'],
+  },
+  {
+    npm: ['expo-location', 'react-native-geolocation-service', '@react-native-community/geolocation', '@capacitor/geolocation'],
+    pub: ['geolocator', 'location'],
+    frameworks: ['CoreLocation'],
+  },
+  {
+    npm: ['expo-contacts', 'react-native-contacts', '@capacitor-community/contacts'],
+    pub: ['flutter_contacts', 'contacts_service'],
+    frameworks: ['Contacts'],
+  },
+  {
+    npm: ['expo-calendar', 'react-native-calendar-events'],
+    pub: ['device_calendar'],
+    frameworks: ['EventKit'],
+  },
+  {
+    npm: ['react-native-ble-plx', 'react-native-ble-manager', '@capacitor-community/bluetooth-le'],
+    pub: ['flutter_blue_plus', 'flutter_reactive_ble'],
+    frameworks: ['CoreBluetooth'],
+  },
+  {
+    npm: ['expo-local-authentication', 'react-native-biometrics', 'react-native-touch-id'],
+    pub: ['local_auth'],
+    frameworks: ['LocalAuthentication'],
+  },
+  {
+    npm: ['react-native-health', '@kingstinct/react-native-healthkit'],
+    pub: ['health'],
+    frameworks: ['HealthKit'],
+  },
+  {
+    npm: ['react-native-nfc-manager'],
+    pub: ['nfc_manager', 'flutter_nfc_kit'],
+    frameworks: ['CoreNFC'],
+  },
+  {
+    npm: ['expo-tracking-transparency', 'react-native-tracking-transparency'],
+    pub: ['app_tracking_transparency'],
+    frameworks: ['AppTrackingTransparency'],
+  },
+];
+
+/**
+ * Frameworks enabled by permission_handler (Flutter) Podfile macros such as
+ * 'PERMISSION_CAMERA=1'
+ */
+const PERMISSION_HANDLER_MACROS: Record<string, string[]> = {
+  CAMERA: ['AVFoundation'],
+  MICROPHONE: ['AVFAudio'],
+  PHOTOS: ['Photos'],
+  PHOTOS_ADD_ONLY: ['Photos'],
+  LOCATION: ['CoreLocation'],
+  LOCATION_WHENINUSE: ['CoreLocation'],
+  CONTACTS: ['Contacts'],
+  EVENTS: ['EventKit'],
+  EVENTS_FULL_ACCESS: ['EventKit'],
+  REMINDERS: ['EventKit'],
+  BLUETOOTH: ['CoreBluetooth'],
+  SPEECH_RECOGNIZER: ['Speech'],
+  SENSORS: ['CoreMotion'],
+  APP_TRACKING_TRANSPARENCY: ['AppTrackingTransparency'],
+  MEDIA_LIBRARY: ['MediaPlayer'],
+};
+
+/**
+ * Frameworks enabled by react-native-permissions Podfile handlers, as in
+ * setup_permissions(['Camera', 'LocationWhenInUse'])
+ */
+const REACT_NATIVE_PERMISSION_HANDLERS: Record<string, string[]> = {
+  Camera: ['AVFoundation'],
+  Microphone: ['AVFAudio'],
+  PhotoLibrary: ['Photos'],
+  PhotoLibraryAddOnly: ['Photos'],
+  LocationWhenInUse: ['CoreLocation'],
+  LocationAlways: ['CoreLocation'],
+  LocationAccuracy: ['CoreLocation'],
+  Contacts: ['Contacts'],
+  Calendars: ['EventKit'],
+  CalendarsWriteOnly: ['EventKit'],
+  Reminders: ['EventKit'],
+  Bluetooth: ['CoreBluetooth'],
+  SpeechRecognition: ['Speech'],
+  FaceID: ['LocalAuthentication'],
+  Motion: ['CoreMotion'],
+  MediaLibrary: ['MediaPlayer'],
+  AppTrackingTransparency: ['AppTrackingTransparency'],
+};
+
+function readFile(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function existingDir(dir: string): string | undefined {
+  try {
+    return fs.statSync(dir).isDirectory() ? dir : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function packageNames(rootDir: string): Set<string> {
+  return new Set(parsePackageJson(path.join(rootDir, 'package.json')).map(dep => dep.name));
+}
+
+/**
+ * Finds a Unity iOS export (the directory holding Unity-iPhone.xcodeproj)
+ */
+function findUnityExport(dir: string, depth: number = 0): string | undefined {
+  if (fs.existsSync(path.join(dir, UNITY_XCODEPROJ))) return dir;
+  if (depth >= 3) return undefined;
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return undefined;
+  }
+  for (const entry of entries) {
+    if (!entry.isDirectory() || UNITY_SEARCH_SKIP_DIRS.has(entry.name) || entry.name.endsWith('.xcodeproj')) continue;
+    const found = findUnityExport(path.join(dir, entry.name), depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a directory is the root of a cross-platform project
+ */
+function detectAt(dir: string): CrossPlatformProject | undefined {
+  const pubspec = readFile(path.join(dir, 'pubspec.yaml'));
+  if (pubspec && /^\s+sdk:\s*flutter\b/m.test(pubspec)) {
+    return { kind: 'flutter', rootDir: dir, iosDir: existingDir(path.join(dir, 'ios')) };
+  }
+
+  const packages = packageNames(dir);
+  const hasCapacitorConfig = ['capacitor.config.ts', 'capacitor.config.js', 'capacitor.config.json']
+    .some(file => fs.existsSync(path.join(dir, file)));
+  if (hasCapacitorConfig || packages.has('@capacitor/core') || packages.has('@capacitor/ios')) {
+    return {
+      kind: 'capacitor',
+      rootDir: dir,
+      iosDir: existingDir(path.join(dir, 'ios', 'App')) ?? existingDir(path.join(dir, 'ios')),
+    };
+  }
+
+  if (packages.has('react-native') || packages.has('expo')) {
+    return { kind: 'react-native', rootDir: dir, iosDir: existingDir(path.join(dir, 'ios')) };
+  }
+
+  const hasGradleSettings = fs.existsSync(path.join(dir, 'settings.gradle.kts')) || fs.existsSync(path.join(dir, 'settings.gradle'));
+  if (hasGradleSettings && existingDir(path.join(dir, 'iosApp'))) {
+    return { kind: 'kmp', rootDir: dir, iosDir: path.join(dir, 'iosApp') };
+  }
+
+  // A Unity project, or the Xcode project Unity exported
+  if (fs.existsSync(path.join(dir, 'ProjectSettings', 'ProjectVersion.txt')) || fs.existsSync(path.join(dir, UNITY_XCODEPROJ))) {
+    return { kind: 'unity', rootDir: dir, iosDir: findUnityExport(dir) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Detects the cross-platform project a directory belongs to
+ *
+ * Looks at the directory itself and up to two parents, so scanning either the
+ * repository root or its ios/ folder finds the same project. The search stops
+ * at the repository root.
+ */
+export function detectCrossPlatformProject(dir: string): CrossPlatformProject | undefined {
+  let current = path.resolve(dir);
+  for (let level = 0; level <= MAX_ROOT_LEVELS; level++) {
+    const project = detectAt(current);
+    if (project) return project;
+    if (fs.existsSync(path.join(current, '.git'))) return undefined;
+    const parent = path.dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+  return undefined;
+}
+
+/**
+ * Scans Kotlin iOS sources for platform framework imports (import platform.CoreLocation.*)
+ */
+function scanKotlinPlatformImports(dir: string, frameworks: Set<string>, depth: number = 0): void {
+  if (depth > 8) return;
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === 'build' || entry.name === '.gradle' || entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+      scanKotlinPlatformImports(fullPath, frameworks, depth + 1);
+    } else if (entry.name.endsWith('.kt') && fullPath.includes(`${path.sep}iosMain${path.sep}`)) {
+      const content = readFile(fullPath) ?? '';
+      for (const match of content.matchAll(/^\s*import\s+platform\.(\w+)\./gm)) {
+        // platform.posix and platform.darwin are C libraries, not frameworks
+        if (match[1] !== 'posix' && match[1] !== 'darwin') {
+          frameworks.add(match[1]);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Frameworks a cross-platform project uses through plugins and permission
+ * declarations rather than Swift imports
+ */
+export function detectPluginFrameworks(project: CrossPlatformProject): Set<string> {
+  const frameworks = new Set<string>();
+
+  if (project.kind === 'flutter') {
+    const packages = new Set(parsePubspecLock(path.join(project.rootDir, 'pubspec.lock')).map(dep => dep.name));
+    for (const plugin of pluginFrameworks) {
+      if (plugin.pub.some(name => packages.has(name))) {
+        plugin.frameworks.forEach(fw => frameworks.add(fw));
+      }
+    }
+  } else if (project.kind === 'react-native' || project.kind === 'capacitor') {
+    const packages = packageNames(project.rootDir);
+    for (const plugin of pluginFrameworks) {
+      if (plugin.npm.some(name => packages.has(name))) {
+        plugin.frameworks.forEach(fw => frameworks.add(fw));
+      }
+    }
+  }
+
+  const podfile = project.iosDir ? readFile(path.join(project.iosDir, 'Podfile')) : undefined;
+  if (podfile) {
+    for (const match of podfile.matchAll(/PERMISSION_([A-Z_]+)=1/g)) {
+      PERMISSION_HANDLER_MACROS[match[1]]?.forEach(fw => frameworks.add(fw));
+    }
+    const handlers = podfile.match(/setup_permissions\s*\(\s*\[([^\]]*)\]/)?.[1] ?? '';
+    for (const match of handlers.matchAll(/['"](\w+)['"]/g)) {
+      REACT_NATIVE_PERMISSION_HANDLERS[match[1]]?.forEach(fw => frameworks.add(fw));
+    }
+  }
+
+  if (project.kind === 'kmp') {
+    scanKotlinPlatformImports(project.rootDir, frameworks);
+  }
+
+  return frameworks;
+}
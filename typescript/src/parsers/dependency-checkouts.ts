@@ -0,0 +1,158 @@
+/**
+ * Locations of installed dependency sources and binaries in a project
+ *
+ * - installed CocoaPods: Pods/<Pod>
+ * - Swift package checkouts: .build/checkouts, or Xcode's SourcePackages/checkouts
+ *   when the project resolves packages with -clonedSourcePackagesDirPath or
+ *   builds into a project-local DerivedData
+ * - downloaded Swift package binary targets: the artifacts/ directory next to checkouts/
+ * - local Swift packages: directories with a Package.swift inside the project
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ScanContext } from '../types/index.js';
+
+/**
+ * Maximum directory depth searched below a project, package or checkout
+ */
+export const MAX_CHECKOUT_SEARCH_DEPTH = 8;
+
+/**
+ * Directories that hold dependencies or build output rather than the project's
+ * own files (dependencies are found through findDependencyCheckouts instead)
+ */
+export const NON_SOURCE_DIRS: ReadonlySet<string> = new Set([
+  'node_modules', '.git', '.swiftpm', 'build', 'DerivedData', 'Carthage',
+  'Pods', '.build', 'SourcePackages',
+]);
+
+/**
+ * Entries of Pods/ that are generated by CocoaPods rather than installed pods
+ */
+const PODS_SUPPORT_ENTRIES = new Set(['Target Support Files', 'Local Podspecs', 'Headers', 'Manifest.lock']);
+
+/**
+ * Sources of an installed dependency (a pod or a Swift package checkout)
+ */
+export interface DependencyCheckout {
+  /** Pod name or checkout directory name (the package identity) */
+  name: string;
+  origin: 'cocoapods' | 'spm';
+  path: string;
+}
+
+/**
+ * Find the installed pods and Swift package checkouts below the given directories
+ */
+export function findDependencyCheckouts(rootDirs: string[]): DependencyCheckout[] {
+  const checkouts: DependencyCheckout[] = [];
+  const seen = new Set<string>();
+  const add = (checkout: DependencyCheckout): void => {
+    if (!seen.has(checkout.path)) {
+      seen.add(checkout.path);
+      checkouts.push(checkout);
+    }
+  };
+
+  for (const rootDir of rootDirs) {
+    for (const entry of listDirectories(path.join(rootDir, 'Pods'))) {
+      if (!PODS_SUPPORT_ENTRIES.has(entry) && !entry.endsWith('.xcodeproj')) {
+        add({ name: entry, origin: 'cocoapods', path: path.join(rootDir, 'Pods', entry) });
+      }
+    }
+    for (const packagesDir of swiftPackageDirs(rootDir)) {
+      for (const entry of listDirectories(path.join(packagesDir, 'checkouts'))) {
+        add({ name: entry, origin: 'spm', path: path.join(packagesDir, 'checkouts', entry) });
+      }
+    }
+  }
+  return checkouts;
+}
+
+/**
+ * Find the directories holding downloaded Swift package binary targets
+ * (artifacts/<package identity>/...)
+ */
+export function findPackageArtifactDirs(rootDirs: string[]): string[] {
+  return [...new Set(rootDirs.flatMap(rootDir =>
+    swiftPackageDirs(rootDir)
+      .map(packagesDir => path.join(packagesDir, 'artifacts'))
+      .filter(isDirectory)
+  ))];
+}
+
+/**
+ * Local Swift packages below a project (not the project itself, nor checkouts)
+ */
+export function findLocalPackages(rootDir: string): string[] {
+  const packages: string[] = [];
+  const walk = (dir: string, depth: number): void => {
+    if (depth > MAX_CHECKOUT_SEARCH_DEPTH) return;
+    if (dir !== rootDir && isSwiftPackage(dir)) {
+      packages.push(dir);
+      return;
+    }
+    for (const entry of listDirectories(dir)) {
+      if (!NON_SOURCE_DIRS.has(entry)) {
+        walk(path.join(dir, entry), depth + 1);
+      }
+    }
+  };
+  walk(rootDir, 0);
+  return packages;
+}
+
+/**
+ * Directories searched for a project's installed dependencies
+ *
+ * The project directory and the directory of the .xcodeproj (Pods/ and
+ * SourcePackages/ sit next to it when the project lives in a subdirectory).
+ */
+export function contextSearchRoots(context: ScanContext): string[] {
+  const roots = [path.resolve(context.projectPath)];
+  if (context.pbxprojPath) {
+    const xcodeprojParent = path.resolve(path.dirname(path.dirname(context.pbxprojPath)));
+    if (!roots.includes(xcodeprojParent)) {
+      roots.push(xcodeprojParent);
+    }
+  }
+  return roots;
+}
+
+export function isSwiftPackage(dir: string): boolean {
+  return fs.existsSync(path.join(dir, 'Package.swift'));
+}
+
+/**
+ * SwiftPM working directories (holding checkouts/ and artifacts/) below a project root
+ */
+function swiftPackageDirs(rootDir: string): string[] {
+  const dirs = [
+    path.join(rootDir, '.build'),
+    path.join(rootDir, 'SourcePackages'),
+    path.join(rootDir, 'build', 'SourcePackages'),
+    path.join(rootDir, 'DerivedData', 'SourcePackages'),
+    // DerivedData/<Project>-<hash>/SourcePackages
+    ...listDirectories(path.join(rootDir, 'DerivedData'))
+      .map(entry => path.join(rootDir, 'DerivedData', entry, 'SourcePackages')),
+  ];
+  return dirs.filter(isDirectory);
+}
+
+function isDirectory(dir: string): boolean {
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function listDirectories(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name);
+  } catch {
+    return [];
+  }
+}
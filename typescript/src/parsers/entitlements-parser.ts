@@ -3,6 +3,7 @@
  */
 import * as fs from 'fs';
 import plist from 'plist';
+import { isBinaryPlist, parseBinaryPlist } from './bplist-parser.js';
 
 /**
  * Well-known entitlement keys
@@ -11,25 +12,33 @@ export const EntitlementKeys = {
   signInWithApple: 'com.apple.developer.applesignin',
   pushNotifications: 'aps-environment',
   iCloudContainer: 'com.apple.developer.icloud-container-identifiers',
+  iCloudServices: 'com.apple.developer.icloud-services',
+  ubiquityContainers: 'com.apple.developer.ubiquity-container-identifiers',
+  ubiquityKeyValueStore: 'com.apple.developer.ubiquity-kvstore-identifier',
   appGroups: 'com.apple.security.application-groups',
   associatedDomains: 'com.apple.developer.associated-domains',
   healthKit: 'com.apple.developer.healthkit',
+  healthKitAccess: 'com.apple.developer.healthkit.access',
   homeKit: 'com.apple.developer.homekit',
   networkExtensions: 'com.apple.developer.networking.networkextension',
+  hotspotHelper: 'com.apple.developer.networking.HotspotHelper',
+  pushToTalk: 'com.apple.developer.push-to-talk',
+  externalPurchase: 'com.apple.developer.storekit.external-purchase',
+  externalPurchaseLink: 'com.apple.developer.storekit.external-purchase-link',
 } as const;
 
 /**
- * Parses an entitlements file at the given path
+ * Parses an entitlements file at the given path (XML or binary)
  */
 export function parseEntitlements(filePath: string): Record<string, unknown> {
   if (!fs.existsSync(filePath)) {
     throw new Error(`Entitlements file not found at: ${filePath}`);
   }
   
-  const content = fs.readFileSync(filePath, 'utf-8');
+  const buffer = fs.readFileSync(filePath);
   
   try {
-    const parsed = plist.parse(content);
+    const parsed = isBinaryPlist(buffer) ? parseBinaryPlist(buffer) : plist.parse(buffer.toString('utf-8'));
     if (typeof parsed !== 'object' || parsed === null) {
       throw new Error('Root is not a dictionary');
     }
@@ -0,0 +1,393 @@
+/**
+ * Parser for Expo app config (app.json, app.config.json, app.config.ts/js)
+ *
+ * Managed Expo projects have no Info.plist or entitlements file: `expo
+ * prebuild` generates them from `ios.infoPlist`, `ios.entitlements`, other
+ * `ios.*` fields and the config plugins listed in `plugins`. This parser
+ * rebuilds the same dictionaries so rules can check them, and records where
+ * each key comes from so findings can point back at the config.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Where a generated key is (or belongs) in the Expo config
+ */
+export interface ExpoKeySource {
+  /** The config file */
+  file: string;
+  /** Dotted path in the config, e.g. expo.ios.infoPlist.NSCameraUsageDescription */
+  jsonPath: string;
+  /** Line of the path in the file (1-indexed), or of its nearest parent that exists */
+  line?: number;
+}
+
+/**
+ * Info.plist and entitlements generated from an Expo config
+ */
+export interface ExpoConfig {
+  /** The config file the app is built from (app.config.* when it could be read, else app.json) */
+  path: string;
+  infoPlist: Record<string, unknown>;
+  entitlements: Record<string, unknown>;
+  /** Source of every generated Info.plist and entitlements key */
+  keySources: Record<string, ExpoKeySource>;
+  /** Where new Info.plist keys belong (ios.infoPlist) */
+  infoPlistSource: ExpoKeySource;
+  /** Where new entitlements belong (ios.entitlements) */
+  entitlementsSource: ExpoKeySource;
+}
+
+/**
+ * Config files Expo reads, in the order they are layered
+ */
+const EXPO_CONFIG_FILES = ['app.json', 'app.config.json', 'app.config.ts', 'app.config.js', 'app.config.mjs', 'app.config.cjs'];
+
+interface PluginPermission {
+  option: string;
+  key: string;
+  /** Purpose string the plugin writes when the option is not given */
+  defaultValue: string;
+}
+
+const permission = (option: string, key: string, resource: string): PluginPermission => ({
+  option,
+  key,
+  defaultValue: `Allow $(PRODUCT_NAME) to access your ${resource}`,
+});
+
+/**
+ * Info.plist keys written by Expo config plugins. Each plugin writes its
+ * default purpose string unless the option is set to another string or false.
+ */
+const PLUGIN_PERMISSIONS: Record<string, PluginPermission[]> = {
+  'expo-camera': [
+    permission('cameraPermission', 'NSCameraUsageDescription', 'camera'),
+    permission('microphonePermission', 'NSMicrophoneUsageDescription', 'microphone'),
+  ],
+  'expo-image-picker': [
+    permission('photosPermission', 'NSPhotoLibraryUsageDescription', 'photos'),
+    permission('cameraPermission', 'NSCameraUsageDescription', 'camera'),
+    permission('microphonePermission', 'NSMicrophoneUsageDescription', 'microphone'),
+  ],
+  'expo-media-library': [
+    permission('photosPermission', 'NSPhotoLibraryUsageDescription', 'photos'),
+    permission('savePhotosPermission', 'NSPhotoLibraryAddUsageDescription', 'photos'),
+  ],
+  'expo-location': [
+    permission('locationWhenInUsePermission', 'NSLocationWhenInUseUsageDescription', 'location'),
+    permission('locationAlwaysAndWhenInUsePermission', 'NSLocationAlwaysAndWhenInUseUsageDescription', 'location'),
+    permission('locationAlwaysPermission', 'NSLocationAlwaysUsageDescription', 'location'),
+  ],
+  'expo-contacts': [permission('contactsPermission', 'NSContactsUsageDescription', 'contacts')],
+  'expo-calendar': [
+    permission('calendarPermission', 'NSCalendarsUsageDescription', 'calendar'),
+    permission('calendarPermission', 'NSCalendarsFullAccessUsageDescription', 'calendar'),
+    permission('remindersPermission', 'NSRemindersUsageDescription', 'reminders'),
+    permission('remindersPermission', 'NSRemindersFullAccessUsageDescription', 'reminders'),
+  ],
+  'expo-av': [permission('microphonePermission', 'NSMicrophoneUsageDescription', 'microphone')],
+  'expo-audio': [permission('microphonePermission', 'NSMicrophoneUsageDescription', 'microphone')],
+  'expo-local-authentication': [permission('faceIDPermission', 'NSFaceIDUsageDescription', 'Face ID biometric data')],
+  'expo-sensors': [permission('motionPermission', 'NSMotionUsageDescription', 'motion data')],
+  'expo-tracking-transparency': [
+    {
+      option: 'userTrackingPermission',
+      key: 'NSUserTrackingUsageDescription',
+      defaultValue: 'This identifier will be used to deliver personalized ads to you.',
+    },
+  ],
+};
+
+const ORIENTATIONS: Record<string, string[]> = {
+  portrait: ['UIInterfaceOrientationPortrait'],
+  landscape: ['UIInterfaceOrientationLandscapeLeft', 'UIInterfaceOrientationLandscapeRight'],
+  default: [
+    'UIInterfaceOrientationPortrait',
+    'UIInterfaceOrientationPortraitUpsideDown',
+    'UIInterfaceOrientationLandscapeLeft',
+    'UIInterfaceOrientationLandscapeRight',
+  ],
+};
+
+/**
+ * A config file with its text, for locating paths
+ */
+interface ConfigLayer {
+  file: string;
+  text: string;
+  /** The app config object (the `expo` key of app.json) */
+  config: Record<string, unknown>;
+  /** Path of the config object in the file ('expo' or '') */
+  prefix: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Line of a path in a JSON or JavaScript config, found by searching for each
+ * key (or plugin name) after the previous one. Stops at the deepest segment found.
+ */
+function findLine(text: string, segments: Array<{ key: string } | { value: string }>): number | undefined {
+  let position = -1;
+  for (const segment of segments) {
+    const pattern = 'key' in segment
+      ? new RegExp(`(?:["'\`]${escapeRegExp(segment.key)}["'\`]|\\b${escapeRegExp(segment.key)}\\b)\\s*:`, 'g')
+      : new RegExp(`["'\`]${escapeRegExp(segment.value)}["'\`]`, 'g');
+    pattern.lastIndex = Math.max(position, 0);
+    const match = pattern.exec(text);
+    if (!match) break;
+    position = match.index;
+  }
+  return position < 0 ? undefined : text.slice(0, position).split('\n').length;
+}
+
+function keySource(layer: ConfigLayer, keys: string[], pluginName?: string): ExpoKeySource {
+  const fullKeys = layer.prefix ? [layer.prefix, ...keys] : keys;
+  const segments: Array<{ key: string } | { value: string }> = fullKeys.map(key => ({ key }));
+  if (pluginName) segments.push({ value: pluginName });
+  return {
+    file: layer.file,
+    jsonPath: pluginName ? `${fullKeys.join('.')}[${pluginName}]` : fullKeys.join('.'),
+    line: findLine(layer.text, segments),
+  };
+}
+
+/**
+ * Converts a static JavaScript object literal to JSON
+ *
+ * Handles comments, unquoted keys, single-quoted and template strings without
+ * substitutions, trailing commas and spreads of the incoming config (which
+ * app.json already provides). Returns undefined for anything computed.
+ */
+function objectLiteralToJson(source: string): string | undefined {
+  let out = '';
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (rest.startsWith('//')) {
+      i = source.indexOf('\n', i);
+      if (i < 0) break;
+      continue;
+    }
+    if (rest.startsWith('/*')) {
+      const end = source.indexOf('*/', i + 2);
+      if (end < 0) return undefined;
+      i = end + 2;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (char === '`' && source.startsWith('${', j)) return undefined;
+        j += source[j] === '\\' ? 2 : 1;
+      }
+      if (j >= source.length) return undefined;
+      let raw = source.slice(i + 1, j);
+      if (char !== '"') {
+        raw = raw
+          .replace(/\\(['`])/g, '$1')
+          .replace(/\\?"/g, quote => (quote.length === 2 ? quote : '\\"'))
+          .replace(/\n/g, '\\n');
+      }
+      out += `"${raw}"`;
+      i = j + 1;
+      continue;
+    }
+    const spread = rest.match(/^\.\.\.[\w.]+\s*,?/);
+    if (spread) {
+      i += spread[0].length;
+      continue;
+    }
+    const word = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      const after = source.slice(i + word[0].length).match(/^\s*(.)/)?.[1];
+      if (after === ':') {
+        out += JSON.stringify(word[0]);
+      } else if (word[0] === 'true' || word[0] === 'false' || word[0] === 'null') {
+        out += word[0];
+      } else {
+        // Variables, function calls and environment lookups can't be evaluated statically
+        return undefined;
+      }
+      i += word[0].length;
+      continue;
+    }
+    out += char;
+    i++;
+  }
+  return out.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Finds the object literal a JavaScript app config exports
+ * (export default {...}, module.exports = {...}, defineConfig({...}), ({ config }) => ({...}))
+ */
+function exportedObjectLiteral(source: string): string | undefined {
+  const exportMatch = /export\s+default\b|module\.exports\s*=/.exec(source);
+  if (!exportMatch) return undefined;
+
+  // A function export ({ config }) => ({ ... }) returns the object after the arrow
+  const afterExport = exportMatch.index + exportMatch[0].length;
+  const arrow = source.slice(afterExport).match(/^\s*(?:async\s*)?\([^)]*\)\s*(?::\s*[\w.<>]+\s*)?=>\s*\(?\s*\{/);
+  const start = arrow ? afterExport + arrow[0].length - 1 : source.indexOf('{', afterExport);
+  if (start < 0) return undefined;
+
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = undefined;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') quote = char;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return source.slice(start, i + 1);
+  }
+  return undefined;
+}
+
+function readLayer(file: string): ConfigLayer | undefined {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    if (file.endsWith('.json')) {
+      parsed = JSON.parse(text);
+    } else {
+      const literal = exportedObjectLiteral(text);
+      const json = literal ? objectLiteralToJson(literal) : undefined;
+      if (!json) {
+        console.warn(`Warning: ${path.basename(file)} is computed at build time and can't be read statically; using app.json only`);
+        return undefined;
+      }
+      parsed = JSON.parse(json);
+    }
+  } catch (error) {
+    console.warn(`Warning: Could not parse ${path.basename(file)}: ${error}`);
+    return undefined;
+  }
+  if (!isRecord(parsed)) return undefined;
+
+  return isRecord(parsed.expo)
+    ? { file, text, config: parsed.expo, prefix: 'expo' }
+    : { file, text, config: parsed, prefix: '' };
+}
+
+/**
+ * Finds the Expo config files of a project directory
+ */
+export function findExpoConfigFiles(dir: string): string[] {
+  return EXPO_CONFIG_FILES
+    .map(file => path.join(dir, file))
+    .filter(file => fs.existsSync(file));
+}
+
+/**
+ * Parses the Expo config of a project directory into the Info.plist and
+ * entitlements `expo prebuild` would generate
+ *
+ * Returns undefined when the directory has no Expo config.
+ */
+export function parseExpoConfig(dir: string): ExpoConfig | undefined {
+  const layers = findExpoConfigFiles(dir)
+    .map(readLayer)
+    .filter((layer): layer is ConfigLayer => !!layer);
+  // app.json alone is also used by bare React Native apps; only Expo configs have an ios or plugins section
+  if (layers.length === 0 || !layers.some(layer => isRecord(layer.config.ios) || Array.isArray(layer.config.plugins))) {
+    return undefined;
+  }
+
+  const primary = layers[layers.length - 1];
+  const infoPlist: Record<string, unknown> = {};
+  const entitlements: Record<string, unknown> = {};
+  const keySources: Record<string, ExpoKeySource> = {};
+  let infoPlistSource = keySource(primary, ['ios', 'infoPlist']);
+  let entitlementsSource = keySource(primary, ['ios', 'entitlements']);
+
+  // The prebuild template always ships a launch storyboard
+  infoPlist.UILaunchStoryboardName = 'SplashScreen';
+
+  // Later files override earlier ones, as app.config.* receives app.json
+  for (const layer of layers) {
+    const { config } = layer;
+    const ios = isRecord(config.ios) ? config.ios : {};
+    const set = (target: Record<string, unknown>, key: string, value: unknown, keys: string[], pluginName?: string) => {
+      target[key] = value;
+      keySources[key] = keySource(layer, keys, pluginName);
+    };
+
+    if (typeof config.name === 'string') set(infoPlist, 'CFBundleDisplayName', config.name, ['name']);
+    if (typeof ios.bundleIdentifier === 'string') set(infoPlist, 'CFBundleIdentifier', ios.bundleIdentifier, ['ios', 'bundleIdentifier']);
+    if (typeof config.version === 'string') set(infoPlist, 'CFBundleShortVersionString', config.version, ['version']);
+    if (typeof ios.buildNumber === 'string') set(infoPlist, 'CFBundleVersion', ios.buildNumber, ['ios', 'buildNumber']);
+    if (typeof config.orientation === 'string' && ORIENTATIONS[config.orientation]) {
+      set(infoPlist, 'UISupportedInterfaceOrientations', ORIENTATIONS[config.orientation], ['orientation']);
+    }
+    const iosConfig = isRecord(ios.config) ? ios.config : {};
+    if (typeof iosConfig.usesNonExemptEncryption === 'boolean') {
+      set(infoPlist, 'ITSAppUsesNonExemptEncryption', iosConfig.usesNonExemptEncryption, ['ios', 'config', 'usesNonExemptEncryption']);
+    }
+    if (ios.usesAppleSignIn === true) {
+      set(entitlements, 'com.apple.developer.applesignin', ['Default'], ['ios', 'usesAppleSignIn']);
+    }
+    if (Array.isArray(ios.associatedDomains)) {
+      set(entitlements, 'com.apple.developer.associated-domains', ios.associatedDomains, ['ios', 'associatedDomains']);
+    }
+
+    // Config plugins
+    for (const plugin of Array.isArray(config.plugins) ? config.plugins : []) {
+      const [name, options] = Array.isArray(plugin) ? plugin : [plugin, undefined];
+      if (typeof name !== 'string') continue;
+      if (name === 'expo-apple-authentication') {
+        set(entitlements, 'com.apple.developer.applesignin', ['Default'], ['plugins'], name);
+      }
+      for (const { option, key, defaultValue } of PLUGIN_PERMISSIONS[name] ?? []) {
+        const value = isRecord(options) ? options[option] : undefined;
+        if (value === false) continue;
+        set(infoPlist, key, typeof value === 'string' ? value : defaultValue, ['plugins'], name);
+      }
+    }
+
+    // Explicit ios.infoPlist and ios.entitlements win over everything generated
+    if (isRecord(ios.infoPlist)) {
+      infoPlistSource = keySource(layer, ['ios', 'infoPlist']);
+      for (const [key, value] of Object.entries(ios.infoPlist)) {
+        set(infoPlist, key, value, ['ios', 'infoPlist', key]);
+      }
+    }
+    if (isRecord(ios.entitlements)) {
+      entitlementsSource = keySource(layer, ['ios', 'entitlements']);
+      for (const [key, value] of Object.entries(ios.entitlements)) {
+        set(entitlements, key, value, ['ios', 'entitlements', key]);
+      }
+    }
+  }
+
+  return { path: primary.file, infoPlist, entitlements, keySources, infoPlistSource, entitlementsSource };
+}
+
+/**
+ * Where an Info.plist or entitlements key is, or should be added, in the Expo config
+ */
+export function expoKeyLocation(config: ExpoConfig, key: string): ExpoKeySource {
+  const existing = config.keySources[key];
+  if (existing) return existing;
+  const parent = key.startsWith('com.apple.') ? config.entitlementsSource : config.infoPlistSource;
+  return { ...parent, jsonPath: `${parent.jsonPath}.${key}` };
+}
@@ -56,6 +56,146 @@ export const socialLoginSDKPatterns: Array<{ pattern: string; name: string }> =
   { pattern: 'linkedin-sdk', name: 'LinkedIn Login' },
 ];
 
+/**
+ * Known payment SDK patterns for in-app purchase detection
+ */
+export const paymentSDKPatterns: Array<{ pattern: string; name: string }> = [
+  { pattern: 'Stripe', name: 'Stripe' },
+  { pattern: 'PayPal', name: 'PayPal' },
+  { pattern: 'Braintree', name: 'Braintree' },
+  { pattern: 'SquareInAppPayments', name: 'Square' },
+  { pattern: 'Adyen', name: 'Adyen' },
+  { pattern: 'razorpay', name: 'Razorpay' },
+  { pattern: 'Paystack', name: 'Paystack' },
+  { pattern: 'MercadoPago', name: 'Mercado Pago' },
+];
+
+/**
+ * Known SDKs that sell through StoreKit (in-app purchase wrappers)
+ */
+export const storeKitSDKPatterns: Array<{ pattern: string; name: string }> = [
+  { pattern: 'RevenueCat', name: 'RevenueCat' },
+  { pattern: 'purchases-ios', name: 'RevenueCat' },
+  { pattern: 'Adapty', name: 'Adapty' },
+  { pattern: 'Qonversion', name: 'Qonversion' },
+  { pattern: 'SwiftyStoreKit', name: 'SwiftyStoreKit' },
+  { pattern: 'Purchasely', name: 'Purchasely' },
+  { pattern: 'Glassfy', name: 'Glassfy' },
+  { pattern: 'SuperwallKit', name: 'Superwall' },
+];
+
+/**
+ * Apple's list of commonly used third-party SDKs
+ *
+ * Since May 2024 new apps and app updates that embed one of these SDKs must
+ * include the SDK's own privacy manifest (and signature, for binary
+ * dependencies). `name` is the SDK as Apple lists it, which is also its pod
+ * name; `packages` are Swift package identities that provide it.
+ * https://developer.apple.com/support/third-party-SDK-requirements/
+ */
+export const commonlyUsedSDKs: Array<{ name: string; packages?: string[] }> = [
+  { name: 'Abseil', packages: ['abseil-cpp-binary', 'abseil-cpp-swiftpm'] },
+  { name: 'AFNetworking' },
+  { name: 'Alamofire' },
+  { name: 'AppAuth', packages: ['appauth-ios'] },
+  { name: 'BoringSSL', packages: ['boringssl-swiftpm'] },
+  { name: 'BoringSSL-GRPC' },
+  { name: 'Capacitor', packages: ['capacitor-swift-pm'] },
+  { name: 'Charts' },
+  { name: 'connectivity_plus' },
+  { name: 'Cordova' },
+  { name: 'device_info_plus' },
+  { name: 'DKImagePickerController' },
+  { name: 'DKPhotoGallery' },
+  { name: 'FBAEMKit', packages: ['facebook-ios-sdk'] },
+  { name: 'FBLPromises', packages: ['promises'] },
+  { name: 'FBSDKCoreKit' },
+  { name: 'FBSDKCoreKit_Basics' },
+  { name: 'FBSDKLoginKit' },
+  { name: 'FBSDKShareKit' },
+  { name: 'file_picker' },
+  { name: 'FirebaseABTesting', packages: ['firebase-ios-sdk'] },
+  { name: 'FirebaseAuth' },
+  { name: 'FirebaseCore' },
+  { name: 'FirebaseCoreDiagnostics' },
+  { name: 'FirebaseCoreExtension' },
+  { name: 'FirebaseCoreInternal' },
+  { name: 'FirebaseCrashlytics' },
+  { name: 'FirebaseDynamicLinks' },
+  { name: 'FirebaseFirestore' },
+  { name: 'FirebaseInstallations' },
+  { name: 'FirebaseMessaging' },
+  { name: 'FirebaseRemoteConfig' },
+  { name: 'Flutter' },
+  { name: 'FMDB' },
+  { name: 'fluttertoast' },
+  { name: 'geolocator_apple' },
+  { name: 'GoogleDataTransport' },
+  { name: 'GoogleSignIn', packages: ['googlesignin-ios'] },
+  { name: 'GoogleToolboxForMac' },
+  { name: 'GoogleUtilities' },
+  { name: 'grpcpp', packages: ['grpc-binary'] },
+  { name: 'GTMAppAuth' },
+  { name: 'GTMSessionFetcher', packages: ['gtm-session-fetcher'] },
+  { name: 'hermes', packages: ['hermes-engine'] },
+  { name: 'image_picker_ios' },
+  { name: 'IQKeyboardManager' },
+  { name: 'IQKeyboardManagerSwift' },
+  { name: 'Kingfisher' },
+  { name: 'leveldb' },
+  { name: 'Lottie', packages: ['lottie-ios', 'lottie-spm'] },
+  { name: 'MBProgressHUD' },
+  { name: 'nanopb' },
+  { name: 'OneSignal', packages: ['onesignal-ios-sdk', 'onesignal-xcframework'] },
+  { name: 'OneSignalCore' },
+  { name: 'OneSignalExtension' },
+  { name: 'OneSignalOutcomes' },
+  { name: 'OpenSSL', packages: ['openssl-package'] },
+  { name: 'OrderedSet' },
+  { name: 'package_info' },
+  { name: 'package_info_plus' },
+  { name: 'path_provider' },
+  { name: 'path_provider_ios' },
+  { name: 'Promises' },
+  { name: 'Protobuf' },
+  { name: 'Reachability' },
+  { name: 'RealmSwift', packages: ['realm-swift'] },
+  { name: 'RxCocoa', packages: ['rxswift'] },
+  { name: 'RxRelay' },
+  { name: 'RxSwift' },
+  { name: 'SDWebImage' },
+  { name: 'share_plus' },
+  { name: 'shared_preferences_ios' },
+  { name: 'SnapKit' },
+  { name: 'sqflite' },
+  { name: 'Starscream' },
+  { name: 'SVProgressHUD' },
+  { name: 'SwiftyGif' },
+  { name: 'SwiftyJSON' },
+  { name: 'Toast', packages: ['toast-swift'] },
+  { name: 'UnityFramework' },
+  { name: 'url_launcher' },
+  { name: 'url_launcher_ios' },
+  { name: 'video_player_avfoundation' },
+  { name: 'wakelock' },
+  { name: 'webview_flutter_wkwebview' },
+];
+
+/**
+ * The entry of Apple's commonly used SDK list a dependency provides, if any
+ *
+ * Names are compared case-insensitively against the SDK names and Swift
+ * package identities. CocoaPods subspecs (`Firebase/Core`) never match: their
+ * base pod is listed separately.
+ */
+export function findCommonlyUsedSDK(dependencyName: string): string | undefined {
+  if (dependencyName.includes('/')) return undefined;
+  const name = dependencyName.toLowerCase();
+  return commonlyUsedSDKs.find(sdk =>
+    sdk.name.toLowerCase() === name || (sdk.packages ?? []).includes(name)
+  )?.name;
+}
+
 /**
  * Location-related frameworks
  */
@@ -209,6 +349,85 @@ export function parsePackageResolvedData(json: Record<string, unknown>): Depende
   return dependencies;
 }
 
+/**
+ * Parses a JavaScript package.json (React Native, Expo, Capacitor, Cordova)
+ * to extract the packages that ship with the app
+ */
+export function parsePackageJson(filePath: string): Dependency[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return parsePackageJsonData(json);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parses package.json data. devDependencies never reach the app bundle, so
+ * only dependencies are returned.
+ */
+export function parsePackageJsonData(json: Record<string, unknown>): Dependency[] {
+  const packages = json['dependencies'];
+  if (!packages || typeof packages !== 'object' || Array.isArray(packages)) {
+    return [];
+  }
+
+  return Object.entries(packages as Record<string, unknown>).map(([name, version]) => ({
+    name,
+    version: typeof version === 'string' ? version : undefined,
+    source: DependencySource.NPM,
+  }));
+}
+
+/**
+ * Parses a Flutter pubspec.lock to extract Dart packages
+ */
+export function parsePubspecLock(filePath: string): Dependency[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return parsePubspecLockContent(content);
+}
+
+/**
+ * Parses pubspec.lock content string
+ */
+export function parsePubspecLockContent(content: string): Dependency[] {
+  const dependencies: Dependency[] = [];
+  let inPackagesSection = false;
+  let current: Dependency | undefined;
+
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) {
+      inPackagesSection = line.trim() === 'packages:';
+      current = undefined;
+      continue;
+    }
+    if (!inPackagesSection) continue;
+
+    // Package names sit two spaces in, their fields four spaces in
+    const packageMatch = line.match(/^ {2}([\w-]+):\s*$/);
+    if (packageMatch) {
+      current = { name: packageMatch[1], source: DependencySource.Pub };
+      dependencies.push(current);
+      continue;
+    }
+
+    const versionMatch = line.match(/^ {4}version:\s*"?([^"\s]+)"?/);
+    if (versionMatch && current) {
+      current.version = versionMatch[1];
+    }
+  }
+
+  return dependencies;
+}
+
 /**
  * Directories to skip when scanning Swift source files
  */
@@ -293,11 +512,17 @@ export function parseProjectFrameworksContent(content: string): Set<string> {
 
 /**
  * Detects tracking SDKs from a list of dependencies
+ * 
+ * @param extraPatterns Additional name patterns (e.g. from the config file), reported under their own name
  */
-export function detectTrackingSDKs(dependencies: Dependency[]): string[] {
+export function detectTrackingSDKs(dependencies: Dependency[], extraPatterns: string[] = []): string[] {
   const detected: string[] = [];
+  const patterns = [
+    ...trackingSDKPatterns,
+    ...extraPatterns.map(pattern => ({ pattern, name: pattern })),
+  ];
   
-  for (const { pattern, name } of trackingSDKPatterns) {
+  for (const { pattern, name } of patterns) {
     const found = dependencies.some(dep => 
       dep.name.toLowerCase().includes(pattern.toLowerCase())
     );
@@ -327,6 +552,35 @@ export function detectSocialLoginSDKs(dependencies: Dependency[]): string[] {
   return detected;
 }
 
+/**
+ * Detects payment SDKs that charge outside the App Store from a list of dependencies
+ */
+export function detectPaymentSDKs(dependencies: Dependency[]): string[] {
+  return detectByPatterns(dependencies, paymentSDKPatterns);
+}
+
+/**
+ * Detects in-app purchase SDKs built on StoreKit from a list of dependencies
+ */
+export function detectStoreKitSDKs(dependencies: Dependency[]): string[] {
+  return detectByPatterns(dependencies, storeKitSDKPatterns);
+}
+
+function detectByPatterns(dependencies: Dependency[], patterns: Array<{ pattern: string; name: string }>): string[] {
+  const detected: string[] = [];
+
+  for (const { pattern, name } of patterns) {
+    const found = dependencies.some(dep =>
+      dep.name.toLowerCase().includes(pattern.toLowerCase())
+    );
+    if (found && !detected.includes(name)) {
+      detected.push(name);
+    }
+  }
+
+  return detected;
+}
+
 /**
  * Maximum depth for recursive directory searches
  */
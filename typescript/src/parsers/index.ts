@@ -2,8 +2,22 @@
  * Parsers module exports
  */
 export * from './plist-parser.js';
+export * from './privacy-manifest-parser.js';
+export * from './privacy-manifest-discovery.js';
+export * from './dependency-checkouts.js';
+export * from './xcframework-locator.js';
 export * from './entitlements-parser.js';
 export * from './framework-detector.js';
 export * from './pbxproj-parser.js';
+export * from './xcconfig-parser.js';
+export * from './build-settings-resolver.js';
 export * from './project-parser.js';
+export * from './cross-platform.js';
+export * from './expo-config-parser.js';
 export * from './workspace-parser.js';
+export * from './bplist-parser.js';
+export * from './zip-reader.js';
+export * from './bundle-parser.js';
+export * from './macho-parser.js';
+export * from './plist-editor.js';
+export * from './pbxproj-editor.js';
@@ -0,0 +1,348 @@
+/**
+ * Parser for Mach-O binaries
+ *
+ * Extracts what a compiled binary links against, so code rules can run on
+ * closed-source frameworks and built apps where no source exists:
+ * - linked dylibs (LC_LOAD_DYLIB and variants)
+ * - imported symbols (undefined externals in the symbol table)
+ * - Objective-C selector references (__objc_selrefs)
+ *
+ * Handles thin and fat (universal) binaries and static libraries (ar archives
+ * of object files). For fat binaries the arm64 slice is preferred.
+ */
+import * as fs from 'fs';
+import type { BinaryImage } from '../types/index.js';
+
+const MH_MAGIC = 0xfeedface;
+const MH_MAGIC_64 = 0xfeedfacf;
+const FAT_MAGIC = 0xcafebabe;
+const FAT_MAGIC_64 = 0xcafebabf;
+const AR_MAGIC = '!<arch>\n';
+
+const LC_SEGMENT = 0x1;
+const LC_SYMTAB = 0x2;
+const LC_SEGMENT_64 = 0x19;
+const LC_REQ_DYLD = 0x80000000;
+const DYLIB_COMMANDS = new Set([
+  0xc, // LC_LOAD_DYLIB
+  0x18 | LC_REQ_DYLD, // LC_LOAD_WEAK_DYLIB
+  0x1f | LC_REQ_DYLD, // LC_REEXPORT_DYLIB
+  0x20, // LC_LAZY_LOAD_DYLIB
+  0x23 | LC_REQ_DYLD, // LC_LOAD_UPWARD_DYLIB
+]);
+
+const N_STAB = 0xe0;
+const N_TYPE = 0x0e;
+const N_EXT = 0x01;
+const N_UNDF = 0x0;
+
+/** Low 36 bits of a chained-fixup rebase pointer hold the target */
+const CHAINED_TARGET_MASK = 0xfffffffffn;
+
+const CPU_TYPES: Record<number, string> = {
+  0x7: 'i386',
+  0x01000007: 'x86_64',
+  0xc: 'arm',
+  0x0100000c: 'arm64',
+  0x0200000c: 'arm64_32',
+};
+
+/**
+ * Symbols, selectors and dylibs read from one binary
+ */
+export type MachOSymbols = Omit<BinaryImage, 'path' | 'bundleName'>;
+
+interface Section {
+  segment: string;
+  name: string;
+  addr: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Whether a buffer starts with a Mach-O, fat or ar archive header
+ */
+export function isMachO(buffer: Buffer): boolean {
+  if (buffer.length >= AR_MAGIC.length && buffer.toString('latin1', 0, AR_MAGIC.length) === AR_MAGIC) {
+    return true;
+  }
+  if (buffer.length < 4) return false;
+  const le = buffer.readUInt32LE(0);
+  const be = buffer.readUInt32BE(0);
+  return le === MH_MAGIC || le === MH_MAGIC_64 || be === FAT_MAGIC || be === FAT_MAGIC_64;
+}
+
+/**
+ * Parse a Mach-O, fat binary or static library
+ */
+export function parseMachO(buffer: Buffer): MachOSymbols {
+  if (buffer.length >= AR_MAGIC.length && buffer.toString('latin1', 0, AR_MAGIC.length) === AR_MAGIC) {
+    return parseArchive(buffer);
+  }
+
+  const be = buffer.length >= 4 ? buffer.readUInt32BE(0) : 0;
+  if (be === FAT_MAGIC || be === FAT_MAGIC_64) {
+    const slice = selectFatSlice(buffer, be === FAT_MAGIC_64);
+    return parseMachO(buffer.subarray(slice.offset, slice.offset + slice.size));
+  }
+
+  return parseThin(buffer);
+}
+
+/**
+ * Read and parse a binary from disk
+ *
+ * @param bundleName Bundle that ships the binary (e.g. MyApp.app, Vendor.framework)
+ */
+export function readBinaryImage(filePath: string, bundleName: string): BinaryImage {
+  const symbols = parseMachO(fs.readFileSync(filePath));
+  return { path: filePath, bundleName, ...symbols };
+}
+
+function selectFatSlice(buffer: Buffer, is64: boolean): { offset: number; size: number } {
+  const count = buffer.readUInt32BE(4);
+  const entrySize = is64 ? 32 : 20;
+  const slices: { cpuType: number; offset: number; size: number }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const pos = 8 + i * entrySize;
+    if (pos + entrySize > buffer.length) break;
+    slices.push({
+      cpuType: buffer.readUInt32BE(pos),
+      offset: is64 ? Number(buffer.readBigUInt64BE(pos + 8)) : buffer.readUInt32BE(pos + 8),
+      size: is64 ? Number(buffer.readBigUInt64BE(pos + 16)) : buffer.readUInt32BE(pos + 12),
+    });
+  }
+
+  const slice = slices.find(s => CPU_TYPES[s.cpuType] === 'arm64') ?? slices[0];
+  if (!slice || slice.offset + slice.size > buffer.length) {
+    throw new Error('Fat binary has no readable architecture slice');
+  }
+  return slice;
+}
+
+function parseThin(buffer: Buffer): MachOSymbols {
+  if (buffer.length < 28) {
+    throw new Error('Mach-O header is truncated');
+  }
+  const magic = buffer.readUInt32LE(0);
+  if (magic !== MH_MAGIC && magic !== MH_MAGIC_64) {
+    throw new Error('Not a Mach-O binary');
+  }
+
+  const is64 = magic === MH_MAGIC_64;
+  const cpuType = buffer.readUInt32LE(4);
+  const commandCount = buffer.readUInt32LE(16);
+  let pos = is64 ? 32 : 28;
+
+  const dylibs: string[] = [];
+  const sections: Section[] = [];
+  let textVmaddr = 0;
+  let symtab: { symoff: number; nsyms: number; stroff: number; strsize: number } | undefined;
+
+  for (let i = 0; i < commandCount; i++) {
+    if (pos + 8 > buffer.length) break;
+    const cmd = buffer.readUInt32LE(pos);
+    const cmdsize = buffer.readUInt32LE(pos + 4);
+    if (cmdsize < 8 || pos + cmdsize > buffer.length) break;
+
+    if (DYLIB_COMMANDS.has(cmd)) {
+      const nameOffset = buffer.readUInt32LE(pos + 8);
+      dylibs.push(readCString(buffer, pos + nameOffset, pos + cmdsize));
+    } else if (cmd === LC_SYMTAB) {
+      symtab = {
+        symoff: buffer.readUInt32LE(pos + 8),
+        nsyms: buffer.readUInt32LE(pos + 12),
+        stroff: buffer.readUInt32LE(pos + 16),
+        strsize: buffer.readUInt32LE(pos + 20),
+      };
+    } else if (cmd === LC_SEGMENT_64 || cmd === LC_SEGMENT) {
+      const segment = readFixedString(buffer, pos + 8, 16);
+      const vmaddr = is64 ? Number(buffer.readBigUInt64LE(pos + 24)) : buffer.readUInt32LE(pos + 24);
+      if (segment === '__TEXT') {
+        textVmaddr = vmaddr;
+      }
+      const nsects = buffer.readUInt32LE(pos + (is64 ? 64 : 48));
+      const headerSize = is64 ? 72 : 56;
+      const sectionSize = is64 ? 80 : 68;
+      for (let s = 0; s < nsects; s++) {
+        const sp = pos + headerSize + s * sectionSize;
+        if (sp + sectionSize > pos + cmdsize) break;
+        sections.push({
+          name: readFixedString(buffer, sp, 16),
+          segment: readFixedString(buffer, sp + 16, 16),
+          addr: is64 ? Number(buffer.readBigUInt64LE(sp + 32)) : buffer.readUInt32LE(sp + 32),
+          size: is64 ? Number(buffer.readBigUInt64LE(sp + 40)) : buffer.readUInt32LE(sp + 36),
+          offset: buffer.readUInt32LE(sp + (is64 ? 48 : 40)),
+        });
+      }
+    }
+
+    pos += cmdsize;
+  }
+
+  return {
+    arch: CPU_TYPES[cpuType] ?? `cpu-0x${cpuType.toString(16)}`,
+    dylibs,
+    importedSymbols: symtab ? readImportedSymbols(buffer, symtab, is64) : [],
+    selectors: readSelectors(buffer, sections, textVmaddr, is64),
+  };
+}
+
+/**
+ * Undefined external symbols, with the C-level leading underscore removed
+ */
+function readImportedSymbols(
+  buffer: Buffer,
+  symtab: { symoff: number; nsyms: number; stroff: number; strsize: number },
+  is64: boolean
+): string[] {
+  const entrySize = is64 ? 16 : 12;
+  const stringsEnd = Math.min(symtab.stroff + symtab.strsize, buffer.length);
+  const symbols = new Set<string>();
+
+  for (let i = 0; i < symtab.nsyms; i++) {
+    const pos = symtab.symoff + i * entrySize;
+    if (pos + entrySize > buffer.length) break;
+    const type = buffer[pos + 4];
+    if ((type & N_STAB) !== 0 || (type & N_TYPE) !== N_UNDF || (type & N_EXT) === 0) continue;
+
+    const name = readCString(buffer, symtab.stroff + buffer.readUInt32LE(pos), stringsEnd);
+    if (name) {
+      symbols.add(name.startsWith('_') ? name.slice(1) : name);
+    }
+  }
+
+  return [...symbols].sort();
+}
+
+/**
+ * Selectors referenced from __objc_selrefs
+ *
+ * Each selref is a pointer into __objc_methname: a plain vmaddr, or a
+ * chained-fixup rebase (iOS 15+) whose low bits hold a vmaddr or an offset
+ * from the __TEXT base. Object files keep selrefs zeroed until link time,
+ * so they fall back to every name in __objc_methname.
+ */
+function readSelectors(buffer: Buffer, sections: Section[], textVmaddr: number, is64: boolean): string[] {
+  const methnames = sections.find(s => s.name === '__objc_methname');
+  if (!methnames) return [];
+
+  const methEnd = Math.min(methnames.offset + methnames.size, buffer.length);
+  const resolve = (vmaddr: number): string | undefined => {
+    if (vmaddr < methnames.addr || vmaddr >= methnames.addr + methnames.size) return undefined;
+    return readCString(buffer, methnames.offset + (vmaddr - methnames.addr), methEnd);
+  };
+
+  const selectors = new Set<string>();
+  const selrefs = sections.find(s => s.name === '__objc_selrefs');
+  if (selrefs) {
+    const pointerSize = is64 ? 8 : 4;
+    const end = Math.min(selrefs.offset + selrefs.size, buffer.length);
+    for (let pos = selrefs.offset; pos + pointerSize <= end; pos += pointerSize) {
+      const raw = is64 ? buffer.readBigUInt64LE(pos) : BigInt(buffer.readUInt32LE(pos));
+      const target = Number(raw & CHAINED_TARGET_MASK);
+      const name = resolve(Number(raw)) ?? resolve(target) ?? resolve(textVmaddr + target);
+      if (name) selectors.add(name);
+    }
+  }
+
+  if (selectors.size === 0) {
+    for (const name of buffer.toString('latin1', methnames.offset, methEnd).split('\0')) {
+      if (name) selectors.add(name);
+    }
+  }
+
+  return [...selectors].sort();
+}
+
+/**
+ * Merge the symbols of every object file in a static library
+ */
+function parseArchive(buffer: Buffer): MachOSymbols {
+  const merged = { arch: '', dylibs: new Set<string>(), importedSymbols: new Set<string>(), selectors: new Set<string>() };
+  const defined = new Set<string>();
+  let pos = AR_MAGIC.length;
+
+  while (pos + 60 <= buffer.length) {
+    const rawName = buffer.toString('latin1', pos, pos + 16).trim();
+    const size = parseInt(buffer.toString('latin1', pos + 48, pos + 58).trim(), 10);
+    if (!Number.isFinite(size) || size < 0) break;
+
+    let dataStart = pos + 60;
+    let dataSize = size;
+    // BSD long names: "#1/<len>", the name precedes the member data
+    const longName = rawName.match(/^#1\/(\d+)$/);
+    if (longName) {
+      const nameLength = parseInt(longName[1], 10);
+      dataStart += nameLength;
+      dataSize -= nameLength;
+    }
+
+    const member = buffer.subarray(dataStart, dataStart + dataSize);
+    if (member.length >= 4 && (member.readUInt32LE(0) === MH_MAGIC || member.readUInt32LE(0) === MH_MAGIC_64)) {
+      try {
+        const symbols = parseThin(member);
+        merged.arch ||= symbols.arch;
+        symbols.dylibs.forEach(d => merged.dylibs.add(d));
+        symbols.importedSymbols.forEach(s => merged.importedSymbols.add(s));
+        symbols.selectors.forEach(s => merged.selectors.add(s));
+        readDefinedSymbols(member).forEach(s => defined.add(s));
+      } catch {
+        // Skip unreadable members (symbol tables, bitcode)
+      }
+    }
+
+    pos += 60 + size + (size % 2);
+  }
+
+  // References between members of the same archive are not imports
+  return {
+    arch: merged.arch || 'unknown',
+    dylibs: [...merged.dylibs].sort(),
+    importedSymbols: [...merged.importedSymbols].filter(s => !defined.has(s)).sort(),
+    selectors: [...merged.selectors].sort(),
+  };
+}
+
+function readDefinedSymbols(buffer: Buffer): string[] {
+  const is64 = buffer.readUInt32LE(0) === MH_MAGIC_64;
+  const commandCount = buffer.readUInt32LE(16);
+  let pos = is64 ? 32 : 28;
+
+  for (let i = 0; i < commandCount && pos + 8 <= buffer.length; i++) {
+    const cmd = buffer.readUInt32LE(pos);
+    if (cmd === LC_SYMTAB) {
+      const symoff = buffer.readUInt32LE(pos + 8);
+      const nsyms = buffer.readUInt32LE(pos + 12);
+      const stroff = buffer.readUInt32LE(pos + 16);
+      const stringsEnd = Math.min(stroff + buffer.readUInt32LE(pos + 20), buffer.length);
+      const entrySize = is64 ? 16 : 12;
+      const names: string[] = [];
+      for (let s = 0; s < nsyms; s++) {
+        const sp = symoff + s * entrySize;
+        if (sp + entrySize > buffer.length) break;
+        const type = buffer[sp + 4];
+        if ((type & N_STAB) !== 0 || (type & N_TYPE) === N_UNDF || (type & N_EXT) === 0) continue;
+        const name = readCString(buffer, stroff + buffer.readUInt32LE(sp), stringsEnd);
+        names.push(name.startsWith('_') ? name.slice(1) : name);
+      }
+      return names;
+    }
+    const cmdsize = buffer.readUInt32LE(pos + 4);
+    if (cmdsize < 8) break;
+    pos += cmdsize;
+  }
+  return [];
+}
+
+function readCString(buffer: Buffer, start: number, end: number): string {
+  if (start < 0 || start >= end) return '';
+  const nul = buffer.indexOf(0, start);
+  return buffer.toString('latin1', start, nul < 0 || nul > end ? end : nul);
+}
+
+function readFixedString(buffer: Buffer, start: number, length: number): string {
+  return readCString(buffer, start, start + length);
+}
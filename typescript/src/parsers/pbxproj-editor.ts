@@ -0,0 +1,110 @@
+/**
+ * Text-level editing of project.pbxproj build settings
+ *
+ * Used by `shiplint fix` for GENERATE_INFOPLIST_FILE targets, whose Info.plist
+ * keys live in INFOPLIST_KEY_* build settings. Only the setting line changes;
+ * new settings are inserted in Xcode's alphabetical order with the
+ * indentation of their neighbours.
+ */
+import {
+  parsePbxprojTargets,
+  parseConfigurationLists,
+  parseBuildConfigurations,
+  extractBalancedBlock,
+} from './pbxproj-parser.js';
+
+/**
+ * Set a build setting in every build configuration of a target
+ *
+ * @param content The raw pbxproj file content
+ * @param targetName Name of the native target
+ * @returns The edited pbxproj content
+ */
+export function setTargetBuildSetting(content: string, targetName: string, key: string, value: string): string {
+  const target = parsePbxprojTargets(content).find(t => t.name === targetName);
+  if (!target) {
+    throw new Error(`target "${targetName}" not found`);
+  }
+  const configList = parseConfigurationLists(content).get(target.buildConfigurationListId);
+  const configs = parseBuildConfigurations(content);
+  const configIds = (configList?.buildConfigurationIds ?? []).filter(id => configs.has(id));
+  if (configIds.length === 0) {
+    throw new Error(`target "${targetName}" has no build configurations`);
+  }
+
+  // Edit from the end of the file so earlier offsets stay valid
+  const blocks = configIds
+    .map(id => findSettingsBlock(content, id))
+    .filter((block): block is SettingsBlock => block !== undefined)
+    .sort((a, b) => b.start - a.start);
+
+  let edited = content;
+  for (const block of blocks) {
+    const settings = edited.slice(block.start, block.end);
+    edited = edited.slice(0, block.start) + setSetting(settings, key, value) + edited.slice(block.end);
+  }
+  return edited;
+}
+
+interface SettingsBlock {
+  /** Offset just past "buildSettings = {" */
+  start: number;
+  /** Offset of the closing brace */
+  end: number;
+}
+
+/**
+ * Find the buildSettings block of an XCBuildConfiguration by ID
+ */
+function findSettingsBlock(content: string, configId: string): SettingsBlock | undefined {
+  const header = new RegExp(`\\b${configId}\\s*(?:/\\*[^*]*\\*/\\s*)?=\\s*\\{`).exec(content);
+  if (!header) return undefined;
+  const blockStart = header.index + header[0].length;
+  const block = extractBalancedBlock(content, blockStart);
+  if (block === null) return undefined;
+
+  const settingsHeader = /buildSettings\s*=\s*\{/.exec(block);
+  if (!settingsHeader) return undefined;
+  const start = blockStart + settingsHeader.index + settingsHeader[0].length;
+  const settings = extractBalancedBlock(content, start);
+  return settings === null ? undefined : { start, end: start + settings.length };
+}
+
+/**
+ * Set a key inside the text of a buildSettings block
+ */
+function setSetting(settings: string, key: string, value: string): string {
+  const line = `${quote(key)} = ${quote(value)};`;
+
+  const keyPattern = /^([ \t]*)("[^"]+"|[A-Za-z0-9_]+)[ \t]*=/gm;
+  const existingKeys: Array<{ key: string; index: number; indent: string }> = [];
+  let match;
+  while ((match = keyPattern.exec(settings)) !== null) {
+    existingKeys.push({ key: match[2].replace(/^"|"$/g, ''), index: match.index, indent: match[1] });
+  }
+
+  const existing = existingKeys.find(entry => entry.key === key);
+  if (existing) {
+    const valueEnd = settings.indexOf(';', existing.index);
+    return settings.slice(0, existing.index) + existing.indent + line + settings.slice(valueEnd + 1);
+  }
+
+  const indent = existingKeys[0]?.indent ?? '\t\t\t\t';
+  const next = existingKeys.find(entry => entry.key > key);
+  if (next) {
+    return settings.slice(0, next.index) + indent + line + '\n' + settings.slice(next.index);
+  }
+  // After the last setting: just before the line holding the closing brace
+  const closeLineStart = settings.lastIndexOf('\n') + 1;
+  if (closeLineStart > 0) {
+    return settings.slice(0, closeLineStart) + indent + line + '\n' + settings.slice(closeLineStart);
+  }
+  return `${settings}\n${indent}${line}\n`;
+}
+
+/**
+ * Quote a pbxproj string when it contains characters Xcode would quote
+ */
+function quote(text: string): string {
+  return /^[A-Za-z0-9_$/:.-]+$/.test(text) ? text : `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -12,6 +12,8 @@
  * - com.apple.product-type.framework (frameworks)
  */
 import * as path from 'path';
+import { parseBuildSettingKey } from './xcconfig-parser.js';
+import type { BuildSettingAssignment } from './xcconfig-parser.js';
 
 /**
  * Product types in priority order (highest first)
@@ -70,6 +72,8 @@ export interface PbxprojTarget {
   buildConfigurationListId: string;
   /** Product name if specified */
   productName?: string;
+  /** IDs of the target's build phases (sources, frameworks, resources, ...) */
+  buildPhaseIds?: string[];
 }
 
 /**
@@ -82,6 +86,14 @@ export interface PbxprojBuildConfig {
   name: string;
   /** Raw build settings */
   buildSettings: Record<string, string>;
+  /** Build settings in file order, with their [sdk=...]/[config=...] conditions split off */
+  assignments: BuildSettingAssignment[];
+  /** File reference of the base .xcconfig (baseConfigurationReference) */
+  baseConfigurationReferenceId?: string;
+  /** Synchronized folder holding the base .xcconfig (Xcode 16 baseConfigurationReferenceAnchor) */
+  baseConfigurationAnchorId?: string;
+  /** Path of the base .xcconfig inside that folder (baseConfigurationReferenceRelativePath) */
+  baseConfigurationRelativePath?: string;
 }
 
 /**
@@ -142,6 +154,12 @@ export function parsePbxprojTargets(content: string): PbxprojTarget[] {
     const productNameMatch = block.match(/productName\s*=\s*"?([^";]+)"?\s*;/);
     const productName = productNameMatch ? productNameMatch[1].trim() : undefined;
     
+    // Extract build phase IDs (used to resolve per-target linked frameworks)
+    const buildPhasesMatch = block.match(/buildPhases\s*=\s*\(([^)]*)\)/);
+    const buildPhaseIds = buildPhasesMatch
+      ? [...buildPhasesMatch[1].matchAll(/([A-Za-z0-9]+)\s*\/\*/g)].map(m => m[1])
+      : undefined;
+    
     if (productType) {
       targets.push({
         id,
@@ -149,6 +167,7 @@ export function parsePbxprojTargets(content: string): PbxprojTarget[] {
         productType,
         buildConfigurationListId,
         productName,
+        buildPhaseIds,
       });
     }
   }
@@ -172,6 +191,45 @@ export function isApplicationType(productType: string): boolean {
          productType === ProductType.ApplicationOnDemandInstall;
 }
 
+/**
+ * Product types that end up inside the uploaded .ipa and are reviewed by Apple
+ */
+const SHIPPABLE_PRODUCT_TYPES = new Set<string>([
+  ProductType.Application,
+  ProductType.ApplicationOnDemandInstall,
+  ProductType.AppExtension,
+  ProductType.ExtensionKitExtension,
+  ProductType.WatchApp,
+  ProductType.WatchExtension,
+  ProductType.TVExtension,
+]);
+
+/**
+ * Check if a product type is shipped to the App Store as its own bundle
+ * (app, App Clip, app extension, watch app/extension)
+ */
+export function isShippableType(productType: string): boolean {
+  return SHIPPABLE_PRODUCT_TYPES.has(productType);
+}
+
+/**
+ * Check if a product type is an extension (app, ExtensionKit, watch or TV extension)
+ */
+export function isExtensionType(productType: string): boolean {
+  return productType === ProductType.AppExtension ||
+         productType === ProductType.ExtensionKitExtension ||
+         productType === ProductType.WatchExtension ||
+         productType === ProductType.TVExtension;
+}
+
+/**
+ * Check if a product type is a watchOS app or WatchKit extension
+ */
+export function isWatchType(productType: string): boolean {
+  return productType === ProductType.WatchApp ||
+         productType === ProductType.WatchExtension;
+}
+
 /**
  * Check if a product type is a test target
  */
@@ -230,6 +288,56 @@ export function getMainAppTarget(
   return sorted[0];
 }
 
+/**
+ * Get every shippable target, with the main app target first
+ * 
+ * Remaining targets keep their pbxproj order so output is stable between runs.
+ * 
+ * @param targets List of parsed targets
+ * @param projectName Optional project name for main target selection
+ * @returns Shippable targets (app, App Clip, extensions, watch app)
+ */
+export function getShippableTargets(
+  targets: PbxprojTarget[],
+  projectName?: string
+): PbxprojTarget[] {
+  const shippable = targets.filter(t => isShippableType(t.productType));
+  const main = getMainAppTarget(shippable, projectName);
+  if (!main) {
+    return [];
+  }
+  return [main, ...shippable.filter(t => t !== main)];
+}
+
+/**
+ * Get the frameworks linked by a specific target's Frameworks build phase
+ * 
+ * @param content The raw pbxproj file content
+ * @param target The target to inspect
+ * @returns Framework names (without the .framework suffix)
+ */
+export function getTargetLinkedFrameworks(content: string, target: PbxprojTarget): Set<string> {
+  const frameworks = new Set<string>();
+  
+  for (const phaseId of target.buildPhaseIds ?? []) {
+    const phaseStart = content.search(new RegExp(`${phaseId}\\s*/\\*[^*]*\\*/\\s*=\\s*\\{`));
+    if (phaseStart === -1) continue;
+    
+    const blockStart = content.indexOf('{', phaseStart) + 1;
+    const block = extractBalancedBlock(content, blockStart);
+    if (!block || !block.includes('isa = PBXFrameworksBuildPhase')) continue;
+    
+    // Build file comments carry the framework name: ID /* AVFoundation.framework in Frameworks */
+    const fileRegex = /\/\*\s*(\w+)\.(?:xc)?framework in Frameworks\s*\*\//g;
+    let fileMatch;
+    while ((fileMatch = fileRegex.exec(block)) !== null) {
+      frameworks.add(fileMatch[1]);
+    }
+  }
+  
+  return frameworks;
+}
+
 /**
  * Parse XCBuildConfiguration entries from pbxproj content
  * 
@@ -269,6 +377,7 @@ export function parseBuildConfigurations(content: string): Map<string, PbxprojBu
     
     // Parse build settings
     const buildSettings: Record<string, string> = {};
+    const assignments: BuildSettingAssignment[] = [];
     // Match unquoted keys (WORD) and quoted keys ("KEY[sdk=...]")
     const settingRegex = /(?:"([^"]+)"|(\w+))\s*=\s*(?:"([^"]*)"|([^";]*))\s*;/g;
     let settingMatch;
@@ -276,6 +385,7 @@ export function parseBuildConfigurations(content: string): Map<string, PbxprojBu
       const rawKey = (settingMatch[1] || settingMatch[2]).trim();
       const value = (settingMatch[3] ?? settingMatch[4] ?? '').trim();
       buildSettings[rawKey] = value;
+      assignments.push({ ...parseBuildSettingKey(rawKey), value });
       // Also store without SDK condition suffix so rules can match base key
       const baseKey = rawKey.replace(/\[.*\]$/, '');
       if (baseKey !== rawKey && !(baseKey in buildSettings)) {
@@ -283,10 +393,20 @@ export function parseBuildConfigurations(content: string): Map<string, PbxprojBu
       }
     }
     
+    // The base .xcconfig sits outside the buildSettings block
+    const outside = blockContent.slice(0, bsStart) + blockContent.slice(bsBlockStart + settingsBlock.length);
+    const baseReference = outside.match(/baseConfigurationReference\s*=\s*([A-Za-z0-9]+)/);
+    const baseAnchor = outside.match(/baseConfigurationReferenceAnchor\s*=\s*([A-Za-z0-9]+)/);
+    const baseRelativePath = outside.match(/baseConfigurationReferenceRelativePath\s*=\s*(?:"([^"]+)"|([^;\s]+))\s*;/);
+    
     configs.set(id, {
       id,
       name,
       buildSettings,
+      assignments,
+      baseConfigurationReferenceId: baseReference?.[1],
+      baseConfigurationAnchorId: baseAnchor?.[1],
+      baseConfigurationRelativePath: baseRelativePath ? baseRelativePath[1] ?? baseRelativePath[2] : undefined,
     });
   }
   
@@ -297,7 +417,7 @@ export function parseBuildConfigurations(content: string): Map<string, PbxprojBu
  * Extract content between balanced braces, respecting quoted strings.
  * Starts from position after opening brace, returns content up to matching closing brace.
  */
-function extractBalancedBlock(content: string, startPos: number): string | null {
+export function extractBalancedBlock(content: string, startPos: number): string | null {
   let depth = 1;
   let inQuote = false;
   let i = startPos;
@@ -352,6 +472,106 @@ export function parseConfigurationLists(content: string): Map<string, PbxprojCon
   return lists;
 }
 
+/**
+ * A file reference or group that contributes to on-disk paths
+ */
+interface PbxprojPathObject {
+  path?: string;
+  sourceTree?: string;
+  parentId?: string;
+}
+
+/**
+ * Parse file references and groups (including Xcode 16 synchronized folders) with their parent groups
+ */
+function parsePathObjects(content: string): Map<string, PbxprojPathObject> {
+  const objects = new Map<string, PbxprojPathObject>();
+  const children = new Map<string, string[]>();
+  
+  // The main group usually has no comment after its ID, so the comment is optional here
+  const objectPattern = /([A-Za-z0-9]+)\s*(?:\/\*[^*]*\*\/\s*)?=\s*\{\s*isa\s*=\s*(PBXFileReference|PBXGroup|PBXVariantGroup|XCVersionGroup|PBXFileSystemSynchronizedRootGroup)\s*;/g;
+  let match;
+  while ((match = objectPattern.exec(content)) !== null) {
+    const block = extractBalancedBlock(content, content.indexOf('{', match.index) + 1);
+    if (!block) continue;
+    
+    const field = (name: string): string | undefined => {
+      const fieldMatch = block.match(new RegExp(`\\b${name}\\s*=\\s*(?:"((?:[^"\\\\]|\\\\.)*)"|([^;\\s]+))\\s*;`));
+      return fieldMatch ? fieldMatch[1] ?? fieldMatch[2] : undefined;
+    };
+    objects.set(match[1], { path: field('path'), sourceTree: field('sourceTree') });
+    
+    const childrenMatch = block.match(/children\s*=\s*\(([^)]*)\)/);
+    if (childrenMatch) {
+      children.set(match[1], [...childrenMatch[1].matchAll(/([A-Za-z0-9]+)\s*(?:\/\*[^*]*\*\/\s*)?,/g)].map(m => m[1]));
+    }
+  }
+  
+  for (const [groupId, childIds] of children) {
+    for (const childId of childIds) {
+      const child = objects.get(childId);
+      if (child) child.parentId = groupId;
+    }
+  }
+  return objects;
+}
+
+/**
+ * Resolve a file reference or group to an absolute path
+ * 
+ * Follows `<group>` paths up through parent groups. Files relative to build
+ * products or the SDK have no path in the source tree and yield undefined.
+ * 
+ * @param content The raw pbxproj file content
+ * @param objectId ID of the PBXFileReference or group
+ * @param projectDir Directory containing the .xcodeproj (SRCROOT)
+ */
+export function resolvePbxprojObjectPath(content: string, objectId: string, projectDir: string): string | undefined {
+  const objects = parsePathObjects(content);
+  
+  const resolve = (id: string, depth: number): string | undefined => {
+    const object = objects.get(id);
+    if (!object || depth > 50) return undefined;
+    const ownPath = object.path ?? '';
+    switch (object.sourceTree ?? '<group>') {
+      case '<group>': {
+        const parentDir = object.parentId ? resolve(object.parentId, depth + 1) : projectDir;
+        return parentDir === undefined ? undefined : path.resolve(parentDir, ownPath);
+      }
+      case 'SOURCE_ROOT':
+        return path.resolve(projectDir, ownPath);
+      case '<absolute>':
+        return path.resolve(ownPath);
+      default:
+        return undefined;
+    }
+  };
+  
+  return resolve(objectId, 0);
+}
+
+/**
+ * Resolve the base .xcconfig of a build configuration to an absolute path
+ * 
+ * @param content The raw pbxproj file content
+ * @param config The build configuration
+ * @param projectDir Directory containing the .xcodeproj (SRCROOT)
+ */
+export function resolveBaseConfigurationPath(
+  content: string,
+  config: PbxprojBuildConfig,
+  projectDir: string
+): string | undefined {
+  if (config.baseConfigurationReferenceId) {
+    return resolvePbxprojObjectPath(content, config.baseConfigurationReferenceId, projectDir);
+  }
+  if (config.baseConfigurationAnchorId && config.baseConfigurationRelativePath) {
+    const anchorDir = resolvePbxprojObjectPath(content, config.baseConfigurationAnchorId, projectDir);
+    return anchorDir ? path.resolve(anchorDir, config.baseConfigurationRelativePath) : undefined;
+  }
+  return undefined;
+}
+
 /**
  * Get build settings for a specific target
  * 
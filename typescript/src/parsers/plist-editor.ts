@@ -0,0 +1,271 @@
+/**
+ * Text-level editing of XML property lists
+ *
+ * Used by `shiplint fix`. Instead of parsing and re-serializing the whole
+ * file (which would reorder keys and reformat everything), these helpers
+ * locate the element to change and splice new XML into the original text.
+ * Indentation and line endings are copied from the surrounding file.
+ */
+import type { PlistValue } from '../types/index.js';
+
+/**
+ * Error thrown when a file cannot be edited as an XML plist
+ */
+export class PlistEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlistEditError';
+  }
+}
+
+interface XmlElement {
+  name: string;
+  /** Offset of the opening tag */
+  start: number;
+  /** Offset just past the closing tag */
+  end: number;
+  /** Offsets of the content between the tags (equal for self-closing elements) */
+  innerStart: number;
+  innerEnd: number;
+  children: XmlElement[];
+}
+
+interface DictEntry {
+  key: string;
+  keyElement: XmlElement;
+  value: XmlElement;
+}
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([A-Za-z][\w.-]*)[^>]*?(\/?)>/g;
+
+/**
+ * Set a top-level key of an XML plist, replacing its value if it exists
+ *
+ * New keys are added at the end of the root dictionary, preceded by
+ * `comment` (as an XML comment) when given.
+ */
+export function setPlistKey(xml: string, key: string, value: PlistValue, comment?: string): string {
+  const doc = parseDocument(xml);
+  const existing = doc.entries.find(entry => entry.key === key);
+  if (existing) {
+    return splice(xml, existing.value.start, existing.value.end, serializeValue(value, doc.childIndent, doc.unit, doc.newline));
+  }
+
+  const lines = [
+    ...commentLines(comment),
+    `<key>${escapeXml(key)}</key>`,
+    serializeValue(value, doc.childIndent, doc.unit, doc.newline),
+  ];
+  return insertChildren(xml, doc.root, lines, doc.childIndent, doc.newline);
+}
+
+/**
+ * Append an item to a top-level array of an XML plist, creating the key if needed
+ *
+ * `comment` is written as an XML comment above the item.
+ */
+export function appendToPlistArray(xml: string, key: string, item: PlistValue, comment?: string): string {
+  const doc = parseDocument(xml);
+  const existing = doc.entries.find(entry => entry.key === key);
+  if (!existing) {
+    if (comment === undefined) {
+      return setPlistKey(xml, key, [item]);
+    }
+    // Create an empty array first so the comment sits next to the item
+    return appendToPlistArray(setPlistKey(xml, key, []), key, item, comment);
+  }
+  if (existing.value.name !== 'array') {
+    throw new PlistEditError(`"${key}" is not an array`);
+  }
+
+  const array = existing.value;
+  const itemIndent = array.children.length > 0
+    ? lineIndent(xml, array.children[0].start)
+    : lineIndent(xml, array.start) + doc.unit;
+  const lines = [...commentLines(comment), serializeValue(item, itemIndent, doc.unit, doc.newline)];
+  return insertChildren(xml, array, lines, itemIndent, doc.newline);
+}
+
+/**
+ * Serialize a value as plist XML
+ *
+ * The first line has no indentation (it continues the current line); nested
+ * lines are indented relative to `indent`.
+ */
+export function serializeValue(value: PlistValue, indent: string, unit = '\t', newline = '\n'): string {
+  if (typeof value === 'string') {
+    return `<string>${escapeXml(value)}</string>`;
+  }
+  if (typeof value === 'boolean') {
+    return value ? '<true/>' : '<false/>';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? `<integer>${value}</integer>` : `<real>${value}</real>`;
+  }
+
+  const inner = indent + unit;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '<array/>';
+    const items = value.map(item => inner + serializeValue(item, inner, unit, newline));
+    return ['<array>', ...items, `${indent}</array>`].join(newline);
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 0) return '<dict/>';
+  const entries = keys.flatMap(key => [
+    `${inner}<key>${escapeXml(key)}</key>`,
+    inner + serializeValue(value[key], inner, unit, newline),
+  ]);
+  return ['<dict>', ...entries, `${indent}</dict>`].join(newline);
+}
+
+/**
+ * Line (1-based) of the value at a key path, e.g. ['NSPrivacyAccessedAPITypes', 0, 'NSPrivacyAccessedAPIType']
+ *
+ * Used to report findings inside plist files. Returns undefined when the
+ * path does not exist or the text is not an XML plist.
+ */
+export function findPlistLine(xml: string, keyPath: Array<string | number>): number | undefined {
+  let element: XmlElement;
+  try {
+    element = parseDocument(xml).root;
+  } catch {
+    return undefined;
+  }
+
+  for (const step of keyPath) {
+    let next: XmlElement | undefined;
+    if (typeof step === 'number') {
+      next = element.name === 'array' ? element.children[step] : undefined;
+    } else if (element.name === 'dict') {
+      // The last occurrence wins, as in the plist parser
+      for (let i = 0; i + 1 < element.children.length; i += 2) {
+        const keyElement = element.children[i];
+        if (keyElement.name === 'key' && unescapeXml(xml.slice(keyElement.innerStart, keyElement.innerEnd)) === step) {
+          next = element.children[i + 1];
+        }
+      }
+    }
+    if (!next) return undefined;
+    element = next;
+  }
+  return xml.slice(0, element.start).split('\n').length;
+}
+
+/**
+ * Locate the root dictionary and its entries
+ */
+function parseDocument(xml: string) {
+  const plist = parseElements(xml).find(element => element.name === 'plist');
+  const root = plist?.children[0];
+  if (!root || root.name !== 'dict') {
+    throw new PlistEditError('not an XML property list with a root dictionary');
+  }
+
+  const entries: DictEntry[] = [];
+  for (let i = 0; i + 1 < root.children.length; i += 2) {
+    const keyElement = root.children[i];
+    if (keyElement.name !== 'key') {
+      throw new PlistEditError(`expected <key> but found <${keyElement.name}>`);
+    }
+    entries.push({
+      key: unescapeXml(xml.slice(keyElement.innerStart, keyElement.innerEnd)),
+      keyElement,
+      value: root.children[i + 1],
+    });
+  }
+
+  const rootIndent = lineIndent(xml, root.start);
+  const childIndent = entries.length > 0 ? lineIndent(xml, entries[0].keyElement.start) : rootIndent + '\t';
+  const unit = childIndent.startsWith(rootIndent) && childIndent.length > rootIndent.length
+    ? childIndent.slice(rootIndent.length)
+    : '\t';
+  const newline = xml.includes('\r\n') ? '\r\n' : '\n';
+
+  return { root, entries, childIndent, unit, newline };
+}
+
+/**
+ * Build a shallow element tree (elements only; text, comments and declarations are skipped)
+ */
+function parseElements(xml: string): XmlElement[] {
+  const top: XmlElement[] = [];
+  const stack: XmlElement[] = [];
+  const addToParent = (element: XmlElement) => {
+    (stack.length > 0 ? stack[stack.length - 1].children : top).push(element);
+  };
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = TOKEN_PATTERN.exec(xml)) !== null) {
+    const [token, closing, name, selfClosing] = match;
+    if (!name) continue;
+    const start = match.index;
+    const end = start + token.length;
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new PlistEditError(`unexpected </${name}>`);
+      }
+      open.innerEnd = start;
+      open.end = end;
+      addToParent(open);
+    } else if (selfClosing) {
+      addToParent({ name, start, end, innerStart: end, innerEnd: end, children: [] });
+    } else {
+      stack.push({ name, start, end: -1, innerStart: end, innerEnd: -1, children: [] });
+    }
+  }
+  if (stack.length > 0) {
+    throw new PlistEditError(`unclosed <${stack[stack.length - 1].name}>`);
+  }
+  return top;
+}
+
+/**
+ * Insert lines as the last children of a dict or array element
+ */
+function insertChildren(xml: string, parent: XmlElement, lines: string[], indent: string, newline: string): string {
+  const closeLineStart = xml.lastIndexOf('\n', parent.innerEnd - 1) + 1;
+  const text = lines.map(line => indent + line).join(newline) + newline;
+
+  if (parent.innerStart === parent.end) {
+    // Self-closing <dict/> or <array/>: expand it
+    const parentIndent = lineIndent(xml, parent.start);
+    return splice(xml, parent.start, parent.end, `<${parent.name}>${newline}${text}${parentIndent}</${parent.name}>`);
+  }
+  if (closeLineStart > parent.innerStart && /^[ \t]*$/.test(xml.slice(closeLineStart, parent.innerEnd))) {
+    // Closing tag on its own line: insert above it
+    return splice(xml, closeLineStart, closeLineStart, text);
+  }
+  return splice(xml, parent.innerEnd, parent.innerEnd, newline + text + lineIndent(xml, parent.start));
+}
+
+function commentLines(comment: string | undefined): string[] {
+  if (comment === undefined) return [];
+  // "--" is not allowed inside XML comments
+  return comment.split('\n').map(line => `<!-- ${line.replace(/--/g, '- -')} -->`);
+}
+
+function lineIndent(xml: string, offset: number): string {
+  const lineStart = xml.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(xml.slice(lineStart, offset))![0];
+}
+
+function splice(text: string, start: number, end: number, replacement: string): string {
+  return text.slice(0, start) + replacement + text.slice(end);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
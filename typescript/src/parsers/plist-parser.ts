@@ -4,19 +4,20 @@
 import * as fs from 'fs';
 import plist from 'plist';
 import type { ParsedInfoPlist } from '../types/index.js';
+import { isBinaryPlist, parseBinaryPlist } from './bplist-parser.js';
 
 /**
- * Parses an Info.plist file at the given path
+ * Parses an Info.plist file at the given path (XML or binary)
  */
 export function parsePlist(filePath: string): Record<string, unknown> {
   if (!fs.existsSync(filePath)) {
     throw new Error(`Info.plist not found at: ${filePath}`);
   }
   
-  const content = fs.readFileSync(filePath, 'utf-8');
+  const buffer = fs.readFileSync(filePath);
   
   try {
-    const parsed = plist.parse(content);
+    const parsed = isBinaryPlist(buffer) ? parseBinaryPlist(buffer) : plist.parse(buffer.toString('utf-8'));
     if (typeof parsed !== 'object' || parsed === null) {
       throw new Error('Root is not a dictionary');
     }
@@ -56,7 +57,7 @@ export function structurePlistData(raw: Record<string, unknown>): ParsedInfoPlis
   const usageDescriptions: Record<string, string> = {};
   
   for (const [key, value] of Object.entries(raw)) {
-    if (key.startsWith('NS') && key.endsWith('UsageDescription')) {
+    if (key.endsWith('UsageDescription')) {
       if (typeof value === 'string') {
         usageDescriptions[key] = value;
       }
@@ -88,7 +89,10 @@ export const knownUsageDescriptionKeys: Record<string, string[]> = {
   'NSLocationAlwaysAndWhenInUseUsageDescription': ['CoreLocation'],
   'NSContactsUsageDescription': ['Contacts', 'ContactsUI'],
   'NSCalendarsUsageDescription': ['EventKit', 'EventKitUI'],
+  'NSCalendarsFullAccessUsageDescription': ['EventKit', 'EventKitUI'],
+  'NSCalendarsWriteOnlyAccessUsageDescription': ['EventKit', 'EventKitUI'],
   'NSRemindersUsageDescription': ['EventKit'],
+  'NSRemindersFullAccessUsageDescription': ['EventKit'],
   'NSBluetoothAlwaysUsageDescription': ['CoreBluetooth'],
   'NSBluetoothPeripheralUsageDescription': ['CoreBluetooth'],
   'NSHealthShareUsageDescription': ['HealthKit'],
@@ -99,6 +103,10 @@ export const knownUsageDescriptionKeys: Record<string, string[]> = {
   'NSHomeKitUsageDescription': ['HomeKit'],
   'NSSiriUsageDescription': ['Intents'],
   'NSAppleMusicUsageDescription': ['MediaPlayer', 'StoreKit'],
+  'NFCReaderUsageDescription': ['CoreNFC'],
+  'NSLocalNetworkUsageDescription': ['Network', 'MultipeerConnectivity'],
+  'NSFocusStatusUsageDescription': ['Intents'],
+  'NSNearbyInteractionUsageDescription': ['NearbyInteraction'],
   'NSUserTrackingUsageDescription': ['AppTrackingTransparency'],
 };
 
@@ -0,0 +1,130 @@
+/**
+ * Discovery of every privacy manifest (PrivacyInfo.xcprivacy) that ends up in an app
+ *
+ * Apple merges the app's manifest with the manifest of each embedded SDK into
+ * the app's privacy report. In a project those manifests live in the app's own
+ * sources (one per target), local Swift packages, installed pods and Swift
+ * package checkouts (see dependency-checkouts.ts).
+ *
+ * Built bundles list their manifests themselves (ScanContext.privacyManifests).
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ScanContext } from '../types/index.js';
+import {
+  MAX_CHECKOUT_SEARCH_DEPTH,
+  NON_SOURCE_DIRS,
+  findDependencyCheckouts,
+  findLocalPackages,
+  contextSearchRoots,
+  isSwiftPackage,
+} from './dependency-checkouts.js';
+
+const MANIFEST_FILE_NAME = 'PrivacyInfo.xcprivacy';
+
+/**
+ * Where a privacy manifest comes from
+ */
+export type PrivacyManifestOrigin = 'app' | 'local-package' | 'cocoapods' | 'spm' | 'embedded';
+
+/**
+ * A privacy manifest found for an app
+ */
+export interface DiscoveredPrivacyManifest {
+  path: string;
+  origin: PrivacyManifestOrigin;
+  /** Target directory, package, pod or embedded bundle that ships the manifest */
+  owner: string;
+}
+
+/**
+ * Find every privacy manifest of a project: the app's, local packages' and installed dependencies'
+ */
+export function discoverPrivacyManifests(rootDirs: string[]): DiscoveredPrivacyManifest[] {
+  const manifests: DiscoveredPrivacyManifest[] = [];
+  const seen = new Set<string>();
+  const add = (manifest: DiscoveredPrivacyManifest): void => {
+    const resolved = path.resolve(manifest.path);
+    if (!seen.has(resolved)) {
+      seen.add(resolved);
+      manifests.push({ ...manifest, path: resolved });
+    }
+  };
+
+  for (const rootDir of rootDirs) {
+    // A Package.swift at the root makes the project itself the package
+    for (const manifestPath of findManifests(rootDir, 0, dir => dir !== rootDir && isSwiftPackage(dir))) {
+      add({ path: manifestPath, origin: 'app', owner: manifestOwner(rootDir, manifestPath) });
+    }
+    for (const packageDir of findLocalPackages(rootDir)) {
+      for (const manifestPath of findManifests(packageDir, 0)) {
+        add({ path: manifestPath, origin: 'local-package', owner: path.basename(packageDir) });
+      }
+    }
+  }
+  for (const checkout of findDependencyCheckouts(rootDirs)) {
+    for (const manifestPath of findManifests(checkout.path, 0)) {
+      add({ path: manifestPath, origin: checkout.origin, owner: checkout.name });
+    }
+  }
+  return manifests;
+}
+
+/**
+ * Privacy manifests that make up a scanned app's privacy report
+ *
+ * Built bundles report what they embed; projects are searched from the project
+ * directory and the directory of the .xcodeproj.
+ */
+export function discoverContextPrivacyManifests(context: ScanContext): DiscoveredPrivacyManifest[] {
+  if (context.privacyManifests) {
+    return context.privacyManifests.map(manifest => ({
+      path: manifest.path,
+      origin: manifest.isAppManifest ? 'app' : 'embedded',
+      owner: manifest.bundleName,
+    }));
+  }
+  return discoverPrivacyManifests(contextSearchRoots(context));
+}
+
+/**
+ * Whether a directory (a pod, checkout or embedded bundle) contains a privacy manifest
+ */
+export function containsPrivacyManifest(dir: string): boolean {
+  return findManifests(dir, 0).length > 0;
+}
+
+/**
+ * Find manifests below a directory, not descending into directories `stop` rejects
+ */
+function findManifests(dir: string, depth: number, stop?: (dir: string) => boolean): string[] {
+  if (depth > MAX_CHECKOUT_SEARCH_DEPTH || stop?.(dir)) return [];
+
+  const results: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.name === MANIFEST_FILE_NAME && entry.isFile()) {
+      results.push(fullPath);
+    } else if (entry.isDirectory() && !NON_SOURCE_DIRS.has(entry.name)) {
+      results.push(...findManifests(fullPath, depth + 1, stop));
+    }
+  }
+  return results;
+}
+
+/**
+ * Owner of an app manifest: the directory it sits in, without a Resources/ level
+ */
+function manifestOwner(rootDir: string, manifestPath: string): string {
+  let dir = path.dirname(manifestPath);
+  if (path.basename(dir) === 'Resources' && dir !== rootDir) {
+    dir = path.dirname(dir);
+  }
+  return path.basename(dir);
+}
@@ -0,0 +1,70 @@
+/**
+ * Parser for privacy manifests (PrivacyInfo.xcprivacy)
+ *
+ * Values come from the plist parsers (XML or binary). For XML manifests the
+ * line of any value can be looked up, so findings point inside the file.
+ */
+import * as fs from 'fs';
+import { isBinaryPlist, parseBinaryPlist } from './bplist-parser.js';
+import { parsePlistString } from './plist-parser.js';
+import { findPlistLine } from './plist-editor.js';
+
+/**
+ * Path to a value inside a plist: dictionary keys and array indexes
+ */
+export type PlistKeyPath = Array<string | number>;
+
+/**
+ * A parsed privacy manifest
+ */
+export interface ParsedPrivacyManifest {
+  path: string;
+  /** Root dictionary (undefined when the file could not be parsed) */
+  data?: Record<string, unknown>;
+  /** Why the file could not be parsed */
+  error?: string;
+  /** Line (1-based) of the value at a key path; undefined for binary plists */
+  lineOf(keyPath: PlistKeyPath): number | undefined;
+}
+
+/**
+ * Parse a privacy manifest without throwing
+ */
+export function parsePrivacyManifest(filePath: string): ParsedPrivacyManifest {
+  let buffer: Buffer;
+  try {
+    buffer = fs.readFileSync(filePath);
+  } catch (error) {
+    return { path: filePath, error: `cannot read file: ${(error as Error).message}`, lineOf: () => undefined };
+  }
+
+  if (isBinaryPlist(buffer)) {
+    try {
+      const parsed = parseBinaryPlist(buffer);
+      return isDictionary(parsed)
+        ? { path: filePath, data: parsed, lineOf: () => undefined }
+        : { path: filePath, error: 'the root of the property list is not a dictionary', lineOf: () => undefined };
+    } catch (error) {
+      return { path: filePath, error: `invalid binary property list: ${(error as Error).message}`, lineOf: () => undefined };
+    }
+  }
+
+  const xml = buffer.toString('utf-8');
+  const lineOf = (keyPath: PlistKeyPath) => findPlistLine(xml, keyPath);
+  // The XML plist parser accepts mismatched tags, so check the structure first
+  if (lineOf([]) === undefined) {
+    return { path: filePath, error: 'not a well-formed XML property list with a root dictionary', lineOf };
+  }
+  try {
+    const parsed = parsePlistString(xml);
+    return isDictionary(parsed)
+      ? { path: filePath, data: parsed, lineOf }
+      : { path: filePath, error: 'the root of the property list is not a dictionary', lineOf };
+  } catch (error) {
+    return { path: filePath, error: (error as Error).message, lineOf };
+  }
+}
+
+function isDictionary(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && !Buffer.isBuffer(value);
+}
@@ -10,11 +10,24 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parsePlist } from './plist-parser.js';
+import { isBinaryPlist, parseBinaryPlist } from './bplist-parser.js';
 import { parseEntitlements } from './entitlements-parser.js';
 import { parseProjectFrameworks, loadAllDependencies, scanSwiftImports } from './framework-detector.js';
 import { getWorkspaceProjects } from './workspace-parser.js';
-import { getMainTargetArtifacts, normalizeXcodePath, parsePbxprojTargets, getMainAppTarget, getTargetBuildSettings, parseBuildConfigurations, parseConfigurationLists } from './pbxproj-parser.js';
-import type { Dependency, ScanContext } from '../types/index.js';
+import { detectCrossPlatformProject, detectPluginFrameworks } from './cross-platform.js';
+import type { CrossPlatformProject } from './cross-platform.js';
+import { parseExpoConfig } from './expo-config-parser.js';
+import type { ExpoConfig } from './expo-config-parser.js';
+import { extractIpa, readAppBundle, flattenAppBundles, findFrameworkBinary } from './bundle-parser.js';
+import { readBinaryImage } from './macho-parser.js';
+import type { AppBundle } from './bundle-parser.js';
+import { getMainTargetArtifacts, normalizeXcodePath, parsePbxprojTargets, getMainAppTarget, getShippableTargets, getTargetLinkedFrameworks, isExtensionType, isWatchType, parseBuildConfigurations, parseConfigurationLists, resolveBaseConfigurationPath } from './pbxproj-parser.js';
+import type { PbxprojBuildConfig, PbxprojTarget } from './pbxproj-parser.js';
+import { parseXcconfig } from './xcconfig-parser.js';
+import type { BuildSettingAssignment } from './xcconfig-parser.js';
+import { resolveBuildSettingLayers, SDK_DEFAULT_BUILD_SETTINGS } from './build-settings-resolver.js';
+import type { BinaryImage, Dependency, ScanContext } from '../types/index.js';
+import { DependencySource } from '../types/index.js';
 
 /**
  * Check if a key is defined in InfoPlist.strings files (localized privacy descriptions)
@@ -30,9 +43,17 @@ function hasKeyInInfoPlistStrings(projectDir: string, key: string): boolean {
     
     for (const stringsFile of stringsFiles) {
       try {
-        const content = fs.readFileSync(stringsFile, 'utf-8');
+        const buffer = fs.readFileSync(stringsFile);
+        // Built bundles ship .strings files compiled to binary plists
+        if (isBinaryPlist(buffer)) {
+          const parsed = parseBinaryPlist(buffer);
+          if (typeof parsed === 'object' && parsed !== null && key in parsed) {
+            return true;
+          }
+          continue;
+        }
         // Check for the key in .strings format: "NSCameraUsageDescription" = "...";
-        if (content.includes(`"${key}"`)) {
+        if (buffer.toString('utf-8').includes(`"${key}"`)) {
           return true;
         }
       } catch {
@@ -62,6 +83,25 @@ export interface ProjectDiscovery {
   workspaceProjects?: string[];
   /** P2 FIX: Target name from pbxproj parsing (for scoped fallback discovery) */
   targetName?: string;
+  /** Set when scanning a built .ipa or .app instead of a project */
+  bundle?: BundleDiscovery;
+  /** Set when the iOS app belongs to a React Native, Flutter, Capacitor, Unity or Kotlin Multiplatform project */
+  crossPlatform?: CrossPlatformProject;
+  /** Set for managed Expo projects, whose Info.plist and entitlements are generated from app.json */
+  expoConfig?: ExpoConfig;
+}
+
+/**
+ * A built app bundle selected for scanning
+ */
+export interface BundleDiscovery {
+  kind: 'ipa' | 'app';
+  /** The .ipa file or .app directory given as input */
+  inputPath: string;
+  /** The .app directory (inside tempDir for IPAs) */
+  appPath: string;
+  /** Temporary extraction directory; remove it with cleanupDiscovery() */
+  tempDir?: string;
 }
 
 /**
@@ -229,6 +269,14 @@ export function parsePbxprojForArtifacts(pbxprojPath: string, projectDir: string
       result.entitlementsPath = artifacts.entitlementsPath;
     }
     
+    // Paths set in base .xcconfig files or through $(VAR) references need the full resolver
+    if (artifacts.target && (!result.infoPlistPath || !result.entitlementsPath)) {
+      const settings = resolveBuildSettings(content, pbxprojPath, artifacts.target);
+      const pathContext = { targetName: artifacts.target.name, productName: settings.PRODUCT_NAME };
+      result.infoPlistPath ??= resolveArtifactPath(settings.INFOPLIST_FILE, projectDir, pathContext);
+      result.entitlementsPath ??= resolveArtifactPath(settings.CODE_SIGN_ENTITLEMENTS, projectDir, pathContext);
+    }
+
     // If target-aware parsing didn't find paths, fall back to simple regex
     // This handles edge cases where the pbxproj format is unusual
     if (!result.infoPlistPath || !result.entitlementsPath) {
@@ -288,8 +336,26 @@ function parsePbxprojForArtifactsFallback(content: string, projectDir: string):
 export function discoverProject(inputPath: string): ProjectDiscovery {
   const stat = fs.statSync(inputPath);
   
+  // Built bundles: scan exactly what gets uploaded. The project path is the
+  // directory holding the bundle, so config and ignore files are found next to it.
   if (stat.isFile() && inputPath.endsWith('.ipa')) {
-    throw new Error('IPA scanning is not yet supported. Please extract the IPA and point to the extracted app.');
+    const { appPath, tempDir } = extractIpa(inputPath);
+    return {
+      projectPath: path.dirname(path.resolve(inputPath)),
+      infoPlistPath: existingPath(path.join(appPath, 'Info.plist')),
+      isWorkspace: false,
+      bundle: { kind: 'ipa', inputPath, appPath, tempDir },
+    };
+  }
+  
+  if (stat.isDirectory() && inputPath.replace(/\/+$/, '').endsWith('.app')) {
+    const appPath = path.resolve(inputPath);
+    return {
+      projectPath: path.dirname(appPath),
+      infoPlistPath: existingPath(path.join(appPath, 'Info.plist')),
+      isWorkspace: false,
+      bundle: { kind: 'app', inputPath, appPath },
+    };
   }
   
   // BUG FIX #1: Handle direct .xcodeproj path
@@ -305,6 +371,7 @@ export function discoverProject(inputPath: string): ProjectDiscovery {
       // P2-A FIX: Dependency scope is the .xcodeproj itself to prevent picking up sibling lockfiles
       dependencyScopeDir: inputPath,
       isWorkspace: false,
+      crossPlatform: detectCrossPlatformProject(basePath),
     };
     
     if (fs.existsSync(pbxprojPath)) {
@@ -342,6 +409,7 @@ export function discoverProject(inputPath: string): ProjectDiscovery {
     const discovery: ProjectDiscovery = {
       projectPath: basePath,
       isWorkspace: true,
+      crossPlatform: detectCrossPlatformProject(basePath),
     };
     
     // P1 FIX: Parse workspace data to get actual project references
@@ -427,10 +495,16 @@ export function discoverProject(inputPath: string): ProjectDiscovery {
   const discovery: ProjectDiscovery = {
     projectPath: basePath,
     isWorkspace: false,
+    crossPlatform: detectCrossPlatformProject(basePath),
   };
   
+  // Cross-platform repos keep the iOS project in a subdirectory (ios/, iosApp/, a
+  // Unity export); search there so android/, macos/ and node_modules are left alone
+  const iosDir = discovery.crossPlatform?.iosDir;
+  const searchDir = iosDir?.startsWith(path.resolve(basePath) + path.sep) ? iosDir : basePath;
+  
   // BUG FIX #3: Recursive search for xcworkspace and xcodeproj
-  const xcworkspaces = findFilesRecursive(basePath, (name) => name.endsWith('.xcworkspace'));
+  const xcworkspaces = findFilesRecursive(searchDir, (name) => name.endsWith('.xcworkspace'));
   if (xcworkspaces.length > 0) {
     discovery.isWorkspace = true;
     
@@ -469,7 +543,7 @@ export function discoverProject(inputPath: string): ProjectDiscovery {
   
   // Fall back to directory scan for xcodeproj
   if (!discovery.pbxprojPath) {
-    const xcodeprojs = findFilesRecursive(basePath, (name) => name.endsWith('.xcodeproj'));
+    const xcodeprojs = findFilesRecursive(searchDir, (name) => name.endsWith('.xcodeproj'));
     // Filter out Pods
     const mainXcodeprojs = xcodeprojs.filter(p => !p.includes('/Pods/') && !p.endsWith('Pods.xcodeproj'));
     const projectList = mainXcodeprojs.length > 0 ? mainXcodeprojs : xcodeprojs;
@@ -501,7 +575,7 @@ export function discoverProject(inputPath: string): ProjectDiscovery {
   
   // P2 FIX: Search for artifacts within the project scope to avoid monorepo mixing
   // Pass targetName to scope the search and prevent monorepo bleeding
-  const artifactSearchDir = discovery.projectScopeDir || basePath;
+  const artifactSearchDir = discovery.projectScopeDir || searchDir;
   if (!discovery.infoPlistPath) {
     discoverInfoPlist(artifactSearchDir, discovery, discovery.targetName);
   }
@@ -509,9 +583,32 @@ export function discoverProject(inputPath: string): ProjectDiscovery {
     discoverEntitlements(artifactSearchDir, discovery, discovery.targetName);
   }
   
+  // Managed Expo projects have no native project until prebuild generates it from app.json
+  if (!discovery.pbxprojPath && !discovery.infoPlistPath) {
+    const expoConfig = parseExpoConfig(discovery.crossPlatform?.rootDir ?? basePath);
+    if (expoConfig) {
+      discovery.expoConfig = expoConfig;
+      discovery.infoPlistPath = expoConfig.path;
+      discovery.entitlementsPath = discovery.entitlementsPath ?? expoConfig.path;
+    }
+  }
+  
   return discovery;
 }
 
+/**
+ * Remove temporary files created during discovery (extracted IPAs)
+ */
+export function cleanupDiscovery(discovery: ProjectDiscovery): void {
+  if (discovery.bundle?.tempDir) {
+    fs.rmSync(discovery.bundle.tempDir, { recursive: true, force: true });
+  }
+}
+
+function existingPath(filePath: string): string | undefined {
+  return fs.existsSync(filePath) ? filePath : undefined;
+}
+
 /**
  * Discovers Info.plist in project directory (recursive)
  * This is the fallback when pbxproj parsing doesn't yield a path
@@ -626,116 +723,301 @@ function discoverEntitlements(basePath: string, discovery: ProjectDiscovery, tar
 }
 
 /**
- * Creates a scan context from discovered project
+ * Names of the project's build configurations (Debug, Release, ...), in project order
+ * 
+ * Empty for built bundles, Swift packages and other projects without a pbxproj.
  */
-export function createScanContext(discovery: ProjectDiscovery): ScanContext {
-  let infoPlist: Record<string, unknown> = {};
-  let entitlements: Record<string, unknown> = {};
-  let linkedFrameworks = new Set<string>();
-  let dependencies: Dependency[] = [];
-  let buildSettings: Record<string, string> = {};
+export function listBuildConfigurations(discovery: ProjectDiscovery): string[] {
+  if (!discovery.pbxprojPath || discovery.bundle) {
+    return [];
+  }
+  let content: string;
+  try {
+    content = fs.readFileSync(discovery.pbxprojPath, 'utf-8');
+  } catch {
+    return [];
+  }
   
-  // Parse Info.plist
-  if (discovery.infoPlistPath) {
-    try {
-      infoPlist = parsePlist(discovery.infoPlistPath);
-    } catch (error) {
-      console.warn(`Warning: Could not parse Info.plist: ${error}`);
+  const configs = parseBuildConfigurations(content);
+  const lists = [...parseConfigurationLists(content)];
+  // The project's list names every configuration; fall back to the targets' lists
+  const projectList = lists.find(([listId]) =>
+    new RegExp(listId + '\\s*/\\*\\s*Build configuration list for PBXProject').test(content));
+  const names = new Set<string>();
+  for (const [, list] of projectList ? [projectList] : lists) {
+    for (const configId of list.buildConfigurationIds) {
+      const name = configs.get(configId)?.name;
+      if (name) names.add(name);
     }
   }
+  return [...names];
+}
+
+/**
+ * Pick the build configuration to scan: the requested one (Release by default),
+ * then Release, then the first one (names match case-insensitively)
+ */
+export function selectBuildConfiguration(names: string[], requested = 'Release'): string | undefined {
+  for (const preferred of new Set([requested.toLowerCase(), 'release'])) {
+    const match = names.find(name => name.toLowerCase() === preferred);
+    if (match) return match;
+  }
+  return names[0];
+}
+
+/**
+ * Resolve an INFOPLIST_FILE / CODE_SIGN_ENTITLEMENTS value to an existing file
+ */
+function resolveArtifactPath(
+  rawPath: string | undefined,
+  projectDir: string,
+  pathContext: { targetName?: string; productName?: string }
+): string | undefined {
+  if (!rawPath) return undefined;
+  const resolved = path.resolve(projectDir, normalizeXcodePath(rawPath, pathContext));
+  return fs.existsSync(resolved) ? resolved : undefined;
+}
+
+/**
+ * Resolve a target's build settings the way Xcode layers them
+ * 
+ * SDK defaults, then the project's base .xcconfig, the project's settings, the
+ * target's base .xcconfig and the target's settings. `$(inherited)`, `$(VAR)`
+ * references, `#include`s and `[sdk=...]`/`[config=...]` conditions are resolved.
+ * Prefers the requested configuration (Release by default) and falls back to
+ * Release, then the first one.
+ * When no target is given, only project-level settings are returned.
+ */
+function resolveBuildSettings(
+  content: string,
+  pbxprojPath: string,
+  target?: PbxprojTarget,
+  configurationName = 'Release'
+): Record<string, string> {
+  const configLists = parseConfigurationLists(content);
+  const configs = parseBuildConfigurations(content);
+  const pickConfig = (configIds: string[]): PbxprojBuildConfig | undefined => {
+    const candidates = configIds.flatMap(configId => configs.get(configId) ?? []);
+    const name = selectBuildConfiguration(candidates.map(config => config.name), configurationName);
+    return candidates.find(config => config.name === name);
+  };
   
-  // Parse entitlements
-  if (discovery.entitlementsPath) {
-    try {
-      entitlements = parseEntitlements(discovery.entitlementsPath);
-    } catch (error) {
-      console.warn(`Warning: Could not parse entitlements: ${error}`);
+  // Find the project-level configuration list by looking for "Build configuration list for PBXProject"
+  let projectConfig: PbxprojBuildConfig | undefined;
+  for (const [listId, list] of configLists) {
+    // Check if this config list is referenced by a PBXProject (not a target)
+    const commentPattern = new RegExp(listId + '\\s*/\\*\\s*Build configuration list for PBXProject');
+    if (commentPattern.test(content)) {
+      projectConfig = pickConfig(list.buildConfigurationIds);
+      break;
     }
   }
   
-  // Parse frameworks and build settings from pbxproj
-  if (discovery.pbxprojPath) {
+  const targetConfigList = target ? configLists.get(target.buildConfigurationListId) : undefined;
+  const targetConfig = targetConfigList ? pickConfig(targetConfigList.buildConfigurationIds) : undefined;
+  if (!projectConfig && !targetConfig) {
+    return {};
+  }
+  
+  const xcodeprojDir = path.dirname(pbxprojPath);
+  const projectDir = path.dirname(xcodeprojDir);
+  const xcconfigAssignments = (config?: PbxprojBuildConfig): BuildSettingAssignment[] => {
+    const xcconfigPath = config && resolveBaseConfigurationPath(content, config, projectDir);
+    if (!xcconfigPath) return [];
     try {
-      linkedFrameworks = parseProjectFrameworks(discovery.pbxprojPath);
+      return parseXcconfig(xcconfigPath);
     } catch (error) {
-      console.warn(`Warning: Could not parse project frameworks: ${error}`);
+      console.warn(`Warning: Could not read ${path.basename(xcconfigPath)}: ${error}`);
+      return [];
     }
+  };
+  
+  const layers = [xcconfigAssignments(projectConfig), projectConfig?.assignments ?? []];
+  if (targetConfig) {
+    layers.unshift([...SDK_DEFAULT_BUILD_SETTINGS]);
+    layers.push(xcconfigAssignments(targetConfig), targetConfig.assignments);
+  }
+  
+  return resolveBuildSettingLayers(layers, {
+    configuration: (targetConfig ?? projectConfig)!.name,
+    variables: {
+      PROJECT_NAME: path.basename(xcodeprojDir, '.xcodeproj'),
+      ...(target ? { TARGET_NAME: target.name } : {}),
+    },
+  });
+}
 
-    // Extract build settings from the main app target
+/**
+ * Settings that shape how scan contexts are built (usually from the config file)
+ */
+export interface ContextSettings {
+  /** Build configuration to read build settings from (default: Release) */
+  configuration?: string;
+  /** Rule-specific options keyed by rule ID */
+  ruleOptions?: Record<string, Record<string, unknown>>;
+  /** Whether the app is declared for the Kids Category */
+  kidsCategory?: boolean;
+  /** Filter applied by source-scanning rules */
+  sourceFilter?: (filePath: string) => boolean;
+}
+
+/**
+ * Creates a scan context from discovered project
+ */
+export function createScanContext(discovery: ProjectDiscovery, settings: ContextSettings = {}): ScanContext {
+  let target: PbxprojTarget | undefined;
+  if (discovery.pbxprojPath) {
     try {
       const content = fs.readFileSync(discovery.pbxprojPath, 'utf-8');
       const projectName = path.basename(path.dirname(discovery.pbxprojPath)).replace('.xcodeproj', '');
-      const targets = parsePbxprojTargets(content);
-      const mainTarget = getMainAppTarget(targets, projectName);
-      
-      const configLists = parseConfigurationLists(content);
-      const configs = parseBuildConfigurations(content);
-      
-      // First, get project-level build settings as base
-      // Find the project-level configuration list by looking for "Build configuration list for PBXProject"
-      let projectSettings: Record<string, string> = {};
-      for (const [listId, list] of configLists) {
-        // Check if this config list is referenced by a PBXProject (not a target)
-        const commentPattern = new RegExp(listId + '\\s*/\\*\\s*Build configuration list for PBXProject');
-        if (commentPattern.test(content)) {
-          // This is the project-level config list
-          for (const configId of list.buildConfigurationIds) {
-            const config = configs.get(configId);
-            if (config && config.name.toLowerCase() === 'release') {
-              projectSettings = { ...config.buildSettings };
-              break;
-            }
-          }
-          if (Object.keys(projectSettings).length === 0) {
-            for (const configId of list.buildConfigurationIds) {
-              const config = configs.get(configId);
-              if (config) {
-                projectSettings = { ...config.buildSettings };
-                break;
-              }
-            }
-          }
-          break;
-        }
-      }
-      
-      // Then overlay target-level build settings (target overrides project)
-      if (mainTarget) {
-        const configList = configLists.get(mainTarget.buildConfigurationListId);
-        if (configList) {
-          let targetSettings: Record<string, string> = {};
-          // Prefer Release config
-          for (const configId of configList.buildConfigurationIds) {
-            const config = configs.get(configId);
-            if (config && config.name.toLowerCase() === 'release') {
-              targetSettings = config.buildSettings;
-              break;
-            }
-          }
-          // Fallback to first config
-          if (Object.keys(targetSettings).length === 0) {
-            for (const configId of configList.buildConfigurationIds) {
-              const config = configs.get(configId);
-              if (config) {
-                targetSettings = config.buildSettings;
-                break;
-              }
-            }
-          }
-          // Merge: project settings as base, target settings override
-          buildSettings = { ...projectSettings, ...targetSettings };
-        }
-      }
+      target = getMainAppTarget(parsePbxprojTargets(content), projectName);
+    } catch {
+      // Build settings extraction below reports the read error
+    }
+  }
+  return createMainTargetContext(discovery, target, settings);
+}
+
+/**
+ * Creates one scan context per shippable target (app, App Clip, extensions, watch app)
+ * 
+ * The main app target comes first and keeps the discovery fallbacks (heuristic
+ * Info.plist/entitlements search, project-wide imports and dependencies).
+ * Secondary targets only use artifacts their own build settings point at.
+ * Projects without a parseable target graph yield a single context.
+ */
+export function createScanContexts(discovery: ProjectDiscovery, settings: ContextSettings = {}): ScanContext[] {
+  if (discovery.bundle) {
+    return createBundleContexts(discovery.bundle, settings);
+  }
+  
+  if (!discovery.pbxprojPath) {
+    return [createScanContext(discovery, settings)];
+  }
+  
+  let content: string;
+  try {
+    content = fs.readFileSync(discovery.pbxprojPath, 'utf-8');
+  } catch {
+    return [createScanContext(discovery, settings)];
+  }
+  
+  const projectName = path.basename(path.dirname(discovery.pbxprojPath)).replace('.xcodeproj', '');
+  const targets = getShippableTargets(parsePbxprojTargets(content), projectName);
+  if (targets.length === 0) {
+    return [createScanContext(discovery, settings)];
+  }
+  
+  const [mainTarget, ...secondaryTargets] = targets;
+  const contexts = [createMainTargetContext(discovery, mainTarget, settings)];
+  for (const target of secondaryTargets) {
+    contexts.push(createSecondaryTargetContext(discovery, content, target, settings));
+  }
+  return contexts;
+}
+
+/**
+ * Creates the scan contexts of each build configuration, in the order given
+ * 
+ * Only build settings, Info.plist and entitlements depend on the configuration.
+ * Contexts after the first configuration's reuse its imports, dependencies, binaries
+ * and source root, and point at it through baseContext so sources are read once.
+ */
+export function createConfigurationContexts(
+  discovery: ProjectDiscovery,
+  configurations: (string | undefined)[],
+  settings: ContextSettings = {}
+): ScanContext[][] {
+  const [first, ...rest] = configurations;
+  const baseContexts = createScanContexts(discovery, { ...settings, configuration: first });
+  if (rest.length === 0) {
+    return [baseContexts];
+  }
+  
+  // Built bundles have no build configurations
+  if (discovery.bundle) {
+    return configurations.map(() => baseContexts);
+  }
+  
+  let content: string | undefined;
+  let targets: PbxprojTarget[] = [];
+  if (discovery.pbxprojPath) {
+    try {
+      content = fs.readFileSync(discovery.pbxprojPath, 'utf-8');
+      targets = parsePbxprojTargets(content);
+    } catch {
+      // Build settings extraction reports the read error
+    }
+  }
+  
+  const contextsByConfiguration = [baseContexts];
+  for (const configuration of rest) {
+    const configurationSettings = { ...settings, configuration };
+    contextsByConfiguration.push(baseContexts.map((base, index) => {
+      const target = targets.find(candidate => candidate.name === base.targetName);
+      const artifacts = index === 0 || !content || !target
+        ? readMainTargetArtifacts(discovery, target, configurationSettings)
+        : readSecondaryTargetArtifacts(discovery, content, target, configurationSettings);
       
-      // If no target found, use project-level settings alone
-      if (Object.keys(buildSettings).length === 0) {
-        buildSettings = projectSettings;
-      }
+      const context = createContextObject(
+        discovery.projectPath,
+        artifacts.infoPlist,
+        artifacts.entitlements,
+        base.linkedFrameworks,
+        base.dependencies,
+        artifacts.infoPlistPath,
+        artifacts.entitlementsPath,
+        discovery.pbxprojPath,
+        artifacts.buildSettings,
+        {
+          targetName: base.targetName,
+          productType: base.productType,
+          sourceRoot: base.sourceRoot,
+        },
+        configurationSettings
+      );
+      context.binaries = base.binaries;
+      context.baseContext = base;
+      return context;
+    }));
+  }
+  return contextsByConfiguration;
+}
+
+/**
+ * Settings-derived artifacts of a target in one build configuration
+ */
+interface TargetArtifacts {
+  buildSettings: Record<string, string>;
+  infoPlist: Record<string, unknown>;
+  infoPlistPath?: string;
+  entitlements: Record<string, unknown>;
+  entitlementsPath?: string;
+}
+
+/**
+ * Creates the context for the main app target (or the whole project when no target is known)
+ */
+function createMainTargetContext(
+  discovery: ProjectDiscovery,
+  target: PbxprojTarget | undefined,
+  settings: ContextSettings
+): ScanContext {
+  let linkedFrameworks = new Set<string>();
+  let dependencies: Dependency[] = [];
+  
+  // Parse frameworks from pbxproj
+  if (discovery.pbxprojPath) {
+    try {
+      linkedFrameworks = parseProjectFrameworks(discovery.pbxprojPath);
     } catch (error) {
-      console.warn(`Warning: Could not extract build settings: ${error}`);
+      console.warn(`Warning: Could not parse project frameworks: ${error}`);
     }
   }
   
+  const { buildSettings, infoPlist, infoPlistPath, entitlements, entitlementsPath } =
+    readMainTargetArtifacts(discovery, target, settings);
+  
   // Scan Swift source files for import statements (works for both xcodeproj and SwiftPM projects)
   try {
     const scanDir = discovery.projectScopeDir ?? discovery.projectPath;
@@ -747,6 +1029,17 @@ export function createScanContext(discovery: ProjectDiscovery): ScanContext {
     console.warn(`Warning: Could not scan Swift imports: ${error}`);
   }
 
+  // Cross-platform plugins link frameworks from outside the app's sources
+  if (discovery.crossPlatform) {
+    try {
+      for (const fw of detectPluginFrameworks(discovery.crossPlatform)) {
+        linkedFrameworks.add(fw);
+      }
+    } catch (error) {
+      console.warn(`Warning: Could not detect plugin frameworks: ${error}`);
+    }
+  }
+
   // Load dependencies (P2-A FIX: scope to dependencyScopeDir to prevent picking up sibling project lockfiles)
   try {
     dependencies = loadAllDependencies(discovery.dependencyScopeDir ?? discovery.projectScopeDir ?? discovery.projectPath);
@@ -754,19 +1047,280 @@ export function createScanContext(discovery: ProjectDiscovery): ScanContext {
     console.warn(`Warning: Could not load dependencies: ${error}`);
   }
   
-  return createContextObject(
+  const context = createContextObject(
     discovery.projectPath,
     infoPlist,
     entitlements,
     linkedFrameworks,
     dependencies,
-    discovery.infoPlistPath,
-    discovery.entitlementsPath,
+    infoPlistPath,
+    entitlementsPath,
+    discovery.pbxprojPath,
+    buildSettings,
+    {
+      targetName: target?.name,
+      productType: target?.productType,
+    },
+    settings
+  );
+
+  // Vendored binary frameworks have no sources; like dependencies they belong to the main target
+  const vendoredBinaries = findVendoredBinaries(discovery.projectScopeDir ?? discovery.projectPath)
+    .filter(binary => !settings.sourceFilter || settings.sourceFilter(binary.path));
+  context.binaries = loadBinaryImages(vendoredBinaries);
+  return context;
+}
+
+/**
+ * Reads the main target's build settings, Info.plist and entitlements for the scanned configuration
+ */
+function readMainTargetArtifacts(
+  discovery: ProjectDiscovery,
+  target: PbxprojTarget | undefined,
+  settings: ContextSettings
+): TargetArtifacts {
+  let infoPlist: Record<string, unknown> = {};
+  let entitlements: Record<string, unknown> = {};
+  let buildSettings: Record<string, string> = {};
+  let infoPlistPath = discovery.infoPlistPath;
+  let entitlementsPath = discovery.entitlementsPath;
+  
+  if (discovery.pbxprojPath) {
+    // Extract build settings from the main app target
+    try {
+      const content = fs.readFileSync(discovery.pbxprojPath, 'utf-8');
+      buildSettings = resolveBuildSettings(content, discovery.pbxprojPath, target, settings.configuration);
+    } catch (error) {
+      console.warn(`Warning: Could not extract build settings: ${error}`);
+    }
+    
+    // The scanned configuration's own Info.plist and entitlements win over discovery's pick
+    if (target) {
+      const projectDir = discovery.projectScopeDir ?? path.dirname(path.dirname(discovery.pbxprojPath));
+      const pathContext = { targetName: target.name, productName: buildSettings.PRODUCT_NAME || target.productName };
+      infoPlistPath = resolveArtifactPath(buildSettings.INFOPLIST_FILE, projectDir, pathContext) ?? infoPlistPath;
+      entitlementsPath = resolveArtifactPath(buildSettings.CODE_SIGN_ENTITLEMENTS, projectDir, pathContext) ?? entitlementsPath;
+    }
+  }
+  
+  // Parse Info.plist
+  if (discovery.expoConfig) {
+    infoPlist = { ...discovery.expoConfig.infoPlist };
+  } else if (infoPlistPath) {
+    try {
+      infoPlist = parsePlist(infoPlistPath);
+    } catch (error) {
+      console.warn(`Warning: Could not parse Info.plist: ${error}`);
+    }
+  }
+  
+  // Parse entitlements
+  if (discovery.expoConfig && entitlementsPath === discovery.expoConfig.path) {
+    entitlements = { ...discovery.expoConfig.entitlements };
+  } else if (entitlementsPath) {
+    try {
+      entitlements = parseEntitlements(entitlementsPath);
+    } catch (error) {
+      console.warn(`Warning: Could not parse entitlements: ${error}`);
+    }
+  }
+  
+  return { buildSettings, infoPlist, infoPlistPath, entitlements, entitlementsPath };
+}
+
+/**
+ * Creates the context for an extension, watch app or App Clip target
+ * 
+ * Frameworks come from the target's own Frameworks build phase plus imports in
+ * its source directory. Dependencies are attributed to the main app target only,
+ * so lockfile-driven rules do not repeat for every embedded bundle.
+ */
+function createSecondaryTargetContext(
+  discovery: ProjectDiscovery,
+  content: string,
+  target: PbxprojTarget,
+  settings: ContextSettings
+): ScanContext {
+  const projectDir = discovery.projectScopeDir ?? path.dirname(path.dirname(discovery.pbxprojPath!));
+  const { buildSettings, infoPlist, infoPlistPath, entitlements, entitlementsPath } =
+    readSecondaryTargetArtifacts(discovery, content, target, settings);
+  
+  // Sources for a target conventionally live in a folder named after it
+  const targetDir = path.join(projectDir, target.name);
+  const sourceRoot = fs.existsSync(targetDir)
+    ? targetDir
+    : infoPlistPath ? path.dirname(infoPlistPath) : targetDir;
+  
+  const linkedFrameworks = getTargetLinkedFrameworks(content, target);
+  try {
+    if (fs.existsSync(sourceRoot)) {
+      for (const fw of scanSwiftImports(sourceRoot)) {
+        linkedFrameworks.add(fw);
+      }
+    }
+  } catch (error) {
+    console.warn(`Warning: Could not scan Swift imports for target ${target.name}: ${error}`);
+  }
+  
+  return createContextObject(
+    discovery.projectPath,
+    infoPlist,
+    entitlements,
+    linkedFrameworks,
+    [],
+    infoPlistPath,
+    entitlementsPath,
     discovery.pbxprojPath,
-    buildSettings
+    buildSettings,
+    {
+      targetName: target.name,
+      productType: target.productType,
+      sourceRoot,
+    },
+    settings
   );
 }
 
+/**
+ * Reads a secondary target's build settings, Info.plist and entitlements for the scanned configuration
+ */
+function readSecondaryTargetArtifacts(
+  discovery: ProjectDiscovery,
+  content: string,
+  target: PbxprojTarget,
+  settings: ContextSettings
+): TargetArtifacts {
+  const projectDir = discovery.projectScopeDir ?? path.dirname(path.dirname(discovery.pbxprojPath!));
+  const buildSettings = resolveBuildSettings(content, discovery.pbxprojPath!, target, settings.configuration);
+  const pathContext = {
+    targetName: target.name,
+    productName: buildSettings.PRODUCT_NAME || target.productName,
+  };
+  
+  const infoPlistPath = resolveArtifactPath(buildSettings.INFOPLIST_FILE, projectDir, pathContext);
+  const entitlementsPath = resolveArtifactPath(buildSettings.CODE_SIGN_ENTITLEMENTS, projectDir, pathContext);
+  
+  let infoPlist: Record<string, unknown> = {};
+  if (infoPlistPath) {
+    try {
+      infoPlist = parsePlist(infoPlistPath);
+    } catch (error) {
+      console.warn(`Warning: Could not parse Info.plist for target ${target.name}: ${error}`);
+    }
+  }
+  
+  let entitlements: Record<string, unknown> = {};
+  if (entitlementsPath) {
+    try {
+      entitlements = parseEntitlements(entitlementsPath);
+    } catch (error) {
+      console.warn(`Warning: Could not parse entitlements for target ${target.name}: ${error}`);
+    }
+  }
+  
+  return { buildSettings, infoPlist, infoPlistPath, entitlements, entitlementsPath };
+}
+
+/**
+ * Creates one scan context per bundle in a built app (app first, then nested bundles)
+ * 
+ * Embedded frameworks become the app's linked frameworks and manual dependencies.
+ * Bundles have no build settings: everything Xcode merged from INFOPLIST_KEY_*
+ * is already in the compiled Info.plist.
+ */
+function createBundleContexts(bundleDiscovery: BundleDiscovery, settings: ContextSettings): ScanContext[] {
+  const app = readAppBundle(bundleDiscovery.appPath);
+  
+  return flattenAppBundles(app).map((bundle: AppBundle) => {
+    const isApp = bundle === app;
+    const linkedFrameworks = new Set(bundle.frameworks.map(fw => fw.name));
+    const dependencies: Dependency[] = isApp
+      ? bundle.frameworks.map(fw => ({ name: fw.name, version: fw.version, source: DependencySource.Manual }))
+      : [];
+    
+    const context = createContextObject(
+      bundle.path,
+      bundle.infoPlist,
+      bundle.entitlements,
+      linkedFrameworks,
+      dependencies,
+      bundle.infoPlistPath,
+      bundle.provisioningProfilePath,
+      undefined,
+      {},
+      {
+        targetName: bundle.name,
+        productType: bundle.productType,
+      },
+      settings
+    );
+    context.privacyManifests = bundle.privacyManifests;
+    
+    const binaries = bundle.executablePath
+      ? [{ path: bundle.executablePath, bundleName: path.basename(bundle.path) }]
+      : [];
+    if (isApp) {
+      for (const fw of bundle.frameworks) {
+        if (fw.executablePath) {
+          binaries.push({ path: fw.executablePath, bundleName: path.basename(fw.path) });
+        }
+      }
+    }
+    context.binaries = loadBinaryImages(binaries);
+    return context;
+  });
+}
+
+/**
+ * Find the binaries of vendored .framework and .xcframework bundles (including under Pods/)
+ */
+function findVendoredBinaries(dir: string): { path: string; bundleName: string }[] {
+  const isFrameworkBundle = (name: string, fullPath: string): boolean =>
+    name.endsWith('.xcframework') ||
+    (name.endsWith('.framework') && !fullPath.includes(`.xcframework${path.sep}`));
+  
+  const bundles = findFilesRecursive(dir, isFrameworkBundle);
+  // Closed-source pods are the main source of vendored binaries, but the generic walk skips Pods/
+  const podsDir = path.join(dir, 'Pods');
+  if (fs.existsSync(podsDir)) {
+    bundles.push(...findFilesRecursive(podsDir, isFrameworkBundle));
+  }
+  
+  const binaries: { path: string; bundleName: string }[] = [];
+  for (const bundlePath of bundles) {
+    const binaryPath = findFrameworkBinary(bundlePath);
+    if (binaryPath) {
+      binaries.push({ path: binaryPath, bundleName: path.basename(bundlePath) });
+    }
+  }
+  return binaries;
+}
+
+/**
+ * Parse Mach-O binaries, warning about (and skipping) unreadable ones
+ */
+function loadBinaryImages(binaries: { path: string; bundleName: string }[]): BinaryImage[] {
+  const images: BinaryImage[] = [];
+  for (const binary of binaries) {
+    try {
+      images.push(readBinaryImage(binary.path, binary.bundleName));
+    } catch (error) {
+      console.warn(`Warning: Could not read binary ${binary.path}: ${error}`);
+    }
+  }
+  return images;
+}
+
+/**
+ * Target identity for a scan context
+ */
+export interface ContextTargetInfo {
+  targetName?: string;
+  productType?: string;
+  /** Directory holding the target's sources (defaults to the project path) */
+  sourceRoot?: string;
+}
+
 /**
  * Creates a ScanContext object with helper methods
  */
@@ -779,10 +1333,15 @@ export function createContextObject(
   infoPlistPath?: string,
   entitlementsPath?: string,
   pbxprojPath?: string,
-  buildSettings?: Record<string, string>
+  buildSettings?: Record<string, string>,
+  target: ContextTargetInfo = {},
+  settings: ContextSettings = {}
 ): ScanContext {
   return {
     projectPath,
+    sourceRoot: target.sourceRoot ?? projectPath,
+    targetName: target.targetName,
+    productType: target.productType,
     infoPlist,
     infoPlistPath,
     entitlements,
@@ -791,6 +1350,9 @@ export function createContextObject(
     linkedFrameworks,
     dependencies,
     buildSettings: buildSettings ?? {},
+    ruleOptions: settings.ruleOptions ?? {},
+    kidsCategory: settings.kidsCategory,
+    sourceFilter: settings.sourceFilter,
     
     plistString(key: string): string | undefined {
       const value = this.infoPlist[key];
@@ -877,6 +1439,10 @@ export function createContextObject(
       if ('NSExtension' in this.infoPlist || 'NSExtensionPointIdentifier' in this.infoPlist) {
         return true;
       }
+      // Check the target's product type from the pbxproj
+      if (this.productType && isExtensionType(this.productType)) {
+        return true;
+      }
       // Check build setting for product type
       const productType = this.buildSettings['PRODUCT_TYPE'];
       if (productType && productType.includes('app-extension')) {
@@ -885,6 +1451,19 @@ export function createContextObject(
       return false;
     },
 
+    isWatchTarget(): boolean {
+      // Check the target's product type from the pbxproj (watchapp2, watchkit2-extension)
+      if (this.productType && isWatchType(this.productType)) {
+        return true;
+      }
+      // Check the SDK the target builds against
+      if (this.buildSettings['SDKROOT']?.startsWith('watchos')) {
+        return true;
+      }
+      // Check Info.plist for watch app keys
+      return 'WKApplication' in this.infoPlist || 'WKWatchKitApp' in this.infoPlist;
+    },
+
     isMacOSOnly(): boolean {
       // Check SDKROOT build setting
       const sdkroot = this.buildSettings['SDKROOT'];
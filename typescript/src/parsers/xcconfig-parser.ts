@@ -0,0 +1,142 @@
+/**
+ * Parser for build configuration (.xcconfig) files
+ *
+ * An xcconfig is a list of `KEY = value` lines, optionally conditioned
+ * (`KEY[sdk=iphoneos*][config=Release] = value`), with `//` comments and
+ * `#include "Other.xcconfig"` / `#include? "Optional.xcconfig"` directives.
+ * Includes are resolved relative to the including file and flattened in order,
+ * so later assignments override earlier ones exactly as Xcode reads them.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A single build setting assignment, from an xcconfig line or a pbxproj buildSettings entry
+ */
+export interface BuildSettingAssignment {
+  /** Setting name without conditions (e.g., "OTHER_LDFLAGS") */
+  key: string;
+  /** Conditions the assignment applies under (e.g., { sdk: 'iphoneos*', config: 'Release' }) */
+  conditions: Record<string, string>;
+  /** Unexpanded value (may contain $(inherited) and $(VAR) references) */
+  value: string;
+  /** File the assignment was read from */
+  file?: string;
+  /** 1-based line number in that file */
+  line?: number;
+}
+
+/**
+ * Split a raw setting name into the setting and its conditions
+ *
+ * Accepts both `KEY[sdk=iphoneos*][arch=arm64]` and `KEY[sdk=iphoneos*,arch=arm64]`.
+ */
+export function parseBuildSettingKey(rawKey: string): { key: string; conditions: Record<string, string> } {
+  const bracket = rawKey.indexOf('[');
+  if (bracket === -1) {
+    return { key: rawKey.trim(), conditions: {} };
+  }
+
+  const conditions: Record<string, string> = {};
+  const conditionPattern = /\[([^\]]*)\]/g;
+  let match;
+  while ((match = conditionPattern.exec(rawKey.slice(bracket))) !== null) {
+    for (const part of match[1].split(',')) {
+      const eq = part.indexOf('=');
+      if (eq === -1) continue;
+      conditions[part.slice(0, eq).trim()] = part.slice(eq + 1).trim();
+    }
+  }
+  return { key: rawKey.slice(0, bracket).trim(), conditions };
+}
+
+/**
+ * Parse xcconfig content without following #include directives
+ *
+ * @param content The raw xcconfig text
+ * @param filePath File the content came from (recorded on each assignment)
+ */
+export function parseXcconfigContent(content: string, filePath?: string): BuildSettingAssignment[] {
+  const assignments: BuildSettingAssignment[] = [];
+  content.split(/\r?\n/).forEach((line, i) => {
+    const assignment = parseXcconfigLine(line);
+    if (assignment) {
+      assignments.push({ ...assignment, file: filePath, line: i + 1 });
+    }
+  });
+  return assignments;
+}
+
+/**
+ * Parse an xcconfig file, flattening #include chains in order
+ *
+ * Missing required includes are reported with a warning and skipped; missing
+ * optional includes (`#include?`) are skipped silently. A file may be included
+ * more than once, but an include cycle is broken where it loops back.
+ *
+ * @param filePath Path to the .xcconfig file
+ * @returns Assignments in the order Xcode applies them
+ */
+export function parseXcconfig(filePath: string, includeStack: Set<string> = new Set()): BuildSettingAssignment[] {
+  const resolved = path.resolve(filePath);
+  if (includeStack.has(resolved)) {
+    return [];
+  }
+
+  const lines = fs.readFileSync(resolved, 'utf-8').split(/\r?\n/);
+  includeStack.add(resolved);
+  const assignments: BuildSettingAssignment[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const include = lines[i].match(/^\s*#include(\?)?\s*"([^"]+)"/);
+    if (!include) {
+      const assignment = parseXcconfigLine(lines[i]);
+      if (assignment) {
+        assignments.push({ ...assignment, file: resolved, line: i + 1 });
+      }
+      continue;
+    }
+
+    const [, optional, includePath] = include;
+    // <DEVELOPER_DIR>/... includes point into Xcode itself
+    if (includePath.startsWith('<')) continue;
+
+    const includedFile = path.resolve(path.dirname(resolved), includePath);
+    if (!fs.existsSync(includedFile)) {
+      if (!optional) {
+        console.warn(`Warning: ${path.basename(resolved)} includes missing file ${includePath}`);
+      }
+      continue;
+    }
+    try {
+      assignments.push(...parseXcconfig(includedFile, includeStack));
+    } catch (error) {
+      console.warn(`Warning: Could not read ${includePath}: ${error}`);
+    }
+  }
+  includeStack.delete(resolved);
+
+  return assignments;
+}
+
+/**
+ * Parse one `KEY[cond=value] = value` line (comments, directives and blank lines yield nothing)
+ */
+function parseXcconfigLine(rawLine: string): Omit<BuildSettingAssignment, 'file' | 'line'> | undefined {
+  const line = stripComment(rawLine).trim();
+  if (!line || line.startsWith('#')) return undefined;
+
+  const match = line.match(/^(\w+(?:\s*\[[^\]]*\])*)\s*=(.*)$/);
+  if (!match) return undefined;
+
+  const { key, conditions } = parseBuildSettingKey(match[1]);
+  return { key, conditions, value: match[2].trim().replace(/;$/, '').trim() };
+}
+
+/**
+ * Remove a trailing `//` comment (Xcode has no escape for `//` inside values)
+ */
+function stripComment(line: string): string {
+  const comment = line.indexOf('//');
+  return comment === -1 ? line : line.slice(0, comment);
+}
@@ -0,0 +1,170 @@
+/**
+ * Locates the binary XCFrameworks a project links
+ *
+ * - CocoaPods `vendored_frameworks`, copied into Pods/<Pod>
+ * - Swift package `binaryTarget`s: downloaded ones in artifacts/<package>, and
+ *   `path:` ones inside package checkouts and local packages
+ * - XCFrameworks added to the Xcode project directly (file references in project.pbxproj)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  MAX_CHECKOUT_SEARCH_DEPTH,
+  NON_SOURCE_DIRS,
+  findDependencyCheckouts,
+  findPackageArtifactDirs,
+  findLocalPackages,
+} from './dependency-checkouts.js';
+
+/**
+ * How an XCFramework gets into the app
+ */
+export type XCFrameworkOrigin = 'cocoapods' | 'spm' | 'project';
+
+/**
+ * A binary XCFramework linked by the project
+ */
+export interface VendoredXCFramework {
+  /** Name without the .xcframework extension */
+  name: string;
+  path: string;
+  origin: XCFrameworkOrigin;
+  /** Pod or Swift package that ships it (undefined when added to the project directly) */
+  owner?: string;
+}
+
+/**
+ * Find the XCFrameworks vendored by pods, Swift packages and the Xcode project
+ *
+ * @param rootDirs Project directories to search
+ * @param pbxprojPath project.pbxproj whose file references to resolve
+ */
+export function findVendoredXCFrameworks(rootDirs: string[], pbxprojPath?: string): VendoredXCFramework[] {
+  const found: VendoredXCFramework[] = [];
+  const seen = new Set<string>();
+  const add = (frameworkPath: string, origin: XCFrameworkOrigin, owner?: string): void => {
+    const resolved = path.resolve(frameworkPath);
+    if (!seen.has(resolved)) {
+      seen.add(resolved);
+      found.push({ name: path.basename(resolved, '.xcframework'), path: resolved, origin, owner });
+    }
+  };
+
+  const checkouts = findDependencyCheckouts(rootDirs);
+  for (const checkout of checkouts.filter(c => c.origin === 'cocoapods')) {
+    for (const frameworkPath of findXCFrameworks(checkout.path, 0)) {
+      add(frameworkPath, 'cocoapods', checkout.name);
+    }
+  }
+
+  for (const artifactsDir of findPackageArtifactDirs(rootDirs)) {
+    for (const entry of listEntries(artifactsDir)) {
+      for (const frameworkPath of findXCFrameworks(path.join(artifactsDir, entry), 0)) {
+        add(frameworkPath, 'spm', entry);
+      }
+    }
+  }
+
+  const packageDirs = [
+    ...checkouts.filter(c => c.origin === 'spm').map(c => c.path),
+    ...rootDirs.flatMap(findLocalPackages),
+  ];
+  for (const packageDir of packageDirs) {
+    let manifest: string;
+    try {
+      manifest = fs.readFileSync(path.join(packageDir, 'Package.swift'), 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const target of parseBinaryTargetPaths(manifest)) {
+      const frameworkPath = path.join(packageDir, target.path);
+      if (fs.existsSync(frameworkPath)) {
+        add(frameworkPath, 'spm', path.basename(packageDir));
+      }
+    }
+  }
+
+  if (pbxprojPath) {
+    let content = '';
+    try {
+      content = fs.readFileSync(pbxprojPath, 'utf-8');
+    } catch {
+      // No project references to resolve
+    }
+    const projectFrameworks = parseProjectXCFrameworkPaths(content);
+    const onDisk = projectFrameworks.length > 0 ? rootDirs.flatMap(rootDir => findXCFrameworks(rootDir, 0)) : [];
+    for (const reference of projectFrameworks) {
+      // File references are relative to their group, so fall back to a search by name
+      const direct = rootDirs.map(rootDir => path.join(rootDir, reference)).find(candidate => fs.existsSync(candidate));
+      const frameworkPath = direct ?? onDisk.find(candidate => path.basename(candidate) === path.basename(reference));
+      if (frameworkPath) {
+        add(frameworkPath, 'project');
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Whether an XCFramework is signed (Xcode 15+ writes _CodeSignature/CodeSignature at its root)
+ */
+export function isXCFrameworkSigned(xcframeworkPath: string): boolean {
+  return fs.existsSync(path.join(xcframeworkPath, '_CodeSignature', 'CodeSignature'));
+}
+
+/**
+ * Local `.binaryTarget(name:path:)` declarations in a Package.swift
+ */
+export function parseBinaryTargetPaths(packageSwift: string): Array<{ name: string; path: string }> {
+  const targets: Array<{ name: string; path: string }> = [];
+  const pattern = /\.binaryTarget\s*\(\s*name:\s*"([^"]+)"\s*,\s*path:\s*"([^"]+)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(packageSwift)) !== null) {
+    targets.push({ name: match[1], path: match[2] });
+  }
+  return targets;
+}
+
+/**
+ * Paths of .xcframework file references in project.pbxproj content
+ */
+export function parseProjectXCFrameworkPaths(pbxprojContent: string): string[] {
+  const paths = new Set<string>();
+  const pattern = /\bpath = ("?)([^";\n]*\.xcframework)\1;/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(pbxprojContent)) !== null) {
+    paths.add(match[2]);
+  }
+  return [...paths];
+}
+
+/**
+ * Find .xcframework bundles below a directory (without descending into them)
+ */
+function findXCFrameworks(dir: string, depth: number): string[] {
+  if (dir.endsWith('.xcframework')) return [dir];
+  if (depth > MAX_CHECKOUT_SEARCH_DEPTH) return [];
+
+  const results: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  for (const entry of entries) {
+    if (entry.isDirectory() && !NON_SOURCE_DIRS.has(entry.name)) {
+      results.push(...findXCFrameworks(path.join(dir, entry.name), depth + 1));
+    }
+  }
+  return results;
+}
+
+function listEntries(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Minimal ZIP reader for IPA archives
+ *
+ * Reads the central directory and extracts stored or deflated entries with
+ * zlib, so scanning an IPA needs no external unzip tool. ZIP64 archives
+ * (over 4 GB or 65535 entries) are supported; encrypted entries are not.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/** EOCD record (22 bytes) plus the longest possible archive comment */
+const EOCD_SEARCH_SIZE = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * An entry in a ZIP central directory
+ */
+export interface ZipEntry {
+  /** Path inside the archive ("/"-separated; directories end with "/") */
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  isEncrypted: boolean;
+}
+
+/**
+ * List the entries of a ZIP archive
+ */
+export function readZipEntries(zipPath: string): ZipEntry[] {
+  const fd = fs.openSync(zipPath, 'r');
+  try {
+    const fileSize = fs.fstatSync(fd).size;
+    const { entryCount, directoryOffset, directorySize } = readEndOfCentralDirectory(fd, fileSize);
+    const directory = readAt(fd, directoryOffset, directorySize);
+
+    const entries: ZipEntry[] = [];
+    let pos = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt ZIP central directory in ${zipPath}`);
+      }
+      const flags = directory.readUInt16LE(pos + 8);
+      const nameLength = directory.readUInt16LE(pos + 28);
+      const extraLength = directory.readUInt16LE(pos + 30);
+      const commentLength = directory.readUInt16LE(pos + 32);
+      const externalAttributes = directory.readUInt32LE(pos + 38);
+      const name = directory.toString('utf-8', pos + 46, pos + 46 + nameLength);
+
+      let uncompressedSize = directory.readUInt32LE(pos + 24);
+      let compressedSize = directory.readUInt32LE(pos + 20);
+      let localHeaderOffset = directory.readUInt32LE(pos + 42);
+
+      // ZIP64 extended information: only the fields saturated in the header are present, in this order
+      const extra = directory.subarray(pos + 46 + nameLength, pos + 46 + nameLength + extraLength);
+      const zip64 = findExtraField(extra, 0x0001);
+      if (zip64) {
+        let cursor = 0;
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = Number(zip64.readBigUInt64LE(cursor));
+          cursor += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(zip64.readBigUInt64LE(cursor));
+          cursor += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = Number(zip64.readBigUInt64LE(cursor));
+        }
+      }
+
+      const unixMode = externalAttributes >>> 16;
+      entries.push({
+        name,
+        compressionMethod: directory.readUInt16LE(pos + 10),
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+        isDirectory: name.endsWith('/'),
+        isSymlink: (unixMode & 0o170000) === 0o120000,
+        isEncrypted: (flags & 0x1) !== 0,
+      });
+
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read and decompress a single entry
+ */
+export function readZipEntry(zipPath: string, entry: ZipEntry): Buffer {
+  const fd = fs.openSync(zipPath, 'r');
+  try {
+    return readEntryData(fd, entry);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Extract entries into a directory
+ *
+ * Directories, symlinks and entries whose path escapes destDir are skipped.
+ *
+ * @returns Paths of the files written
+ */
+export function extractZipEntries(zipPath: string, entries: ZipEntry[], destDir: string): string[] {
+  const root = path.resolve(destDir);
+  const written: string[] = [];
+  const fd = fs.openSync(zipPath, 'r');
+  try {
+    for (const entry of entries) {
+      if (entry.isDirectory || entry.isSymlink) continue;
+
+      const target = path.resolve(root, entry.name);
+      if (!target.startsWith(root + path.sep)) {
+        continue;
+      }
+
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, readEntryData(fd, entry));
+      written.push(target);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return written;
+}
+
+function readEntryData(fd: number, entry: ZipEntry): Buffer {
+  if (entry.isEncrypted) {
+    throw new Error(`Cannot extract encrypted ZIP entry ${entry.name}`);
+  }
+
+  const header = readAt(fd, entry.localHeaderOffset, 30);
+  if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP local header for ${entry.name}`);
+  }
+  const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const data = readAt(fd, dataOffset, entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case METHOD_STORED:
+      return data;
+    case METHOD_DEFLATED:
+      return zlib.inflateRawSync(data);
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} for ${entry.name}`);
+  }
+}
+
+function readEndOfCentralDirectory(
+  fd: number,
+  fileSize: number
+): { entryCount: number; directoryOffset: number; directorySize: number } {
+  const tailSize = Math.min(fileSize, EOCD_SEARCH_SIZE);
+  const tailOffset = fileSize - tailSize;
+  const tail = readAt(fd, tailOffset, tailSize);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive (end of central directory not found)');
+  }
+
+  let entryCount = tail.readUInt16LE(eocd + 10);
+  let directorySize = tail.readUInt32LE(eocd + 12);
+  let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const zip64Offset = Number(tail.readBigUInt64LE(locator + 8));
+    const zip64 = readAt(fd, zip64Offset, 56);
+    if (zip64.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Corrupt ZIP64 end of central directory');
+    }
+    entryCount = Number(zip64.readBigUInt64LE(32));
+    directorySize = Number(zip64.readBigUInt64LE(40));
+    directoryOffset = Number(zip64.readBigUInt64LE(48));
+  }
+
+  return { entryCount, directoryOffset, directorySize };
+}
+
+function findExtraField(extra: Buffer, headerId: number): Buffer | undefined {
+  let pos = 0;
+  while (pos + 4 <= extra.length) {
+    const id = extra.readUInt16LE(pos);
+    const size = extra.readUInt16LE(pos + 2);
+    if (id === headerId) {
+      return extra.subarray(pos + 4, pos + 4 + size);
+    }
+    pos += 4 + size;
+  }
+  return undefined;
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  let read = 0;
+  while (read < length) {
+    const bytes = fs.readSync(fd, buffer, read, length - read, position + read);
+    if (bytes === 0) {
+      throw new Error('Unexpected end of ZIP archive');
+    }
+    read += bytes;
+  }
+  return buffer;
+}
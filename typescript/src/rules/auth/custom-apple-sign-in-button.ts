@@ -0,0 +1,71 @@
+/**
+ * Rule: Custom Sign in with Apple Button
+ *
+ * Detects Sign in with Apple flows started from a custom-drawn button
+ * ("Sign in with Apple" titles, the Apple logo symbol) instead of
+ * ASAuthorizationAppleIDButton or SwiftUI's SignInWithAppleButton.
+ * Reviewers reject buttons that don't follow Apple's design guidelines.
+ *
+ * App Store Review Guideline: 4.0
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeFinding } from '../base.js';
+import { detectSourceAPIs, findSourceMatches } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+import { detectSIWAUsage } from './siwa-source-usage.js';
+
+const SYSTEM_BUTTON_APIS: SourceAPIPattern[] = [
+  { label: 'ASAuthorizationAppleIDButton', pattern: /\bASAuthorizationAppleIDButton\b/ },
+  { label: 'SignInWithAppleButton', pattern: /\bSignInWithAppleButton\b/ },
+];
+
+// Button titles and the Apple logo symbol that custom buttons use
+const CUSTOM_BUTTON = /"(?:sign\s+(?:in|up)|continue|log\s*in|login)\s+with\s+apple"|\bsystemName:\s*"apple\.logo"|\bsystemImageNamed:\s*@"apple\.logo"/gi;
+
+export const CustomAppleSignInButtonRule: Rule = {
+  id: 'auth-004-custom-apple-sign-in-button',
+  name: 'Custom Sign in with Apple Button',
+  description: 'Checks that Sign in with Apple uses the system-provided button',
+  category: RuleCategory.Auth,
+  severity: Severity.Medium,
+  confidence: Confidence.Medium,
+  guidelineReference: '4.0',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    if (detectSIWAUsage(context).length === 0 || detectSourceAPIs(context, SYSTEM_BUTTON_APIS).length > 0) {
+      return [];
+    }
+
+    // One finding per button so each can be suppressed where it is drawn
+    return findSourceMatches(context, CUSTOM_BUTTON).map(match => makeFinding(this, {
+      description: `Your app starts Sign in with Apple from a custom button (${match.text}) and never uses ` +
+        `ASAuthorizationAppleIDButton or SignInWithAppleButton. Reviewers reject Sign in with Apple buttons ` +
+        `whose title, logo, color or proportions don't follow the Human Interface Guidelines.`,
+      location: match.file,
+      line: match.line,
+      discriminator: match.text,
+      fixGuidance: `Use the system button, which is always compliant and localized:
+
+// SwiftUI
+SignInWithAppleButton(.signIn) { request in
+    request.requestedScopes = [.fullName, .email]
+} onCompletion: { result in
+    handle(result)
+}
+.signInWithAppleButtonStyle(.black)
+
+// UIKit
+let button = ASAuthorizationAppleIDButton(type: .signIn, style: .black)
+
+If you need a custom button, follow the Sign in with Apple section of the Human Interface Guidelines ` +
+        `exactly and suppress this finding with // shiplint-disable-next-line ${this.id}.`,
+      shortFixText: 'Use ASAuthorizationAppleIDButton or SignInWithAppleButton',
+      documentationURL: 'https://developer.apple.com/design/human-interface-guidelines/sign-in-with-apple',
+    }));
+  },
+};
@@ -2,3 +2,7 @@
  * Auth rules exports
  */
 export { ThirdPartyLoginNoSIWARule } from './third-party-login-no-siwa.js';
+export { MissingAccountDeletionRule } from './missing-account-deletion.js';
+export { SIWATokenRevocationRule } from './siwa-token-revocation.js';
+export { CustomAppleSignInButtonRule } from './custom-apple-sign-in-button.js';
+export { SIWARedundantScopePromptRule } from './siwa-redundant-scope-prompt.js';
@@ -0,0 +1,126 @@
+/**
+ * Rule: Account Creation Without Account Deletion
+ *
+ * Detects apps that let users create accounts (sign-up calls, Sign in with
+ * Apple, authentication SDKs) without any sign of an in-app account deletion
+ * flow. Since June 2022, apps that support account creation must let users
+ * start deleting their account from within the app.
+ *
+ * App Store Review Guideline: 5.1.1(v)
+ */
+import * as path from 'path';
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { detectSocialLoginSDKs } from '../../parsers/framework-detector.js';
+import { makeCustomFinding } from '../base.js';
+import { detectSourceAPIs, findLocalizedStringMatches, findSourceMatches } from '../source-evidence.js';
+import type { SourceAPIPattern, SourceMatch } from '../source-evidence.js';
+import { TOKEN_REVOCATION_APIS } from './siwa-source-usage.js';
+
+// Calls that create a new account
+const SIGN_UP_APIS: SourceAPIPattern[] = [
+  { label: 'createUser', pattern: /\bcreateUser(?:WithEmail)?\s*[(:]/ },
+  { label: 'signUp', pattern: /\bsign[Uu]p\s*\(/ },
+  { label: 'register(email:)', pattern: /\bregister(?:User)?\s*\(\s*(?:email|username)\s*:/ },
+];
+
+// Sign-in flows that create an account on first use
+const SIGN_IN_APIS: SourceAPIPattern[] = [
+  { label: 'ASAuthorizationAppleIDProvider', pattern: /\bASAuthorizationAppleIDProvider\b/ },
+  { label: 'SignInWithAppleButton', pattern: /\bSignInWithAppleButton\b/ },
+  { label: 'GIDSignIn', pattern: /\bGIDSignIn\b/ },
+  { label: 'LoginManager', pattern: /\bLoginManager\s*\(\s*\)\.logIn\b|\bFBSDKLoginManager\b/ },
+];
+
+const DELETION_APIS: SourceAPIPattern[] = [
+  { label: 'deleteUser', pattern: /\bdeleteUser\b/ },
+  { label: 'user.delete()', pattern: /[Uu]ser\??\.delete\s*[({]/ },
+  { label: 'deleteAccount', pattern: /\bdelete_?[Aa]ccount\b/ },
+  ...TOKEN_REVOCATION_APIS,
+  { label: '"Delete Account"', pattern: /"[^"\n]*\b(?:delete|deactivate|close)\s+(?:my\s+|your\s+)?account\b[^"\n]*"/i },
+  { label: 'account deletion page', pattern: /"https?:\/\/[^"\s]*(?:delete|deletion)[-_]?account[^"\s]*"/i },
+];
+
+const DELETE_ACCOUNT_STRING = /\b(?:delete|deactivate|close)\s+(?:my\s+|your\s+)?account\b/i;
+
+export const MissingAccountDeletionRule: Rule = {
+  id: 'auth-002-missing-account-deletion',
+  name: 'Account Creation Without Account Deletion',
+  description: 'Checks that apps supporting account creation offer in-app account deletion',
+  category: RuleCategory.Auth,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1(v)',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget() || context.isExtension()) {
+      return [];
+    }
+
+    const signUpAPIs = detectSourceAPIs(context, SIGN_UP_APIS);
+    const signInAPIs = detectSourceAPIs(context, SIGN_IN_APIS);
+    const authSDKs = detectSocialLoginSDKs(context.dependencies);
+
+    if (signUpAPIs.length === 0 && signInAPIs.length === 0 && authSDKs.length === 0) {
+      return [];
+    }
+
+    if (detectSourceAPIs(context, DELETION_APIS).length > 0 ||
+      findLocalizedStringMatches(context, DELETE_ACCOUNT_STRING).length > 0) {
+      return [];
+    }
+
+    // Explicit sign-up is the strongest signal; sign-in flows usually create
+    // accounts on first use; an SDK alone may only be linked
+    const confidence = signUpAPIs.length > 0
+      ? Confidence.High
+      : signInAPIs.length > 0 ? Confidence.Medium : Confidence.Low;
+
+    const creationFiles = uniqueFiles(
+      [...SIGN_UP_APIS, ...SIGN_IN_APIS].flatMap(({ pattern }) => findSourceMatches(context, pattern))
+    );
+    const evidence = [...signUpAPIs, ...signInAPIs, ...authSDKs];
+    const sampleFiles = creationFiles
+      .slice(0, 3)
+      .map(match => path.relative(context.projectPath, match.file));
+    const moreCount = creationFiles.length > 3 ? ` and ${creationFiles.length - 3} more` : '';
+    const filesNote = sampleFiles.length > 0
+      ? ` Accounts are created in ${sampleFiles.join(', ')}${moreCount}.`
+      : '';
+
+    return [makeCustomFinding(this, Severity.High, confidence, {
+      title: this.name,
+      description: `Your app supports account creation (${evidence.join(', ')}) but no source or localized ` +
+        `string suggests an account deletion flow.${filesNote} Guideline 5.1.1(v) requires apps that let ` +
+        `users create an account to let them delete it from within the app, not only by contacting support.`,
+      location: creationFiles[0]?.file || context.pbxprojPath || 'project.pbxproj',
+      line: creationFiles[0]?.line,
+      fixGuidance: `Add a "Delete Account" option, typically in account settings, that deletes the account ` +
+        `and its data on your server:
+
+Button("Delete Account", role: .destructive) {
+    Task { try await accountService.deleteAccount() }
+}
+
+With Firebase Auth, call Auth.auth().currentUser?.delete(). If users can sign in with Apple, also revoke ` +
+        `their tokens through the REST API (https://appleid.apple.com/auth/revoke) when the account is deleted.
+
+Linking to a web page that deletes the account is acceptable when the link is easy to find in the app. ` +
+        `If accounts are only created outside the app, explain this in the App Review notes.`,
+      shortFixText: 'Add an in-app "Delete Account" flow',
+      documentationURL: 'https://developer.apple.com/support/offering-account-deletion-in-your-app/',
+    })];
+  },
+};
+
+/**
+ * First match in each file, in the order found
+ */
+function uniqueFiles(matches: SourceMatch[]): SourceMatch[] {
+  const seen = new Set<string>();
+  return matches.filter(match => {
+    if (seen.has(match.file)) return false;
+    seen.add(match.file);
+    return true;
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Rule: Sign in with Apple Data Requested Again
+ *
+ * Detects apps that request the .email or .fullName scope from Sign in with
+ * Apple and then ask the user to type their email address or name. Reviewers
+ * reject apps that make users provide data Sign in with Apple already shared.
+ *
+ * App Store Review Guideline: 4.0
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeCustomFinding } from '../base.js';
+import { detectSourceAPIs, findSourceMatches } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+import { findSIWAFiles } from './siwa-source-usage.js';
+
+interface ScopeCheck {
+  /** Scope as written in requestedScopes */
+  scope: string;
+  /** What the scope shares, for messages */
+  data: string;
+  requested: RegExp;
+  /** Reading the shared value from the credential */
+  read: SourceAPIPattern;
+  /** Text fields that ask the user for the value */
+  prompt: RegExp;
+}
+
+const SCOPE_CHECKS: ScopeCheck[] = [
+  {
+    scope: '.email',
+    data: 'email address',
+    requested: /\brequestedScopes\s*=\s*\[[^\]]*\.email\b|\bASAuthorizationScopeEmail\b/,
+    read: { label: 'credential.email', pattern: /[Cc]redential\??\.email\b/ },
+    prompt: /\bTextField\s*\(\s*"[^"\n]*e-?mail[^"\n]*"|\.placeholder\s*=\s*@?"[^"\n]*e-?mail[^"\n]*"|textContentType\s*(?:=|\()\s*\.emailAddress\b|UITextContentTypeEmailAddress\b/gi,
+  },
+  {
+    scope: '.fullName',
+    data: 'name',
+    requested: /\brequestedScopes\s*=\s*\[[^\]]*\.fullName\b|\bASAuthorizationScopeFullName\b/,
+    read: { label: 'credential.fullName', pattern: /[Cc]redential\??\.fullName\b/ },
+    prompt: /\bTextField\s*\(\s*"(?:(?:full|first|last|given|family|your)\s+)?name"|\.placeholder\s*=\s*@?"(?:(?:full|first|last|given|family|your)\s+)?name"|textContentType\s*(?:=|\()\s*\.(?:name|givenName|familyName)\b|UITextContentType(?:Name|GivenName|FamilyName)\b/gi,
+  },
+];
+
+export const SIWARedundantScopePromptRule: Rule = {
+  id: 'auth-005-siwa-redundant-scope-prompt',
+  name: 'Sign in with Apple Data Requested Again',
+  description: 'Checks for apps asking users for the email or name they shared through Sign in with Apple',
+  category: RuleCategory.Auth,
+  severity: Severity.Medium,
+  confidence: Confidence.Medium,
+  guidelineReference: '4.0',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const siwaFiles = new Set(findSIWAFiles(context).map(match => match.file));
+    if (siwaFiles.size === 0) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+
+    for (const check of SCOPE_CHECKS) {
+      if (findSourceMatches(context, check.requested).length === 0) continue;
+
+      // An app that never reads the shared value must be getting it some other way;
+      // otherwise only prompts on the Sign in with Apple screen are suspicious
+      const ignoresScope = detectSourceAPIs(context, [check.read]).length === 0;
+      const prompts = findSourceMatches(context, check.prompt)
+        .filter(match => ignoresScope || siwaFiles.has(match.file));
+
+      for (const prompt of prompts) {
+        findings.push(makeCustomFinding(this, Severity.Medium, ignoresScope ? Confidence.Medium : Confidence.Low, {
+          title: `Sign in with Apple ${check.data === 'name' ? 'Name' : 'Email'} Requested Again`,
+          description: `Your app requests the ${check.scope} scope from Sign in with Apple but also asks the user ` +
+            `to enter their ${check.data} (${prompt.text}).` +
+            (ignoresScope ? ` It never reads ${check.read.label}, so the shared value is discarded.` : '') +
+            ` Reviewers reject apps that require users to provide their name or email address after using ` +
+            `Sign in with Apple.`,
+          location: prompt.file,
+          line: prompt.line,
+          discriminator: `${check.scope}:${prompt.text}`,
+          fixGuidance: `Use the ${check.data} from the credential instead of asking for it. Apple only shares it on ` +
+            `the first sign-in, so store it right away:
+
+if let credential = authorization.credential as? ASAuthorizationAppleIDCredential {
+    let email = credential.email
+    let name = credential.fullName.map { PersonNameComponentsFormatter().string(from: $0) }
+    try await api.saveProfile(email: email, name: name)
+}
+
+If this field belongs to another sign-in method, don't show it to users who signed in with Apple, or ` +
+            `suppress this finding with // shiplint-disable-next-line ${this.id}.`,
+          shortFixText: `Use credential.${check.scope.slice(1)} instead of asking for the user's ${check.data}`,
+          documentationURL: 'https://developer.apple.com/documentation/authenticationservices/asauthorizationappleidcredential',
+        }));
+      }
+    }
+
+    return findings;
+  },
+};
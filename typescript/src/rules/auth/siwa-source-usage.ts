@@ -0,0 +1,44 @@
+/**
+ * Sign in with Apple source patterns shared by the auth rules
+ */
+import type { ScanContext } from '../../types/index.js';
+import { detectSourceAPIs, findSourceMatches } from '../source-evidence.js';
+import type { SourceAPIPattern, SourceMatch } from '../source-evidence.js';
+
+/**
+ * APIs that implement a Sign in with Apple flow
+ */
+export const SIWA_APIS: SourceAPIPattern[] = [
+  { label: 'ASAuthorizationAppleIDProvider', pattern: /\bASAuthorizationAppleIDProvider\b/ },
+  { label: 'ASAuthorizationAppleIDCredential', pattern: /\bASAuthorizationAppleIDCredential\b/ },
+  { label: 'SignInWithAppleButton', pattern: /\bSignInWithAppleButton\b/ },
+];
+
+/**
+ * Token revocation through Apple's REST API, directly or through Firebase Auth
+ */
+export const TOKEN_REVOCATION_APIS: SourceAPIPattern[] = [
+  { label: 'appleid.apple.com/auth/revoke', pattern: /appleid\.apple\.com\/auth\/revoke/ },
+  { label: 'revokeToken(withAuthorizationCode:)', pattern: /\brevokeToken\s*\(\s*withAuthorizationCode:|\brevokeTokenWithAuthorizationCode:/ },
+];
+
+/**
+ * Labels of the Sign in with Apple APIs the target uses
+ */
+export function detectSIWAUsage(context: ScanContext): string[] {
+  return detectSourceAPIs(context, SIWA_APIS);
+}
+
+/**
+ * Source files that implement the Sign in with Apple flow, first match per file
+ */
+export function findSIWAFiles(context: ScanContext): SourceMatch[] {
+  const seen = new Set<string>();
+  return SIWA_APIS
+    .flatMap(({ pattern }) => findSourceMatches(context, pattern))
+    .filter(match => {
+      if (seen.has(match.file)) return false;
+      seen.add(match.file);
+      return true;
+    });
+}
@@ -0,0 +1,73 @@
+/**
+ * Rule: Sign in with Apple Without Token Revocation
+ *
+ * Detects apps that implement Sign in with Apple but never revoke the
+ * user's tokens. Apps that offer Sign in with Apple must call Apple's REST
+ * API (appleid.apple.com/auth/revoke) when the user deletes their account.
+ * Revocation needs the credential's authorization code, so an app that
+ * neither revokes nor reads the code cannot be revoking on its server either.
+ *
+ * App Store Review Guideline: 5.1.1(v)
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeFinding } from '../base.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+import { TOKEN_REVOCATION_APIS, detectSIWAUsage, findSIWAFiles } from './siwa-source-usage.js';
+
+const AUTHORIZATION_CODE_APIS: SourceAPIPattern[] = [
+  { label: 'authorizationCode', pattern: /\.authorizationCode\b/ },
+];
+
+export const SIWATokenRevocationRule: Rule = {
+  id: 'auth-003-siwa-token-revocation',
+  name: 'Sign in with Apple Without Token Revocation',
+  description: 'Checks that apps using Sign in with Apple revoke tokens when an account is deleted',
+  category: RuleCategory.Auth,
+  severity: Severity.High,
+  confidence: Confidence.Medium,
+  guidelineReference: '5.1.1(v)',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const siwaAPIs = detectSIWAUsage(context);
+    if (siwaAPIs.length === 0) {
+      return [];
+    }
+
+    // Revoking here, or handing the code to a server that can revoke
+    if (detectSourceAPIs(context, [...TOKEN_REVOCATION_APIS, ...AUTHORIZATION_CODE_APIS]).length > 0) {
+      return [];
+    }
+
+    const siwaFile = findSIWAFiles(context)[0];
+
+    return [makeFinding(this, {
+      description: `Your app implements Sign in with Apple (${siwaAPIs.join(', ')}) but never revokes the ` +
+        `user's tokens and never reads the credential's authorizationCode, which a server needs to revoke them. ` +
+        `When a user deletes their account, apps that offer Sign in with Apple must revoke the user's tokens ` +
+        `through Apple's REST API.`,
+      location: siwaFile?.file || context.entitlementsPath || 'Entitlements',
+      line: siwaFile?.line,
+      fixGuidance: `Send the authorization code to your server when the user signs in, and revoke the tokens ` +
+        `when the account is deleted:
+
+// After sign-in
+if let code = credential.authorizationCode, let codeString = String(data: code, encoding: .utf8) {
+    try await api.storeAppleAuthorizationCode(codeString)
+}
+
+// Server, on account deletion: exchange the code for a refresh token at
+// https://appleid.apple.com/auth/token, then POST it to
+// https://appleid.apple.com/auth/revoke
+
+With Firebase Auth, call Auth.auth().revokeToken(withAuthorizationCode:) before deleting the user.`,
+      shortFixText: 'Revoke Sign in with Apple tokens through appleid.apple.com/auth/revoke on account deletion',
+      documentationURL: 'https://developer.apple.com/documentation/sign_in_with_apple/revoke_tokens',
+    })];
+  },
+};
@@ -59,6 +59,8 @@ export const ThirdPartyLoginNoSIWARule: Rule = {
             `Guideline 4.8, apps that offer third-party social login must also offer Sign in with Apple ` +
             `as an equivalent option.`,
           location: context.entitlementsPath || 'Entitlements',
+          // Constant per case: adding another login SDK must not turn a baselined finding into a new one
+          discriminator: 'missing-capability',
           fixGuidance: `Add Sign in with Apple to your app:
 
 1. In Xcode, select your app target → Signing & Capabilities
@@ -94,6 +96,7 @@ Important: Sign in with Apple must be presented as an equivalent option - same `
             `AuthenticationServices framework doesn't appear to be linked. This may indicate ` +
             `an incomplete SIWA implementation.`,
           location: context.pbxprojPath || 'project.pbxproj',
+          discriminator: 'missing-framework',
           fixGuidance: `Ensure you're importing AuthenticationServices and implementing the sign-in flow:
 
 import AuthenticationServices
@@ -117,6 +120,7 @@ Note: If you're using a third-party library that wraps SIWA, you can ignore ` +
           `be configured for social login. If you offer Google, Facebook, or other social login ` +
           `options, you must also offer Sign in with Apple.`,
         location: context.entitlementsPath || 'Entitlements',
+        discriminator: 'ambiguous-sdk',
         fixGuidance: `Review your authentication implementation:
 
 **If you use social login (Google, Facebook, etc.):**
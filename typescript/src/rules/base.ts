@@ -1,7 +1,8 @@
 /**
  * Base utilities for rules
  */
-import type { Rule, Finding, Severity, Confidence } from '../types/index.js';
+import * as fs from 'fs';
+import type { Rule, Finding, FixEdit, PlistValue, Severity, Confidence, ScanContext } from '../types/index.js';
 
 /**
  * Helper to create a finding with common rule properties
@@ -16,6 +17,8 @@ export function makeFinding(
     fixGuidance: string;
     shortFixText?: string;
     documentationURL?: string;
+    discriminator?: string;
+    fixes?: FixEdit[];
   }
 ): Finding {
   return {
@@ -30,6 +33,8 @@ export function makeFinding(
     fixGuidance: options.fixGuidance,
     shortFixText: options.shortFixText,
     documentationURL: options.documentationURL,
+    discriminator: options.discriminator,
+    fixes: options.fixes?.length ? options.fixes : undefined,
   };
 }
 
@@ -48,6 +53,8 @@ export function makeCustomFinding(
     fixGuidance: string;
     shortFixText?: string;
     documentationURL?: string;
+    discriminator?: string;
+    fixes?: FixEdit[];
   }
 ): Finding {
   return {
@@ -62,5 +69,48 @@ export function makeCustomFinding(
     fixGuidance: options.fixGuidance,
     shortFixText: options.shortFixText,
     documentationURL: options.documentationURL,
+    discriminator: options.discriminator,
+    fixes: options.fixes?.length ? options.fixes : undefined,
   };
 }
+
+/**
+ * Reads a rule option from the config file (validated against rule.options at load time)
+ */
+export function getRuleOption<T>(
+  context: ScanContext,
+  rule: Pick<Rule, 'id'>,
+  key: string
+): T | undefined {
+  return context.ruleOptions[rule.id]?.[key] as T | undefined;
+}
+
+/**
+ * Fix that sets an Info.plist key for the context's target
+ *
+ * Targets with GENERATE_INFOPLIST_FILE = YES get the INFOPLIST_KEY_* build
+ * setting in project.pbxproj; other targets get the key in their Info.plist.
+ * Returns no edits when neither file is available.
+ */
+export function infoPlistFix(
+  context: ScanContext,
+  key: string,
+  value: PlistValue,
+  buildSetting?: { key: string; value: string }
+): FixEdit[] {
+  const description = `Set ${key} to ${JSON.stringify(value)}`;
+  if (context.generatesInfoPlist() && buildSetting && context.pbxprojPath && context.targetName) {
+    return [{
+      type: 'build-setting',
+      file: context.pbxprojPath,
+      target: context.targetName,
+      key: buildSetting.key,
+      value: buildSetting.value,
+      description: `Set ${buildSetting.key} = ${buildSetting.value}`,
+    }];
+  }
+  if (context.infoPlistPath && fs.existsSync(context.infoPlistPath)) {
+    return [{ type: 'plist-set', file: context.infoPlistPath, key, value, description }];
+  }
+  return [];
+}
@@ -7,10 +7,12 @@
  * - dlopen / dlsym
  * - NSClassFromString with suspicious (non-standard) classes
  * - Runtime code loading patterns (NSBundle load, etc.)
+ *
+ * Compiled binaries are checked for an imported dlopen symbol.
  */
 import type { Rule, Finding, ScanContext } from '../../types/index.js';
 import { Severity, Confidence, RuleCategory } from '../../types/index.js';
-import { makeFinding, makeCustomFinding } from '../base.js';
+import { makeFinding, makeCustomFinding, getRuleOption } from '../base.js';
 import { findSourceFiles } from '../privacy/required-reason-api.js';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -84,9 +86,14 @@ export const DynamicCodeExecutionRule: Rule = {
   severity: Severity.Critical,
   confidence: Confidence.High,
   guidelineReference: '2.5.2',
+  options: {
+    /** Extra class names that are safe to resolve with NSClassFromString */
+    safeClasses: 'string[]',
+  },
 
   async evaluate(context: ScanContext): Promise<Finding[]> {
-    const sourceFiles = findSourceFiles(context.projectPath);
+    const extraSafeClasses = new Set(getRuleOption<string[]>(context, this, 'safeClasses') ?? []);
+    const sourceFiles = findSourceFiles(context.sourceRoot, context.sourceFilter);
     const detections: DynCodeDetection[] = [];
 
     for (const file of sourceFiles) {
@@ -130,7 +137,7 @@ export const DynamicCodeExecutionRule: Rule = {
           const className = nscMatch[1];
           // Safe prefixes: Apple framework conventions
           const safePrefixes = ['UI', 'NS', 'CL', 'MK', 'AV', 'SK', 'WK', 'SF', 'AS', 'CN', 'EK', 'QL', 'MF', 'PH', 'XC', 'CA', 'CK', 'HK', 'MT', 'SC', 'GK', 'FIR', 'GID', 'FB'];
-          const isSafe = SAFE_NSCLASSFROMSTRING.has(className) || safePrefixes.some(p => className.startsWith(p));
+          const isSafe = SAFE_NSCLASSFROMSTRING.has(className) || extraSafeClasses.has(className) || safePrefixes.some(p => className.startsWith(p));
           if (!isSafe) {
             detections.push({ file, line: lineNum, kind: 'nsclass-suspicious', match: className });
           }
@@ -154,7 +161,9 @@ export const DynamicCodeExecutionRule: Rule = {
       }
     }
 
-    if (detections.length === 0) return [];
+    const dlopenBinaries = (context.binaries ?? []).filter(binary => binary.importedSymbols.includes('dlopen'));
+
+    if (detections.length === 0 && dlopenBinaries.length === 0) return [];
 
     const findings: Finding[] = [];
 
@@ -206,6 +215,17 @@ export const DynamicCodeExecutionRule: Rule = {
       }
     }
 
+    // Many SDKs dlopen system libraries legitimately, so binary imports are lower confidence
+    for (const binary of dlopenBinaries) {
+      findings.push(makeCustomFinding(this, Severity.High, Confidence.Medium, {
+        title: 'Dynamic Library Loading (dlopen)',
+        description: `The compiled binary of ${binary.bundleName} (${path.basename(binary.path)}) imports dlopen. Loading executable code at runtime violates App Store guidelines.`,
+        location: binary.path,
+        fixGuidance: 'Check what the binary loads with dlopen. Loading system libraries is usually fine; loading downloaded or unsigned code is not. Link frameworks at build time instead.',
+        shortFixText: 'Verify dlopen in the binary only loads bundled or system libraries',
+      }));
+    }
+
     return findings;
   },
 };
@@ -0,0 +1,237 @@
+/**
+ * Rule: Hot Code Push and Downloaded Interpreted Code (§2.5.2)
+ *
+ * Detects mechanisms that change an app after review by downloading code:
+ * - Over-the-air update SDKs (CodePush, Expo Updates, Shorebird, Capacitor
+ *   and Cordova live updates), found in Podfile.lock, Package.resolved and
+ *   the package.json / pubspec.lock of a cross-platform app
+ * - Native hot patching frameworks (JSPatch, Rollout.io, Wax)
+ * - Downloaded Lua scripts and JavaScript injected into web views
+ */
+import type { Rule, Finding, ScanContext, Dependency } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { parsePackageJson, parsePubspecLock } from '../../parsers/framework-detector.js';
+import { makeCustomFinding } from '../base.js';
+import { findSourceMatches } from '../source-evidence.js';
+import type { SourceMatch } from '../source-evidence.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface HotCodePushMechanism {
+  name: string;
+  /** Lowercased package, pod or Swift package names */
+  packages: string[];
+  /**
+   * `interpreted` mechanisms replace JavaScript or Dart run by an interpreter
+   * that shipped with the app; `native` ones rewrite Objective-C methods
+   */
+  kind: 'interpreted' | 'native';
+  /** What an update contains, for interpreted mechanisms */
+  payload?: string;
+}
+
+const HOT_CODE_PUSH_MECHANISMS: HotCodePushMechanism[] = [
+  { name: 'CodePush', packages: ['react-native-code-push', '@code-push-next/react-native-code-push', 'codepush'], kind: 'interpreted', payload: 'JavaScript bundles' },
+  { name: 'Expo Updates', packages: ['expo-updates', 'exupdates'], kind: 'interpreted', payload: 'JavaScript bundles and assets' },
+  { name: 'Shorebird', packages: ['shorebird_code_push'], kind: 'interpreted', payload: 'Dart code patches' },
+  { name: 'Ionic Live Updates', packages: ['@capacitor/live-updates', 'cordova-plugin-ionic'], kind: 'interpreted', payload: 'web bundles' },
+  { name: 'Capgo', packages: ['@capgo/capacitor-updater'], kind: 'interpreted', payload: 'web bundles' },
+  { name: 'Cordova Hot Code Push', packages: ['cordova-hot-code-push-plugin'], kind: 'interpreted', payload: 'web bundles' },
+  { name: 'JSPatch', packages: ['jspatch', 'jspatchplatform'], kind: 'native' },
+  { name: 'Rollout.io', packages: ['rollout.io'], kind: 'native' },
+  { name: 'DynamicCocoa', packages: ['dynamiccocoa'], kind: 'native' },
+  { name: 'Wax', packages: ['wax', 'waxpatch'], kind: 'native' },
+];
+
+/**
+ * Manifests of the cross-platform app around an Xcode project
+ */
+const CROSS_PLATFORM_MANIFESTS: Array<{ file: string; parse: (filePath: string) => Dependency[] }> = [
+  { file: 'package.json', parse: parsePackageJson },
+  { file: 'pubspec.lock', parse: parsePubspecLock },
+];
+
+/**
+ * How far above the Xcode project to look for a cross-platform manifest
+ * (ios/ in React Native and Flutter, ios/App/ in Capacitor)
+ */
+const MAX_MANIFEST_LEVELS = 2;
+
+/**
+ * JSPatch's engine, for copies vendored without a package manager
+ */
+const JSPATCH_ENGINE = /\bJPEngine\b/;
+
+const LUA_LOAD_PATTERN = /\bluaL_(?:loadstring|dostring|loadbuffer|loadbufferx)\s*\(/;
+
+/**
+ * evaluateJavaScript with something other than a string literal
+ */
+const WEBVIEW_EVAL_PATTERN = /\.evaluateJavaScript\s*\(\s*(?!")|\bevaluateJavaScript:\s*(?!@")/;
+
+/**
+ * Network downloads that a script executed in the same file may come from
+ */
+const DOWNLOAD_PATTERN = /\bURLSession\b|\bNSURLSession\b|\b(?:data|download)Task\s*\(\s*with\b|\b(?:Data|String)\s*\(\s*contentsOf:|\b(?:data|string)WithContentsOfURL:|\bAF\.(?:request|download)\b/;
+
+const ALLOWED_UPDATES = 'Guideline 2.5.2 and section 3.3.1(B) of the Apple Developer Program License Agreement ' +
+  'allow an app to download interpreted code only if it runs in the interpreter that shipped with the app, ' +
+  'doesn\'t change the app\'s primary purpose, doesn\'t add features or functionality that weren\'t reviewed, ' +
+  'and doesn\'t create a store for other code. Bug fixes and content updates are allowed; new features, ' +
+  'changes to native code and updates that bypass review are not.';
+
+/**
+ * Finds the nearest cross-platform manifest at or above the project directory,
+ * without leaving the repository the project lives in
+ */
+function findManifest(projectPath: string, file: string): string | undefined {
+  let dir = projectPath;
+  for (let level = 0; level <= MAX_MANIFEST_LEVELS; level++) {
+    const candidate = path.join(dir, file);
+    if (fs.existsSync(candidate)) return candidate;
+    if (fs.existsSync(path.join(dir, '.git'))) return undefined;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+  return undefined;
+}
+
+function findMechanism(dependencyName: string): HotCodePushMechanism | undefined {
+  // Pod subspecs (CodePush/Core) count as their pod; npm scopes are part of the name
+  const name = dependencyName.toLowerCase();
+  const baseName = name.startsWith('@') ? name : name.split('/')[0];
+  return HOT_CODE_PUSH_MECHANISMS.find(mechanism => mechanism.packages.includes(baseName));
+}
+
+function filesMatching(context: ScanContext, pattern: RegExp): Set<string> {
+  return new Set(findSourceMatches(context, pattern).map(match => match.file));
+}
+
+export const HotCodePushRule: Rule = {
+  id: 'code-004-hot-code-push',
+  name: 'Hot Code Push',
+  description: 'Detects over-the-air code updates and downloaded interpreted code',
+  category: RuleCategory.Config,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '2.5.2',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Mechanism name -> where it was found
+    const detected = new Map<string, { mechanism: HotCodePushMechanism; location: string; line?: number; evidence: string }>();
+    const record = (mechanism: HotCodePushMechanism, location: string, evidence: string, line?: number) => {
+      if (!detected.has(mechanism.name)) {
+        detected.set(mechanism.name, { mechanism, location, line, evidence });
+      }
+    };
+
+    // Case 1: Podfile.lock and Package.resolved
+    for (const dep of context.dependencies) {
+      const mechanism = findMechanism(dep.name);
+      if (mechanism) {
+        record(mechanism, context.pbxprojPath || 'project.pbxproj', dep.name);
+      }
+    }
+
+    // Case 2: package.json and pubspec.lock of a React Native, Expo, Capacitor, Cordova or Flutter app
+    for (const { file, parse } of CROSS_PLATFORM_MANIFESTS) {
+      const manifest = findManifest(context.projectPath, file);
+      if (!manifest) continue;
+      for (const dep of parse(manifest)) {
+        const mechanism = findMechanism(dep.name);
+        if (mechanism) {
+          record(mechanism, manifest, dep.name);
+        }
+      }
+    }
+
+    // Shorebird apps carry a shorebird.yaml next to pubspec.yaml even without the updater package
+    const shorebirdConfig = findManifest(context.projectPath, 'shorebird.yaml');
+    if (shorebirdConfig) {
+      record(HOT_CODE_PUSH_MECHANISMS.find(m => m.name === 'Shorebird')!, shorebirdConfig, 'shorebird.yaml');
+    }
+
+    // Case 3: JSPatch copied into the project
+    const [engineMatch] = findSourceMatches(context, JSPATCH_ENGINE);
+    if (engineMatch) {
+      record(HOT_CODE_PUSH_MECHANISMS.find(m => m.name === 'JSPatch')!, engineMatch.file, 'JPEngine', engineMatch.line);
+    }
+
+    const findings: Finding[] = [...detected.values()].map(({ mechanism, location, line, evidence }) => {
+      if (mechanism.kind === 'native') {
+        return makeCustomFinding(this, Severity.Critical, Confidence.High, {
+          title: `Native Hot Patching Framework: ${mechanism.name}`,
+          description: `${mechanism.name} (${evidence}) downloads scripts that replace Objective-C methods at ` +
+            `runtime, which changes the app's native behavior after review. App Review has rejected apps ` +
+            `containing ${mechanism.name} and similar hot patching frameworks under Guideline 2.5.2 since ` +
+            `March 2017, whether or not a patch has been sent.`,
+          location,
+          line,
+          discriminator: mechanism.name,
+          fixGuidance: `Remove ${mechanism.name} and ship fixes as App Store updates. For urgent fixes, ` +
+            `request an expedited review in App Store Connect. Remote configuration and feature flags that ` +
+            `only switch between reviewed code paths are fine.`,
+          shortFixText: `Remove ${mechanism.name} and ship fixes through App Store updates`,
+          documentationURL: 'https://developer.apple.com/app-store/review/guidelines/#software-requirements',
+        });
+      }
+
+      // Interpreted updates are allowed within limits, so the finding is about how they are used
+      return makeCustomFinding(this, Severity.Medium, Confidence.Low, {
+        title: `Over-the-Air Code Updates: ${mechanism.name}`,
+        description: `${mechanism.name} (${evidence}) downloads ${mechanism.payload} after the app is ` +
+          `installed. ${ALLOWED_UPDATES}`,
+        location,
+        line,
+        discriminator: mechanism.name,
+        fixGuidance: `Keep ${mechanism.name} updates to fixes and content for the reviewed feature set:
+- Never use an update to add a feature, unlock hidden functionality or change what the app is for.
+- Ship any change that needs new native code, permissions or SDKs as an App Store update, and scope
+  updates to the native build they were made for (a runtime or binary version).
+- Don't download code from a source you don't control or let users load their own.`,
+        shortFixText: `Limit ${mechanism.name} updates to fixes and content that don't change the reviewed app`,
+        documentationURL: 'https://developer.apple.com/app-store/review/guidelines/#software-requirements',
+      });
+    });
+
+    // Case 4: scripts executed in files that download data
+    const downloadingFiles = filesMatching(context, DOWNLOAD_PATTERN);
+    const inDownloadingFile = (match: SourceMatch) => downloadingFiles.has(match.file);
+
+    for (const match of findSourceMatches(context, LUA_LOAD_PATTERN).filter(inDownloadingFile)) {
+      findings.push(makeCustomFinding(this, Severity.High, Confidence.Medium, {
+        title: 'Downloaded Lua Script Execution',
+        description: `${match.text.replace(/\s*\($/, '')} runs a Lua script from a string in a file that ` +
+          `also downloads data. An embedded interpreter running downloaded scripts can change the app after ` +
+          `review. ${ALLOWED_UPDATES}`,
+        location: match.file,
+        line: match.line,
+        discriminator: match.text,
+        fixGuidance: 'Bundle the Lua scripts with the app and load them with luaL_loadfile from the app bundle. ' +
+          'If scripts must be downloaded, limit them to content (levels, tuning data) that doesn\'t add features.',
+        shortFixText: 'Run only Lua scripts bundled with the app',
+        documentationURL: 'https://developer.apple.com/app-store/review/guidelines/#software-requirements',
+      }));
+    }
+
+    for (const match of findSourceMatches(context, WEBVIEW_EVAL_PATTERN).filter(inDownloadingFile)) {
+      findings.push(makeCustomFinding(this, Severity.Medium, Confidence.Low, {
+        title: 'Downloaded JavaScript Injected into Web View',
+        description: `A web view evaluates JavaScript built at runtime in a file that also downloads data. ` +
+          `If the script comes from the network and drives native features through message handlers, it ` +
+          `changes the app without review. ${ALLOWED_UPDATES}`,
+        location: match.file,
+        line: match.line,
+        discriminator: match.text,
+        fixGuidance: 'Bundle the scripts with the app (for example as WKUserScript resources) and pass ' +
+          'downloaded data to them as arguments with callAsyncJavaScript(_:arguments:) instead of ' +
+          'evaluating downloaded source.',
+        shortFixText: 'Evaluate only JavaScript bundled with the app',
+        documentationURL: 'https://developer.apple.com/app-store/review/guidelines/#software-requirements',
+      }));
+    }
+
+    return findings;
+  },
+};
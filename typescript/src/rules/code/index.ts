@@ -3,3 +3,4 @@
  */
 export { PrivateAPIUsageRule } from './private-api-usage.js';
 export { DynamicCodeExecutionRule } from './dynamic-code-execution.js';
+export { HotCodePushRule } from './hot-code-push.js';
@@ -6,8 +6,11 @@
  * - valueForKey/setValue:forKey on UIKit private properties (_placeholderLabel, _searchField, etc.)
  * - Known private framework imports
  * - objc_msgSend to known private selectors
+ *
+ * Compiled binaries (built bundles, vendored frameworks) are checked for the
+ * UIWebView class, private framework links and known private selectors.
  */
-import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import type { Rule, Finding, ScanContext, BinaryImage } from '../../types/index.js';
 import { Severity, Confidence, RuleCategory } from '../../types/index.js';
 import { makeFinding, makeCustomFinding } from '../base.js';
 import { findSourceFiles } from '../privacy/required-reason-api.js';
@@ -93,6 +96,24 @@ const OBJC_MSGSEND_PRIVATE_PATTERNS = [
   /\b#selector\(\s*_\w+\)/,
 ];
 
+/**
+ * Private selectors that have led to rejections when found in a binary's selector references
+ */
+const KNOWN_PRIVATE_SELECTORS = new Set([
+  '_performMemoryWarning',
+  '_setAlwaysRunsAtForegroundPriority:',
+  '_setHeaderAndFooterViewsFloat:',
+  '_setApplicationIsOpaque:',
+  '_statusBarWindow',
+  '_statusBar',
+  'terminateWithSuccess',
+  'allInstalledApplications',
+  'openApplicationWithBundleID:',
+  'launchApplicationWithIdentifier:suspended:',
+]);
+
+const PRIVATE_FRAMEWORKS_DIR = '/System/Library/PrivateFrameworks/';
+
 interface Detection {
   file: string;
   line: number;
@@ -100,8 +121,37 @@ interface Detection {
   match: string;
 }
 
+interface BinaryDetection {
+  binary: BinaryImage;
+  kind: 'uiwebview' | 'private-framework' | 'private-selector';
+  match: string;
+}
+
 const KVC_PATTERNS = buildKVCPatterns();
 
+/**
+ * Private API references in a binary's imports, linked dylibs and selector references
+ */
+function detectInBinary(binary: BinaryImage): BinaryDetection[] {
+  const detections: BinaryDetection[] = [];
+
+  if (binary.importedSymbols.includes('OBJC_CLASS_$_UIWebView')) {
+    detections.push({ binary, kind: 'uiwebview', match: 'UIWebView' });
+  }
+  for (const dylib of binary.dylibs) {
+    if (dylib.startsWith(PRIVATE_FRAMEWORKS_DIR)) {
+      detections.push({ binary, kind: 'private-framework', match: dylib });
+    }
+  }
+  for (const selector of binary.selectors) {
+    if (KNOWN_PRIVATE_SELECTORS.has(selector)) {
+      detections.push({ binary, kind: 'private-selector', match: selector });
+    }
+  }
+
+  return detections;
+}
+
 export const PrivateAPIUsageRule: Rule = {
   id: 'code-001-private-api-usage',
   name: 'Private API Usage',
@@ -112,7 +162,7 @@ export const PrivateAPIUsageRule: Rule = {
   guidelineReference: '2.5.1',
 
   async evaluate(context: ScanContext): Promise<Finding[]> {
-    const sourceFiles = findSourceFiles(context.projectPath);
+    const sourceFiles = findSourceFiles(context.sourceRoot, context.sourceFilter);
     const detections: Detection[] = [];
 
     for (const file of sourceFiles) {
@@ -178,7 +228,9 @@ export const PrivateAPIUsageRule: Rule = {
       }
     }
 
-    if (detections.length === 0) return [];
+    const binaryDetections = (context.binaries ?? []).flatMap(detectInBinary);
+
+    if (detections.length === 0 && binaryDetections.length === 0) return [];
 
     const findings: Finding[] = [];
 
@@ -230,6 +282,42 @@ export const PrivateAPIUsageRule: Rule = {
       }
     }
 
+    for (const det of binaryDetections) {
+      const binaryName = `${det.binary.bundleName} (${path.basename(det.binary.path)})`;
+      switch (det.kind) {
+        case 'uiwebview':
+          findings.push(makeFinding(this, {
+            title: 'UIWebView Usage (Deprecated & Rejected)',
+            description: `The compiled binary of ${binaryName} references the UIWebView class. Apple rejects apps whose binaries reference UIWebView.`,
+            location: det.binary.path,
+            fixGuidance: 'Replace UIWebView with WKWebView. If the reference comes from a third-party framework, update it to a version that no longer uses UIWebView.',
+            shortFixText: 'Update or replace the framework that references UIWebView',
+            documentationURL: 'https://developer.apple.com/documentation/webkit/wkwebview',
+          }));
+          break;
+        case 'private-framework':
+          findings.push(makeFinding(this, {
+            title: 'Private Framework Linked',
+            description: `The compiled binary of ${binaryName} links the private framework ${det.match}, which will cause App Store rejection.`,
+            location: det.binary.path,
+            discriminator: det.match,
+            fixGuidance: 'Stop linking private Apple frameworks. If a third-party framework links it, update or remove that framework.',
+            shortFixText: 'Remove the private framework link from the binary',
+          }));
+          break;
+        case 'private-selector':
+          findings.push(makeCustomFinding(this, Severity.High, Confidence.Medium, {
+            title: 'Private Selector Usage',
+            description: `The compiled binary of ${binaryName} references the private selector ${det.match}. App Review scans binaries for known private selectors.`,
+            location: det.binary.path,
+            discriminator: det.match,
+            fixGuidance: 'Replace private selector calls with equivalent public API methods. If the selector comes from a third-party framework, update it or ask the vendor.',
+            shortFixText: 'Remove the private selector reference from the binary',
+          }));
+          break;
+      }
+    }
+
     return findings;
   },
 };
@@ -153,6 +153,7 @@ The exception domains are ignored when NSAllowsArbitraryLoads is true.`,
             description: `Domain "${domain}" allows insecure HTTP connections without specifying ` +
               `a minimum TLS version. Consider if this domain can support HTTPS.`,
             location,
+            discriminator: domain,
             fixGuidance: `If the server supports TLS, add NSExceptionMinimumTLSVersion:
 
 <key>${domain}</key>
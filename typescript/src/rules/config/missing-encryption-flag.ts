@@ -9,7 +9,7 @@
  */
 import type { Rule, Finding, ScanContext } from '../../types/index.js';
 import { Severity, Confidence, RuleCategory } from '../../types/index.js';
-import { makeFinding } from '../base.js';
+import { makeFinding, infoPlistFix } from '../base.js';
 
 export const MissingEncryptionFlagRule: Rule = {
   id: 'config-002-missing-encryption-flag',
@@ -26,6 +26,11 @@ export const MissingEncryptionFlagRule: Rule = {
       return [];
     }
 
+    // Watch apps ship inside the iOS app, whose Info.plist carries the declaration
+    if (context.isWatchTarget()) {
+      return [];
+    }
+
     // If the key exists (true or false), the developer has declared their intent
     if (context.hasPlistKey('ITSAppUsesNonExemptEncryption')) {
       return [];
@@ -54,6 +59,10 @@ Set it to true only if your app uses custom encryption algorithms beyond standar
           `(e.g., proprietary encryption, custom TLS implementations). In that case, you'll also ` +
           `need to submit export compliance documentation to Apple.`,
         shortFixText: 'Add ITSAppUsesNonExemptEncryption to Info.plist (set to false for most apps)',
+        fixes: infoPlistFix(context, 'ITSAppUsesNonExemptEncryption', false, {
+          key: 'INFOPLIST_KEY_ITSAppUsesNonExemptEncryption',
+          value: 'NO',
+        }),
         documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/itsappusesnonexemptencryption',
       }),
     ];
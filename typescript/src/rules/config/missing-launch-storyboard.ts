@@ -9,7 +9,7 @@
  */
 import type { Rule, Finding, ScanContext } from '../../types/index.js';
 import { Severity, Confidence, RuleCategory } from '../../types/index.js';
-import { makeFinding } from '../base.js';
+import { makeFinding, infoPlistFix } from '../base.js';
 
 export const MissingLaunchStoryboardRule: Rule = {
   id: 'config-003-missing-launch-storyboard',
@@ -26,6 +26,11 @@ export const MissingLaunchStoryboardRule: Rule = {
       return [];
     }
 
+    // watchOS apps have no launch screen
+    if (context.isWatchTarget()) {
+      return [];
+    }
+
     // macOS apps don't need launch storyboards
     if (context.isMacOSOnly()) {
       return [];
@@ -80,6 +85,11 @@ If you're using a SwiftUI app lifecycle, set it to an empty string — Xcode typ
 Note: Launch images (UILaunchImages / asset catalog launch images) are no longer accepted ` +
           `as a substitute for launch storyboards.`,
         shortFixText: 'Add UILaunchStoryboardName to Info.plist',
+        // An empty UILaunchScreen dictionary gives a blank launch screen without a storyboard
+        fixes: infoPlistFix(context, 'UILaunchScreen', {}, {
+          key: 'INFOPLIST_KEY_UILaunchScreen_Generation',
+          value: 'YES',
+        }),
         documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/uilaunchstoryboardname',
       }),
     ];
@@ -0,0 +1,114 @@
+/**
+ * Rule: Background Mode Without Capability
+ *
+ * Checks UIBackgroundModes for values iOS does not recognise and for modes
+ * that only work with a matching entitlement (Push to Talk, Hotspot Helper).
+ * Whether the code actually uses a declared mode is a separate check.
+ *
+ * App Store Review Guideline: 2.5.4
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { EntitlementKeys } from '../../parsers/entitlements-parser.js';
+import { makeFinding, makeCustomFinding } from '../base.js';
+
+/**
+ * Background modes iOS recognises in UIBackgroundModes
+ */
+export const KNOWN_BACKGROUND_MODES: ReadonlySet<string> = new Set([
+  'audio',
+  'location',
+  'voip',
+  'fetch',
+  'remote-notification',
+  'processing',
+  'external-accessory',
+  'bluetooth-central',
+  'bluetooth-peripheral',
+  'nearby-interaction',
+  'network-authentication',
+  'push-to-talk',
+  'newsstand-content',
+]);
+
+/**
+ * Background modes that need an entitlement, and the capability that provides it
+ */
+const MODE_ENTITLEMENTS: Record<string, { entitlement: string; capability: string }> = {
+  'push-to-talk': { entitlement: EntitlementKeys.pushToTalk, capability: 'Push to Talk' },
+  'network-authentication': { entitlement: EntitlementKeys.hotspotHelper, capability: 'Hotspot Helper (requested from Apple)' },
+};
+
+export const BackgroundModeCapabilityRule: Rule = {
+  id: 'entitlements-002-background-mode-capability',
+  name: 'Background Mode Without Capability',
+  description: 'Checks UIBackgroundModes for unknown values and modes whose entitlement is missing',
+  category: RuleCategory.Entitlements,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '2.5.4',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget() || context.isMacOSOnly()) {
+      return [];
+    }
+
+    const modes = context.plistArray('UIBackgroundModes');
+    if (!modes) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+    const location = context.infoPlistPath || 'Info.plist';
+
+    for (const mode of modes) {
+      if (typeof mode !== 'string' || !KNOWN_BACKGROUND_MODES.has(mode)) {
+        findings.push(makeFinding(this, {
+          title: `Unknown Background Mode: ${String(mode)}`,
+          description: `UIBackgroundModes contains ${JSON.stringify(mode)}, which is not a background mode iOS ` +
+            `recognises. App Store Connect rejects unknown values, and the mode you meant to declare is not enabled.`,
+          location,
+          discriminator: String(mode),
+          fixGuidance: `Use one of the documented values: ${[...KNOWN_BACKGROUND_MODES].join(', ')}. Enabling ` +
+            `modes through Signing & Capabilities → Background Modes avoids typos.`,
+          shortFixText: `Replace "${String(mode)}" with a documented UIBackgroundModes value`,
+          documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/uibackgroundmodes',
+        }));
+        continue;
+      }
+
+      if (mode === 'newsstand-content') {
+        findings.push(makeCustomFinding(this, Severity.Medium, Confidence.High, {
+          title: 'Deprecated Background Mode: newsstand-content',
+          description: `UIBackgroundModes contains newsstand-content. Newsstand was removed in iOS 9 and the mode ` +
+            `has no effect; reviewers ask apps to remove background modes they don't use (Guideline 2.5.4).`,
+          location,
+          discriminator: mode,
+          fixGuidance: 'Remove newsstand-content from UIBackgroundModes. Use background app refresh (fetch) or ' +
+            'BGTaskScheduler to download content in the background.',
+          shortFixText: 'Remove newsstand-content from UIBackgroundModes',
+          documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/uibackgroundmodes',
+        }));
+        continue;
+      }
+
+      const required = MODE_ENTITLEMENTS[mode];
+      if (required && !context.hasEntitlement(required.entitlement)) {
+        findings.push(makeFinding(this, {
+          title: `Background Mode ${mode} Without Entitlement`,
+          description: `UIBackgroundModes contains ${mode}, but the app has no ${required.entitlement} entitlement. ` +
+            `The mode only works with the ${required.capability} capability, and App Store Connect rejects ` +
+            `background modes the app is not entitled to.`,
+          location: context.entitlementsPath || location,
+          discriminator: mode,
+          fixGuidance: `Add the ${required.capability} capability in Signing & Capabilities so ${required.entitlement} ` +
+            `is written to your entitlements file, or remove ${mode} from UIBackgroundModes.`,
+          shortFixText: `Add the ${required.capability} capability or remove the ${mode} background mode`,
+          documentationURL: 'https://developer.apple.com/documentation/bundleresources/entitlements',
+        }));
+      }
+    }
+
+    return findings;
+  },
+};
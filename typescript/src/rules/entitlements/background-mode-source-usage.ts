@@ -0,0 +1,147 @@
+/**
+ * Source-level evidence for UIBackgroundModes
+ *
+ * Maps each background mode to the APIs that need it, and collects the
+ * BGTaskScheduler identifiers the code registers or submits.
+ */
+import * as fs from 'fs';
+import { findSourceFiles } from '../privacy/required-reason-api.js';
+import { stripComments } from '../privacy/av-source-usage.js';
+
+interface LabeledPattern {
+  label: string;
+  pattern: RegExp;
+}
+
+/**
+ * APIs that justify each background mode
+ */
+export const BACKGROUND_MODE_APIS: Record<string, LabeledPattern[]> = {
+  'audio': [
+    { label: 'AVAudioSession playback category', pattern: /\bsetCategory\(\s*(?:AVAudioSession\.Category)?\.(?:playback|playAndRecord)\b/ },
+    { label: 'AVAudioSessionCategoryPlayback', pattern: /\bAVAudioSessionCategory(?:Playback|PlayAndRecord)\b/ },
+    { label: 'AVAudioSession.Category.playback', pattern: /\bAVAudioSession\.Category\.(?:playback|playAndRecord)\b/ },
+  ],
+  'location': [
+    { label: 'allowsBackgroundLocationUpdates', pattern: /\ballowsBackgroundLocationUpdates\s*=\s*(?:true|YES)\b/ },
+    { label: 'startMonitoringSignificantLocationChanges', pattern: /\bstartMonitoringSignificantLocationChanges\b/ },
+    { label: 'startMonitoringVisits', pattern: /\bstartMonitoringVisits\b/ },
+    { label: 'CLBackgroundActivitySession', pattern: /\bCLBackgroundActivitySession\b/ },
+    { label: 'CLMonitor', pattern: /\bCLMonitor\b/ },
+    { label: 'startMonitoring(for: region)', pattern: /\bstartMonitoring(?:\(for:|ForRegion:)/ },
+  ],
+  'voip': [
+    { label: 'PKPushRegistry', pattern: /\bPKPushRegistry\b/ },
+    { label: 'CXProvider', pattern: /\bCXProvider\b/ },
+  ],
+  'fetch': [
+    { label: 'BGAppRefreshTask', pattern: /\bBGAppRefreshTask(?:Request)?\b|\.appRefresh\(/ },
+    { label: 'setMinimumBackgroundFetchInterval', pattern: /\bsetMinimumBackgroundFetchInterval\b/ },
+    { label: 'performFetchWithCompletionHandler', pattern: /\bperformFetchWithCompletionHandler\b/ },
+  ],
+  'processing': [
+    { label: 'BGProcessingTask', pattern: /\bBGProcessingTask(?:Request)?\b/ },
+  ],
+  'remote-notification': [
+    { label: 'didReceiveRemoteNotification', pattern: /\bdidReceiveRemoteNotification\b/ },
+  ],
+  'bluetooth-central': [
+    { label: 'CBCentralManager', pattern: /\bCBCentralManager\b/ },
+  ],
+  'bluetooth-peripheral': [
+    { label: 'CBPeripheralManager', pattern: /\bCBPeripheralManager\b/ },
+  ],
+  'external-accessory': [
+    { label: 'EAAccessoryManager', pattern: /\bEA(?:AccessoryManager|Session)\b/ },
+  ],
+  'nearby-interaction': [
+    { label: 'NISession', pattern: /\bNISession\b/ },
+  ],
+  'push-to-talk': [
+    { label: 'PTChannelManager', pattern: /\bPTChannelManager\b/ },
+  ],
+  'network-authentication': [
+    { label: 'NEHotspotHelper', pattern: /\bNEHotspotHelper\b/ },
+  ],
+};
+
+/**
+ * Dependencies (by name prefix, lowercase) whose own code uses a background mode
+ */
+export const BACKGROUND_MODE_SDKS: Record<string, string[]> = {
+  'remote-notification': ['firebasemessaging', 'firebase/messaging', 'onesignal', 'braze', 'appboy', 'airship', 'react-native-firebase'],
+  'voip': ['twiliovoice', 'agora', 'jitsimeet', 'stream-video'],
+  'location': ['radarsdk', 'radar-ios'],
+};
+
+/**
+ * A BGTaskScheduler identifier used in code
+ */
+export interface BackgroundTaskIdentifier {
+  identifier: string;
+  kind: 'register' | 'app-refresh' | 'processing';
+  file: string;
+  line: number;
+}
+
+export interface BackgroundModeSourceUsage {
+  /** Whether any Swift/Objective-C source was scanned */
+  hasSourceFiles: boolean;
+  /** Justifying APIs found, by background mode */
+  evidence: Record<string, string[]>;
+  taskIdentifiers: BackgroundTaskIdentifier[];
+}
+
+const TASK_IDENTIFIER_PATTERNS: Array<{ kind: BackgroundTaskIdentifier['kind']; pattern: RegExp }> = [
+  { kind: 'register', pattern: /\bregister\(\s*forTaskWithIdentifier:\s*"([^"]+)"/g },
+  { kind: 'register', pattern: /\bregisterForTaskWithIdentifier:\s*@"([^"]+)"/g },
+  { kind: 'app-refresh', pattern: /\bBGAppRefreshTaskRequest\(\s*identifier:\s*"([^"]+)"/g },
+  { kind: 'app-refresh', pattern: /\[\[BGAppRefreshTaskRequest\s+alloc\]\s+initWithIdentifier:\s*@"([^"]+)"/g },
+  { kind: 'app-refresh', pattern: /\.backgroundTask\(\s*\.appRefresh\(\s*"([^"]+)"/g },
+  { kind: 'processing', pattern: /\bBGProcessingTaskRequest\(\s*identifier:\s*"([^"]+)"/g },
+  { kind: 'processing', pattern: /\[\[BGProcessingTaskRequest\s+alloc\]\s+initWithIdentifier:\s*@"([^"]+)"/g },
+];
+
+function lineOf(content: string, text: string): number {
+  const index = content.indexOf(text);
+  return index === -1 ? 1 : content.slice(0, index).split('\n').length;
+}
+
+export function detectBackgroundModeUsage(
+  projectPath: string,
+  filter?: (filePath: string) => boolean
+): BackgroundModeSourceUsage {
+  const sourceFiles = findSourceFiles(projectPath, filter);
+  const evidence: Record<string, Set<string>> = {};
+  const taskIdentifiers: BackgroundTaskIdentifier[] = [];
+
+  for (const file of sourceFiles) {
+    let original: string;
+    try {
+      original = fs.readFileSync(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    const content = stripComments(original);
+
+    for (const [mode, patterns] of Object.entries(BACKGROUND_MODE_APIS)) {
+      for (const { label, pattern } of patterns) {
+        if (pattern.test(content)) {
+          (evidence[mode] ??= new Set()).add(label);
+        }
+      }
+    }
+
+    for (const { kind, pattern } of TASK_IDENTIFIER_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        taskIdentifiers.push({ identifier: match[1], kind, file, line: lineOf(original, `"${match[1]}"`) });
+      }
+    }
+  }
+
+  return {
+    hasSourceFiles: sourceFiles.length > 0,
+    evidence: Object.fromEntries(Object.entries(evidence).map(([mode, labels]) => [mode, Array.from(labels)])),
+    taskIdentifiers,
+  };
+}
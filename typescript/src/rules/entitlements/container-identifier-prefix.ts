@@ -0,0 +1,97 @@
+/**
+ * Rule: Invalid Container Identifier
+ *
+ * Checks App Group identifiers start with "group." and iCloud container
+ * identifiers with "iCloud.", and that iCloud services come with a container.
+ * App Store Connect rejects identifiers without the prefix (ITMS-90046), and
+ * the container can't be opened at runtime.
+ *
+ * App Store Review Guideline: 2.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { EntitlementKeys } from '../../parsers/entitlements-parser.js';
+import { makeFinding } from '../base.js';
+
+interface ContainerEntitlement {
+  key: string;
+  prefix: string;
+  /** Capability that manages the entitlement, for the fix guidance */
+  capability: string;
+  example: string;
+}
+
+const CONTAINER_ENTITLEMENTS: ContainerEntitlement[] = [
+  { key: EntitlementKeys.appGroups, prefix: 'group.', capability: 'App Groups', example: 'group.com.example.app' },
+  { key: EntitlementKeys.iCloudContainer, prefix: 'iCloud.', capability: 'iCloud', example: 'iCloud.com.example.app' },
+  { key: EntitlementKeys.ubiquityContainers, prefix: 'iCloud.', capability: 'iCloud', example: 'iCloud.com.example.app' },
+];
+
+// Xcode-managed values such as $(TeamIdentifierPrefix)com.example.app or iCloud.$(CFBundleIdentifier)
+const BUILD_VARIABLE = /^\$\((?:TeamIdentifierPrefix|AppIdentifierPrefix)\)/;
+
+/**
+ * Whether a container identifier carries the prefix its entitlement requires
+ */
+export function hasContainerPrefix(identifier: string, prefix: string, macOS: boolean): boolean {
+  if (identifier.startsWith(prefix)) return true;
+  // macOS App Groups may use the team identifier prefix instead of "group."
+  return macOS && prefix === 'group.' && (BUILD_VARIABLE.test(identifier) || /^[A-Z0-9]{10}\./.test(identifier));
+}
+
+export const ContainerIdentifierPrefixRule: Rule = {
+  id: 'entitlements-005-container-identifier-prefix',
+  name: 'Invalid Container Identifier',
+  description: 'Checks App Group and iCloud container identifiers carry the group. / iCloud. prefix',
+  category: RuleCategory.Entitlements,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '2.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    const findings: Finding[] = [];
+    const location = context.entitlementsPath || 'Entitlements';
+    const macOS = context.isMacOSOnly();
+
+    for (const container of CONTAINER_ENTITLEMENTS) {
+      const identifiers = context.entitlementArray(container.key);
+      if (!identifiers) continue;
+
+      for (const identifier of identifiers) {
+        if (typeof identifier === 'string' && hasContainerPrefix(identifier, container.prefix, macOS)) continue;
+
+        findings.push(makeFinding(this, {
+          title: `Invalid ${container.capability} Identifier: ${String(identifier)}`,
+          description: `${container.key} contains ${JSON.stringify(identifier)}, which does not start with ` +
+            `"${container.prefix}". App Store Connect rejects the upload, and the container can't be opened ` +
+            `at runtime.`,
+          location,
+          discriminator: `${container.key}:${String(identifier)}`,
+          fixGuidance: `Register the identifier with the "${container.prefix}" prefix in the ${container.capability} ` +
+            `capability (Signing & Capabilities) and use the same identifier in code, e.g. ${container.example}.`,
+          shortFixText: `Prefix the identifier with "${container.prefix}" (e.g. ${container.example})`,
+          documentationURL: `https://developer.apple.com/documentation/bundleresources/entitlements/${container.key.replace(/\./g, '_')}`,
+        }));
+      }
+    }
+
+    // iCloud services (CloudKit, iCloud Documents) need a container to work with
+    const services = context.entitlementArray(EntitlementKeys.iCloudServices) ?? [];
+    const containers = context.entitlementArray(EntitlementKeys.iCloudContainer) ?? [];
+    if (services.some(service => service === 'CloudKit' || service === 'CloudDocuments') && containers.length === 0) {
+      findings.push(makeFinding(this, {
+        title: 'iCloud Services Without Container',
+        description: `${EntitlementKeys.iCloudServices} enables ${services.join(', ')}, but ` +
+          `${EntitlementKeys.iCloudContainer} lists no container. CloudKit and iCloud Documents fail ` +
+          `without one.`,
+        location,
+        fixGuidance: 'In Signing & Capabilities → iCloud, select or create a container (iCloud.<your bundle ID>). ' +
+          'Xcode adds it to the entitlements file.',
+        shortFixText: 'Select an iCloud container in the iCloud capability',
+        documentationURL: 'https://developer.apple.com/documentation/bundleresources/entitlements/com_apple_developer_icloud-container-identifiers',
+      }));
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,97 @@
+/**
+ * Rule: HealthKit Capability Mismatch
+ *
+ * Cross-checks the HealthKit entitlement against the Info.plist and the
+ * code: the entitlement without NSHealthShareUsageDescription, HealthKit use
+ * without the entitlement (HKHealthStore fails authorization at runtime), and
+ * clinical records access without NSHealthClinicalHealthRecordsShareUsageDescription.
+ * A missing purpose string in an app that links HealthKit is reported by
+ * privacy-018-missing-health-purpose.
+ *
+ * App Store Review Guideline: 5.1.3
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { EntitlementKeys } from '../../parsers/entitlements-parser.js';
+import { makeFinding } from '../base.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+
+const HEALTH_SHARE_KEY = 'NSHealthShareUsageDescription';
+const HEALTH_UPDATE_KEY = 'NSHealthUpdateUsageDescription';
+const CLINICAL_RECORDS_KEY = 'NSHealthClinicalHealthRecordsShareUsageDescription';
+
+export const HealthKitCapabilityMismatchRule: Rule = {
+  id: 'entitlements-004-healthkit-capability-mismatch',
+  name: 'HealthKit Capability Mismatch',
+  description: 'Checks the HealthKit entitlement, HealthKit usage and health purpose strings agree',
+  category: RuleCategory.Entitlements,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.3',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+    const hasEntitlement = context.hasEntitlement(EntitlementKeys.healthKit);
+    const linksHealthKit = context.hasFramework('HealthKit');
+    const healthStoreUsage = detectSourceAPIs(context, [{ label: 'HKHealthStore', pattern: /\bHKHealthStore\b/ }]);
+
+    // Case 1: HealthKit entitlement without a purpose string (privacy-018 covers apps that use HealthKit)
+    if (hasEntitlement && !linksHealthKit && healthStoreUsage.length === 0 &&
+        context.plistString(HEALTH_SHARE_KEY) === undefined) {
+      findings.push(makeFinding(this, {
+        title: 'HealthKit Entitlement Without Usage Description',
+        description: `The app has the ${EntitlementKeys.healthKit} entitlement but Info.plist has no ` +
+          `${HEALTH_SHARE_KEY}. App Store Connect rejects HealthKit-enabled apps without a purpose string ` +
+          `(ITMS-90683), and Guideline 5.1.3 requires apps to explain how they use health data.`,
+        location: context.infoPlistPath || 'Info.plist',
+        fixGuidance: `Add ${HEALTH_SHARE_KEY} (and ${HEALTH_UPDATE_KEY} if the app writes health data) to your ` +
+          `Info.plist, or remove the HealthKit capability if the app no longer uses it:
+
+<key>${HEALTH_SHARE_KEY}</key>
+<string>We read your workouts to show your weekly activity trends.</string>`,
+        shortFixText: `Add ${HEALTH_SHARE_KEY} or remove the HealthKit capability`,
+        documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/nshealthshareusagedescription',
+      }));
+    }
+
+    // Case 2: HealthKit used without the entitlement
+    if (!hasEntitlement && (linksHealthKit || healthStoreUsage.length > 0)) {
+      const evidence = [...(linksHealthKit ? ['HealthKit'] : []), ...healthStoreUsage];
+      findings.push(makeFinding(this, {
+        title: 'HealthKit Used Without Entitlement',
+        description: `Your app uses ${evidence.join(', ')} but has no ${EntitlementKeys.healthKit} entitlement. ` +
+          `Authorization requests fail at runtime ("Missing com.apple.developer.healthkit entitlement"), so ` +
+          `every health feature is broken in review.`,
+        location: context.entitlementsPath || 'Entitlements',
+        fixGuidance: 'Add the HealthKit capability in Signing & Capabilities. This writes the entitlement to your ' +
+          'entitlements file and enables HealthKit for the App ID.',
+        shortFixText: 'Add the HealthKit capability in Signing & Capabilities',
+        documentationURL: 'https://developer.apple.com/documentation/healthkit/setting-up-healthkit',
+      }));
+    }
+
+    // Case 3: clinical records access without its purpose string
+    const access = context.entitlementArray(EntitlementKeys.healthKitAccess) ?? [];
+    if (access.includes('health-records') && context.plistString(CLINICAL_RECORDS_KEY) === undefined) {
+      findings.push(makeFinding(this, {
+        title: 'Clinical Health Records Without Usage Description',
+        description: `${EntitlementKeys.healthKitAccess} includes health-records, but Info.plist has no ` +
+          `${CLINICAL_RECORDS_KEY}. Requesting clinical record types without it crashes the app.`,
+        location: context.infoPlistPath || 'Info.plist',
+        fixGuidance: `Add ${CLINICAL_RECORDS_KEY} explaining how the app uses clinical records, or turn off ` +
+          `Clinical Health Records in the HealthKit capability if the app doesn't read them:
+
+<key>${CLINICAL_RECORDS_KEY}</key>
+<string>We show your lab results next to your symptom log so you can share both with your doctor.</string>`,
+        shortFixText: `Add ${CLINICAL_RECORDS_KEY} to Info.plist`,
+        documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/nshealthclinicalhealthrecordsshareusagedescription',
+      }));
+    }
+
+    return findings;
+  },
+};
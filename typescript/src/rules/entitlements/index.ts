@@ -0,0 +1,9 @@
+/**
+ * Entitlements rules exports
+ */
+export { PushNotificationMismatchRule } from './push-notification-mismatch.js';
+export { BackgroundModeCapabilityRule } from './background-mode-capability.js';
+export { MalformedAssociatedDomainsRule } from './malformed-associated-domains.js';
+export { HealthKitCapabilityMismatchRule } from './healthkit-capability-mismatch.js';
+export { ContainerIdentifierPrefixRule } from './container-identifier-prefix.js';
+export { UnjustifiedBackgroundModeRule } from './unjustified-background-mode.js';
@@ -0,0 +1,121 @@
+/**
+ * Rule: Malformed Associated Domains
+ *
+ * Checks each com.apple.developer.associated-domains entry has the form
+ * `<service>:<domain>[?mode=developer|managed|developer+managed]`. Entries with
+ * a scheme, a path or an unknown service are silently ignored by iOS, so
+ * universal links and shared web credentials stop working.
+ *
+ * App Store Review Guideline: 2.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { EntitlementKeys } from '../../parsers/entitlements-parser.js';
+import { makeFinding } from '../base.js';
+
+const ASSOCIATED_DOMAIN_SERVICES = ['applinks', 'webcredentials', 'activitycontinuation', 'appclips'];
+const ASSOCIATED_DOMAIN_MODES = ['developer', 'managed', 'developer+managed'];
+
+// Optional leading "*." wildcard, then dot-separated labels, optional port
+const DOMAIN_PATTERN = /^(?:\*\.)?(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z0-9-]*[a-z][a-z0-9-]*(?::\d+)?$/i;
+
+/**
+ * Why an associated domains entry is malformed (undefined when it is valid)
+ */
+export function associatedDomainProblem(entry: string): string | undefined {
+  const separator = entry.indexOf(':');
+  if (separator === -1) {
+    return 'it has no service prefix (e.g. applinks:)';
+  }
+
+  const service = entry.slice(0, separator);
+  const rest = entry.slice(separator + 1);
+  if (!ASSOCIATED_DOMAIN_SERVICES.includes(service)) {
+    return /^https?$/i.test(service)
+      ? 'it is a URL; entries take a bare domain after the service prefix'
+      : `"${service}" is not an associated domains service (${ASSOCIATED_DOMAIN_SERVICES.join(', ')})`;
+  }
+
+  // $(VARIABLE) domains are resolved at build time
+  if (/\$\(\w+\)/.test(rest)) {
+    return undefined;
+  }
+
+  const [domain, query] = rest.split('?', 2);
+  if (/^[a-z]+:\/\//i.test(domain)) {
+    return 'the domain includes a URL scheme';
+  }
+  if (domain.includes('/')) {
+    return 'the domain includes a path (paths belong in the apple-app-site-association file)';
+  }
+  if (!DOMAIN_PATTERN.test(domain)) {
+    return `"${domain}" is not a valid domain`;
+  }
+  if (query !== undefined) {
+    const mode = query.startsWith('mode=') ? query.slice('mode='.length) : undefined;
+    if (!mode || !ASSOCIATED_DOMAIN_MODES.includes(mode)) {
+      return `"?${query}" is not a supported mode (mode=developer, mode=managed or mode=developer+managed)`;
+    }
+  }
+  return undefined;
+}
+
+export const MalformedAssociatedDomainsRule: Rule = {
+  id: 'entitlements-003-malformed-associated-domains',
+  name: 'Malformed Associated Domains',
+  description: 'Checks com.apple.developer.associated-domains entries are <service>:<domain>',
+  category: RuleCategory.Entitlements,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '2.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    const value = context.entitlements[EntitlementKeys.associatedDomains];
+    // Provisioning profiles grant every domain with "*"
+    if (value === undefined || value === '*') {
+      return [];
+    }
+
+    const location = context.entitlementsPath || 'Entitlements';
+    const documentationURL = 'https://developer.apple.com/documentation/bundleresources/entitlements/com_apple_developer_associated-domains';
+
+    if (!Array.isArray(value)) {
+      return [makeFinding(this, {
+        description: `${EntitlementKeys.associatedDomains} must be an array of strings, but it is ` +
+          `${JSON.stringify(value)}. iOS ignores the entitlement, so no associated domain works.`,
+        location,
+        fixGuidance: `Make the entitlement an array with one entry per domain:
+
+<key>${EntitlementKeys.associatedDomains}</key>
+<array>
+    <string>applinks:example.com</string>
+</array>`,
+        shortFixText: 'Make associated-domains an array of <service>:<domain> strings',
+        documentationURL,
+      })];
+    }
+
+    const findings: Finding[] = [];
+    for (const entry of value) {
+      const problem = typeof entry === 'string' ? associatedDomainProblem(entry) : 'it is not a string';
+      if (!problem) continue;
+
+      findings.push(makeFinding(this, {
+        title: `Malformed Associated Domain: ${String(entry)}`,
+        description: `The associated domains entry ${JSON.stringify(entry)} is malformed: ${problem}. iOS skips ` +
+          `malformed entries, so universal links, shared web credentials or App Clips for this domain won't work.`,
+        location,
+        discriminator: String(entry),
+        fixGuidance: `Write each entry as <service>:<domain>, where the service is ${ASSOCIATED_DOMAIN_SERVICES.join(', ')} ` +
+          `and the domain has no scheme or path. A leading "*." matches subdomains, and "?mode=developer" limits ` +
+          `the entry to development builds. For example:
+
+<string>applinks:example.com</string>
+<string>webcredentials:*.example.com</string>`,
+        shortFixText: 'Use the <service>:<domain> form (no scheme or path)',
+        documentationURL,
+      }));
+    }
+    return findings;
+  },
+};
@@ -0,0 +1,135 @@
+/**
+ * Rule: Push Notification Configuration Mismatch
+ *
+ * Cross-checks the aps-environment entitlement against the
+ * remote-notification background mode and the push APIs the app calls.
+ * Registering for remote notifications without the entitlement is rejected
+ * on upload (ITMS-90078), and a background push handler without the
+ * remote-notification mode is never woken.
+ *
+ * App Store Review Guideline: 4.5.4
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { EntitlementKeys } from '../../parsers/entitlements-parser.js';
+import { makeFinding, makeCustomFinding } from '../base.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const REMOTE_NOTIFICATION_MODE = 'remote-notification';
+const APS_ENVIRONMENTS = ['development', 'production'];
+
+const REGISTRATION_APIS: SourceAPIPattern[] = [
+  { label: 'registerForRemoteNotifications', pattern: /\bregisterForRemoteNotifications\b/ },
+];
+
+const BACKGROUND_HANDLER_APIS: SourceAPIPattern[] = [
+  { label: 'didReceiveRemoteNotification:fetchCompletionHandler:', pattern: /\bdidReceiveRemoteNotification\b[\s\S]{0,200}?\bfetchCompletionHandler\b/ },
+  { label: 'didReceiveRemoteNotification (async)', pattern: /\bdidReceiveRemoteNotification\b[^{]*\)\s*async\b/ },
+];
+
+const DOCUMENTATION_URL = 'https://developer.apple.com/documentation/usernotifications/registering-your-app-with-apns';
+
+export const PushNotificationMismatchRule: Rule = {
+  id: 'entitlements-001-push-notification-mismatch',
+  name: 'Push Notification Configuration Mismatch',
+  description: 'Checks that aps-environment, the remote-notification background mode and push registration agree',
+  category: RuleCategory.Entitlements,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '4.5.4',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+    const apsEnvironment = context.entitlements[EntitlementKeys.pushNotifications];
+    const backgroundModes = (context.plistArray('UIBackgroundModes') ?? []).filter((m): m is string => typeof m === 'string');
+    const entitlementsLocation = context.entitlementsPath || 'Entitlements';
+
+    if (apsEnvironment !== undefined) {
+      // Case 1: aps-environment with a value APNs does not know
+      if (typeof apsEnvironment !== 'string' || !APS_ENVIRONMENTS.includes(apsEnvironment)) {
+        findings.push(makeFinding(this, {
+          title: 'Invalid aps-environment Entitlement',
+          description: `The aps-environment entitlement is ${JSON.stringify(apsEnvironment)}, but it must be ` +
+            `"development" or "production". App Store Connect rejects the upload and the device never ` +
+            `receives a push token.`,
+          location: entitlementsLocation,
+          fixGuidance: `Set aps-environment to "development" in your entitlements file and let Xcode switch it ` +
+            `to "production" when you archive for distribution:
+
+<key>aps-environment</key>
+<string>development</string>`,
+          shortFixText: 'Set aps-environment to "development" (Xcode uses "production" when distributing)',
+          documentationURL: DOCUMENTATION_URL,
+        }));
+      }
+
+      // Case 2: background push handler without the remote-notification mode
+      const backgroundHandlers = detectSourceAPIs(context, BACKGROUND_HANDLER_APIS);
+      if (backgroundHandlers.length > 0 && !backgroundModes.includes(REMOTE_NOTIFICATION_MODE)) {
+        findings.push(makeCustomFinding(this, Severity.Medium, Confidence.Medium, {
+          title: 'Background Push Handler Without remote-notification Mode',
+          description: `Your app implements ${backgroundHandlers.join(', ')} to handle pushes in the background, ` +
+            `but UIBackgroundModes does not include remote-notification. iOS only launches or wakes the app ` +
+            `for silent (content-available) notifications when the mode is declared.`,
+          location: context.infoPlistPath || 'Info.plist',
+          fixGuidance: `Enable Background Modes → Remote notifications in Signing & Capabilities, or add the ` +
+            `mode to Info.plist:
+
+<key>UIBackgroundModes</key>
+<array>
+    <string>remote-notification</string>
+</array>
+
+If the app only shows visible notifications, you can drop the fetchCompletionHandler variant instead.`,
+          shortFixText: 'Add remote-notification to UIBackgroundModes',
+          documentationURL: 'https://developer.apple.com/documentation/usernotifications/pushing-background-updates-to-your-app',
+        }));
+      }
+      return findings;
+    }
+
+    // Case 3: remote-notification mode without the push entitlement
+    if (backgroundModes.includes(REMOTE_NOTIFICATION_MODE)) {
+      findings.push(makeFinding(this, {
+        title: 'remote-notification Mode Without Push Entitlement',
+        description: `UIBackgroundModes includes remote-notification, but the app has no aps-environment ` +
+          `entitlement. Without the Push Notifications capability the app cannot receive the pushes the ` +
+          `background mode is declared for.`,
+        location: entitlementsLocation,
+        fixGuidance: `Add the Push Notifications capability in Signing & Capabilities (this writes aps-environment ` +
+          `to your entitlements file), or remove remote-notification from UIBackgroundModes if the app does not ` +
+          `use push notifications.`,
+        shortFixText: 'Add the Push Notifications capability or remove the remote-notification background mode',
+        documentationURL: DOCUMENTATION_URL,
+      }));
+    }
+
+    // Case 4: push registration without the entitlement (ITMS-90078)
+    const registration = detectSourceAPIs(context, REGISTRATION_APIS);
+    if (registration.length > 0) {
+      findings.push(makeFinding(this, {
+        title: 'Missing Push Notification Entitlement',
+        description: `Your app calls ${registration.join(', ')} but has no aps-environment entitlement. ` +
+          `App Store Connect flags this on upload (ITMS-90078: Missing Push Notification Entitlement) and ` +
+          `registration fails at runtime.`,
+        location: entitlementsLocation,
+        fixGuidance: `Add the Push Notifications capability in Signing & Capabilities so Xcode writes ` +
+          `aps-environment to your entitlements file:
+
+<key>aps-environment</key>
+<string>development</string>
+
+If push registration comes from a third-party SDK you don't use for notifications, disable it in the SDK's configuration.`,
+        shortFixText: 'Add the Push Notifications capability (aps-environment entitlement)',
+        documentationURL: DOCUMENTATION_URL,
+      }));
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,129 @@
+/**
+ * Rule: Unjustified Background Mode
+ *
+ * Detects UIBackgroundModes the code never uses (a common Guideline 2.5.4
+ * rejection), BGTaskScheduler identifiers missing from
+ * BGTaskSchedulerPermittedIdentifiers (registering one crashes at launch),
+ * and task requests submitted without the fetch or processing mode.
+ *
+ * App Store Review Guideline: 2.5.4
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeFinding, makeCustomFinding } from '../base.js';
+import { BACKGROUND_MODE_APIS, BACKGROUND_MODE_SDKS, detectBackgroundModeUsage } from './background-mode-source-usage.js';
+import type { BackgroundTaskIdentifier } from './background-mode-source-usage.js';
+
+const PERMITTED_IDENTIFIERS_KEY = 'BGTaskSchedulerPermittedIdentifiers';
+const BACKGROUND_MODES_URL = 'https://developer.apple.com/documentation/bundleresources/information_property_list/uibackgroundmodes';
+const PERMITTED_IDENTIFIERS_URL = 'https://developer.apple.com/documentation/bundleresources/information_property_list/bgtaskschedulerpermittedidentifiers';
+
+/**
+ * Whether an identifier is listed (entries ending in "*" match any suffix)
+ */
+function isPermitted(identifier: string, permitted: string[]): boolean {
+  return permitted.some(entry => entry.endsWith('*')
+    ? identifier.startsWith(entry.slice(0, -1))
+    : entry === identifier);
+}
+
+export const UnjustifiedBackgroundModeRule: Rule = {
+  id: 'entitlements-006-unjustified-background-mode',
+  name: 'Unjustified Background Mode',
+  description: 'Checks each UIBackgroundModes value is backed by code, and BGTaskScheduler identifiers are permitted',
+  category: RuleCategory.Entitlements,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '2.5.4',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Built bundles have no source to justify modes with
+    if (context.isFrameworkTarget() || context.privacyManifests) {
+      return [];
+    }
+
+    const usage = detectBackgroundModeUsage(context.sourceRoot, context.sourceFilter);
+    const modes = (context.plistArray('UIBackgroundModes') ?? []).filter((m): m is string => typeof m === 'string');
+    const permitted = (context.plistArray(PERMITTED_IDENTIFIERS_KEY) ?? []).filter((i): i is string => typeof i === 'string');
+    const infoPlistLocation = context.infoPlistPath || 'Info.plist';
+    const findings: Finding[] = [];
+
+    // Case 1: declared modes without code that uses them. Cross-platform projects
+    // keep their native code in plugins, so without any source there is nothing to go on.
+    if (usage.hasSourceFiles) {
+      for (const mode of modes) {
+        if (!BACKGROUND_MODE_APIS[mode] || usage.evidence[mode]) continue;
+
+        const sdk = context.dependencies.find(dependency => (BACKGROUND_MODE_SDKS[mode] ?? [])
+          .some(prefix => dependency.name.toLowerCase().startsWith(prefix)));
+        if (sdk) continue;
+
+        const apis = BACKGROUND_MODE_APIS[mode].map(api => api.label).join(', ');
+        findings.push(makeCustomFinding(this, Severity.High, Confidence.Medium, {
+          title: `Unused Background Mode: ${mode}`,
+          description: `UIBackgroundModes declares ${mode}, but no source file uses an API that needs it ` +
+            `(${apis}). Reviewers reject apps that declare background modes without a feature that uses ` +
+            `them (Guideline 2.5.4).`,
+          location: infoPlistLocation,
+          discriminator: mode,
+          fixGuidance: `Remove ${mode} from UIBackgroundModes (Signing & Capabilities → Background Modes) if the ` +
+            `app doesn't use it. If a dependency uses it, keep the mode and explain the feature in the App Review ` +
+            `notes, including how the reviewer can trigger it.`,
+          shortFixText: `Remove the unused ${mode} background mode`,
+          documentationURL: BACKGROUND_MODES_URL,
+        }));
+      }
+    }
+
+    // Case 2: identifiers used in code but not permitted in Info.plist
+    const reported = new Set<string>();
+    for (const task of usage.taskIdentifiers) {
+      if (isPermitted(task.identifier, permitted) || reported.has(task.identifier)) continue;
+      reported.add(task.identifier);
+
+      findings.push(makeFinding(this, {
+        title: `BGTaskScheduler Identifier Not Permitted: ${task.identifier}`,
+        description: `The code ${task.kind === 'register' ? 'registers' : 'submits'} the background task ` +
+          `"${task.identifier}", but ${PERMITTED_IDENTIFIERS_KEY} in Info.plist ` +
+          `${permitted.length > 0 ? 'does not list it' : 'is missing'}. Registering an identifier that is not ` +
+          `permitted throws at launch, and submitting one fails with BGTaskSchedulerErrorCodeNotPermitted.`,
+        location: task.file,
+        line: task.line,
+        discriminator: task.identifier,
+        fixGuidance: `Add the identifier to ${PERMITTED_IDENTIFIERS_KEY} in your Info.plist:
+
+<key>${PERMITTED_IDENTIFIERS_KEY}</key>
+<array>
+    <string>${task.identifier}</string>
+</array>`,
+        shortFixText: `Add "${task.identifier}" to ${PERMITTED_IDENTIFIERS_KEY}`,
+        documentationURL: PERMITTED_IDENTIFIERS_URL,
+      }));
+    }
+
+    // Case 3: task requests without the background mode they run under
+    const requiredModes: Array<{ kind: BackgroundTaskIdentifier['kind']; mode: string; request: string }> = [
+      { kind: 'app-refresh', mode: 'fetch', request: 'BGAppRefreshTaskRequest' },
+      { kind: 'processing', mode: 'processing', request: 'BGProcessingTaskRequest' },
+    ];
+    for (const { kind, mode, request } of requiredModes) {
+      const task = usage.taskIdentifiers.find(t => t.kind === kind);
+      if (!task || modes.includes(mode)) continue;
+
+      findings.push(makeFinding(this, {
+        title: `${request} Without ${mode} Background Mode`,
+        description: `The code submits a ${request} ("${task.identifier}"), but UIBackgroundModes does not ` +
+          `include ${mode}. BGTaskScheduler rejects the request, so the task never runs.`,
+        location: task.file,
+        line: task.line,
+        discriminator: mode,
+        fixGuidance: `Enable Signing & Capabilities → Background Modes → ` +
+          `${mode === 'fetch' ? 'Background fetch' : 'Background processing'}, or add ${mode} to UIBackgroundModes.`,
+        shortFixText: `Add ${mode} to UIBackgroundModes`,
+        documentationURL: BACKGROUND_MODES_URL,
+      }));
+    }
+
+    return findings;
+  },
+};
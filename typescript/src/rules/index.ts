@@ -12,6 +12,15 @@ export * from './auth/index.js';
 // Metadata rules
 export * from './metadata/index.js';
 
+// Entitlements rules
+export * from './entitlements/index.js';
+
+// Payments rules
+export * from './payments/index.js';
+
+// Kids Category rules
+export * from './kids/index.js';
+
 // Config rules
 export * from './config/index.js';
 
@@ -30,16 +39,54 @@ import { MissingPhotoLibraryPurposeRule } from './privacy/missing-photo-library-
 import { MissingMicrophonePurposeRule } from './privacy/missing-microphone-purpose.js';
 import { MissingContactsPurposeRule } from './privacy/missing-contacts-purpose.js';
 import { ThirdPartyLoginNoSIWARule } from './auth/third-party-login-no-siwa.js';
+import { MissingAccountDeletionRule } from './auth/missing-account-deletion.js';
+import { SIWATokenRevocationRule } from './auth/siwa-token-revocation.js';
+import { CustomAppleSignInButtonRule } from './auth/custom-apple-sign-in-button.js';
+import { SIWARedundantScopePromptRule } from './auth/siwa-redundant-scope-prompt.js';
 import { MissingPrivacyManifestRule } from './metadata/missing-privacy-manifest.js';
 import { ATSExceptionWithoutJustificationRule } from './config/ats-exception-without-justification.js';
 import { MissingEncryptionFlagRule } from './config/missing-encryption-flag.js';
 import { MissingLaunchStoryboardRule } from './config/missing-launch-storyboard.js';
 import { MissingBluetoothPurposeRule } from './privacy/missing-bluetooth-purpose.js';
 import { MissingFaceIdPurposeRule } from './privacy/missing-face-id-purpose.js';
+import { MissingCalendarsPurposeRule } from './privacy/missing-calendars-purpose.js';
+import { MissingRemindersPurposeRule } from './privacy/missing-reminders-purpose.js';
+import { MissingHealthPurposeRule } from './privacy/missing-health-purpose.js';
+import { MissingMotionPurposeRule } from './privacy/missing-motion-purpose.js';
+import { MissingSpeechRecognitionPurposeRule } from './privacy/missing-speech-recognition-purpose.js';
+import { MissingHomeKitPurposeRule } from './privacy/missing-homekit-purpose.js';
+import { MissingSiriPurposeRule } from './privacy/missing-siri-purpose.js';
+import { MissingAppleMusicPurposeRule } from './privacy/missing-apple-music-purpose.js';
+import { MissingNFCPurposeRule } from './privacy/missing-nfc-purpose.js';
+import { MissingLocalNetworkPurposeRule } from './privacy/missing-local-network-purpose.js';
+import { MissingFocusStatusPurposeRule } from './privacy/missing-focus-status-purpose.js';
+import { MissingNearbyInteractionPurposeRule } from './privacy/missing-nearby-interaction-purpose.js';
+import { MissingPhotoLibraryAddPurposeRule } from './privacy/missing-photo-library-add-purpose.js';
 import { MissingSupportedOrientationsRule } from './metadata/missing-supported-orientations.js';
 import { RequiredReasonAPIRule } from './privacy/required-reason-api.js';
+import { MalformedPrivacyManifestRule } from './privacy/privacy-manifest-malformed.js';
+import { InvalidRequiredReasonDeclarationRule } from './privacy/privacy-manifest-api-reasons.js';
+import { TrackingWithoutDomainsRule } from './privacy/privacy-manifest-tracking-domains.js';
+import { InvalidCollectedDataTypeRule } from './privacy/privacy-manifest-collected-data.js';
+import { SDKMissingPrivacyManifestRule } from './privacy/sdk-missing-privacy-manifest.js';
+import { UnsignedSDKXCFrameworkRule } from './metadata/unsigned-sdk-xcframework.js';
+import { PushNotificationMismatchRule } from './entitlements/push-notification-mismatch.js';
+import { BackgroundModeCapabilityRule } from './entitlements/background-mode-capability.js';
+import { MalformedAssociatedDomainsRule } from './entitlements/malformed-associated-domains.js';
+import { HealthKitCapabilityMismatchRule } from './entitlements/healthkit-capability-mismatch.js';
+import { ContainerIdentifierPrefixRule } from './entitlements/container-identifier-prefix.js';
+import { UnjustifiedBackgroundModeRule } from './entitlements/unjustified-background-mode.js';
+import { ExternalPaymentSDKRule } from './payments/external-payment-sdk.js';
+import { ExternalPurchaseLinkRule } from './payments/external-purchase-link.js';
+import { MissingRestorePurchasesRule } from './payments/missing-restore-purchases.js';
+import { StoreProductViewMisuseRule } from './payments/store-product-view-misuse.js';
+import { KidsThirdPartyAnalyticsRule } from './kids/third-party-analytics.js';
+import { KidsAdvertisingIdentifierRule } from './kids/advertising-identifier.js';
+import { KidsUnguardedExternalLinkRule } from './kids/unguarded-external-link.js';
+import { KidsPersonalDataPermissionRule } from './kids/personal-data-permission.js';
 import { PrivateAPIUsageRule } from './code/private-api-usage.js';
 import { DynamicCodeExecutionRule } from './code/dynamic-code-execution.js';
+import { HotCodePushRule } from './code/hot-code-push.js';
 
 /**
  * All available rules
@@ -54,15 +101,53 @@ export const allRules: Rule[] = [
   MissingContactsPurposeRule,
   MissingBluetoothPurposeRule,
   MissingFaceIdPurposeRule,
+  MissingCalendarsPurposeRule,
+  MissingRemindersPurposeRule,
+  MissingHealthPurposeRule,
+  MissingMotionPurposeRule,
+  MissingSpeechRecognitionPurposeRule,
+  MissingHomeKitPurposeRule,
+  MissingSiriPurposeRule,
+  MissingAppleMusicPurposeRule,
+  MissingNFCPurposeRule,
+  MissingLocalNetworkPurposeRule,
+  MissingFocusStatusPurposeRule,
+  MissingNearbyInteractionPurposeRule,
+  MissingPhotoLibraryAddPurposeRule,
   ThirdPartyLoginNoSIWARule,
+  MissingAccountDeletionRule,
+  SIWATokenRevocationRule,
+  CustomAppleSignInButtonRule,
+  SIWARedundantScopePromptRule,
   MissingPrivacyManifestRule,
   MissingSupportedOrientationsRule,
   ATSExceptionWithoutJustificationRule,
   MissingEncryptionFlagRule,
   MissingLaunchStoryboardRule,
   RequiredReasonAPIRule,
+  MalformedPrivacyManifestRule,
+  InvalidRequiredReasonDeclarationRule,
+  TrackingWithoutDomainsRule,
+  InvalidCollectedDataTypeRule,
+  SDKMissingPrivacyManifestRule,
+  UnsignedSDKXCFrameworkRule,
+  PushNotificationMismatchRule,
+  BackgroundModeCapabilityRule,
+  MalformedAssociatedDomainsRule,
+  HealthKitCapabilityMismatchRule,
+  ContainerIdentifierPrefixRule,
+  UnjustifiedBackgroundModeRule,
+  ExternalPaymentSDKRule,
+  ExternalPurchaseLinkRule,
+  MissingRestorePurchasesRule,
+  StoreProductViewMisuseRule,
+  KidsThirdPartyAnalyticsRule,
+  KidsAdvertisingIdentifierRule,
+  KidsUnguardedExternalLinkRule,
+  KidsPersonalDataPermissionRule,
   PrivateAPIUsageRule,
   DynamicCodeExecutionRule,
+  HotCodePushRule,
 ];
 
 /**
@@ -72,6 +157,40 @@ export const ruleRegistry: Map<string, Rule> = new Map(
   allRules.map(rule => [rule.id, rule])
 );
 
+/**
+ * Register a rule (used by plugins)
+ * 
+ * A plugin may re-register its own rules (e.g. when the MCP server scans again);
+ * any other ID collision is an error.
+ */
+export function registerRule(rule: Rule): Rule {
+  const existing = ruleRegistry.get(rule.id);
+  if (existing) {
+    if (!existing.plugin || existing.plugin !== rule.plugin) {
+      const owner = existing.plugin ? `plugin ${existing.plugin}` : 'a built-in rule';
+      throw new Error(`Rule ID "${rule.id}" is already registered by ${owner}`);
+    }
+    allRules.splice(allRules.indexOf(existing), 1, rule);
+  } else {
+    allRules.push(rule);
+  }
+  ruleRegistry.set(rule.id, rule);
+  return rule;
+}
+
+/**
+ * Remove a rule added with registerRule
+ * 
+ * Does nothing if the ID has since been registered again by another load.
+ */
+export function unregisterRule(rule: Rule): void {
+  if (ruleRegistry.get(rule.id) !== rule) {
+    return;
+  }
+  allRules.splice(allRules.indexOf(rule), 1);
+  ruleRegistry.delete(rule.id);
+}
+
 /**
  * Get a rule by ID
  */
@@ -0,0 +1,89 @@
+/**
+ * Rule: Advertising Identifier in a Kids Category App
+ *
+ * Detects IDFA access (AdSupport, ASIdentifierManager) and tracking
+ * permission requests (NSUserTrackingUsageDescription, ATTrackingManager)
+ * in apps for the Kids Category, which may not track children.
+ *
+ * App Store Review Guideline: 1.3 (and 5.1.4)
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeCustomFinding } from '../base.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+import { kidsCategoryReason, kidsCategoryConfidence } from './kids-category.js';
+
+const TRACKING_USAGE_KEY = 'NSUserTrackingUsageDescription';
+
+const IDFA_APIS: SourceAPIPattern[] = [
+  { label: 'ASIdentifierManager', pattern: /\bASIdentifierManager\b/ },
+  { label: 'advertisingIdentifier', pattern: /\badvertisingIdentifier\b/ },
+];
+
+const TRACKING_APIS: SourceAPIPattern[] = [
+  { label: 'ATTrackingManager', pattern: /\bATTrackingManager\b/ },
+];
+
+export const KidsAdvertisingIdentifierRule: Rule = {
+  id: 'kids-002-advertising-identifier',
+  name: 'Advertising Identifier in a Kids Category App',
+  description: 'Checks Kids Category apps for IDFA access and tracking permission requests',
+  category: RuleCategory.Kids,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '1.3',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    const reason = kidsCategoryReason(context);
+    if (!reason || context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+    const confidence = kidsCategoryConfidence(context, Confidence.High);
+
+    // Case 1: the app reads the advertising identifier
+    const idfaEvidence = [
+      ...(context.hasFramework('AdSupport') ? ['AdSupport framework'] : []),
+      ...detectSourceAPIs(context, IDFA_APIS),
+    ];
+    if (idfaEvidence.length > 0) {
+      findings.push(makeCustomFinding(this, Severity.Critical, confidence, {
+        title: 'Advertising Identifier in Kids Category App',
+        description: `This app is treated as a Kids Category app because ${reason}, and it uses the ` +
+          `advertising identifier (${idfaEvidence.join(', ')}). Kids apps may not use the IDFA or send device ` +
+          `identifiers to third parties.`,
+        location: context.pbxprojPath || 'project.pbxproj',
+        discriminator: 'idfa',
+        fixGuidance: `Remove AdSupport from the target and every ASIdentifierManager call. If an SDK links ` +
+          `AdSupport, remove the SDK or use a kids-safe build of it that doesn't read the IDFA.`,
+        shortFixText: 'Remove AdSupport and IDFA access from the Kids Category app',
+        documentationURL: 'https://developer.apple.com/app-store/kids-apps/',
+      }));
+    }
+
+    // Case 2: the app asks for permission to track
+    const trackingEvidence = [
+      ...(context.hasPlistKey(TRACKING_USAGE_KEY) ? [TRACKING_USAGE_KEY] : []),
+      ...(context.hasFramework('AppTrackingTransparency') ? ['AppTrackingTransparency framework'] : []),
+      ...detectSourceAPIs(context, TRACKING_APIS),
+    ];
+    if (trackingEvidence.length > 0) {
+      findings.push(makeCustomFinding(this, Severity.Critical, confidence, {
+        title: 'Tracking Permission in Kids Category App',
+        description: `This app is treated as a Kids Category app because ${reason}, and it is set up to ask ` +
+          `for permission to track (${trackingEvidence.join(', ')}). Kids apps may not track users, so they ` +
+          `should never show the App Tracking Transparency prompt.`,
+        location: context.infoPlistPath || 'Info.plist',
+        discriminator: 'tracking',
+        fixGuidance: `Remove ${TRACKING_USAGE_KEY} from Info.plist, the AppTrackingTransparency framework and ` +
+          `every ATTrackingManager call, along with the SDKs that need them.`,
+        shortFixText: `Remove ${TRACKING_USAGE_KEY} and App Tracking Transparency from the Kids Category app`,
+        documentationURL: 'https://developer.apple.com/app-store/kids-apps/',
+      }));
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,7 @@
+/**
+ * Kids Category rules exports
+ */
+export { KidsThirdPartyAnalyticsRule } from './third-party-analytics.js';
+export { KidsAdvertisingIdentifierRule } from './advertising-identifier.js';
+export { KidsUnguardedExternalLinkRule } from './unguarded-external-link.js';
+export { KidsPersonalDataPermissionRule } from './personal-data-permission.js';
@@ -0,0 +1,72 @@
+/**
+ * Kids Category detection shared by the kids rules
+ *
+ * The Kids Category is chosen in App Store Connect, so a project can only
+ * declare it through the config file ("kidsCategory": true). Without the
+ * flag, the rules still run when the project looks made for kids: a kids age
+ * band in fastlane's age rating config, or child-directed settings passed to
+ * ad and analytics SDKs. "kidsCategory": false turns that inference off.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ScanContext } from '../../types/index.js';
+import { Confidence } from '../../types/index.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const RATING_CONFIG_PATHS = [
+  path.join('fastlane', 'app_rating_config.json'),
+  path.join('fastlane', 'metadata', 'app_rating_config.json'),
+];
+
+const CHILD_DIRECTED_APIS: SourceAPIPattern[] = [
+  { label: 'tagForChildDirectedTreatment', pattern: /\b(?:set)?[Tt]agForChildDirectedTreatment\b\s*(?:=|\(|:)\s*(?:true|YES|@YES|1)\b/ },
+  { label: 'setIsAgeRestrictedUser', pattern: /\bsetIsAgeRestrictedUser\s*[(:]\s*(?:true|YES)\b/ },
+  { label: 'is_child_directed', pattern: /"is_child_directed"|\bisChildDirected\s*=\s*(?:true|YES)\b/ },
+];
+
+/**
+ * Why the target is treated as a Kids Category app, or undefined when it isn't
+ */
+export function kidsCategoryReason(context: ScanContext): string | undefined {
+  if (context.kidsCategory !== undefined) {
+    return context.kidsCategory ? '"kidsCategory" is set in the config file' : undefined;
+  }
+
+  for (const relative of RATING_CONFIG_PATHS) {
+    if (hasKidsAgeBand(path.join(context.projectPath, relative))) {
+      return `${relative.split(path.sep).join('/')} sets a kids age band`;
+    }
+  }
+
+  const childDirected = detectSourceAPIs(context, CHILD_DIRECTED_APIS);
+  if (childDirected.length > 0) {
+    return `the app marks SDK traffic as child-directed (${childDirected.join(', ')})`;
+  }
+
+  return undefined;
+}
+
+/**
+ * A rule's confidence, lowered one step when the Kids Category is only inferred
+ */
+export function kidsCategoryConfidence(context: ScanContext, confidence: Confidence): Confidence {
+  if (context.kidsCategory) {
+    return confidence;
+  }
+  return confidence === Confidence.High ? Confidence.Medium : Confidence.Low;
+}
+
+function hasKidsAgeBand(filePath: string): boolean {
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return false;
+  }
+  if (typeof config !== 'object' || config === null) {
+    return false;
+  }
+  const band = (config as Record<string, unknown>).kidsAgeBand ?? (config as Record<string, unknown>).kids_age_band;
+  return typeof band === 'string' && band.length > 0;
+}
@@ -0,0 +1,87 @@
+/**
+ * Rule: Personal Data Permission in a Kids Category App
+ *
+ * Detects Kids Category apps that ask for access to contacts or location.
+ * Kids apps may not collect personal information such as a child's
+ * location or their contacts' details.
+ *
+ * App Store Review Guideline: 1.3 (and 5.1.4)
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeCustomFinding } from '../base.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+import { kidsCategoryReason, kidsCategoryConfidence } from './kids-category.js';
+
+interface PersonalDataPermission {
+  resource: string;
+  keys: string[];
+  apis: SourceAPIPattern[];
+}
+
+const PERSONAL_DATA_PERMISSIONS: PersonalDataPermission[] = [
+  {
+    resource: 'Contacts',
+    keys: ['NSContactsUsageDescription'],
+    apis: [
+      { label: 'CNContactStore', pattern: /\bCNContactStore\b/ },
+    ],
+  },
+  {
+    resource: 'Location',
+    keys: [
+      'NSLocationWhenInUseUsageDescription',
+      'NSLocationAlwaysAndWhenInUseUsageDescription',
+      'NSLocationAlwaysUsageDescription',
+    ],
+    apis: [
+      { label: 'requestWhenInUseAuthorization', pattern: /\brequestWhenInUseAuthorization\b/ },
+      { label: 'requestAlwaysAuthorization', pattern: /\brequestAlwaysAuthorization\b/ },
+      { label: 'CLLocationUpdate', pattern: /\bCLLocationUpdate\b/ },
+    ],
+  },
+];
+
+export const KidsPersonalDataPermissionRule: Rule = {
+  id: 'kids-004-personal-data-permission',
+  name: 'Personal Data Permission in a Kids Category App',
+  description: 'Checks Kids Category apps for contacts and location access',
+  category: RuleCategory.Kids,
+  severity: Severity.High,
+  confidence: Confidence.Medium,
+  guidelineReference: '1.3',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    const reason = kidsCategoryReason(context);
+    if (!reason || context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+
+    for (const { resource, keys, apis } of PERSONAL_DATA_PERMISSIONS) {
+      const evidence = [
+        ...keys.filter(key => context.hasPlistKey(key)),
+        ...detectSourceAPIs(context, apis),
+      ];
+      if (evidence.length === 0) continue;
+
+      findings.push(makeCustomFinding(this, Severity.High, kidsCategoryConfidence(context, Confidence.Medium), {
+        title: `${resource} Access in Kids Category App`,
+        description: `This app is treated as a Kids Category app because ${reason}, and it asks for access to ` +
+          `${resource.toLowerCase()} (${evidence.join(', ')}). Apps in the Kids Category may not collect ` +
+          `personal information from children, which reviewers apply to location and contacts.`,
+        location: context.infoPlistPath || 'Info.plist',
+        discriminator: resource,
+        fixGuidance: `Remove the ${resource.toLowerCase()} permission request and ${keys.join(' / ')} from ` +
+          `Info.plist. If a feature needs it, move the feature behind a parental gate and explain in the App ` +
+          `Review notes why it is needed and that no data leaves the device.`,
+        shortFixText: `Remove ${resource.toLowerCase()} access from the Kids Category app`,
+        documentationURL: 'https://developer.apple.com/app-store/kids-apps/',
+      }));
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,73 @@
+/**
+ * Rule: Third-Party Analytics or Advertising in a Kids Category App
+ *
+ * Detects analytics, attribution and advertising SDKs in apps for the Kids
+ * Category. Kids apps may not include third-party analytics or advertising,
+ * and may not send personal or device information to third parties.
+ *
+ * App Store Review Guideline: 1.3 (and 5.1.4)
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { trackingSDKPatterns } from '../../parsers/framework-detector.js';
+import { makeCustomFinding } from '../base.js';
+import { SDK_REQUIRING_PRIVACY_MANIFEST } from '../metadata/missing-privacy-manifest.js';
+import { kidsCategoryReason, kidsCategoryConfidence } from './kids-category.js';
+
+export const KidsThirdPartyAnalyticsRule: Rule = {
+  id: 'kids-001-third-party-analytics',
+  name: 'Third-Party Analytics or Advertising in a Kids Category App',
+  description: 'Checks Kids Category apps for third-party analytics and advertising SDKs',
+  category: RuleCategory.Kids,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '1.3',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    const reason = kidsCategoryReason(context);
+    if (!reason || context.isFrameworkTarget()) {
+      return [];
+    }
+
+    // Tracking SDKs are always analytics or ads; the wider privacy manifest list
+    // (Firebase, Crashlytics) also covers products a kids app may use
+    const detected = new Map<string, Confidence>();
+    for (const dep of context.dependencies) {
+      const name = dep.name.toLowerCase();
+      const tracking = trackingSDKPatterns.find(({ pattern }) => name.includes(pattern.toLowerCase()));
+      if (tracking) {
+        detected.set(tracking.name, Confidence.High);
+        continue;
+      }
+      const manifestSDK = SDK_REQUIRING_PRIVACY_MANIFEST.find(({ pattern }) => name.includes(pattern.toLowerCase()));
+      if (manifestSDK && !detected.has(manifestSDK.name)) {
+        detected.set(manifestSDK.name, Confidence.Medium);
+      }
+    }
+
+    return [...detected].map(([sdk, confidence]) => makeCustomFinding(
+      this,
+      Severity.Critical,
+      kidsCategoryConfidence(context, confidence),
+      {
+        title: `Third-Party SDK in Kids Category App: ${sdk}`,
+        description: `This app is treated as a Kids Category app because ${reason}, and it includes ${sdk}. ` +
+          `Guideline 1.3 doesn't allow third-party analytics or third-party advertising in kids apps, and ` +
+          `Guideline 5.1.4 forbids sending personal or device information to third parties.` +
+          (confidence === Confidence.Medium
+            ? ` Check which ${sdk} products the app links; only analytics, crash reporting and ads are affected.`
+            : ''),
+        location: context.pbxprojPath || 'project.pbxproj',
+        discriminator: sdk,
+        fixGuidance: `Remove ${sdk} from the app, or configure it so that it collects no identifiers and no ` +
+          `personal data, and describe that configuration in the App Review notes. Guideline 1.3 allows ` +
+          `third-party analytics only in limited cases where no IDFA or other identifiable information about ` +
+          `children is transmitted.
+
+If the app isn't in the Kids Category, remove the setting that marks it as one.`,
+        shortFixText: `Remove ${sdk} from the Kids Category app`,
+        documentationURL: 'https://developer.apple.com/app-store/kids-apps/',
+      }
+    ));
+  },
+};
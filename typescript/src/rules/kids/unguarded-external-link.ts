@@ -0,0 +1,87 @@
+/**
+ * Rule: External Link Without Parental Gate
+ *
+ * Detects Kids Category apps that open web pages, other apps or the App
+ * Store without any parental gate in the code. Kids apps must put links out
+ * of the app, purchases and other distractions behind a gate that a child
+ * can't pass.
+ *
+ * App Store Review Guideline: 1.3
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeCustomFinding } from '../base.js';
+import { detectSourceAPIs, findSourceMatches } from '../source-evidence.js';
+import type { SourceAPIPattern, SourceMatch } from '../source-evidence.js';
+import { kidsCategoryReason, kidsCategoryConfidence } from './kids-category.js';
+
+const EXTERNAL_LINK_APIS: SourceAPIPattern[] = [
+  { label: 'UIApplication.open', pattern: /\bUIApplication\.shared\.open\s*\(|\[\s*\[\s*UIApplication\s+sharedApplication\s*\]\s+openURL:/ },
+  { label: 'openURL', pattern: /\bopenURL\s*\(\s*URL\b|@Environment\(\s*\\\.openURL\s*\)/ },
+  { label: 'SFSafariViewController', pattern: /\bSFSafariViewController\s*\(/ },
+  { label: 'Link', pattern: /\bLink\s*\(\s*(?:"[^"]*"\s*,\s*)?destination:/ },
+  { label: 'SKStoreProductViewController', pattern: /\bSKStoreProductViewController\b/ },
+];
+
+const PARENTAL_GATE_APIS: SourceAPIPattern[] = [
+  { label: 'parental gate', pattern: /parental[\s_-]*gate|parent[\s_-]*gate|grown[\s-]*ups?[\s_-]*only|ask[\s_-]*(?:a|your)[\s_-]*(?:parent|grown[\s-]*up)/i },
+];
+
+export const KidsUnguardedExternalLinkRule: Rule = {
+  id: 'kids-003-unguarded-external-link',
+  name: 'External Link Without Parental Gate',
+  description: 'Checks that Kids Category apps put external links behind a parental gate',
+  category: RuleCategory.Kids,
+  severity: Severity.High,
+  confidence: Confidence.Medium,
+  guidelineReference: '1.3',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    const reason = kidsCategoryReason(context);
+    if (!reason || context.isFrameworkTarget()) {
+      return [];
+    }
+
+    if (detectSourceAPIs(context, PARENTAL_GATE_APIS).length > 0) {
+      return [];
+    }
+
+    // One finding per file, at its first link, so each screen can be suppressed
+    const byFile = new Map<string, SourceMatch & { label: string }>();
+    for (const { label, pattern } of EXTERNAL_LINK_APIS) {
+      for (const match of findSourceMatches(context, pattern)) {
+        const existing = byFile.get(match.file);
+        if (!existing || match.line < existing.line) {
+          byFile.set(match.file, { ...match, label });
+        }
+      }
+    }
+
+    return [...byFile.values()].map(link => makeCustomFinding(
+      this,
+      Severity.High,
+      kidsCategoryConfidence(context, Confidence.Medium),
+      {
+        title: `External Link Without Parental Gate: ${link.label}`,
+        description: `This app is treated as a Kids Category app because ${reason}, and it leaves the app ` +
+          `with ${link.label}, but no parental gate appears anywhere in the code. Guideline 1.3 requires kids ` +
+          `apps to put links out of the app and purchase opportunities behind a parental gate.`,
+        location: link.file,
+        line: link.line,
+        discriminator: link.label,
+        fixGuidance: `Show a parental gate before opening the link: a challenge an adult can solve but a ` +
+          `young child can't, such as a multiplication question with the answer typed in.
+
+func openForParents(_ url: URL) {
+    ParentalGate.present(from: self) { passed in
+        if passed { UIApplication.shared.open(url) }
+    }
+}
+
+Name your gate type or function with "parental gate" so ShipLint can find it.`,
+        shortFixText: 'Put the external link behind a parental gate',
+        documentationURL: 'https://developer.apple.com/app-store/kids-apps/',
+      }
+    ));
+  },
+};
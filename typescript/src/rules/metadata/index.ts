@@ -3,3 +3,4 @@
  */
 export { MissingPrivacyManifestRule } from './missing-privacy-manifest.js';
 export { MissingSupportedOrientationsRule } from './missing-supported-orientations.js';
+export { UnsignedSDKXCFrameworkRule } from './unsigned-sdk-xcframework.js';
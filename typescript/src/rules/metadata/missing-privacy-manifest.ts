@@ -11,13 +11,12 @@ import type { Rule, Finding, ScanContext } from '../../types/index.js';
 import { Severity, Confidence, RuleCategory } from '../../types/index.js';
 // Note: using Privacy category as privacy manifest relates to data privacy compliance
 import { makeFinding, makeCustomFinding } from '../base.js';
-import * as fs from 'fs';
-import * as path from 'path';
+import { findContextPrivacyManifest } from '../privacy/required-reason-api.js';
 
 /**
  * SDK dependencies commonly known to require privacy manifests
  */
-const SDK_REQUIRING_PRIVACY_MANIFEST = [
+export const SDK_REQUIRING_PRIVACY_MANIFEST = [
   { pattern: 'Firebase', name: 'Firebase', note: 'Firebase SDKs require privacy manifests as of May 2024' },
   { pattern: 'Facebook', name: 'Facebook SDK', note: 'Facebook SDK requires privacy manifests' },
   { pattern: 'FBSDK', name: 'Facebook SDK', note: 'Facebook SDK requires privacy manifests' },
@@ -31,40 +30,14 @@ const SDK_REQUIRING_PRIVACY_MANIFEST = [
 ];
 
 /**
- * Check if a privacy manifest exists in the project
+ * Whether a built bundle embeds the dependency's own manifest
+ * (Frameworks/<Name>.framework or a <Name>_Privacy.bundle resource bundle)
  */
-function findPrivacyManifest(projectPath: string): string | null {
-  const searchPaths = [
-    path.join(projectPath, 'PrivacyInfo.xcprivacy'),
-    path.join(projectPath, 'Resources', 'PrivacyInfo.xcprivacy'),
-  ];
-  
-  // Also search in subdirectories (common app structure)
-  try {
-    const entries = fs.readdirSync(projectPath);
-    for (const entry of entries) {
-      const fullPath = path.join(projectPath, entry);
-      try {
-        const stat = fs.statSync(fullPath);
-        if (stat.isDirectory()) {
-          searchPaths.push(path.join(fullPath, 'PrivacyInfo.xcprivacy'));
-          searchPaths.push(path.join(fullPath, 'Resources', 'PrivacyInfo.xcprivacy'));
-        }
-      } catch {
-        // Ignore stat errors
-      }
-    }
-  } catch {
-    // Ignore readdir errors
-  }
-  
-  for (const searchPath of searchPaths) {
-    if (fs.existsSync(searchPath)) {
-      return searchPath;
-    }
-  }
-  
-  return null;
+function shipsOwnPrivacyManifest(context: ScanContext, dependencyName: string): boolean {
+  return (context.privacyManifests ?? []).some(m =>
+    !m.isAppManifest &&
+    (m.bundleName.startsWith(`${dependencyName}.`) || m.bundleName.startsWith(`${dependencyName}_`))
+  );
 }
 
 export const MissingPrivacyManifestRule: Rule = {
@@ -77,8 +50,8 @@ export const MissingPrivacyManifestRule: Rule = {
   guidelineReference: '5.1.1',
 
   async evaluate(context: ScanContext): Promise<Finding[]> {
-    // Check if privacy manifest exists
-    const privacyManifestPath = findPrivacyManifest(context.projectPath);
+    // Check if privacy manifest exists (built bundles list the manifests they ship)
+    const privacyManifestPath = findContextPrivacyManifest(context);
     
     if (privacyManifestPath) {
       // Privacy manifest exists, no issue
@@ -91,7 +64,8 @@ export const MissingPrivacyManifestRule: Rule = {
     const detectedSDKs: string[] = [];
     for (const sdk of SDK_REQUIRING_PRIVACY_MANIFEST) {
       const hasSDK = context.dependencies.some(dep => 
-        dep.name.toLowerCase().includes(sdk.pattern.toLowerCase())
+        dep.name.toLowerCase().includes(sdk.pattern.toLowerCase()) &&
+        !shipsOwnPrivacyManifest(context, dep.name)
       );
       if (hasSDK && !detectedSDKs.includes(sdk.name)) {
         detectedSDKs.push(sdk.name);
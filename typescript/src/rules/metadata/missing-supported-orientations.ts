@@ -9,7 +9,7 @@
  */
 import type { Rule, Finding, ScanContext } from '../../types/index.js';
 import { Severity, Confidence, RuleCategory } from '../../types/index.js';
-import { makeFinding } from '../base.js';
+import { makeFinding, infoPlistFix } from '../base.js';
 
 export const MissingSupportedOrientationsRule: Rule = {
   id: 'metadata-002-missing-supported-orientations',
@@ -26,6 +26,11 @@ export const MissingSupportedOrientationsRule: Rule = {
       return [];
     }
 
+    // watchOS apps have a fixed orientation
+    if (context.isWatchTarget()) {
+      return [];
+    }
+
     // macOS apps don't use UISupportedInterfaceOrientations
     if (context.isMacOSOnly()) {
       return [];
@@ -73,6 +78,10 @@ Common orientation values:
 
 For iPad, also consider adding UISupportedInterfaceOrientations~ipad with ` +
             `all four orientations (iPad apps are expected to support all orientations).`,
+          fixes: infoPlistFix(context, 'UISupportedInterfaceOrientations', ['UIInterfaceOrientationPortrait'], {
+            key: 'INFOPLIST_KEY_UISupportedInterfaceOrientations',
+            value: 'UIInterfaceOrientationPortrait',
+          }),
           documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/uisupportedinterfaceorientations',
         }),
       ];
@@ -95,6 +104,7 @@ For iPad, also consider adding UISupportedInterfaceOrientations~ipad with ` +
 
 Most apps should support at minimum UIInterfaceOrientationPortrait.`,
           shortFixText: 'Add at least one orientation to UISupportedInterfaceOrientations in Info.plist',
+          fixes: infoPlistFix(context, 'UISupportedInterfaceOrientations', ['UIInterfaceOrientationPortrait']),
           documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/uisupportedinterfaceorientations',
         }),
       ];
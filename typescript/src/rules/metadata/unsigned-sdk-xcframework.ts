@@ -0,0 +1,121 @@
+/**
+ * Rule: Unsigned Commonly Used SDK
+ *
+ * Apple requires SDKs on its list of commonly used third-party SDKs to be
+ * signed when they are added as binary dependencies; App Store Connect rejects
+ * uploads embedding an unsigned one (ITMS-91065). The rule checks the
+ * XCFrameworks vendored by pods, Swift package binary targets and the Xcode
+ * project for a signature. Built bundles are re-signed with the app, so only
+ * projects are checked.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext, Dependency } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeFinding } from '../base.js';
+import { findCommonlyUsedSDK } from '../../parsers/framework-detector.js';
+import { contextSearchRoots } from '../../parsers/dependency-checkouts.js';
+import { findVendoredXCFrameworks, isXCFrameworkSigned } from '../../parsers/xcframework-locator.js';
+import type { VendoredXCFramework } from '../../parsers/xcframework-locator.js';
+
+/**
+ * First releases known to ship signed XCFrameworks with a privacy manifest,
+ * by prefix of the SDK name on Apple's list
+ */
+export const SIGNED_SDK_RELEASES: Array<{ prefix: string; version: string }> = [
+  { prefix: 'Firebase', version: '10.22.0' },
+  { prefix: 'FBSDK', version: '17.0.0' },
+  { prefix: 'FBAEMKit', version: '17.0.0' },
+  { prefix: 'FBLPromises', version: '2.4.0' },
+  { prefix: 'Promises', version: '2.4.0' },
+  { prefix: 'GoogleDataTransport', version: '9.4.0' },
+  { prefix: 'GoogleSignIn', version: '7.1.0' },
+  { prefix: 'GoogleUtilities', version: '7.13.0' },
+  { prefix: 'GTMAppAuth', version: '4.1.0' },
+  { prefix: 'GTMSessionFetcher', version: '3.3.0' },
+  { prefix: 'AppAuth', version: '1.7.0' },
+  { prefix: 'nanopb', version: '2.30910.0' },
+  { prefix: 'leveldb', version: '1.22.5' },
+  { prefix: 'grpcpp', version: '1.62.0' },
+  { prefix: 'BoringSSL-GRPC', version: '0.0.32' },
+  { prefix: 'OneSignal', version: '5.1.0' },
+];
+
+/**
+ * First release of an SDK on Apple's list known to ship signed with a privacy manifest
+ */
+export function findSignedSDKRelease(sdk: string): string | undefined {
+  return SIGNED_SDK_RELEASES.find(release => sdk.startsWith(release.prefix))?.version;
+}
+
+/**
+ * Compare dotted version strings numerically (1.10.0 > 1.9.2)
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+  const partsB = b.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export const UnsignedSDKXCFrameworkRule: Rule = {
+  id: 'metadata-003-unsigned-sdk-xcframework',
+  name: 'Unsigned Commonly Used SDK',
+  description: 'Checks that binary SDKs on Apple\'s list of commonly used third-party SDKs are signed',
+  category: RuleCategory.Metadata,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Vendored binaries belong to the main target, like dependencies
+    if (context.privacyManifests || context.sourceRoot !== context.projectPath) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+    for (const xcframework of findVendoredXCFrameworks(contextSearchRoots(context), context.pbxprojPath)) {
+      const sdk = findCommonlyUsedSDK(xcframework.name) ?? (xcframework.owner && findCommonlyUsedSDK(xcframework.owner));
+      if (!sdk || isXCFrameworkSigned(xcframework.path)) continue;
+
+      const dependency = findDependency(context.dependencies, xcframework);
+      const release = findSignedSDKRelease(sdk);
+      const installed = dependency?.version ? ` ${dependency.version}` : '';
+      const outdated = release && dependency?.version && compareVersions(dependency.version, release) < 0;
+
+      let fixGuidance = release
+        ? `Update ${xcframework.owner ?? sdk} to ${release} or later, the first release known to ship signed ` +
+          `XCFrameworks with a privacy manifest, then run \`pod install\` or resolve Swift packages again.`
+        : `Update ${xcframework.owner ?? sdk} to a release that ships a signed XCFramework with a privacy manifest.`;
+      if (!outdated) {
+        fixGuidance += ` If you build or download the XCFramework yourself, use the vendor's signed distribution ` +
+          `rather than re-packaging it: the signature must come from the SDK's developer.`;
+      }
+
+      findings.push(makeFinding(this, {
+        title: `Unsigned SDK: ${xcframework.name}.xcframework`,
+        description: `${xcframework.name}.xcframework${xcframework.owner ? ` (from ${xcframework.owner}${installed})` : ''} ` +
+          `is on Apple's list of commonly used third-party SDKs but has no code signature. App Store Connect ` +
+          `rejects apps that add a listed SDK as an unsigned binary dependency (ITMS-91065).` +
+          (outdated ? ` Version${installed} predates ${release}, the first release known to be signed.` : ''),
+        location: xcframework.path,
+        fixGuidance,
+        shortFixText: release
+          ? `Update ${xcframework.owner ?? sdk} to ${release}+ (signed, with privacy manifest)`
+          : `Use a signed release of ${xcframework.name}.xcframework`,
+        documentationURL: 'https://developer.apple.com/support/third-party-SDK-requirements/',
+      }));
+    }
+    return findings;
+  },
+};
+
+function findDependency(dependencies: Dependency[], xcframework: VendoredXCFramework): Dependency | undefined {
+  const names = [xcframework.owner, xcframework.name]
+    .filter((name): name is string => name !== undefined)
+    .map(name => name.toLowerCase());
+  return dependencies.find(dependency => names.includes(dependency.name.toLowerCase()));
+}
@@ -0,0 +1,70 @@
+/**
+ * Rule: Digital Goods Sold Through a Third-Party Payment SDK
+ *
+ * Detects apps that bundle a payment SDK (Stripe, PayPal, Braintree, etc.),
+ * sell what looks like digital goods, and don't use StoreKit. Subscriptions,
+ * premium features and virtual currency must be sold with in-app purchase;
+ * payment SDKs are only allowed for physical goods and services used
+ * outside the app.
+ *
+ * App Store Review Guideline: 3.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { detectPaymentSDKs } from '../../parsers/framework-detector.js';
+import { makeFinding } from '../base.js';
+import { detectSourceAPIs, findSourceMatches } from '../source-evidence.js';
+import { DIGITAL_GOODS_TERMS, detectStoreKitUsage } from './storekit-usage.js';
+
+export const ExternalPaymentSDKRule: Rule = {
+  id: 'payments-001-external-payment-sdk',
+  name: 'Digital Goods Sold Through a Third-Party Payment SDK',
+  description: 'Checks for payment SDKs selling digital goods without in-app purchase',
+  category: RuleCategory.Payments,
+  severity: Severity.High,
+  confidence: Confidence.Medium,
+  guidelineReference: '3.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const paymentSDKs = detectPaymentSDKs(context.dependencies);
+    if (paymentSDKs.length === 0) {
+      return [];
+    }
+
+    // Physical goods and real-world services may use any payment processor
+    const digitalGoods = detectSourceAPIs(context, DIGITAL_GOODS_TERMS);
+    if (digitalGoods.length === 0 || detectStoreKitUsage(context).length > 0) {
+      return [];
+    }
+
+    const firstMatch = DIGITAL_GOODS_TERMS
+      .map(({ pattern }) => findSourceMatches(context, pattern)[0])
+      .find(match => match !== undefined);
+
+    return [makeFinding(this, {
+      description: `Your app includes ${paymentSDKs.join(', ')} and its code refers to digital goods ` +
+        `(${digitalGoods.join(', ')}), but it doesn't use StoreKit. Guideline 3.1.1 requires subscriptions, ` +
+        `premium features, unlocks and in-app currency to be sold with in-app purchase. Reviewers reject apps ` +
+        `that charge for them through another payment processor.`,
+      location: firstMatch?.file || context.pbxprojPath || 'project.pbxproj',
+      line: firstMatch?.line,
+      discriminator: [...paymentSDKs].sort().join(','),
+      fixGuidance: `Sell digital goods with in-app purchase:
+
+import StoreKit
+
+let products = try await Product.products(for: ["com.example.app.premium.monthly"])
+let result = try await products[0].purchase()
+
+Keep ${paymentSDKs.join(', ')} only for physical goods or services consumed outside the app ` +
+        `(Guideline 3.1.3(e) and 3.1.5), such as deliveries, bookings or rides. If the payment SDK is used ` +
+        `only for those, explain this in the App Review notes.`,
+      shortFixText: 'Sell subscriptions, unlocks and in-app currency with StoreKit in-app purchase',
+      documentationURL: 'https://developer.apple.com/app-store/review/guidelines/#in-app-purchase',
+    })];
+  },
+};
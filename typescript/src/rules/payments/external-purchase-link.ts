@@ -0,0 +1,151 @@
+/**
+ * Rule: External Purchase Link Without Entitlement
+ *
+ * Detects apps that send users to a web checkout, or call the StoreKit
+ * external purchase APIs, without the StoreKit External Purchase or External
+ * Purchase Link entitlement, and entitlements missing the Info.plist keys
+ * that configure them.
+ *
+ * App Store Review Guideline: 3.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { EntitlementKeys } from '../../parsers/entitlements-parser.js';
+import { makeFinding, makeCustomFinding } from '../base.js';
+import { detectSourceAPIs, findSourceMatches } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const ACCOUNT_LINK_ENTITLEMENT = 'com.apple.developer.storekit.external-link.account';
+
+const EXTERNAL_PURCHASE_APIS: SourceAPIPattern[] = [
+  { label: 'ExternalPurchase', pattern: /\bExternalPurchase\.(?:canPresent|presentNoticeSheet)\b/ },
+  { label: 'ExternalPurchaseLink', pattern: /\bExternalPurchaseLink\.(?:canOpen|open)\b/ },
+  { label: 'ExternalPurchaseCustomLink', pattern: /\bExternalPurchaseCustomLink\b/ },
+];
+
+const URL_OPENERS: SourceAPIPattern[] = [
+  { label: 'UIApplication.open', pattern: /\.open\s*\(\s*\w*[Uu][Rr][Ll]\b|\bopenURL\b/ },
+  { label: 'SFSafariViewController', pattern: /\bSFSafariViewController\s*\(/ },
+  { label: 'Link', pattern: /\bLink\s*\(\s*(?:"[^"]*"\s*,\s*)?destination:/ },
+  { label: 'openURL', pattern: /@Environment\(\s*\\\.openURL\s*\)/ },
+];
+
+// Web URLs whose path suggests a purchase page
+const CHECKOUT_URL = /"https?:\/\/[^"\s]*\b(?:checkout|billing|pricing|subscribe|upgrade|purchase|payment|buy)[^"\s]*"/i;
+
+// API endpoints and Apple's own pages are not purchase links
+const NON_CHECKOUT_URL = /:\/\/(?:api\.|[^/"]*apple\.com)|\/api\/|\/v\d+\//i;
+
+// Info.plist keys each entitlement needs, with the keys that satisfy them
+const REQUIRED_PLIST_KEYS: Array<{ entitlement: string; name: string; keys: string[] }> = [
+  { entitlement: EntitlementKeys.externalPurchase, name: 'StoreKit External Purchase', keys: ['SKExternalPurchase'] },
+  {
+    entitlement: EntitlementKeys.externalPurchaseLink,
+    name: 'StoreKit External Purchase Link',
+    keys: ['SKExternalPurchaseLink', 'SKExternalPurchaseMultiLink'],
+  },
+];
+
+const DOCUMENTATION_URL = 'https://developer.apple.com/documentation/storekit/external-purchase';
+
+export const ExternalPurchaseLinkRule: Rule = {
+  id: 'payments-002-external-purchase-link',
+  name: 'External Purchase Link Without Entitlement',
+  description: 'Checks for links to external checkout without the StoreKit external purchase entitlements',
+  category: RuleCategory.Payments,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '3.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+    const entitled = context.hasEntitlement(EntitlementKeys.externalPurchase) ||
+      context.hasEntitlement(EntitlementKeys.externalPurchaseLink) ||
+      context.hasEntitlement(ACCOUNT_LINK_ENTITLEMENT);
+
+    // Case 1: entitlement without the Info.plist configuration it needs
+    for (const { entitlement, name, keys } of REQUIRED_PLIST_KEYS) {
+      if (!context.hasEntitlement(entitlement) || keys.some(key => context.hasPlistKey(key))) continue;
+
+      findings.push(makeFinding(this, {
+        title: `${name} Entitlement Without ${keys[0]}`,
+        description: `The app has the ${entitlement} entitlement, but Info.plist has no ${keys.join(' or ')}. ` +
+          `StoreKit reads the storefronts and URLs the app may link to from this key, so the external purchase ` +
+          `APIs are unavailable without it.`,
+        location: context.infoPlistPath || 'Info.plist',
+        discriminator: entitlement,
+        fixGuidance: `Add ${keys[0]} to your Info.plist with the storefronts your entitlement covers, for example:
+
+<key>${keys[0]}</key>
+${keys[0] === 'SKExternalPurchase'
+  ? `<array>
+    <string>kr</string>
+</array>`
+  : `<dict>
+    <key>nl</key>
+    <string>https://example.com/store</string>
+</dict>`}`,
+        shortFixText: `Add ${keys[0]} to Info.plist`,
+        documentationURL: DOCUMENTATION_URL,
+      }));
+    }
+
+    if (entitled) {
+      return findings;
+    }
+
+    // Case 2: external purchase APIs without an entitlement
+    const externalPurchaseAPIs = detectSourceAPIs(context, EXTERNAL_PURCHASE_APIS);
+    if (externalPurchaseAPIs.length > 0) {
+      findings.push(makeFinding(this, {
+        title: 'External Purchase API Without Entitlement',
+        description: `Your app calls ${externalPurchaseAPIs.join(', ')}, but has neither the ` +
+          `${EntitlementKeys.externalPurchase} nor the ${EntitlementKeys.externalPurchaseLink} entitlement. ` +
+          `These APIs only work for apps Apple has granted the entitlement to, in the storefronts it covers.`,
+        location: context.entitlementsPath || 'Entitlements',
+        discriminator: 'api',
+        fixGuidance: `Request the StoreKit External Purchase (Link) entitlement from Apple for the storefronts ` +
+          `where you link out, then add it to your entitlements file:
+
+<key>${EntitlementKeys.externalPurchaseLink}</key>
+<true/>
+
+Until Apple grants it, sell digital goods with in-app purchase.`,
+        shortFixText: 'Request the StoreKit External Purchase entitlement or use in-app purchase',
+        documentationURL: DOCUMENTATION_URL,
+      }));
+    }
+
+    // Case 3: buttons or links to a web checkout
+    const openers = detectSourceAPIs(context, URL_OPENERS);
+    const checkoutLinks = findSourceMatches(context, CHECKOUT_URL)
+      .filter(match => !NON_CHECKOUT_URL.test(match.text));
+    if (openers.length > 0 && checkoutLinks.length > 0) {
+      const link = checkoutLinks[0];
+      findings.push(makeCustomFinding(this, Severity.High, Confidence.Medium, {
+        title: 'Link to External Checkout',
+        description: `Your app opens web pages (${openers.join(', ')}) and links to ${link.text}, which looks like ` +
+          `a purchase page. Guideline 3.1.1 doesn't allow buttons, links or other calls to action that lead ` +
+          `to purchasing outside in-app purchase unless the app has a StoreKit External Purchase entitlement.`,
+        location: link.file,
+        line: link.line,
+        discriminator: link.text,
+        fixGuidance: `Sell digital goods with in-app purchase, or remove the link from the app. If you qualify ` +
+          `for an external purchase program (for example in the Netherlands, South Korea or the EU, or as a ` +
+          `reader app), request the entitlement and present the link with ExternalPurchase or ` +
+          `ExternalPurchaseLink so the required disclosure sheet is shown.
+
+Links to physical goods or services used outside the app are allowed; explain them in the App Review notes. ` +
+          `Apps on the United States storefront may link to web purchases under the current guidelines.`,
+        shortFixText: 'Remove the external checkout link or use the StoreKit External Purchase APIs',
+        documentationURL: 'https://developer.apple.com/app-store/review/guidelines/#in-app-purchase',
+      }));
+    }
+
+    return findings;
+  },
+};
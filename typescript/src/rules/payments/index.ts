@@ -0,0 +1,7 @@
+/**
+ * Payments rules exports
+ */
+export { ExternalPaymentSDKRule } from './external-payment-sdk.js';
+export { ExternalPurchaseLinkRule } from './external-purchase-link.js';
+export { MissingRestorePurchasesRule } from './missing-restore-purchases.js';
+export { StoreProductViewMisuseRule } from './store-product-view-misuse.js';
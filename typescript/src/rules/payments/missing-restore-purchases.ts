@@ -0,0 +1,79 @@
+/**
+ * Rule: Missing Restore Purchases
+ *
+ * Detects apps that sell subscriptions or non-consumable products without
+ * a way to restore them. Reviewers expect a visible "Restore Purchases"
+ * control that calls AppStore.sync() (StoreKit 2),
+ * restoreCompletedTransactions() (StoreKit 1) or the SDK equivalent.
+ *
+ * App Store Review Guideline: 3.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeFinding } from '../base.js';
+import { detectSourceAPIs, findSourceMatches } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const RESTORABLE_PRODUCT_APIS: SourceAPIPattern[] = [
+  { label: 'Product.SubscriptionInfo', pattern: /\bProduct\.SubscriptionInfo\b|\.subscription\?\.\w+/ },
+  { label: '.autoRenewable', pattern: /\bProduct(?:\.ProductType)?\.autoRenewable\b|\btype\s*==\s*\.autoRenewable\b/ },
+  { label: '.nonConsumable', pattern: /\bProduct(?:\.ProductType)?\.nonConsumable\b|\btype\s*==\s*\.nonConsumable\b/ },
+  { label: 'subscriptionPeriod', pattern: /\.subscriptionPeriod\b/ },
+  { label: 'SubscriptionStoreView', pattern: /\bSubscriptionStoreView\b/ },
+];
+
+const RESTORE_APIS: SourceAPIPattern[] = [
+  { label: 'AppStore.sync', pattern: /\bAppStore\.sync\s*\(/ },
+  { label: 'restoreCompletedTransactions', pattern: /\brestoreCompletedTransactions\b/ },
+  // RevenueCat, SwiftyStoreKit, Adapty and Glassfy
+  { label: 'restorePurchases', pattern: /\brestorePurchases\b/ },
+  { label: 'Qonversion restore', pattern: /\bQonversion\b[\s\S]{0,40}?\.restore\b/ },
+];
+
+export const MissingRestorePurchasesRule: Rule = {
+  id: 'payments-003-missing-restore-purchases',
+  name: 'Missing Restore Purchases',
+  description: 'Checks that apps selling subscriptions or non-consumables let users restore them',
+  category: RuleCategory.Payments,
+  severity: Severity.High,
+  confidence: Confidence.Medium,
+  guidelineReference: '3.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget() || context.isExtension()) {
+      return [];
+    }
+
+    const restorableProducts = detectSourceAPIs(context, RESTORABLE_PRODUCT_APIS);
+    if (restorableProducts.length === 0 || detectSourceAPIs(context, RESTORE_APIS).length > 0) {
+      return [];
+    }
+
+    const firstUse = RESTORABLE_PRODUCT_APIS
+      .map(({ pattern }) => findSourceMatches(context, pattern)[0])
+      .find(match => match !== undefined);
+
+    return [makeFinding(this, {
+      description: `Your app sells restorable products (${restorableProducts.join(', ')}) but no source file ` +
+        `restores purchases. Guideline 3.1.1 asks apps with subscriptions or non-consumable purchases to offer ` +
+        `a restore mechanism, and reviewers reject apps without a visible "Restore Purchases" option.`,
+      location: firstUse?.file || 'Source files',
+      line: firstUse?.line,
+      fixGuidance: `Add a "Restore Purchases" button to your paywall or settings screen:
+
+Button("Restore Purchases") {
+    Task { try? await AppStore.sync() }
+}
+
+With SubscriptionStoreView, show the built-in button instead:
+
+SubscriptionStoreView(groupID: groupID)
+    .storeButton(.visible, for: .restorePurchases)
+
+StoreKit 1 apps call SKPaymentQueue.default().restoreCompletedTransactions(); RevenueCat and similar SDKs ` +
+        `provide restorePurchases().`,
+      shortFixText: 'Add a Restore Purchases button that calls AppStore.sync()',
+      documentationURL: 'https://developer.apple.com/documentation/storekit/appstore/sync()',
+    })];
+  },
+};
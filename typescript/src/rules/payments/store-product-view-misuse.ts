@@ -0,0 +1,101 @@
+/**
+ * Rule: SKStoreProductViewController Misuse
+ *
+ * Detects SKStoreProductViewController usage that breaks at runtime:
+ * pushing it onto a navigation stack (it must be presented modally and
+ * raises an exception otherwise), and presenting it without a delegate that
+ * implements productViewControllerDidFinish, which leaves the Done button
+ * without effect on older iOS versions.
+ *
+ * App Store Review Guideline: 2.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeFinding, makeCustomFinding } from '../base.js';
+import { detectSourceAPIs, findSourceMatches } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+// `let storeVC = SKStoreProductViewController()` or `SKStoreProductViewController *storeVC = [...]`
+const STORE_VIEW_VARIABLE = /\b(?:let|var)\s+(\w+)\s*(?::\s*SKStoreProductViewController\s*)?=\s*SKStoreProductViewController\s*\(|\bSKStoreProductViewController\s*\*\s*(\w+)\s*=/g;
+
+const DID_FINISH_APIS: SourceAPIPattern[] = [
+  { label: 'productViewControllerDidFinish', pattern: /\bproductViewControllerDidFinish\b/ },
+];
+
+const DOCUMENTATION_URL = 'https://developer.apple.com/documentation/storekit/skstoreproductviewcontroller';
+
+export const StoreProductViewMisuseRule: Rule = {
+  id: 'payments-004-store-product-view-misuse',
+  name: 'SKStoreProductViewController Misuse',
+  description: 'Checks that SKStoreProductViewController is presented modally and dismissed by its delegate',
+  category: RuleCategory.Payments,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '2.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const usages = findSourceMatches(context, /\bSKStoreProductViewController\b/);
+    if (usages.length === 0) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+
+    // Case 1: pushed onto a navigation stack instead of presented
+    const variables = new Set<string>();
+    for (const match of findSourceMatches(context, STORE_VIEW_VARIABLE)) {
+      const declaration = new RegExp(STORE_VIEW_VARIABLE.source).exec(match.text);
+      const name = declaration?.[1] ?? declaration?.[2];
+      if (name) variables.add(name);
+    }
+    const pushTargets = ['SKStoreProductViewController\\s*\\(', ...[...variables].map(v => `${v}\\b`)];
+    const pushed = findSourceMatches(
+      context,
+      new RegExp(`\\bpushViewController\\s*(?:\\(\\s*|:\\s*)(?:${pushTargets.join('|')})`)
+    );
+    if (pushed.length > 0) {
+      findings.push(makeFinding(this, {
+        title: 'SKStoreProductViewController Pushed Onto Navigation Stack',
+        description: `SKStoreProductViewController is pushed with pushViewController. It only supports modal ` +
+          `presentation and raises an exception when pushed, so the App Store sheet crashes the app.`,
+        location: pushed[0].file,
+        line: pushed[0].line,
+        fixGuidance: `Present the store sheet modally:
+
+let storeViewController = SKStoreProductViewController()
+storeViewController.delegate = self
+present(storeViewController, animated: true)
+storeViewController.loadProduct(withParameters: [SKStoreProductParameterITunesItemIdentifier: appID])`,
+        shortFixText: 'Present SKStoreProductViewController modally instead of pushing it',
+        documentationURL: DOCUMENTATION_URL,
+      }));
+    }
+
+    // Case 2: no delegate dismisses the sheet
+    if (detectSourceAPIs(context, DID_FINISH_APIS).length === 0) {
+      findings.push(makeCustomFinding(this, Severity.Medium, Confidence.Medium, {
+        title: 'SKStoreProductViewController Without productViewControllerDidFinish',
+        description: `Your app presents SKStoreProductViewController but no source file implements ` +
+          `productViewControllerDidFinish(_:). Without it, tapping Done may not dismiss the sheet, which ` +
+          `reviewers report as a bug (Guideline 2.1).`,
+        location: usages[0].file,
+        line: usages[0].line,
+        fixGuidance: `Set a delegate and dismiss the sheet when the user is done:
+
+extension SettingsViewController: SKStoreProductViewControllerDelegate {
+    func productViewControllerDidFinish(_ viewController: SKStoreProductViewController) {
+        viewController.dismiss(animated: true)
+    }
+}`,
+        shortFixText: 'Implement productViewControllerDidFinish(_:) and dismiss the store sheet',
+        documentationURL: DOCUMENTATION_URL,
+      }));
+    }
+
+    return findings;
+  },
+};
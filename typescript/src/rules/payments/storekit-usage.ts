@@ -0,0 +1,40 @@
+/**
+ * StoreKit and digital goods evidence shared by the payments rules
+ */
+import type { ScanContext } from '../../types/index.js';
+import { detectStoreKitSDKs } from '../../parsers/framework-detector.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+/**
+ * StoreKit APIs that load or sell in-app purchase products
+ */
+export const STOREKIT_PURCHASE_APIS: SourceAPIPattern[] = [
+  { label: 'Product.products(for:)', pattern: /\bProduct\.products\s*\(\s*for:/ },
+  { label: 'SKProductsRequest', pattern: /\bSKProductsRequest\b/ },
+  { label: 'SKPaymentQueue', pattern: /\bSKPaymentQueue\b/ },
+  { label: 'StoreView', pattern: /\b(?:Store|SubscriptionStore|ProductView)View\s*\(/ },
+];
+
+/**
+ * Names of products that can only be sold with in-app purchase: subscriptions,
+ * premium tiers, unlocks and virtual currency
+ */
+export const DIGITAL_GOODS_TERMS: SourceAPIPattern[] = [
+  { label: 'premium tier', pattern: /\b(?:premium|pro|plus)[\s_-]*(?:plan|tier|subscription|membership|upgrade)s?\b/i },
+  { label: 'subscription plan', pattern: /\bsubscription[\s_-]*(?:plan|tier|price|period)s?\b|\b(?:monthly|yearly|annual)[\s_-]*(?:plan|subscription)s?\b/i },
+  { label: 'virtual currency', pattern: /\b(?:buy|purchase)[\s_-]*(?:coins|gems|credits|diamonds)\b/i },
+  { label: 'feature unlock', pattern: /\bunlock[\s_-]*(?:premium|pro|all|full[\s_-]*version|features?|levels?)\b/i },
+];
+
+/**
+ * Evidence that the target sells through StoreKit: a StoreKit based SDK or
+ * purchase APIs in its sources. Linking StoreKit alone is not evidence, since
+ * apps also link it for review prompts and product pages.
+ */
+export function detectStoreKitUsage(context: ScanContext): string[] {
+  return [
+    ...detectStoreKitSDKs(context.dependencies),
+    ...detectSourceAPIs(context, STOREKIT_PURCHASE_APIS),
+  ];
+}
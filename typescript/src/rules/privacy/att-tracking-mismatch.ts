@@ -11,7 +11,7 @@ import type { Rule, Finding, ScanContext } from '../../types/index.js';
 import { Severity, Confidence, RuleCategory } from '../../types/index.js';
 import { isPlaceholder } from '../../parsers/plist-parser.js';
 import { detectTrackingSDKs } from '../../parsers/framework-detector.js';
-import { makeFinding, makeCustomFinding } from '../base.js';
+import { makeFinding, makeCustomFinding, getRuleOption } from '../base.js';
 
 const TRACKING_USAGE_KEY = 'NSUserTrackingUsageDescription';
 const ATT_FRAMEWORK = 'AppTrackingTransparency';
@@ -24,10 +24,15 @@ export const ATTTrackingMismatchRule: Rule = {
   severity: Severity.Critical,
   confidence: Confidence.High,
   guidelineReference: '5.1.2',
+  options: {
+    /** Extra dependency or framework names to treat as tracking SDKs */
+    trackingSDKs: 'string[]',
+  },
 
   async evaluate(context: ScanContext): Promise<Finding[]> {
-    // Detect tracking SDKs from dependencies
-    const detectedSDKs = detectTrackingSDKs(context.dependencies);
+    // Detect tracking SDKs from dependencies (built-in patterns plus configured ones)
+    const extraPatterns = getRuleOption<string[]>(context, this, 'trackingSDKs') ?? [];
+    const detectedSDKs = detectTrackingSDKs(context.dependencies, extraPatterns);
     
     // Also detect from linked frameworks / Swift imports
     const trackingFrameworkMap: Record<string, string> = {
@@ -41,6 +46,10 @@ export const ATTTrackingMismatchRule: Rule = {
       'AppsFlyerLib': 'AppsFlyer',
     };
     
+    for (const pattern of extraPatterns) {
+      trackingFrameworkMap[pattern] ??= pattern;
+    }
+    
     for (const [framework, name] of Object.entries(trackingFrameworkMap)) {
       if (context.hasFramework(framework) && !detectedSDKs.includes(name)) {
         detectedSDKs.push(name);
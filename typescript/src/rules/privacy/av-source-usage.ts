@@ -63,7 +63,7 @@ export interface AVSourceUsageSignals {
   playbackEvidence: string[];
 }
 
-function findSourceFiles(dir: string): string[] {
+function findSourceFiles(dir: string, filter?: (filePath: string) => boolean): string[] {
   const files: string[] = [];
 
   function walk(currentDir: string): void {
@@ -88,7 +88,7 @@ function findSourceFiles(dir: string): string[] {
       }
 
       const ext = path.extname(entry.name).toLowerCase();
-      if (SOURCE_EXTENSIONS.has(ext)) {
+      if (SOURCE_EXTENSIONS.has(ext) && (!filter || filter(fullPath))) {
         files.push(fullPath);
       }
     }
@@ -147,8 +147,11 @@ export function stripComments(source: string): string {
   return source.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
 }
 
-export function detectAVSourceUsage(projectPath: string): AVSourceUsageSignals {
-  const sourceFiles = findSourceFiles(projectPath);
+export function detectAVSourceUsage(
+  projectPath: string,
+  filter?: (filePath: string) => boolean
+): AVSourceUsageSignals {
+  const sourceFiles = findSourceFiles(projectPath, filter);
 
   let hasAVFoundationImport = false;
   const cameraEvidence = new Set<string>();
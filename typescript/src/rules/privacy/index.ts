@@ -11,3 +11,21 @@ export { MissingContactsPurposeRule } from './missing-contacts-purpose.js';
 export { MissingBluetoothPurposeRule } from './missing-bluetooth-purpose.js';
 export { MissingFaceIdPurposeRule } from './missing-face-id-purpose.js';
 export { RequiredReasonAPIRule } from './required-reason-api.js';
+export { MalformedPrivacyManifestRule } from './privacy-manifest-malformed.js';
+export { InvalidRequiredReasonDeclarationRule } from './privacy-manifest-api-reasons.js';
+export { TrackingWithoutDomainsRule } from './privacy-manifest-tracking-domains.js';
+export { InvalidCollectedDataTypeRule } from './privacy-manifest-collected-data.js';
+export { SDKMissingPrivacyManifestRule } from './sdk-missing-privacy-manifest.js';
+export { MissingCalendarsPurposeRule } from './missing-calendars-purpose.js';
+export { MissingRemindersPurposeRule } from './missing-reminders-purpose.js';
+export { MissingHealthPurposeRule } from './missing-health-purpose.js';
+export { MissingMotionPurposeRule } from './missing-motion-purpose.js';
+export { MissingSpeechRecognitionPurposeRule } from './missing-speech-recognition-purpose.js';
+export { MissingHomeKitPurposeRule } from './missing-homekit-purpose.js';
+export { MissingSiriPurposeRule } from './missing-siri-purpose.js';
+export { MissingAppleMusicPurposeRule } from './missing-apple-music-purpose.js';
+export { MissingNFCPurposeRule } from './missing-nfc-purpose.js';
+export { MissingLocalNetworkPurposeRule } from './missing-local-network-purpose.js';
+export { MissingFocusStatusPurposeRule } from './missing-focus-status-purpose.js';
+export { MissingNearbyInteractionPurposeRule } from './missing-nearby-interaction-purpose.js';
+export { MissingPhotoLibraryAddPurposeRule } from './missing-photo-library-add-purpose.js';
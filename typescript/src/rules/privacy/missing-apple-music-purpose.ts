@@ -0,0 +1,57 @@
+/**
+ * Rule: Missing Apple Music Usage Description
+ *
+ * Detects when an app accesses the user's media library or Apple Music
+ * without the required NSAppleMusicUsageDescription in Info.plist.
+ * MediaPlayer is also used for Now Playing info and remote commands, which
+ * need no purpose string, so only media library APIs trigger the rule.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const MEDIA_LIBRARY_KEY = 'NSAppleMusicUsageDescription';
+
+const MEDIA_LIBRARY_APIS: SourceAPIPattern[] = [
+  { label: 'MPMediaLibrary', pattern: /\bMPMediaLibrary\b/ },
+  { label: 'MPMediaQuery', pattern: /\bMPMediaQuery\b/ },
+  { label: 'MPMediaPickerController', pattern: /\bMPMediaPickerController\b/ },
+  { label: 'MPMusicPlayerController.systemMusicPlayer', pattern: /\bsystemMusicPlayer\b/ },
+  { label: 'SKCloudServiceController', pattern: /\bSKCloudServiceController\b/ },
+  { label: 'MusicAuthorization', pattern: /\bMusicAuthorization\b/ },
+];
+
+export const MissingAppleMusicPurposeRule: Rule = {
+  id: 'privacy-023-missing-apple-music-purpose',
+  name: 'Missing Apple Music Usage Description',
+  description: 'Checks for media library and Apple Music usage without NSAppleMusicUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const evidence = detectSourceAPIs(context, MEDIA_LIBRARY_APIS);
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: MEDIA_LIBRARY_KEY,
+      resource: 'Apple Music',
+      purpose: 'access the user\'s media library',
+      evidence,
+      example: 'We pick songs from your library to play during your workout.',
+    });
+  },
+};
@@ -0,0 +1,111 @@
+/**
+ * Rule: Missing Calendars Usage Description
+ *
+ * Detects when an app uses EventKit calendar access without the required
+ * purpose string in Info.plist. Since iOS 17, full access needs
+ * NSCalendarsFullAccessUsageDescription and write-only access needs
+ * NSCalendarsWriteOnlyAccessUsageDescription; apps deploying to earlier
+ * versions also need the legacy NSCalendarsUsageDescription.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription, deploymentTargetMajor } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+import { REMINDER_APIS } from './missing-reminders-purpose.js';
+
+const CALENDAR_FRAMEWORKS = ['EventKit', 'EventKitUI'];
+const FULL_ACCESS_KEY = 'NSCalendarsFullAccessUsageDescription';
+const WRITE_ONLY_KEY = 'NSCalendarsWriteOnlyAccessUsageDescription';
+const LEGACY_KEY = 'NSCalendarsUsageDescription';
+
+const FULL_ACCESS_APIS: SourceAPIPattern[] = [
+  { label: 'requestFullAccessToEvents', pattern: /\brequestFullAccessToEvents\b/ },
+  { label: 'requestAccess(to: .event)', pattern: /\brequestAccess\(\s*to:\s*(?:EKEntityType)?\.event\b/ },
+  { label: 'requestAccessToEntityType:EKEntityTypeEvent', pattern: /\brequestAccessToEntityType:\s*EKEntityTypeEvent\b/ },
+  { label: 'predicateForEvents', pattern: /\bpredicateForEvents\w*/ },
+  { label: 'EKCalendarChooser', pattern: /\bEKCalendarChooser\b/ },
+];
+
+const WRITE_ONLY_APIS: SourceAPIPattern[] = [
+  { label: 'requestWriteOnlyAccessToEvents', pattern: /\brequestWriteOnlyAccessToEvents\b/ },
+];
+
+export const MissingCalendarsPurposeRule: Rule = {
+  id: 'privacy-016-missing-calendars-purpose',
+  name: 'Missing Calendars Usage Description',
+  description: 'Checks for EventKit calendar access without NSCalendarsFullAccessUsageDescription or NSCalendarsWriteOnlyAccessUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const detectedFrameworks = CALENDAR_FRAMEWORKS.filter(f => context.hasFramework(f));
+    const fullAccessAPIs = detectSourceAPIs(context, FULL_ACCESS_APIS);
+    const writeOnlyAPIs = detectSourceAPIs(context, WRITE_ONLY_APIS);
+
+    if (detectedFrameworks.length === 0 && fullAccessAPIs.length === 0 && writeOnlyAPIs.length === 0) {
+      return [];
+    }
+
+    const legacyNote = `Apps that deploy to iOS 16 or earlier also need ${LEGACY_KEY}, which those versions show instead.`;
+    const findings: Finding[] = [];
+
+    if (fullAccessAPIs.length > 0) {
+      findings.push(...checkUsageDescription(this, context, {
+        key: FULL_ACCESS_KEY,
+        resource: 'Calendars',
+        purpose: 'read the user\'s calendars',
+        evidence: [...detectedFrameworks, ...fullAccessAPIs],
+        example: 'We show your upcoming events next to your bookings so you can avoid conflicts.',
+        note: `Since iOS 17, full calendar access requires ${FULL_ACCESS_KEY}. ${legacyNote}`,
+      }));
+    } else if (writeOnlyAPIs.length > 0) {
+      findings.push(...checkUsageDescription(this, context, {
+        key: WRITE_ONLY_KEY,
+        alternatives: [FULL_ACCESS_KEY],
+        resource: 'Calendars',
+        purpose: 'add events to the user\'s calendars',
+        evidence: [...detectedFrameworks, ...writeOnlyAPIs],
+        example: 'We add your reservations to your calendar so you don\'t miss them.',
+        note: `Write-only access only lets your app add events. ${legacyNote}`,
+      }));
+    } else if (detectSourceAPIs(context, REMINDER_APIS).length === 0) {
+      // EventKit alone: EKEventEditViewController needs no access on iOS 17, so the
+      // key depends on what the app requests. Reminder APIs explain EventKit on
+      // their own (privacy-017 covers them).
+      findings.push(...checkUsageDescription(this, context, {
+        key: FULL_ACCESS_KEY,
+        alternatives: [WRITE_ONLY_KEY, LEGACY_KEY],
+        resource: 'Calendars',
+        purpose: 'access the user\'s calendars',
+        evidence: detectedFrameworks,
+        example: 'We add your reservations to your calendar so you don\'t miss them.',
+        note: `Use ${WRITE_ONLY_KEY} instead if your app only adds events. ${legacyNote}`,
+        severity: Severity.Medium,
+        confidence: Confidence.Medium,
+      }));
+    }
+
+    const deploymentTarget = deploymentTargetMajor(context);
+    if (deploymentTarget !== undefined && deploymentTarget < 17 && (fullAccessAPIs.length > 0 || writeOnlyAPIs.length > 0)) {
+      findings.push(...checkUsageDescription(this, context, {
+        key: LEGACY_KEY,
+        resource: 'Legacy Calendars',
+        purpose: 'access the user\'s calendars on iOS 16 and earlier',
+        evidence: [...fullAccessAPIs, ...writeOnlyAPIs, `deployment target iOS ${deploymentTarget}`],
+        example: 'We add your reservations to your calendar so you don\'t miss them.',
+      }));
+    }
+
+    return findings;
+  },
+};
@@ -36,7 +36,7 @@ export const MissingCameraPurposeRule: Rule = {
     const detectedFrameworks = CAMERA_FRAMEWORKS.filter((framework) => context.hasFramework(framework));
     const hasOnlyAVFoundation = detectedFrameworks.length === 1 && detectedFrameworks[0] === 'AVFoundation';
 
-    const sourceUsage = detectAVSourceUsage(context.projectPath);
+    const sourceUsage = detectAVSourceUsage(context.sourceRoot, context.sourceFilter);
     const hasCameraSpecificUsage = sourceUsage.hasCameraSpecificUsage;
     const hasMicrophoneSpecificUsage = sourceUsage.hasMicrophoneSpecificUsage;
 
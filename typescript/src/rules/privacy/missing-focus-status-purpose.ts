@@ -0,0 +1,54 @@
+/**
+ * Rule: Missing Focus Status Usage Description
+ *
+ * Detects when an app reads the user's Focus status without the required
+ * NSFocusStatusUsageDescription in Info.plist.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const FOCUS_STATUS_ENTITLEMENT = 'com.apple.developer.focus-status';
+const FOCUS_STATUS_KEY = 'NSFocusStatusUsageDescription';
+
+const FOCUS_STATUS_APIS: SourceAPIPattern[] = [
+  { label: 'INFocusStatusCenter', pattern: /\bINFocusStatusCenter\b/ },
+];
+
+export const MissingFocusStatusPurposeRule: Rule = {
+  id: 'privacy-026-missing-focus-status-purpose',
+  name: 'Missing Focus Status Usage Description',
+  description: 'Checks for Focus status usage without NSFocusStatusUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const evidence = [
+      ...(context.hasEntitlement(FOCUS_STATUS_ENTITLEMENT) ? [FOCUS_STATUS_ENTITLEMENT] : []),
+      ...detectSourceAPIs(context, FOCUS_STATUS_APIS),
+    ];
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: FOCUS_STATUS_KEY,
+      resource: 'Focus Status',
+      purpose: 'read the user\'s Focus status',
+      evidence,
+      example: 'We let your contacts know you have notifications silenced when they message you.',
+    });
+  },
+};
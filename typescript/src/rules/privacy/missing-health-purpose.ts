@@ -0,0 +1,88 @@
+/**
+ * Rule: Missing HealthKit Usage Descriptions
+ *
+ * Detects when an app uses HealthKit without the required purpose strings:
+ * NSHealthShareUsageDescription to read health data and
+ * NSHealthUpdateUsageDescription to write it.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const HEALTH_FRAMEWORKS = ['HealthKit'];
+const SHARE_KEY = 'NSHealthShareUsageDescription';
+const UPDATE_KEY = 'NSHealthUpdateUsageDescription';
+
+const READ_APIS: SourceAPIPattern[] = [
+  { label: 'requestAuthorization(read:)', pattern: /\brequestAuthorization\(\s*toShare:[\s\S]{0,300}?\bread:(?!\s*(?:nil\b|\[\s*\]|Set\(\s*\)))/ },
+  { label: 'readTypes:', pattern: /\breadTypes:(?!\s*nil\b)/ },
+  { label: 'HKSampleQuery', pattern: /\bHKSampleQuery\b/ },
+  { label: 'HKStatisticsQuery', pattern: /\bHKStatistics(?:Collection)?Query\b/ },
+  { label: 'HKAnchoredObjectQuery', pattern: /\bHKAnchoredObjectQuery\b/ },
+  { label: 'HKObserverQuery', pattern: /\bHKObserverQuery\b/ },
+];
+
+const WRITE_APIS: SourceAPIPattern[] = [
+  { label: 'requestAuthorization(toShare:)', pattern: /\btoShare:(?!\s*(?:nil\b|\[\s*\]|Set\(\s*\)))/ },
+  { label: 'requestAuthorizationToShareTypes:', pattern: /\brequestAuthorizationToShareTypes:(?!\s*nil\b)/ },
+  { label: 'HKHealthStore.save', pattern: /\b\w*[hH]ealthStore\w*\s*\.save\(|\bsaveObject:/ },
+  { label: 'HKWorkoutBuilder', pattern: /\bHK(?:Live)?WorkoutBuilder\b/ },
+];
+
+export const MissingHealthPurposeRule: Rule = {
+  id: 'privacy-018-missing-health-purpose',
+  name: 'Missing HealthKit Usage Descriptions',
+  description: 'Checks for HealthKit usage without NSHealthShareUsageDescription and NSHealthUpdateUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const detectedFrameworks = HEALTH_FRAMEWORKS.filter(f => context.hasFramework(f));
+    const readAPIs = detectSourceAPIs(context, READ_APIS);
+    const writeAPIs = detectSourceAPIs(context, WRITE_APIS);
+    const usesHealthStore = detectSourceAPIs(context, [{ label: 'HKHealthStore', pattern: /\bHKHealthStore\b/ }]);
+
+    if (detectedFrameworks.length === 0 && usesHealthStore.length === 0) {
+      return [];
+    }
+
+    const evidence = [...detectedFrameworks, ...usesHealthStore];
+    const findings: Finding[] = [];
+
+    // Without read or write evidence, assume the common case: the app reads health data
+    if (readAPIs.length > 0 || writeAPIs.length === 0) {
+      findings.push(...checkUsageDescription(this, context, {
+        key: SHARE_KEY,
+        resource: 'Health Share',
+        purpose: 'read the user\'s health data',
+        evidence: [...evidence, ...readAPIs],
+        example: 'We read your step count and workouts to show your weekly activity trends.',
+        note: 'HealthKit apps also need the HealthKit capability, and Guideline 5.1.3 limits what health data may be used for.',
+        confidence: readAPIs.length > 0 ? Confidence.High : Confidence.Medium,
+      }));
+    }
+
+    if (writeAPIs.length > 0) {
+      findings.push(...checkUsageDescription(this, context, {
+        key: UPDATE_KEY,
+        resource: 'Health Update',
+        purpose: 'write data to the Health app',
+        evidence: [...evidence, ...writeAPIs],
+        example: 'We save the workouts you record to the Health app.',
+      }));
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * Rule: Missing HomeKit Usage Description
+ *
+ * Detects when an app uses HomeKit without the required
+ * NSHomeKitUsageDescription in Info.plist.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const HOMEKIT_FRAMEWORKS = ['HomeKit'];
+const HOMEKIT_ENTITLEMENT = 'com.apple.developer.homekit';
+const HOMEKIT_KEY = 'NSHomeKitUsageDescription';
+
+const HOMEKIT_APIS: SourceAPIPattern[] = [
+  { label: 'HMHomeManager', pattern: /\bHMHomeManager\b/ },
+  { label: 'HMAccessoryBrowser', pattern: /\bHMAccessoryBrowser\b/ },
+];
+
+export const MissingHomeKitPurposeRule: Rule = {
+  id: 'privacy-021-missing-homekit-purpose',
+  name: 'Missing HomeKit Usage Description',
+  description: 'Checks for HomeKit usage without NSHomeKitUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const evidence = [
+      ...HOMEKIT_FRAMEWORKS.filter(f => context.hasFramework(f)),
+      ...(context.hasEntitlement(HOMEKIT_ENTITLEMENT) ? [HOMEKIT_ENTITLEMENT] : []),
+      ...detectSourceAPIs(context, HOMEKIT_APIS),
+    ];
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: HOMEKIT_KEY,
+      resource: 'HomeKit',
+      purpose: 'access the user\'s home data',
+      evidence,
+      example: 'We control your lights and thermostat from the app and your scenes.',
+    });
+  },
+};
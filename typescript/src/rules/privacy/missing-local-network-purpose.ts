@@ -0,0 +1,98 @@
+/**
+ * Rule: Missing Local Network Usage Description
+ *
+ * Detects when an app browses or advertises on the local network without
+ * the required NSLocalNetworkUsageDescription in Info.plist, and Bonjour
+ * browsing or advertising without the service types declared in NSBonjourServices
+ * (undeclared services fail with NoAuth (-65555) on iOS 14+).
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { makeCustomFinding } from '../base.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const LOCAL_NETWORK_FRAMEWORKS = ['MultipeerConnectivity'];
+const LOCAL_NETWORK_KEY = 'NSLocalNetworkUsageDescription';
+const BONJOUR_SERVICES_KEY = 'NSBonjourServices';
+
+const BONJOUR_APIS: SourceAPIPattern[] = [
+  { label: 'NWBrowser', pattern: /\bNWBrowser\b/ },
+  { label: 'NWListener.Service', pattern: /\bNWListener\.Service\b|\.service\s*=\s*NWListener\.Service\b/ },
+  { label: 'NetServiceBrowser', pattern: /\bNS?NetServiceBrowser\b/ },
+  { label: 'NetService', pattern: /\bNS?NetService\(/ },
+  { label: 'MCNearbyServiceBrowser', pattern: /\bMCNearbyServiceBrowser\b/ },
+  { label: 'MCNearbyServiceAdvertiser', pattern: /\bMCNearbyServiceAdvertiser\b/ },
+  { label: 'MCAdvertiserAssistant', pattern: /\bMCAdvertiserAssistant\b/ },
+  { label: 'MCBrowserViewController', pattern: /\bMCBrowserViewController\b/ },
+  { label: 'DNSServiceBrowse', pattern: /\bDNSService(?:Browse|Register)\b/ },
+];
+
+const LOCAL_NETWORK_APIS: SourceAPIPattern[] = [
+  { label: 'NWListener', pattern: /\bNWListener\b/ },
+  { label: 'NWMulticastGroup', pattern: /\bNWMulticastGroup\b|\bNWConnectionGroup\b/ },
+];
+
+export const MissingLocalNetworkPurposeRule: Rule = {
+  id: 'privacy-025-missing-local-network-purpose',
+  name: 'Missing Local Network Usage Description',
+  description: 'Checks for local network and Bonjour usage without NSLocalNetworkUsageDescription and NSBonjourServices',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const detectedFrameworks = LOCAL_NETWORK_FRAMEWORKS.filter(f => context.hasFramework(f));
+    const bonjourAPIs = detectSourceAPIs(context, BONJOUR_APIS);
+    const localNetworkAPIs = detectSourceAPIs(context, LOCAL_NETWORK_APIS);
+    const evidence = [...detectedFrameworks, ...bonjourAPIs, ...localNetworkAPIs];
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    const findings = checkUsageDescription(this, context, {
+      key: LOCAL_NETWORK_KEY,
+      resource: 'Local Network',
+      purpose: 'find and connect to devices on the local network',
+      evidence,
+      example: 'We look for printers and TVs on your Wi-Fi network so you can send photos to them.',
+    });
+
+    // Multipeer Connectivity browses and advertises over Bonjour too
+    const bonjourEvidence = [...detectedFrameworks, ...bonjourAPIs];
+    const bonjourServices = context.plistArray(BONJOUR_SERVICES_KEY);
+    if (bonjourEvidence.length > 0 && (!bonjourServices || bonjourServices.length === 0)) {
+      findings.push(makeCustomFinding(this, Severity.High, Confidence.Medium, {
+        title: 'Missing Bonjour Services Declaration',
+        description:
+          `Your app browses or advertises Bonjour services (${bonjourEvidence.join(', ')}) but Info.plist ` +
+          `${bonjourServices ? 'has an empty' : 'is missing'} ${BONJOUR_SERVICES_KEY}. Since iOS 14, browsing or ` +
+          `advertising a service type that is not declared fails with a NoAuth error and no local network prompt.`,
+        location: context.infoPlistPath || 'Info.plist',
+        fixGuidance:
+          `Add ${BONJOUR_SERVICES_KEY} to your Info.plist listing every service type your app browses for ` +
+          `or advertises. For example:\n\n` +
+          `<key>${BONJOUR_SERVICES_KEY}</key>\n` +
+          `<array>\n` +
+          `    <string>_myservice._tcp</string>\n` +
+          `</array>\n\n` +
+          `Multipeer Connectivity needs both the _tcp and _udp variants of its service type ` +
+          `(e.g. _my-app._tcp and _my-app._udp).`,
+        shortFixText: `Declare the Bonjour service types your app uses in ${BONJOUR_SERVICES_KEY}`,
+        documentationURL: 'https://developer.apple.com/documentation/bundleresources/information_property_list/nsbonjourservices',
+      }));
+    }
+
+    return findings;
+  },
+};
@@ -36,7 +36,7 @@ export const MissingMicrophonePurposeRule: Rule = {
     const hasAVFoundation = context.hasFramework('AVFoundation');
     const hasOnlyAVFoundation = hasAVFoundation && detectedFrameworks.length === 0;
 
-    const sourceUsage = detectAVSourceUsage(context.projectPath);
+    const sourceUsage = detectAVSourceUsage(context.sourceRoot, context.sourceFilter);
     const hasMicrophoneSpecificUsage = sourceUsage.hasMicrophoneSpecificUsage;
     const hasCameraSpecificUsage = sourceUsage.hasCameraSpecificUsage;
 
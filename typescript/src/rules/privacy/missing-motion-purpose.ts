@@ -0,0 +1,55 @@
+/**
+ * Rule: Missing Motion Usage Description
+ *
+ * Detects when an app reads motion activity, pedometer or headphone motion
+ * data without the required NSMotionUsageDescription in Info.plist.
+ * Accelerometer and gyroscope data (CMMotionManager) need no purpose string,
+ * so linking CoreMotion alone does not trigger the rule.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const MOTION_KEY = 'NSMotionUsageDescription';
+
+const MOTION_APIS: SourceAPIPattern[] = [
+  { label: 'CMMotionActivityManager', pattern: /\bCMMotionActivityManager\b/ },
+  { label: 'CMPedometer', pattern: /\bCMPedometer\b/ },
+  { label: 'CMHeadphoneMotionManager', pattern: /\bCMHeadphoneMotionManager\b/ },
+  { label: 'CMSensorRecorder', pattern: /\bCMSensorRecorder\b/ },
+];
+
+export const MissingMotionPurposeRule: Rule = {
+  id: 'privacy-019-missing-motion-purpose',
+  name: 'Missing Motion Usage Description',
+  description: 'Checks for motion and fitness API usage without NSMotionUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const evidence = detectSourceAPIs(context, MOTION_APIS);
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: MOTION_KEY,
+      resource: 'Motion',
+      purpose: 'access the user\'s motion and fitness activity',
+      evidence,
+      example: 'We count your steps to track progress toward your daily walking goal.',
+    });
+  },
+};
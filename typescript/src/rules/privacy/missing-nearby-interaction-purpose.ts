@@ -0,0 +1,54 @@
+/**
+ * Rule: Missing Nearby Interaction Usage Description
+ *
+ * Detects when an app uses Nearby Interaction (Ultra Wideband) without the
+ * required NSNearbyInteractionUsageDescription in Info.plist.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const NEARBY_INTERACTION_FRAMEWORKS = ['NearbyInteraction'];
+const NEARBY_INTERACTION_KEY = 'NSNearbyInteractionUsageDescription';
+
+const NEARBY_INTERACTION_APIS: SourceAPIPattern[] = [
+  { label: 'NISession', pattern: /\bNISession\b/ },
+];
+
+export const MissingNearbyInteractionPurposeRule: Rule = {
+  id: 'privacy-027-missing-nearby-interaction-purpose',
+  name: 'Missing Nearby Interaction Usage Description',
+  description: 'Checks for Nearby Interaction usage without NSNearbyInteractionUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const evidence = [
+      ...NEARBY_INTERACTION_FRAMEWORKS.filter(f => context.hasFramework(f)),
+      ...detectSourceAPIs(context, NEARBY_INTERACTION_APIS),
+    ];
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: NEARBY_INTERACTION_KEY,
+      resource: 'Nearby Interaction',
+      purpose: 'interact with nearby devices',
+      evidence,
+      example: 'We show the distance and direction to your friend\'s iPhone so you can find each other.',
+    });
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Rule: Missing NFC Usage Description
+ *
+ * Detects when an app reads NFC tags without the required
+ * NFCReaderUsageDescription in Info.plist.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const NFC_FRAMEWORKS = ['CoreNFC'];
+const NFC_ENTITLEMENT = 'com.apple.developer.nfc.readersession.formats';
+const NFC_KEY = 'NFCReaderUsageDescription';
+
+const NFC_APIS: SourceAPIPattern[] = [
+  { label: 'NFCNDEFReaderSession', pattern: /\bNFCNDEFReaderSession\b/ },
+  { label: 'NFCTagReaderSession', pattern: /\bNFCTagReaderSession\b/ },
+  { label: 'NFCVASReaderSession', pattern: /\bNFCVASReaderSession\b/ },
+];
+
+export const MissingNFCPurposeRule: Rule = {
+  id: 'privacy-024-missing-nfc-purpose',
+  name: 'Missing NFC Usage Description',
+  description: 'Checks for Core NFC usage without NFCReaderUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const evidence = [
+      ...NFC_FRAMEWORKS.filter(f => context.hasFramework(f)),
+      ...(context.hasEntitlement(NFC_ENTITLEMENT) ? [NFC_ENTITLEMENT] : []),
+      ...detectSourceAPIs(context, NFC_APIS),
+    ];
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: NFC_KEY,
+      resource: 'NFC',
+      purpose: 'read NFC tags',
+      evidence,
+      example: 'We read the NFC tag on your membership card to check you in.',
+    });
+  },
+};
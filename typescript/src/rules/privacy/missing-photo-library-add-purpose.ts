@@ -0,0 +1,65 @@
+/**
+ * Rule: Missing Photo Library Add Usage Description
+ *
+ * Detects when an app saves images or videos to the photo library without
+ * the required NSPhotoLibraryAddUsageDescription in Info.plist. The
+ * UIKit save functions and add-only access always use the add-only prompt;
+ * PhotoKit change requests are also covered by full library access.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const PHOTO_LIBRARY_ADD_KEY = 'NSPhotoLibraryAddUsageDescription';
+const PHOTO_LIBRARY_KEY = 'NSPhotoLibraryUsageDescription';
+
+const ADD_ONLY_APIS: SourceAPIPattern[] = [
+  { label: 'UIImageWriteToSavedPhotosAlbum', pattern: /\bUIImageWriteToSavedPhotosAlbum\b/ },
+  { label: 'UISaveVideoAtPathToSavedPhotosAlbum', pattern: /\bUISaveVideoAtPathToSavedPhotosAlbum\b/ },
+  { label: 'PHAccessLevel.addOnly', pattern: /\bPHAccessLevel(?:\.a|A)ddOnly\b|\bfor:\s*\.addOnly\b/ },
+];
+
+const CHANGE_REQUEST_APIS: SourceAPIPattern[] = [
+  { label: 'PHAssetCreationRequest', pattern: /\bPHAssetCreationRequest\b/ },
+  { label: 'PHAssetChangeRequest.creationRequest', pattern: /\bPHAssetChangeRequest\b[\s\S]{0,40}?\bcreationRequestFor/ },
+];
+
+export const MissingPhotoLibraryAddPurposeRule: Rule = {
+  id: 'privacy-028-missing-photo-library-add-purpose',
+  name: 'Missing Photo Library Add Usage Description',
+  description: 'Checks for saving to the photo library without NSPhotoLibraryAddUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const addOnlyAPIs = detectSourceAPIs(context, ADD_ONLY_APIS);
+    const changeRequestAPIs = detectSourceAPIs(context, CHANGE_REQUEST_APIS);
+
+    if (addOnlyAPIs.length === 0 && changeRequestAPIs.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: PHOTO_LIBRARY_ADD_KEY,
+      alternatives: addOnlyAPIs.length === 0 ? [PHOTO_LIBRARY_KEY] : [],
+      resource: 'Photo Library Add',
+      purpose: 'save photos and videos to the user\'s photo library',
+      evidence: [...addOnlyAPIs, ...changeRequestAPIs],
+      example: 'We save the collages you create to your photo library.',
+      note: addOnlyAPIs.length > 0
+        ? `${addOnlyAPIs.join(', ')} always ask for add-only access, so ${PHOTO_LIBRARY_KEY} alone does not cover them.`
+        : undefined,
+    });
+  },
+};
@@ -0,0 +1,73 @@
+/**
+ * Rule: Missing Reminders Usage Description
+ *
+ * Detects when an app accesses reminders through EventKit without the
+ * required NSRemindersFullAccessUsageDescription in Info.plist (iOS 17+),
+ * or the legacy NSRemindersUsageDescription when deploying to earlier versions.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription, deploymentTargetMajor } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const REMINDERS_KEY = 'NSRemindersFullAccessUsageDescription';
+const LEGACY_KEY = 'NSRemindersUsageDescription';
+
+// EventKit serves calendars too, so only reminder APIs trigger this rule
+export const REMINDER_APIS: SourceAPIPattern[] = [
+  { label: 'requestFullAccessToReminders', pattern: /\brequestFullAccessToReminders\b/ },
+  { label: 'requestAccess(to: .reminder)', pattern: /\brequestAccess\(\s*to:\s*(?:EKEntityType)?\.reminder\b/ },
+  { label: 'EKEntityTypeReminder', pattern: /\bEKEntityTypeReminder\b/ },
+  { label: 'EKReminder', pattern: /\bEKReminder\b/ },
+  { label: 'predicateForReminders', pattern: /\bpredicateFor\w*Reminders\w*/ },
+];
+
+const EXAMPLE = 'We turn your shopping list items into reminders so you can check them off at the store.';
+
+export const MissingRemindersPurposeRule: Rule = {
+  id: 'privacy-017-missing-reminders-purpose',
+  name: 'Missing Reminders Usage Description',
+  description: 'Checks for EventKit reminder access without NSRemindersFullAccessUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const reminderAPIs = detectSourceAPIs(context, REMINDER_APIS);
+    if (reminderAPIs.length === 0) {
+      return [];
+    }
+
+    const findings = checkUsageDescription(this, context, {
+      key: REMINDERS_KEY,
+      resource: 'Reminders',
+      purpose: 'access the user\'s reminders',
+      evidence: reminderAPIs,
+      example: EXAMPLE,
+      note: `Since iOS 17, reminders access requires ${REMINDERS_KEY}. Apps that deploy to iOS 16 or ` +
+        `earlier also need ${LEGACY_KEY}, which those versions show instead.`,
+    });
+
+    const deploymentTarget = deploymentTargetMajor(context);
+    if (deploymentTarget !== undefined && deploymentTarget < 17) {
+      findings.push(...checkUsageDescription(this, context, {
+        key: LEGACY_KEY,
+        resource: 'Legacy Reminders',
+        purpose: 'access the user\'s reminders on iOS 16 and earlier',
+        evidence: [...reminderAPIs, `deployment target iOS ${deploymentTarget}`],
+        example: EXAMPLE,
+      }));
+    }
+
+    return findings;
+  },
+};
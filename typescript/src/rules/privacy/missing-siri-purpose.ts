@@ -0,0 +1,56 @@
+/**
+ * Rule: Missing Siri Usage Description
+ *
+ * Detects when an app requests Siri authorization, or has the Siri
+ * entitlement, without the required NSSiriUsageDescription in Info.plist.
+ * The Intents framework alone is used for Shortcuts donations that need no
+ * authorization, so it does not trigger the rule.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const SIRI_ENTITLEMENT = 'com.apple.developer.siri';
+const SIRI_KEY = 'NSSiriUsageDescription';
+
+const SIRI_APIS: SourceAPIPattern[] = [
+  { label: 'requestSiriAuthorization', pattern: /\brequestSiriAuthorization\b/ },
+];
+
+export const MissingSiriPurposeRule: Rule = {
+  id: 'privacy-022-missing-siri-purpose',
+  name: 'Missing Siri Usage Description',
+  description: 'Checks for SiriKit usage without NSSiriUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const evidence = [
+      ...(context.hasEntitlement(SIRI_ENTITLEMENT) ? [SIRI_ENTITLEMENT] : []),
+      ...detectSourceAPIs(context, SIRI_APIS),
+    ];
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: SIRI_KEY,
+      resource: 'Siri',
+      purpose: 'send user data to Siri',
+      evidence,
+      example: 'Siri uses your saved routes to start navigation when you ask.',
+    });
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * Rule: Missing Speech Recognition Usage Description
+ *
+ * Detects when an app uses the Speech framework without the required
+ * NSSpeechRecognitionUsageDescription in Info.plist.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { checkUsageDescription } from './usage-description.js';
+import { detectSourceAPIs } from '../source-evidence.js';
+import type { SourceAPIPattern } from '../source-evidence.js';
+
+const SPEECH_FRAMEWORKS = ['Speech'];
+const SPEECH_KEY = 'NSSpeechRecognitionUsageDescription';
+
+const SPEECH_APIS: SourceAPIPattern[] = [
+  { label: 'SFSpeechRecognizer', pattern: /\bSFSpeechRecognizer\b/ },
+  { label: 'SFSpeechRecognitionRequest', pattern: /\bSFSpeech\w*RecognitionRequest\b/ },
+];
+
+export const MissingSpeechRecognitionPurposeRule: Rule = {
+  id: 'privacy-020-missing-speech-recognition-purpose',
+  name: 'Missing Speech Recognition Usage Description',
+  description: 'Checks for Speech framework usage without NSSpeechRecognitionUsageDescription',
+  category: RuleCategory.Privacy,
+  severity: Severity.Critical,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    // Framework/library targets do not need app-level usage descriptions
+    if (context.isFrameworkTarget()) {
+      return [];
+    }
+
+    const evidence = [
+      ...SPEECH_FRAMEWORKS.filter(f => context.hasFramework(f)),
+      ...detectSourceAPIs(context, SPEECH_APIS),
+    ];
+
+    if (evidence.length === 0) {
+      return [];
+    }
+
+    return checkUsageDescription(this, context, {
+      key: SPEECH_KEY,
+      resource: 'Speech Recognition',
+      purpose: 'send audio to Apple for speech recognition',
+      evidence,
+      example: 'We transcribe your voice notes so you can search them later.',
+      note: 'Recognizing live audio from the microphone also requires NSMicrophoneUsageDescription.',
+    });
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * Rule: Invalid Required Reason Declaration
+ *
+ * Validates NSPrivacyAccessedAPITypes entries: the category must be one of
+ * Apple's Required Reason API categories and every entry needs at least one
+ * reason code approved for that category.
+ * Findings point at the offending line of the manifest.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { evaluateManifestProblems } from './privacy-manifest-validation.js';
+
+const FIX_GUIDANCE =
+  `Use only the categories and reason codes from Apple's Required Reason API list. Each NSPrivacyAccessedAPITypes ` +
+  `entry needs an NSPrivacyAccessedAPIType and a non-empty NSPrivacyAccessedAPITypeReasons array with reasons ` +
+  `approved for that category. Each finding lists the valid codes for its category.`;
+
+export const InvalidRequiredReasonDeclarationRule: Rule = {
+  id: 'privacy-012-invalid-required-reason-declaration',
+  name: 'Invalid Required Reason Declaration',
+  description: 'Checks NSPrivacyAccessedAPITypes categories and reason codes in PrivacyInfo.xcprivacy',
+  category: RuleCategory.Privacy,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    return evaluateManifestProblems(this, context, 'api-reasons', FIX_GUIDANCE);
+  },
+};
+
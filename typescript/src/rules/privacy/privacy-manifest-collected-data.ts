@@ -0,0 +1,32 @@
+/**
+ * Rule: Invalid Collected Data Type Declaration
+ *
+ * Validates NSPrivacyCollectedDataTypes entries: each needs a known data
+ * type, Boolean linked/tracking flags and at least one known purpose.
+ * Findings point at the offending line of the manifest.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { evaluateManifestProblems } from './privacy-manifest-validation.js';
+
+const FIX_GUIDANCE =
+  `Each NSPrivacyCollectedDataTypes entry needs NSPrivacyCollectedDataType (one of Apple's data types), ` +
+  `NSPrivacyCollectedDataTypeLinked and NSPrivacyCollectedDataTypeTracking (Booleans), and a non-empty ` +
+  `NSPrivacyCollectedDataTypePurposes array of Apple's purpose values.`;
+
+export const InvalidCollectedDataTypeRule: Rule = {
+  id: 'privacy-014-invalid-collected-data-type',
+  name: 'Invalid Collected Data Type Declaration',
+  description: 'Checks NSPrivacyCollectedDataTypes entries in PrivacyInfo.xcprivacy',
+  category: RuleCategory.Privacy,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    return evaluateManifestProblems(this, context, 'collected-data', FIX_GUIDANCE);
+  },
+};
+
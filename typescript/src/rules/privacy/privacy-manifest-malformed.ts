@@ -0,0 +1,33 @@
+/**
+ * Rule: Malformed Privacy Manifest
+ *
+ * Detects privacy manifests that cannot be parsed or whose top-level keys
+ * have the wrong type (e.g. NSPrivacyTracking as a string).
+ * Findings point at the offending line of the manifest.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { evaluateManifestProblems } from './privacy-manifest-validation.js';
+
+const FIX_GUIDANCE =
+  `Open PrivacyInfo.xcprivacy in Xcode's property list editor and fix the flagged key. ` +
+  `The root must be a dictionary. NSPrivacyTracking is a Boolean, NSPrivacyTrackingDomains an array of strings, ` +
+  `and NSPrivacyAccessedAPITypes and NSPrivacyCollectedDataTypes are arrays of dictionaries.\n\n` +
+  `Check the file with: plutil -lint PrivacyInfo.xcprivacy`;
+
+export const MalformedPrivacyManifestRule: Rule = {
+  id: 'privacy-011-malformed-privacy-manifest',
+  name: 'Malformed Privacy Manifest',
+  description: 'Checks that PrivacyInfo.xcprivacy is a valid property list with correctly typed keys',
+  category: RuleCategory.Privacy,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    return evaluateManifestProblems(this, context, 'structure', FIX_GUIDANCE);
+  },
+};
+
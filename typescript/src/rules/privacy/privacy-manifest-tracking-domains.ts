@@ -0,0 +1,31 @@
+/**
+ * Rule: Tracking Without Tracking Domains
+ *
+ * Detects NSPrivacyTracking = true without any NSPrivacyTrackingDomains.
+ * Findings point at the offending line of the manifest.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory } from '../../types/index.js';
+import { evaluateManifestProblems } from './privacy-manifest-validation.js';
+
+const FIX_GUIDANCE =
+  `List every domain your app or its SDKs contact for tracking in NSPrivacyTrackingDomains (see each SDK's ` +
+  `documentation). iOS blocks connections to these domains until the user grants tracking permission. ` +
+  `If the app does not track, set NSPrivacyTracking to false.`;
+
+export const TrackingWithoutDomainsRule: Rule = {
+  id: 'privacy-013-tracking-without-domains',
+  name: 'Tracking Without Tracking Domains',
+  description: 'Checks that apps declaring tracking list their tracking domains',
+  category: RuleCategory.Privacy,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    return evaluateManifestProblems(this, context, 'tracking', FIX_GUIDANCE);
+  },
+};
+
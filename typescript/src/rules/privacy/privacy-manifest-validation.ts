@@ -0,0 +1,309 @@
+/**
+ * Semantic validation of privacy manifests (PrivacyInfo.xcprivacy)
+ *
+ * Shared by the privacy manifest rule family (privacy-011 to privacy-014).
+ * The manifest is checked against Apple's Required Reason API categories and
+ * reason codes (REQUIRED_REASON_API_CATEGORIES) and the collected data type
+ * and purpose enums below. App Store Connect rejects invalid manifests with
+ * ITMS-91056.
+ */
+import type { Finding, Rule, ScanContext } from '../../types/index.js';
+import { parsePrivacyManifest } from '../../parsers/privacy-manifest-parser.js';
+import type { ParsedPrivacyManifest, PlistKeyPath } from '../../parsers/privacy-manifest-parser.js';
+import { makeFinding } from '../base.js';
+import { REQUIRED_REASON_API_CATEGORIES, findContextPrivacyManifest } from './required-reason-api.js';
+
+export const PRIVACY_MANIFEST_DOCUMENTATION_URL =
+  'https://developer.apple.com/documentation/bundleresources/privacy_manifest_files';
+
+/**
+ * Values of NSPrivacyCollectedDataType
+ */
+export const COLLECTED_DATA_TYPES: readonly string[] = [
+  // Contact info
+  'NSPrivacyCollectedDataTypeName',
+  'NSPrivacyCollectedDataTypeEmailAddress',
+  'NSPrivacyCollectedDataTypePhoneNumber',
+  'NSPrivacyCollectedDataTypePhysicalAddress',
+  'NSPrivacyCollectedDataTypeOtherUserContactInfo',
+  // Health and fitness
+  'NSPrivacyCollectedDataTypeHealth',
+  'NSPrivacyCollectedDataTypeFitness',
+  // Financial info
+  'NSPrivacyCollectedDataTypePaymentInfo',
+  'NSPrivacyCollectedDataTypeCreditInfo',
+  'NSPrivacyCollectedDataTypeOtherFinancialInfo',
+  // Location
+  'NSPrivacyCollectedDataTypePreciseLocation',
+  'NSPrivacyCollectedDataTypeCoarseLocation',
+  // Sensitive info and contacts
+  'NSPrivacyCollectedDataTypeSensitiveInfo',
+  'NSPrivacyCollectedDataTypeContacts',
+  // User content
+  'NSPrivacyCollectedDataTypeEmailsOrTextMessages',
+  'NSPrivacyCollectedDataTypePhotosorVideos',
+  'NSPrivacyCollectedDataTypeAudioData',
+  'NSPrivacyCollectedDataTypeGameplayContent',
+  'NSPrivacyCollectedDataTypeCustomerSupport',
+  'NSPrivacyCollectedDataTypeOtherUserContent',
+  // Browsing and search history
+  'NSPrivacyCollectedDataTypeBrowsingHistory',
+  'NSPrivacyCollectedDataTypeSearchHistory',
+  // Identifiers
+  'NSPrivacyCollectedDataTypeUserID',
+  'NSPrivacyCollectedDataTypeDeviceID',
+  // Purchases and usage data
+  'NSPrivacyCollectedDataTypePurchaseHistory',
+  'NSPrivacyCollectedDataTypeProductInteraction',
+  'NSPrivacyCollectedDataTypeAdvertisingData',
+  'NSPrivacyCollectedDataTypeOtherUsageData',
+  // Diagnostics
+  'NSPrivacyCollectedDataTypeCrashData',
+  'NSPrivacyCollectedDataTypePerformanceData',
+  'NSPrivacyCollectedDataTypeOtherDiagnosticData',
+  // Surroundings and body
+  'NSPrivacyCollectedDataTypeEnvironmentScanning',
+  'NSPrivacyCollectedDataTypeHands',
+  'NSPrivacyCollectedDataTypeHead',
+  // Other
+  'NSPrivacyCollectedDataTypeOtherDataTypes',
+];
+
+/**
+ * Values of NSPrivacyCollectedDataTypePurposes
+ */
+export const COLLECTION_PURPOSES: readonly string[] = [
+  'NSPrivacyCollectedDataTypePurposeThirdPartyAdvertising',
+  'NSPrivacyCollectedDataTypePurposeDeveloperAdvertising',
+  'NSPrivacyCollectedDataTypePurposeAnalytics',
+  'NSPrivacyCollectedDataTypePurposeProductPersonalization',
+  'NSPrivacyCollectedDataTypePurposeAppFunctionality',
+  'NSPrivacyCollectedDataTypePurposeOther',
+];
+
+/**
+ * Which rule of the family reports a problem
+ */
+export type ManifestProblemKind = 'structure' | 'api-reasons' | 'tracking' | 'collected-data';
+
+/**
+ * A problem found in a privacy manifest
+ */
+export interface ManifestProblem {
+  kind: ManifestProblemKind;
+  title: string;
+  message: string;
+  /** Where the problem is (reported as the finding's line) */
+  keyPath: PlistKeyPath;
+  /** Tells apart problems of the same kind in one file */
+  discriminator: string;
+}
+
+/**
+ * Check a parsed manifest against Apple's schema
+ */
+export function validatePrivacyManifest(manifest: ParsedPrivacyManifest): ManifestProblem[] {
+  if (!manifest.data) {
+    return [{
+      kind: 'structure',
+      title: 'Unreadable Privacy Manifest',
+      message: `The privacy manifest cannot be parsed: ${manifest.error}.`,
+      keyPath: [],
+      discriminator: 'parse',
+    }];
+  }
+
+  const data = manifest.data;
+  const problems: ManifestProblem[] = [];
+  const structure = (key: string, expected: string) => problems.push({
+    kind: 'structure',
+    title: `Invalid ${key} in Privacy Manifest`,
+    message: `${key} must be ${expected}.`,
+    keyPath: [key],
+    discriminator: key,
+  });
+
+  if (data.NSPrivacyTracking !== undefined && typeof data.NSPrivacyTracking !== 'boolean') {
+    structure('NSPrivacyTracking', 'a boolean');
+  }
+  const domains = data.NSPrivacyTrackingDomains;
+  if (domains !== undefined && (!Array.isArray(domains) || domains.some(domain => typeof domain !== 'string'))) {
+    structure('NSPrivacyTrackingDomains', 'an array of domain strings');
+  }
+  for (const key of ['NSPrivacyAccessedAPITypes', 'NSPrivacyCollectedDataTypes']) {
+    if (data[key] !== undefined && !Array.isArray(data[key])) {
+      structure(key, 'an array of dictionaries');
+    }
+  }
+
+  if (data.NSPrivacyTracking === true && (!Array.isArray(domains) || domains.length === 0)) {
+    problems.push({
+      kind: 'tracking',
+      title: 'Tracking Enabled Without Tracking Domains',
+      message: 'NSPrivacyTracking is true but NSPrivacyTrackingDomains ' +
+        (domains === undefined ? 'is missing' : 'lists no domains') +
+        '. Apps that track must list the domains they connect to for tracking.',
+      keyPath: ['NSPrivacyTracking'],
+      discriminator: 'NSPrivacyTrackingDomains',
+    });
+  }
+
+  if (Array.isArray(data.NSPrivacyAccessedAPITypes)) {
+    problems.push(...validateAccessedAPITypes(data.NSPrivacyAccessedAPITypes));
+  }
+  if (Array.isArray(data.NSPrivacyCollectedDataTypes)) {
+    problems.push(...validateCollectedDataTypes(data.NSPrivacyCollectedDataTypes));
+  }
+  return problems;
+}
+
+function validateAccessedAPITypes(entries: unknown[]): ManifestProblem[] {
+  const problems: ManifestProblem[] = [];
+  const seen = new Set<string>();
+  const problem = (keyPath: PlistKeyPath, title: string, message: string, discriminator: string) =>
+    problems.push({ kind: 'api-reasons', title, message, keyPath: ['NSPrivacyAccessedAPITypes', ...keyPath], discriminator });
+
+  entries.forEach((entry, index) => {
+    if (!isDictionary(entry)) {
+      problem([index], 'Invalid Required Reason API Entry', `NSPrivacyAccessedAPITypes item ${index + 1} is not a dictionary.`, `item-${index}`);
+      return;
+    }
+
+    const type = entry.NSPrivacyAccessedAPIType;
+    const category = REQUIRED_REASON_API_CATEGORIES.find(c => c.key === type);
+    if (typeof type !== 'string') {
+      problem([index], 'Required Reason API Entry Without Category',
+        `NSPrivacyAccessedAPITypes item ${index + 1} has no NSPrivacyAccessedAPIType string.`, `item-${index}`);
+    } else if (!category) {
+      problem([index, 'NSPrivacyAccessedAPIType'], `Unknown Required Reason API Category: ${type}`,
+        `"${type}" is not a Required Reason API category. Valid categories: ` +
+        `${REQUIRED_REASON_API_CATEGORIES.map(c => c.key).join(', ')}.`, type);
+    } else if (seen.has(type)) {
+      problem([index, 'NSPrivacyAccessedAPIType'], `Duplicate Required Reason API Category: ${type}`,
+        `${type} is declared more than once. Merge the reasons into a single entry.`, `${type}-duplicate`);
+    }
+    if (typeof type === 'string') seen.add(type);
+    const label = typeof type === 'string' ? type : `item ${index + 1}`;
+
+    const reasons = entry.NSPrivacyAccessedAPITypeReasons;
+    if (!Array.isArray(reasons) || reasons.length === 0) {
+      problem(reasons === undefined ? [index] : [index, 'NSPrivacyAccessedAPITypeReasons'],
+        `No Reasons Declared for ${label}`,
+        `NSPrivacyAccessedAPITypeReasons for ${label} ` +
+        `${reasons === undefined ? 'is missing' : Array.isArray(reasons) ? 'is empty' : 'is not an array'}. ` +
+        `Every declared category needs at least one approved reason code.`,
+        `${label}-reasons`);
+      return;
+    }
+
+    reasons.forEach((reason, reasonIndex) => {
+      const keyPath = [index, 'NSPrivacyAccessedAPITypeReasons', reasonIndex];
+      if (typeof reason !== 'string') {
+        problem(keyPath, `Invalid Reason Code for ${label}`, `Reason ${reasonIndex + 1} for ${label} is not a string.`, `${label}-${reasonIndex}`);
+        return;
+      }
+      if (!category || reason in category.reasons) return;
+
+      const owner = REQUIRED_REASON_API_CATEGORIES.find(c => reason in c.reasons);
+      const valid = Object.keys(category.reasons).join(', ');
+      problem(keyPath,
+        owner ? `Reason Code ${reason} Belongs to ${owner.key}` : `Invalid Reason Code ${reason}`,
+        owner
+          ? `${reason} is a reason code for ${owner.key}, not ${category.key}. Valid reasons for ${category.key}: ${valid}.`
+          : `"${reason}" is not an approved reason code. Valid reasons for ${category.key}: ${valid}.`,
+        `${category.key}-${reason}`);
+    });
+  });
+  return problems;
+}
+
+function validateCollectedDataTypes(entries: unknown[]): ManifestProblem[] {
+  const problems: ManifestProblem[] = [];
+  const problem = (keyPath: PlistKeyPath, title: string, message: string, discriminator: string) =>
+    problems.push({ kind: 'collected-data', title, message, keyPath: ['NSPrivacyCollectedDataTypes', ...keyPath], discriminator });
+
+  entries.forEach((entry, index) => {
+    if (!isDictionary(entry)) {
+      problem([index], 'Invalid Collected Data Type Entry', `NSPrivacyCollectedDataTypes item ${index + 1} is not a dictionary.`, `item-${index}`);
+      return;
+    }
+
+    const type = entry.NSPrivacyCollectedDataType;
+    if (typeof type !== 'string') {
+      problem([index], 'Collected Data Type Entry Without Type',
+        `NSPrivacyCollectedDataTypes item ${index + 1} has no NSPrivacyCollectedDataType string.`, `item-${index}`);
+    } else if (!COLLECTED_DATA_TYPES.includes(type)) {
+      problem([index, 'NSPrivacyCollectedDataType'], `Unknown Collected Data Type: ${type}`,
+        `"${type}" is not a collected data type defined by Apple.`, type);
+    }
+    const label = typeof type === 'string' ? type : `item ${index + 1}`;
+
+    for (const key of ['NSPrivacyCollectedDataTypeLinked', 'NSPrivacyCollectedDataTypeTracking']) {
+      if (typeof entry[key] !== 'boolean') {
+        problem(entry[key] === undefined ? [index] : [index, key], `Invalid ${key} for ${label}`,
+          `${key} for ${label} ${entry[key] === undefined ? 'is missing' : 'is not a boolean'}.`, `${label}-${key}`);
+      }
+    }
+
+    const purposes = entry.NSPrivacyCollectedDataTypePurposes;
+    if (!Array.isArray(purposes) || purposes.length === 0) {
+      problem(purposes === undefined ? [index] : [index, 'NSPrivacyCollectedDataTypePurposes'],
+        `No Collection Purposes for ${label}`,
+        `NSPrivacyCollectedDataTypePurposes for ${label} ` +
+        `${purposes === undefined ? 'is missing' : Array.isArray(purposes) ? 'is empty' : 'is not an array'}. ` +
+        `Declare at least one purpose.`,
+        `${label}-purposes`);
+      return;
+    }
+    purposes.forEach((purpose, purposeIndex) => {
+      if (typeof purpose === 'string' && COLLECTION_PURPOSES.includes(purpose)) return;
+      problem([index, 'NSPrivacyCollectedDataTypePurposes', purposeIndex], `Invalid Collection Purpose for ${label}`,
+        `"${String(purpose)}" is not a collection purpose. Valid purposes: ${COLLECTION_PURPOSES.join(', ')}.`,
+        `${label}-${String(purpose)}`);
+    });
+  });
+  return problems;
+}
+
+/**
+ * Manifests to validate: every manifest in a built bundle (the app's and its
+ * SDKs'), or the app's manifest in a project
+ */
+export function findManifestsToValidate(context: ScanContext): string[] {
+  if (context.privacyManifests) {
+    return context.privacyManifests.map(m => m.path);
+  }
+  const manifestPath = findContextPrivacyManifest(context);
+  return manifestPath ? [manifestPath] : [];
+}
+
+/**
+ * Findings of one kind for every manifest of the context
+ */
+export function evaluateManifestProblems(
+  rule: Pick<Rule, 'id' | 'name' | 'severity' | 'confidence' | 'guidelineReference'>,
+  context: ScanContext,
+  kind: ManifestProblemKind,
+  fixGuidance: string
+): Finding[] {
+  const findings: Finding[] = [];
+  for (const manifestPath of findManifestsToValidate(context)) {
+    const manifest = parsePrivacyManifest(manifestPath);
+    for (const problem of validatePrivacyManifest(manifest).filter(p => p.kind === kind)) {
+      findings.push(makeFinding(rule, {
+        title: problem.title,
+        description: `${problem.message} App Store Connect rejects invalid privacy manifests (ITMS-91056).`,
+        location: manifestPath,
+        line: manifest.lineOf(problem.keyPath),
+        discriminator: problem.discriminator,
+        fixGuidance,
+        documentationURL: PRIVACY_MANIFEST_DOCUMENTATION_URL,
+      }));
+    }
+  }
+  return findings;
+}
+
+function isDictionary(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
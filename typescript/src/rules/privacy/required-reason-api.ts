@@ -7,9 +7,11 @@
  *
  * App Store Review Guideline: 5.1.1
  */
-import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import type { Rule, Finding, ScanContext, BinaryImage, FixEdit } from '../../types/index.js';
 import { Severity, Confidence, RuleCategory } from '../../types/index.js';
 import { makeFinding } from '../base.js';
+import { parsePrivacyManifest } from '../../parsers/privacy-manifest-parser.js';
+import { discoverPrivacyManifests } from '../../parsers/privacy-manifest-discovery.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -21,6 +23,12 @@ export interface APICategory {
   name: string;
   patterns: RegExp[];
   description: string;
+  /** Imported symbols that indicate use in a compiled binary */
+  binarySymbols: string[];
+  /** Objective-C selectors that indicate use in a compiled binary */
+  binarySelectors?: string[];
+  /** Approved reason codes and what they allow */
+  reasons: Record<string, string>;
 }
 
 export const REQUIRED_REASON_API_CATEGORIES: APICategory[] = [
@@ -28,6 +36,12 @@ export const REQUIRED_REASON_API_CATEGORIES: APICategory[] = [
     key: 'NSPrivacyAccessedAPICategoryFileTimestamp',
     name: 'File Timestamp APIs',
     description: 'APIs that access file timestamps',
+    reasons: {
+      'DDA9.1': 'Display file timestamps to the user',
+      'C617.1': 'Access timestamps of files inside the app container, app group or CloudKit container',
+      '3B52.1': 'Access timestamps of files the user granted access to',
+      '0A2A.1': 'Third-party SDK wrapper used only by the app',
+    },
     patterns: [
       /\bNSFileCreationDate\b/,
       /\bNSFileModificationDate\b/,
@@ -47,22 +61,41 @@ export const REQUIRED_REASON_API_CATEGORIES: APICategory[] = [
       /\b\.modificationDate\b/,
       /\b\.creationDate\b/,
     ],
+    binarySymbols: [
+      'stat', 'fstat', 'lstat', 'fstatat', 'stat$INODE64', 'fstat$INODE64', 'lstat$INODE64',
+      'getattrlist', 'getattrlistbulk', 'fgetattrlist', 'getattrlistat',
+      'NSFileCreationDate', 'NSFileModificationDate',
+      'NSURLContentModificationDateKey', 'NSURLCreationDateKey',
+    ],
   },
   {
     key: 'NSPrivacyAccessedAPICategorySystemBootTime',
     name: 'System Boot Time APIs',
     description: 'APIs that access system uptime or boot time',
+    reasons: {
+      '35F9.1': 'Measure time between events within the app',
+      '8FFB.1': 'Calculate absolute timestamps for events within the app',
+      '3D61.1': 'Include in an optional bug report the user chooses to submit',
+    },
     patterns: [
       /\bsystemUptime\b/,
       /\bmach_absolute_time\b/,
       /\bProcessInfo\.processInfo\.systemUptime\b/,
       /\bNSProcessInfo\.processInfo\.systemUptime\b/,
     ],
+    binarySymbols: ['mach_absolute_time'],
+    binarySelectors: ['systemUptime'],
   },
   {
     key: 'NSPrivacyAccessedAPICategoryDiskSpace',
     name: 'Disk Space APIs',
     description: 'APIs that access disk space information',
+    reasons: {
+      '85F4.1': 'Display disk space to the user',
+      'E174.1': 'Check there is enough space before writing files',
+      '7D9E.1': 'Include in an optional bug report the user chooses to submit',
+      'B728.1': 'Health research app reporting low disk space to participants',
+    },
     patterns: [
       /\bvolumeAvailableCapacityKey\b/,
       /\bvolumeAvailableCapacityForImportantUsageKey\b/,
@@ -79,32 +112,58 @@ export const REQUIRED_REASON_API_CATEGORIES: APICategory[] = [
       /\bfstatfs\b\s*\(/,
       /\bfstatvfs\b\s*\(/,
     ],
+    binarySymbols: [
+      'statfs', 'statvfs', 'fstatfs', 'fstatvfs', 'statfs$INODE64', 'fstatfs$INODE64',
+      'NSFileSystemFreeSize', 'NSFileSystemSize',
+      'NSURLVolumeAvailableCapacityKey', 'NSURLVolumeAvailableCapacityForImportantUsageKey',
+      'NSURLVolumeAvailableCapacityForOpportunisticUsageKey', 'NSURLVolumeTotalCapacityKey',
+    ],
   },
   {
     key: 'NSPrivacyAccessedAPICategoryActiveKeyboards',
     name: 'Active Keyboards API',
     description: 'APIs that access the list of active keyboards',
+    reasons: {
+      '3EC4.1': 'Custom keyboard app checking which keyboards are active',
+      '54BD.1': 'Customize the UI for the active keyboards',
+    },
     patterns: [
       /\bactiveInputModes\b/,
       /\bUITextInputMode\.activeInputModes\b/,
     ],
+    binarySymbols: [],
+    binarySelectors: ['activeInputModes'],
   },
   {
     key: 'NSPrivacyAccessedAPICategoryUserDefaults',
     name: 'UserDefaults API',
     description: 'APIs that access UserDefaults',
+    reasons: {
+      'CA92.1': 'Read and write data only accessible to the app itself',
+      '1C8F.1': 'Read and write data shared with apps, extensions and App Clips in the same app group',
+      'C56D.1': 'Third-party SDK wrapper used only by the app',
+      'AC6B.1': 'Read managed app configuration or feedback (MDM)',
+    },
     patterns: [
       /\bUserDefaults\b/,
       /\bNSUserDefaults\b/,
       /\b\[\[NSUserDefaults\s+standardUserDefaults\]\b/,
     ],
+    binarySymbols: ['OBJC_CLASS_$_NSUserDefaults'],
   },
 ];
 
 /**
  * Recursively find source files (.swift, .m) in a directory
+ *
+ * @param filter Optional config-driven filter (see ScanContext.sourceFilter)
+ * @param extensions Lowercase file extensions to collect instead of .swift and .m
  */
-export function findSourceFiles(dir: string): string[] {
+export function findSourceFiles(
+  dir: string,
+  filter?: (filePath: string) => boolean,
+  extensions: string[] = ['.swift', '.m']
+): string[] {
   const results: string[] = [];
   const skipDirs = new Set(['Pods', 'Carthage', 'DerivedData', '.build', 'node_modules', 'build', '.git']);
 
@@ -122,8 +181,9 @@ export function findSourceFiles(dir: string): string[] {
         }
       } else if (entry.isFile()) {
         const ext = path.extname(entry.name).toLowerCase();
-        if (ext === '.swift' || ext === '.m') {
-          results.push(path.join(d, entry.name));
+        const filePath = path.join(d, entry.name);
+        if (extensions.includes(ext) && (!filter || filter(filePath))) {
+          results.push(filePath);
         }
       }
     }
@@ -165,6 +225,34 @@ export function detectRequiredReasonAPIs(
   return result;
 }
 
+/**
+ * Scan compiled binaries for Required Reason API usage (imported symbols and selectors).
+ * Returns a map of category key → list of binaries where detected.
+ */
+export function detectRequiredReasonAPIsInBinaries(
+  binaries: BinaryImage[]
+): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+
+  for (const binary of binaries) {
+    const symbols = new Set(binary.importedSymbols);
+    const selectors = new Set(binary.selectors);
+
+    for (const category of REQUIRED_REASON_API_CATEGORIES) {
+      const used =
+        category.binarySymbols.some((symbol) => symbols.has(symbol)) ||
+        (category.binarySelectors ?? []).some((selector) => selectors.has(selector));
+      if (used) {
+        const existing = result.get(category.key) || [];
+        existing.push(binary.path);
+        result.set(category.key, existing);
+      }
+    }
+  }
+
+  return result;
+}
+
 /**
  * Find and parse PrivacyInfo.xcprivacy, returning declared API category keys.
  */
@@ -197,31 +285,133 @@ export function findPrivacyManifest(projectPath: string): string | null {
       return p;
     }
   }
-  return null;
+
+  // Deeper layouts (e.g. ios/App/App/PrivacyInfo.xcprivacy); SDK and package manifests don't count
+  return discoverPrivacyManifests([projectPath]).find((m) => m.origin === 'app')?.path ?? null;
 }
 
 /**
- * Parse PrivacyInfo.xcprivacy XML plist and extract declared API category keys.
+ * Find the privacy manifest that belongs to the scanned app or target.
+ * Built bundles list their manifests; projects are searched on disk.
+ */
+export function findContextPrivacyManifest(context: ScanContext): string | null {
+  if (context.privacyManifests) {
+    return context.privacyManifests.find((m) => m.isAppManifest)?.path ?? null;
+  }
+  return findPrivacyManifest(context.projectPath);
+}
+
+/**
+ * Parse PrivacyInfo.xcprivacy (XML or binary plist) and extract declared API category keys.
  */
 export function parseDeclaredAPICategories(manifestPath: string): Set<string> {
   const declared = new Set<string>();
-  let content: string;
-  try {
-    content = fs.readFileSync(manifestPath, 'utf-8');
-  } catch {
-    return declared;
+  const entries = parsePrivacyManifest(manifestPath).data?.NSPrivacyAccessedAPITypes;
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const type = (entry as Record<string, unknown> | null)?.NSPrivacyAccessedAPIType;
+    if (typeof type === 'string') {
+      declared.add(type);
+    }
+  }
+  return declared;
+}
+
+/**
+ * The privacy manifest shipped by the SDK bundle that contains a binary, if any
+ *
+ * The app's own manifest is not returned: the app's binaries are checked against it
+ * together with its sources.
+ */
+export function findBinaryPrivacyManifest(context: ScanContext, binary: BinaryImage): string | undefined {
+  const bundled = context.privacyManifests?.find((m) => m.bundleName === binary.bundleName);
+  if (bundled) {
+    return bundled.isAppManifest ? undefined : bundled.path;
   }
 
-  // The plist structure has NSPrivacyAccessedAPITypes as an array of dicts,
-  // each containing NSPrivacyAccessedAPIType → category string.
-  // Simple regex extraction since it's well-structured XML.
-  const typeRegex = /<key>NSPrivacyAccessedAPIType<\/key>\s*<string>(.*?)<\/string>/g;
-  let match: RegExpExecArray | null;
-  while ((match = typeRegex.exec(content)) !== null) {
-    declared.add(match[1]);
+  const binaryDir = path.dirname(binary.path);
+  for (const candidate of ['PrivacyInfo.xcprivacy', path.join('Resources', 'PrivacyInfo.xcprivacy')]) {
+    const manifestPath = path.join(binaryDir, candidate);
+    if (fs.existsSync(manifestPath)) {
+      return manifestPath;
+    }
   }
+  return undefined;
+}
 
-  return declared;
+/**
+ * Reason codes implied by how sources use a category, or [] when a human has to choose
+ *
+ * Only UserDefaults usage is unambiguous: the standard suite is app-only data
+ * (CA92.1) and a literal "group." suite is shared with the app group (1C8F.1).
+ */
+export function inferRequiredReasons(categoryKey: string, files: string[]): string[] {
+  if (categoryKey !== 'NSPrivacyAccessedAPICategoryUserDefaults') {
+    return [];
+  }
+
+  const reasons = new Set<string>();
+  for (const file of files) {
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf-8');
+    } catch {
+      return [];
+    }
+    if (/\bUserDefaults\.standard\b|\bUserDefaults\(\)|\bstandardUserDefaults\b/.test(content)) {
+      reasons.add('CA92.1');
+    }
+    const suites = content.match(/suiteName:?\s*@?[^\s),\]]*/gi) ?? [];
+    for (const suite of suites) {
+      if (!/suiteName:?\s*@?"group\./i.test(suite)) {
+        return []; // Suite name not known statically
+      }
+      reasons.add('1C8F.1');
+    }
+  }
+  return [...reasons];
+}
+
+/**
+ * The approved reason codes of a category, one `  CODE: meaning` line each
+ */
+export function describeRequiredReasons(category: APICategory): string[] {
+  return Object.entries(category.reasons).map(([code, description]) => `  ${code}: ${description}`);
+}
+
+/**
+ * Fix that declares a category in the app's manifest
+ *
+ * Reasons are only filled in when the sources make them unambiguous (see
+ * inferRequiredReasons); otherwise the reasons array is left empty under a TODO
+ * comment listing the approved codes, so the developer chooses what Apple is told.
+ */
+function declareCategoryFix(
+  category: APICategory,
+  manifestPath: string,
+  files: string[],
+  usedInBinaries: boolean,
+  projectPath: string
+): FixEdit {
+  const reasons = usedInBinaries ? [] : inferRequiredReasons(category.key, files);
+  const usedIn = files.slice(0, 3).map(file => path.relative(projectPath, file)).join(', ');
+  return {
+    type: 'plist-append',
+    file: manifestPath,
+    key: 'NSPrivacyAccessedAPITypes',
+    value: {
+      NSPrivacyAccessedAPIType: category.key,
+      NSPrivacyAccessedAPITypeReasons: reasons,
+    },
+    ...(reasons.length === 0 ? {
+      comment: [
+        `TODO: choose NSPrivacyAccessedAPITypeReasons for ${category.key} (used in ${usedIn})`,
+        ...describeRequiredReasons(category),
+      ].join('\n'),
+    } : {}),
+    description: reasons.length > 0
+      ? `Declare ${category.key} with reason ${reasons.join(', ')}`
+      : `Declare ${category.key} (choose its reasons at the TODO comment)`,
+  };
 }
 
 export const RequiredReasonAPIRule: Rule = {
@@ -236,16 +426,53 @@ export const RequiredReasonAPIRule: Rule = {
 
   async evaluate(context: ScanContext): Promise<Finding[]> {
     // 1. Find source files and detect API usage
-    const sourceFiles = findSourceFiles(context.projectPath);
+    const sourceFiles = findSourceFiles(context.sourceRoot, context.sourceFilter);
     const usedAPIs = detectRequiredReasonAPIs(sourceFiles);
+    const findings: Finding[] = [];
+
+    // Compiled binaries: an SDK that ships its own manifest must declare its own
+    // usage there; everything else counts towards the app's manifest
+    const appBinaries: BinaryImage[] = [];
+    for (const binary of context.binaries ?? []) {
+      const sdkManifest = findBinaryPrivacyManifest(context, binary);
+      if (!sdkManifest) {
+        appBinaries.push(binary);
+        continue;
+      }
+      const declared = parseDeclaredAPICategories(sdkManifest);
+      for (const categoryKey of detectRequiredReasonAPIsInBinaries([binary]).keys()) {
+        if (declared.has(categoryKey)) continue;
+        const cat = REQUIRED_REASON_API_CATEGORIES.find((c) => c.key === categoryKey);
+        findings.push(
+          makeFinding(this, {
+            title: `Undeclared Required Reason API in ${binary.bundleName}: ${cat ? cat.name : categoryKey}`,
+            description:
+              `The binary of ${binary.bundleName} uses ${cat ? cat.name : categoryKey} (${categoryKey}) but the ` +
+              `privacy manifest it ships does not declare this category. Apple will reject submissions with ITMS-91053.`,
+            location: sdkManifest,
+            discriminator: categoryKey,
+            fixGuidance:
+              `Update ${binary.bundleName} to a version whose PrivacyInfo.xcprivacy declares ${categoryKey}, ` +
+              `or ask the SDK vendor to add it. If you maintain this framework, add the category under ` +
+              `NSPrivacyAccessedAPITypes in its privacy manifest.`,
+            shortFixText: `Update ${binary.bundleName} or declare ${categoryKey} in its privacy manifest`,
+            documentationURL:
+              'https://developer.apple.com/documentation/bundleresources/privacy_manifest_files/describing_use_of_required_reason_api',
+          })
+        );
+      }
+    }
+    const binaryUsage = detectRequiredReasonAPIsInBinaries(appBinaries);
+    for (const [categoryKey, binaryPaths] of binaryUsage.entries()) {
+      usedAPIs.set(categoryKey, [...(usedAPIs.get(categoryKey) || []), ...binaryPaths]);
+    }
 
     if (usedAPIs.size === 0) {
-      return []; // No Required Reason APIs used
+      return findings; // No Required Reason APIs used by the app itself
     }
 
     // 2. Find and parse privacy manifest
-    const manifestPath = findPrivacyManifest(context.projectPath);
-    const findings: Finding[] = [];
+    const manifestPath = findContextPrivacyManifest(context);
 
     if (!manifestPath) {
       // No manifest at all — report all used categories
@@ -301,6 +528,7 @@ export const RequiredReasonAPIRule: Rule = {
               `(${sampleFiles.join(', ')}${moreCount}) but this category is not declared in ` +
               `your PrivacyInfo.xcprivacy. Apple will reject submissions with ITMS-91053.`,
             location: manifestPath,
+            discriminator: categoryKey,
             fixGuidance:
               `Add the following to your PrivacyInfo.xcprivacy under NSPrivacyAccessedAPITypes:\n\n` +
               `<dict>\n` +
@@ -313,6 +541,7 @@ export const RequiredReasonAPIRule: Rule = {
               `</dict>\n\n` +
               `Replace REASON_CODE with the appropriate reason from Apple's documentation.`,
             shortFixText: 'Add the missing API category to NSPrivacyAccessedAPITypes in PrivacyInfo.xcprivacy',
+            fixes: cat ? [declareCategoryFix(cat, manifestPath, files, binaryUsage.has(categoryKey), context.projectPath)] : undefined,
             documentationURL:
               'https://developer.apple.com/documentation/bundleresources/privacy_manifest_files/describing_use_of_required_reason_api',
           })
@@ -0,0 +1,112 @@
+/**
+ * Rule: Commonly Used SDK Without Privacy Manifest
+ *
+ * Apple requires every SDK on its list of commonly used third-party SDKs to
+ * ship its own privacy manifest; App Store Connect rejects uploads embedding
+ * one that doesn't (ITMS-91061). Only dependencies whose sources are installed
+ * (Pods/, Swift package checkouts) or embedded (built bundles) are checked, so
+ * a project whose dependencies were never fetched reports nothing.
+ *
+ * App Store Review Guideline: 5.1.1
+ */
+import * as path from 'path';
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence, RuleCategory, DependencySource } from '../../types/index.js';
+import { makeFinding } from '../base.js';
+import { findCommonlyUsedSDK } from '../../parsers/framework-detector.js';
+import { findDependencyCheckouts, contextSearchRoots } from '../../parsers/dependency-checkouts.js';
+import { containsPrivacyManifest } from '../../parsers/privacy-manifest-discovery.js';
+
+/**
+ * A dependency on Apple's commonly used SDK list that ships no privacy manifest
+ */
+export interface SDKWithoutPrivacyManifest {
+  /** Dependency name (pod, package identity or embedded framework) */
+  dependency: string;
+  version?: string;
+  source: DependencySource;
+  /** SDK name on Apple's list */
+  sdk: string;
+  /** Installed sources or embedded framework that were searched */
+  path: string;
+}
+
+/**
+ * Find the commonly used SDKs among a context's dependencies that ship no privacy manifest
+ */
+export function findSDKsWithoutPrivacyManifest(context: ScanContext): SDKWithoutPrivacyManifest[] {
+  const listed = context.dependencies
+    .map(dependency => ({ dependency, sdk: findCommonlyUsedSDK(dependency.name) }))
+    .filter((entry): entry is { dependency: typeof entry.dependency; sdk: string } => entry.sdk !== undefined);
+  if (listed.length === 0) return [];
+
+  const missing: SDKWithoutPrivacyManifest[] = [];
+  if (context.privacyManifests) {
+    // Built bundle: dependencies are the embedded frameworks
+    for (const { dependency, sdk } of listed) {
+      const name = dependency.name;
+      const shipsManifest = context.privacyManifests.some(m =>
+        !m.isAppManifest && (m.bundleName.startsWith(`${name}.`) || m.bundleName.startsWith(`${name}_`))
+      );
+      if (!shipsManifest) {
+        missing.push({
+          dependency: name,
+          version: dependency.version,
+          source: dependency.source,
+          sdk,
+          path: path.join(context.projectPath, 'Frameworks', `${name}.framework`),
+        });
+      }
+    }
+    return missing;
+  }
+
+  const checkouts = findDependencyCheckouts(contextSearchRoots(context));
+  const seen = new Set<string>();
+  for (const { dependency, sdk } of listed) {
+    const checkout = checkouts.find(c => c.name.toLowerCase() === dependency.name.toLowerCase());
+    if (!checkout || seen.has(checkout.path)) continue;
+    seen.add(checkout.path);
+    if (!containsPrivacyManifest(checkout.path)) {
+      missing.push({
+        dependency: dependency.name,
+        version: dependency.version,
+        source: dependency.source,
+        sdk,
+        path: checkout.path,
+      });
+    }
+  }
+  return missing;
+}
+
+export const SDKMissingPrivacyManifestRule: Rule = {
+  id: 'privacy-015-sdk-missing-privacy-manifest',
+  name: 'Commonly Used SDK Without Privacy Manifest',
+  description: 'Checks that SDKs on Apple\'s list of commonly used third-party SDKs ship their own privacy manifest',
+  category: RuleCategory.Privacy,
+  severity: Severity.High,
+  confidence: Confidence.High,
+  guidelineReference: '5.1.1',
+
+  async evaluate(context: ScanContext): Promise<Finding[]> {
+    return findSDKsWithoutPrivacyManifest(context).map(missing => {
+      const version = missing.version ? ` ${missing.version}` : '';
+      const listedAs = missing.sdk.toLowerCase() === missing.dependency.toLowerCase() ? '' : ` (listed as ${missing.sdk})`;
+      return makeFinding(this, {
+        title: `${missing.dependency} Ships No Privacy Manifest`,
+        description: `${missing.dependency}${version}${listedAs} is on Apple's list of commonly used third-party SDKs, ` +
+          `but ${missing.source === DependencySource.Manual ? 'its embedded framework contains' : 'its installed sources contain'} ` +
+          `no PrivacyInfo.xcprivacy. App Store Connect rejects apps that embed a listed SDK without its privacy ` +
+          `manifest (ITMS-91061).`,
+        location: missing.path,
+        fixGuidance: `Update ${missing.dependency} to a release that includes PrivacyInfo.xcprivacy (most listed SDKs ` +
+          `added one in early 2024), then run \`pod install\` or resolve Swift packages again. If no such release ` +
+          `exists, ask the vendor for one or replace the SDK; declaring its data use in your app's manifest does ` +
+          `not satisfy the requirement.`,
+        shortFixText: `Update ${missing.dependency} to a release that ships PrivacyInfo.xcprivacy`,
+        documentationURL: 'https://developer.apple.com/support/third-party-SDK-requirements/',
+      });
+    });
+  },
+};
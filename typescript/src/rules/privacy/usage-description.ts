@@ -0,0 +1,126 @@
+/**
+ * Shared checks for usage description rules
+ *
+ * A rule decides whether its protected resource is used, from linked frameworks,
+ * entitlements and API calls in the target's sources, then checks the purpose
+ * string: missing, empty, or placeholder text.
+ */
+import type { Rule, Finding, ScanContext } from '../../types/index.js';
+import { Severity, Confidence } from '../../types/index.js';
+import { isPlaceholder } from '../../parsers/plist-parser.js';
+import { makeCustomFinding } from '../base.js';
+
+/**
+ * A purpose string required by the APIs a target uses
+ */
+export interface UsageDescriptionRequirement {
+  /** Info.plist key reported when no purpose string is present */
+  key: string;
+  /** Other keys whose purpose string satisfies the requirement */
+  alternatives?: string[];
+  /** Resource named in finding titles ("Calendars" → "Missing Calendars Usage Description") */
+  resource: string;
+  /** What the app does with the resource ("access the user's calendars") */
+  purpose: string;
+  /** Frameworks, entitlements and source APIs that need the purpose string */
+  evidence: string[];
+  /** Example purpose string for the fix guidance */
+  example: string;
+  /** Extra fix guidance, appended after the example */
+  note?: string;
+  severity?: Severity;
+  confidence?: Confidence;
+}
+
+/**
+ * The target's deployment target (build setting, else MinimumOSVersion), as a major version
+ */
+export function deploymentTargetMajor(context: ScanContext): number | undefined {
+  const version = context.buildSettingValue('IPHONEOS_DEPLOYMENT_TARGET') ?? context.plistString('MinimumOSVersion');
+  const major = version ? parseInt(version, 10) : NaN;
+  return Number.isNaN(major) ? undefined : major;
+}
+
+/**
+ * Check the purpose string of a requirement: missing, empty, or placeholder text
+ */
+export function checkUsageDescription(
+  rule: Pick<Rule, 'id' | 'severity' | 'confidence' | 'guidelineReference'>,
+  context: ScanContext,
+  requirement: UsageDescriptionRequirement
+): Finding[] {
+  const { key, resource, purpose, example } = requirement;
+  const severity = requirement.severity ?? rule.severity;
+  const confidence = requirement.confidence ?? rule.confidence;
+  const location = context.infoPlistPath || 'Info.plist';
+  const presentKey = [key, ...(requirement.alternatives ?? [])].find(k => context.plistString(k) !== undefined);
+  const note = requirement.note ? `\n\n${requirement.note}` : '';
+
+  // Case 1: Completely missing
+  if (presentKey === undefined) {
+    const alternatives = requirement.alternatives?.length
+      ? ` (or ${requirement.alternatives.join(' / ')})`
+      : '';
+    return [
+      makeCustomFinding(rule, severity, confidence, {
+        title: `Missing ${resource} Usage Description`,
+        description:
+          `Your app uses ${requirement.evidence.join(', ')} but Info.plist is missing ${key}${alternatives}. ` +
+          `Apps that ${purpose} must provide a purpose string explaining why access is needed.`,
+        location,
+        fixGuidance:
+          `Add ${key} to your Info.plist with a clear, user-facing explanation. For example:\n\n` +
+          `<key>${key}</key>\n` +
+          `<string>${example}</string>${note}`,
+        shortFixText: `Add ${key} to Info.plist explaining why your app needs to ${purpose}`,
+        documentationURL: documentationURL(key),
+      }),
+    ];
+  }
+
+  const value = context.plistString(presentKey) as string;
+
+  // Case 2: Empty or whitespace only
+  if (value.trim() === '') {
+    return [
+      makeCustomFinding(rule, severity, confidence, {
+        title: `Empty ${resource} Usage Description`,
+        description:
+          `${presentKey} exists in Info.plist but is empty. ` +
+          `Apple requires a meaningful description explaining why your app needs to ${purpose}.`,
+        location,
+        fixGuidance:
+          `Update ${presentKey} with a clear, specific explanation of the feature that needs it. ` +
+          `Generic or empty descriptions may be rejected.\n\n` +
+          `Good example: "${example}"`,
+        shortFixText: `Replace the empty ${presentKey} with a meaningful explanation`,
+        documentationURL: documentationURL(presentKey),
+      }),
+    ];
+  }
+
+  // Case 3: Placeholder text detected
+  if (isPlaceholder(value)) {
+    return [
+      makeCustomFinding(rule, severity, confidence, {
+        title: `Placeholder ${resource} Usage Description`,
+        description:
+          `${presentKey} appears to contain placeholder text: "${value}". ` +
+          `Apple requires meaningful, user-facing descriptions.`,
+        location,
+        fixGuidance:
+          `Replace the placeholder text with a clear explanation of why your app needs to ${purpose}. ` +
+          `The description should be specific to your app's features.\n\n` +
+          `Current value: "${value}"`,
+        shortFixText: `Replace the placeholder ${presentKey} with a real explanation`,
+        documentationURL: documentationURL(presentKey),
+      }),
+    ];
+  }
+
+  return [];
+}
+
+function documentationURL(key: string): string {
+  return `https://developer.apple.com/documentation/bundleresources/information_property_list/${key.toLowerCase()}`;
+}
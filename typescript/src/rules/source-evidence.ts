@@ -0,0 +1,155 @@
+/**
+ * Source-level evidence shared by rules
+ *
+ * Reads a target's Swift and Objective-C sources once per scan (comments
+ * stripped) and matches API patterns against them. Localized string files
+ * are read the same way for rules that look for user-facing text.
+ */
+import * as fs from 'fs';
+import type { ScanContext } from '../types/index.js';
+import { findSourceFiles } from './privacy/required-reason-api.js';
+
+/**
+ * A source-level API a rule looks for
+ */
+export interface SourceAPIPattern {
+  label: string;
+  pattern: RegExp;
+}
+
+/**
+ * A pattern match in a source file
+ */
+export interface SourceMatch {
+  file: string;
+  line: number;
+  /** The matched text */
+  text: string;
+}
+
+// String literals come first so that "//" inside a URL does not start a comment
+const COMMENT_OR_STRING = /("(?:\\.|[^"\\\n])*")|\/\/.*$|\/\*[\s\S]*?\*\//gm;
+
+function stripComments(source: string): string {
+  return source.replace(COMMENT_OR_STRING, (match, literal: string | undefined) => literal ?? '');
+}
+
+interface SourceFile {
+  path: string;
+  original: string;
+  /** Content without comments, used for matching */
+  content: string;
+}
+
+/**
+ * Source files of each context, shared by the rules of one scan (and by the
+ * contexts of other build configurations through baseContext)
+ */
+const sourceCache = new WeakMap<ScanContext, SourceFile[]>();
+
+/**
+ * Localized string files of each context
+ */
+const stringsCache = new WeakMap<ScanContext, SourceFile[]>();
+
+const LOCALIZED_STRINGS_EXTENSIONS = ['.strings', '.stringsdict', '.xcstrings'];
+
+function readSources(context: ScanContext): SourceFile[] {
+  const key = context.baseContext ?? context;
+  let files = sourceCache.get(key);
+  if (!files) {
+    files = [];
+    for (const file of findSourceFiles(context.sourceRoot, context.sourceFilter)) {
+      try {
+        const original = fs.readFileSync(file, 'utf-8');
+        files.push({ path: file, original, content: stripComments(original) });
+      } catch {
+        // Unreadable files carry no evidence
+      }
+    }
+    sourceCache.set(key, files);
+  }
+  return files;
+}
+
+/**
+ * Decodes a .strings file, which Xcode may write as UTF-16
+ */
+function decodeStrings(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return Buffer.from(buffer.subarray(2)).swap16().toString('utf16le');
+  }
+  return buffer.toString('utf-8');
+}
+
+function readLocalizedStrings(context: ScanContext): SourceFile[] {
+  const key = context.baseContext ?? context;
+  let files = stringsCache.get(key);
+  if (!files) {
+    files = [];
+    for (const file of findSourceFiles(context.sourceRoot, context.sourceFilter, LOCALIZED_STRINGS_EXTENSIONS)) {
+      try {
+        const content = decodeStrings(fs.readFileSync(file));
+        files.push({ path: file, original: content, content });
+      } catch {
+        // Unreadable files carry no evidence
+      }
+    }
+    stringsCache.set(key, files);
+  }
+  return files;
+}
+
+/**
+ * Whether the target has any Swift or Objective-C source to scan
+ */
+export function hasSourceFiles(context: ScanContext): boolean {
+  return readSources(context).length > 0;
+}
+
+/**
+ * Labels of the patterns that occur in the target's source files
+ */
+export function detectSourceAPIs(context: ScanContext, patterns: SourceAPIPattern[]): string[] {
+  const files = readSources(context);
+  return patterns
+    .filter(({ pattern }) => files.some(file => pattern.test(file.content)))
+    .map(({ label }) => label);
+}
+
+/**
+ * Every match of a pattern in the target's source files, with its line
+ *
+ * @param pattern Matched against comment-free content; the global flag is added if missing
+ */
+export function findSourceMatches(context: ScanContext, pattern: RegExp): SourceMatch[] {
+  return matchFiles(readSources(context), pattern);
+}
+
+/**
+ * Every match of a pattern in the target's localized string files
+ * (.strings, .stringsdict and .xcstrings), with its line
+ */
+export function findLocalizedStringMatches(context: ScanContext, pattern: RegExp): SourceMatch[] {
+  return matchFiles(readLocalizedStrings(context), pattern);
+}
+
+function matchFiles(files: SourceFile[], pattern: RegExp): SourceMatch[] {
+  const global = pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+  const matches: SourceMatch[] = [];
+  for (const file of files) {
+    // Where to look for the next occurrence of each matched text
+    const cursors = new Map<string, number>();
+    for (const match of file.content.matchAll(global)) {
+      // Stripped comments shift offsets, so locate the text in the original file
+      const index = file.original.indexOf(match[0], cursors.get(match[0]) ?? 0);
+      cursors.set(match[0], index + 1);
+      const line = index === -1 ? 1 : file.original.slice(0, index).split('\n').length;
+      matches.push({ file: file.path, line, text: match[0] });
+    }
+  }
+  return matches;
+}
@@ -29,6 +29,8 @@ export enum RuleCategory {
   Privacy = 'privacy',
   Auth = 'auth',
   Entitlements = 'entitlements',
+  Payments = 'payments',
+  Kids = 'kids',
   Performance = 'performance',
   Content = 'content',
   Metadata = 'metadata',
@@ -43,6 +45,10 @@ export enum DependencySource {
   SPM = 'spm',
   Carthage = 'carthage',
   Manual = 'manual',
+  /** JavaScript packages of a React Native, Expo, Capacitor or Cordova app */
+  NPM = 'npm',
+  /** Dart packages of a Flutter app */
+  Pub = 'pub',
 }
 
 /**
@@ -75,8 +81,42 @@ export interface Finding {
   suppressed?: boolean;
   /** Reason for suppression */
   suppressionReason?: string;
+  /** Name of the Xcode target the finding applies to */
+  targetName?: string;
+  /** Product type of that target (e.g. com.apple.product-type.app-extension) */
+  productType?: string;
+  /** Build configurations the finding applies to (set when every configuration is scanned) */
+  configurations?: string[];
+  /**
+   * Rule-provided value that tells apart findings of the same rule at the same
+   * location (e.g. an API category key or SDK name). Defaults to the title.
+   */
+  discriminator?: string;
+  /** Stable identity of the finding across runs (set by the scanner) */
+  fingerprint?: string;
+  /** Mechanical edits that resolve the finding (applied by `shiplint fix`) */
+  fixes?: FixEdit[];
 }
 
+/**
+ * A value written into a plist by a fix
+ */
+export type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+/**
+ * A structured edit that resolves a finding
+ *
+ * Edits are applied as text changes so the rest of the file keeps its
+ * formatting and key order.
+ */
+export type FixEdit =
+  /** Set a top-level key of an XML plist (Info.plist, entitlements, privacy manifest) */
+  | { type: 'plist-set'; file: string; key: string; value: PlistValue; description: string }
+  /** Append an item to a top-level array of an XML plist, creating the array if needed (with an XML comment above it) */
+  | { type: 'plist-append'; file: string; key: string; value: PlistValue; comment?: string; description: string }
+  /** Set a build setting in every build configuration of a target in project.pbxproj */
+  | { type: 'build-setting'; file: string; target: string; key: string; value: string; description: string };
+
 /**
  * Result of a scan
  */
@@ -85,16 +125,102 @@ export interface ScanResult {
   timestamp: Date;
   findings: Finding[];
   suppressedFindings: Finding[];
+  /** Findings recorded in the baseline (only set when scanning with a baseline) */
+  baselinedFindings?: Finding[];
   rulesRun: string[];
   duration: number;
-  /** Project type detected: xcodeproj, swiftpm, both, or unknown */
-  projectType: 'xcodeproj' | 'swiftpm' | 'both' | 'unknown';
+  /**
+   * Project type detected: xcodeproj, swiftpm, both, a built bundle (ipa, app),
+   * a cross-platform project (react-native, flutter, capacitor, unity, kmp), or unknown
+   */
+  projectType: 'xcodeproj' | 'swiftpm' | 'both' | 'ipa' | 'app' | 'react-native' | 'flutter' | 'capacitor' | 'unity' | 'kmp' | 'unknown';
   /** How frameworks were detected */
   frameworkDetectionMethod: 'pbxproj' | 'import-scan' | 'both';
   /** Framework names found (anonymous — no paths) */
   frameworksDetected: string[];
   /** Number of targets scanned */
   targetCount: number;
+  /** Build configuration whose settings were scanned (unset for built bundles and projects without one) */
+  configuration?: string;
+  /** Every build configuration scanned (set when scanning all configurations) */
+  configurations?: string[];
+  /** Config file the scan was run with, if any */
+  configPath?: string;
+  /** Baseline file the scan was compared against, if any */
+  baselinePath?: string;
+  /** Plugins that failed to load, or whose rules threw during evaluation */
+  pluginErrors?: PluginError[];
+  /** Whether the run passed the failure policy (always set by scan()) */
+  policy?: PolicyResult;
+}
+
+/**
+ * When a scan counts as failed
+ *
+ * Set in the config file under "policy" or with --fail-on, --min-confidence
+ * and --max-warnings (command-line values win).
+ */
+export interface FailurePolicy {
+  /** Fail on findings at or above this severity; "none" never fails on severity (default: critical) */
+  failOn?: Severity | 'none';
+  /** Findings below this confidence are reported but never fail the run (default: low) */
+  minConfidence?: Confidence;
+  /** Fail when more than this many warnings remain (default: unlimited) */
+  maxWarnings?: number;
+}
+
+/**
+ * Outcome of applying a failure policy to a scan's findings
+ */
+export interface PolicyResult {
+  passed: boolean;
+  /** The policy that was applied, with defaults filled in */
+  policy: Required<Omit<FailurePolicy, 'maxWarnings'>> & Pick<FailurePolicy, 'maxWarnings'>;
+  /** Findings at or above the failOn severity and minConfidence */
+  failingCount: number;
+  /** Other findings at or above minConfidence, excluding info */
+  warningCount: number;
+  /** Why the run failed (empty when it passed) */
+  reasons: string[];
+}
+
+/**
+ * A problem with a custom rule plugin
+ */
+export interface PluginError {
+  /** Plugin specifier as given in the config file or on the command line */
+  plugin: string;
+  /** Rule the problem belongs to, when it is rule-specific */
+  ruleId?: string;
+  message: string;
+}
+
+/**
+ * A privacy manifest shipped inside a built bundle
+ */
+export interface BundledPrivacyManifest {
+  path: string;
+  /** Bundle directory holding the manifest (e.g. MyApp.app, FirebaseCore.framework) */
+  bundleName: string;
+  /** Whether this is the scanned bundle's own manifest rather than an SDK's */
+  isAppManifest: boolean;
+}
+
+/**
+ * A compiled Mach-O binary shipped in a bundle or vendored into the project
+ */
+export interface BinaryImage {
+  path: string;
+  /** Bundle that ships the binary (e.g. MyApp.app, Vendor.framework) */
+  bundleName: string;
+  /** Architecture of the slice that was read (arm64 preferred) */
+  arch: string;
+  /** Install names of linked dylibs and frameworks */
+  dylibs: string[];
+  /** Undefined external symbols without the leading underscore (e.g. dlopen, OBJC_CLASS_$_UIWebView) */
+  importedSymbols: string[];
+  /** Objective-C selectors the binary sends */
+  selectors: string[];
 }
 
 /**
@@ -116,6 +242,12 @@ export interface ParsedInfoPlist {
  */
 export interface ScanContext {
   projectPath: string;
+  /** Directory whose source files belong to this target (the project path for the main app) */
+  sourceRoot: string;
+  /** Name of the Xcode target this context was built for */
+  targetName?: string;
+  /** Product type of that target */
+  productType?: string;
   infoPlist: Record<string, unknown>;
   infoPlistPath?: string;
   entitlements: Record<string, unknown>;
@@ -123,8 +255,20 @@ export interface ScanContext {
   pbxprojPath?: string;
   linkedFrameworks: Set<string>;
   dependencies: Dependency[];
-  /** Build settings from the main target's build configuration */
+  /** Build settings from the target's build configuration */
   buildSettings: Record<string, string>;
+  /** Rule-specific options from the config file, keyed by rule ID */
+  ruleOptions: Record<string, Record<string, unknown>>;
+  /** Kids Category as declared in the config file (undefined = infer it from the project) */
+  kidsCategory?: boolean;
+  /** Config-driven filter for source-scanning rules (undefined = every file) */
+  sourceFilter?: (filePath: string) => boolean;
+  /** Privacy manifests found in a built bundle (set for IPA/.app scans only) */
+  privacyManifests?: BundledPrivacyManifest[];
+  /** Compiled binaries to inspect where no source exists (bundle executables, vendored frameworks) */
+  binaries?: BinaryImage[];
+  /** The same target's context in the first scanned configuration, whose sources this one shares */
+  baseContext?: ScanContext;
   
   // Helper methods
   plistString(key: string): string | undefined;
@@ -141,12 +285,19 @@ export interface ScanContext {
   generatesInfoPlist(): boolean;
   /** Whether this target is an app extension (not a full app) */
   isExtension(): boolean;
+  /** Whether this target is a watchOS app or WatchKit extension */
+  isWatchTarget(): boolean;
   /** Whether this is a macOS-only target (no iOS support) */
   isMacOSOnly(): boolean;
   /** Whether this is a framework/library target (not an app) */
   isFrameworkTarget(): boolean;
 }
 
+/**
+ * Type of a rule option accepted in the config file
+ */
+export type RuleOptionType = 'string' | 'string[]' | 'boolean' | 'number';
+
 /**
  * Rule interface - each rule must implement this
  */
@@ -158,6 +309,10 @@ export interface Rule {
   severity: Severity;
   confidence: Confidence;
   guidelineReference: string;
+  /** Options accepted under ruleOptions.<id> in the config file */
+  options?: Record<string, RuleOptionType>;
+  /** Plugin that registered this rule (undefined for built-in rules) */
+  plugin?: string;
   
   /**
    * Evaluate the rule against the scan context
@@ -184,4 +339,16 @@ export interface ScanOptions {
   rules?: string[];
   exclude?: string[];
   showSuppressed?: boolean;
+  /** Explicit config file path (default: discover .shiplintrc / shiplint.config.json) */
+  config?: string;
+  /** Extra plugin modules to load (resolved against the current directory) */
+  plugins?: string[];
+  /** Baseline file; findings recorded in it are moved to baselinedFindings */
+  baseline?: string;
+  /** Failure policy; overrides the config file's "policy" key by key */
+  policy?: FailurePolicy;
+  /** Build configuration to scan; overrides the config file's "configuration" */
+  configuration?: string;
+  /** Scan every build configuration and report which ones each finding applies to */
+  allConfigurations?: boolean;
 }
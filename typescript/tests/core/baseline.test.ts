@@ -0,0 +1,147 @@
+/**
+ * Tests for baseline.ts (recording existing findings, failing only on new ones)
+ */
+// Mock chalk to avoid ESM issues in Jest
+const passthrough = (text: string) => text;
+const handler: ProxyHandler<any> = {
+  get: (_target: any, prop: string) => {
+    if (prop === 'default') return new Proxy(passthrough, handler);
+    if (prop === '__esModule') return true;
+    if (prop === 'then') return undefined;
+    return new Proxy(passthrough, handler);
+  },
+  apply: (_target: any, _thisArg: any, args: any[]) => args[0],
+};
+jest.mock('chalk', () => new Proxy(passthrough, handler));
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  applyBaseline,
+  createBaseline,
+  loadBaseline,
+  writeBaseline,
+  InvalidBaselineError,
+} from '../../src/core/baseline';
+import { fingerprintFinding } from '../../src/core/fingerprint';
+import { scan } from '../../src/core/scanner';
+import { formatText } from '../../src/formatters/text';
+import { formatJSON } from '../../src/formatters/json';
+import { formatSARIF } from '../../src/formatters/sarif';
+import type { Finding } from '../../src/types';
+import { Severity, Confidence } from '../../src/types';
+
+function makeFinding(overrides: Partial<Finding> = {}): Finding {
+  return {
+    ruleId: 'code-001-private-api-usage',
+    severity: Severity.Critical,
+    confidence: Confidence.High,
+    title: 'UIWebView Usage (Deprecated & Rejected)',
+    description: 'UIWebView detected',
+    guideline: '2.5.1',
+    fixGuidance: 'Replace with WKWebView',
+    ...overrides,
+  };
+}
+
+describe('baseline', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-baseline-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('applyBaseline', () => {
+    it('matches each baseline entry at most once', () => {
+      const existing = makeFinding({ location: 'Info.plist' });
+      const baseline = {
+        version: 1,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        findings: [{ fingerprint: fingerprintFinding(existing, tempDir), ruleId: existing.ruleId }],
+      };
+      const fresh = makeFinding({ ruleId: 'config-002-missing-encryption-flag', location: 'Info.plist' });
+
+      const result = applyBaseline([existing, { ...existing }, fresh], baseline, tempDir);
+
+      expect(result.baselinedFindings).toHaveLength(1);
+      expect(result.newFindings.map(f => f.ruleId)).toEqual([
+        'code-001-private-api-usage',
+        'config-002-missing-encryption-flag',
+      ]);
+    });
+  });
+
+  describe('loadBaseline', () => {
+    it('round-trips a written baseline', () => {
+      const baselinePath = path.join(tempDir, 'shiplint-baseline.json');
+      const baseline = { version: 1, createdAt: '2026-01-01T00:00:00.000Z', findings: [{ fingerprint: 'abc', ruleId: 'r' }] };
+      writeBaseline(baselinePath, baseline);
+      expect(loadBaseline(baselinePath)).toEqual(baseline);
+    });
+
+    it('rejects missing and malformed files', () => {
+      expect(() => loadBaseline(path.join(tempDir, 'missing.json'))).toThrow('file not found');
+
+      const badPath = path.join(tempDir, 'bad.json');
+      fs.writeFileSync(badPath, JSON.stringify({ version: 1, findings: [{ ruleId: 'x' }] }));
+      expect(() => loadBaseline(badPath)).toThrow(InvalidBaselineError);
+
+      fs.writeFileSync(badPath, JSON.stringify({ version: 99, findings: [] }));
+      expect(() => loadBaseline(badPath)).toThrow('unsupported version 99');
+    });
+  });
+
+  describe('scan with a baseline', () => {
+    const rules = ['code-001-private-api-usage'];
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(tempDir, 'App'));
+      fs.writeFileSync(path.join(tempDir, 'App', 'Web.swift'), 'import UIKit\nlet web = UIWebView()\n');
+    });
+
+    it('moves recorded findings to baselinedFindings and reports only new ones', async () => {
+      const baselinePath = path.join(tempDir, 'shiplint-baseline.json');
+      writeBaseline(baselinePath, createBaseline(await scan({ path: tempDir, rules })));
+
+      fs.writeFileSync(
+        path.join(tempDir, 'App', 'Web.swift'),
+        'import UIKit\n\nlet web = UIWebView()\nlet popup = UIWebView(frame: .zero)\n'
+      );
+      const result = await scan({ path: tempDir, rules, baseline: baselinePath });
+
+      expect(result.baselinePath).toBe(baselinePath);
+      expect(result.baselinedFindings?.map(f => f.line)).toEqual([3]);
+      expect(result.findings.map(f => f.line)).toEqual([4]);
+
+      const text = await formatText(result, { version: '1.0.0' });
+      expect(text).toContain('1 new error');
+      expect(text).toContain('1 baselined');
+
+      expect(JSON.parse(formatJSON(result)).baselineCounts).toEqual({ new: 1, baselined: 1 });
+
+      const sarif = JSON.parse(formatSARIF(result));
+      expect(sarif.runs[0].results.map((r: any) => r.baselineState)).toEqual(['new', 'unchanged']);
+      expect(sarif.runs[0].results[1].suppressions[0].kind).toBe('external');
+      expect(sarif.runs[0].properties).toEqual({ newFindings: 1, baselinedFindings: 1 });
+    });
+
+    it('leaves results unchanged without a baseline', async () => {
+      const result = await scan({ path: tempDir, rules });
+
+      expect(result.baselinedFindings).toBeUndefined();
+      expect(JSON.parse(formatJSON(result)).baselineCounts).toBeUndefined();
+      expect(JSON.parse(formatSARIF(result)).runs[0].results[0].baselineState).toBeUndefined();
+      expect(await formatText(result, { version: '1.0.0' })).not.toContain('baselined');
+    });
+
+    it('fails before running rules when the baseline cannot be read', async () => {
+      await expect(scan({ path: tempDir, rules, baseline: path.join(tempDir, 'nope.json') }))
+        .rejects.toThrow(InvalidBaselineError);
+    });
+  });
+});
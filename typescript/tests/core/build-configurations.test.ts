@@ -0,0 +1,172 @@
+/**
+ * Tests for scanning a chosen build configuration, or every configuration
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { scan, UnknownConfigurationError, InvalidOptionsError } from '../../src/core/scanner';
+import { discoverProject, createConfigurationContexts } from '../../src/parsers/project-parser';
+import type { Finding } from '../../src/types';
+
+const INFO_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>CFBundleIdentifier</key>
+  <string>com.example.app</string>
+</dict>
+</plist>`;
+
+const entitlements = (apsEnvironment: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>aps-environment</key>
+  <string>${apsEnvironment}</string>
+</dict>
+</plist>`;
+
+const targetConfig = (id: string, name: string, entitlementsFile: string) => `
+    ${id} /* ${name} */ = {
+      isa = XCBuildConfiguration;
+      buildSettings = {
+        CODE_SIGN_ENTITLEMENTS = App/${entitlementsFile};
+        INFOPLIST_FILE = App/Info.plist;
+      };
+      name = ${name};
+    };`;
+
+const PBXPROJ = `// !$*UTF8*$!
+{
+  objects = {
+/* Begin PBXNativeTarget section */
+    T1000000000000000001 /* App */ = {
+      isa = PBXNativeTarget;
+      buildConfigurationList = L1000000000000000002 /* Build configuration list for PBXNativeTarget "App" */;
+      buildPhases = (
+      );
+      name = App;
+      productName = App;
+      productType = "com.apple.product-type.application";
+    };
+/* End PBXNativeTarget section */
+/* Begin XCBuildConfiguration section */
+    C1000000000000000001 /* Debug */ = {isa = XCBuildConfiguration; buildSettings = { SDKROOT = iphoneos; }; name = Debug; };
+    C1000000000000000002 /* Release */ = {isa = XCBuildConfiguration; buildSettings = { SDKROOT = iphoneos; }; name = Release; };
+    C1000000000000000003 /* AppStore */ = {isa = XCBuildConfiguration; buildSettings = { SDKROOT = iphoneos; }; name = AppStore; };
+${targetConfig('C2000000000000000001', 'Debug', 'App.entitlements')}
+${targetConfig('C2000000000000000002', 'Release', 'App.entitlements')}
+${targetConfig('C2000000000000000003', 'AppStore', 'AppStore.entitlements')}
+/* End XCBuildConfiguration section */
+/* Begin XCConfigurationList section */
+    L1000000000000000001 /* Build configuration list for PBXProject "App" */ = {
+      isa = XCConfigurationList;
+      buildConfigurations = (
+        C1000000000000000001 /* Debug */,
+        C1000000000000000002 /* Release */,
+        C1000000000000000003 /* AppStore */,
+      );
+    };
+    L1000000000000000002 /* Build configuration list for PBXNativeTarget "App" */ = {
+      isa = XCConfigurationList;
+      buildConfigurations = (
+        C2000000000000000001 /* Debug */,
+        C2000000000000000002 /* Release */,
+        C2000000000000000003 /* AppStore */,
+      );
+    };
+/* End XCConfigurationList section */
+  };
+  rootObject = R1000000000000000001 /* Project object */;
+}`;
+
+const RULES = ['entitlements-001-push-notification-mismatch', 'config-002-missing-encryption-flag'];
+
+describe('build configuration selection', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-configurations-'));
+    write('App.xcodeproj/project.pbxproj', PBXPROJ);
+    write('App/Info.plist', INFO_PLIST);
+    write('App/App.entitlements', entitlements('development'));
+    // Only the configuration that ships has the broken entitlement
+    write('App/AppStore.entitlements', entitlements('prod'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  const pushFindings = (findings: Finding[]) =>
+    findings.filter(finding => finding.ruleId === 'entitlements-001-push-notification-mismatch');
+
+  it('scans Release by default', async () => {
+    const result = await scan({ path: tempDir, rules: RULES });
+
+    expect(result.configuration).toBe('Release');
+    expect(result.configurations).toBeUndefined();
+    expect(pushFindings(result.findings)).toHaveLength(0);
+  });
+
+  it('reads the chosen configuration\'s entitlements', async () => {
+    const result = await scan({ path: tempDir, rules: RULES, configuration: 'appstore' });
+
+    expect(result.configuration).toBe('AppStore');
+    const [finding] = pushFindings(result.findings);
+    expect(finding.title).toBe('Invalid aps-environment Entitlement');
+    expect(finding.location).toBe(path.join(tempDir, 'App', 'AppStore.entitlements'));
+  });
+
+  it('takes the configuration from the config file unless the command line sets one', async () => {
+    write('.shiplintrc', '{"configuration": "AppStore"}');
+    expect(pushFindings((await scan({ path: tempDir, rules: RULES })).findings)).toHaveLength(1);
+
+    write('.shiplintrc', '{"allConfigurations": true}');
+    const result = await scan({ path: tempDir, rules: RULES, configuration: 'Debug' });
+    expect(result.configuration).toBe('Debug');
+    expect(pushFindings(result.findings)).toHaveLength(0);
+  });
+
+  it('reports which configurations each finding applies to', async () => {
+    const result = await scan({ path: tempDir, rules: RULES, allConfigurations: true });
+
+    expect(result.configuration).toBeUndefined();
+    expect(result.configurations).toEqual(['Debug', 'Release', 'AppStore']);
+    expect(result.targetCount).toBe(1);
+    expect(pushFindings(result.findings).map(finding => finding.configurations)).toEqual([['AppStore']]);
+    const encryption = result.findings.filter(finding => finding.ruleId === 'config-002-missing-encryption-flag');
+    expect(encryption.map(finding => finding.configurations)).toEqual([['Debug', 'Release', 'AppStore']]);
+  });
+
+  it('reads only configuration-dependent artifacts again for later configurations', () => {
+    const [debug, release, appStore] = createConfigurationContexts(discoverProject(tempDir), ['Debug', 'Release', 'AppStore']);
+
+    expect(appStore[0].entitlementString('aps-environment')).toBe('prod');
+    expect(debug[0].entitlementString('aps-environment')).toBe('development');
+    for (const [context] of [release, appStore]) {
+      expect(context.baseContext).toBe(debug[0]);
+      expect(context.linkedFrameworks).toBe(debug[0].linkedFrameworks);
+      expect(context.dependencies).toBe(debug[0].dependencies);
+      expect(context.binaries).toBe(debug[0].binaries);
+    }
+  });
+
+  it('rejects a configuration the project does not have', async () => {
+    await expect(scan({ path: tempDir, configuration: 'Staging' })).rejects.toThrow(UnknownConfigurationError);
+    await expect(scan({ path: tempDir, configuration: 'Staging' }))
+      .rejects.toThrow('Available configurations: Debug, Release, AppStore');
+  });
+
+  it('rejects --configuration together with --all-configurations', async () => {
+    const conflicting = scan({ path: tempDir, configuration: 'Release', allConfigurations: true });
+    await expect(conflicting).rejects.toThrow(InvalidOptionsError);
+    await expect(conflicting).rejects.toThrow('Use either --configuration or --all-configurations, not both');
+  });
+});
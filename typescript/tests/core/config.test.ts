@@ -0,0 +1,233 @@
+/**
+ * Tests for config.ts (.shiplintrc / shiplint.config.json)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  loadConfig,
+  validateConfig,
+  findConfigFile,
+  globToRegExp,
+  createSourceFilter,
+  InvalidConfigError,
+} from '../../src/core/config';
+import { scan } from '../../src/core/scanner';
+import { allRules } from '../../src/rules';
+
+const INFO_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>CFBundleIdentifier</key>
+  <string>com.example.test</string>
+</dict>
+</plist>`;
+
+describe('validateConfig', () => {
+  it('accepts a full valid config', () => {
+    const problems = validateConfig({
+      rules: ['privacy-001-missing-camera-purpose'],
+      exclude: ['config-002-missing-encryption-flag'],
+      severity: { 'code-003-dynamic-code-execution': 'high' },
+      sources: { include: ['App/**'], exclude: ['**/Generated/**'] },
+      configuration: 'Debug',
+      kidsCategory: true,
+      ruleOptions: {
+        'code-003-dynamic-code-execution': { safeClasses: ['MyPluginHost'] },
+        'privacy-003-att-tracking-mismatch': { trackingSDKs: ['MyAttributionKit'] },
+      },
+    }, allRules);
+
+    expect(problems).toEqual([]);
+  });
+
+  it('reports unknown top-level and nested keys', () => {
+    const problems = validateConfig({ rulez: [], sources: { paths: [] } }, allRules);
+
+    expect(problems).toContain('unknown key "rulez"');
+    expect(problems).toContain('unknown key "sources.paths"');
+  });
+
+  it('reports unknown rule IDs', () => {
+    const problems = validateConfig({
+      exclude: ['privacy-001-typo'],
+      severity: { 'nope-rule': 'low' },
+    }, allRules);
+
+    expect(problems.some(p => p.includes('privacy-001-typo'))).toBe(true);
+    expect(problems.some(p => p.includes('nope-rule'))).toBe(true);
+  });
+
+  it('reports invalid severities', () => {
+    const problems = validateConfig({ severity: { 'code-003-dynamic-code-execution': 'fatal' } }, allRules);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain('invalid severity "fatal"');
+  });
+
+  it('reports unknown and mistyped rule options', () => {
+    const problems = validateConfig({
+      ruleOptions: {
+        'code-003-dynamic-code-execution': { safeClasses: 'MyPluginHost', allowAll: true },
+        'config-002-missing-encryption-flag': { strict: true },
+      },
+    }, allRules);
+
+    expect(problems).toContain('option "safeClasses" for code-003-dynamic-code-execution must be string[]');
+    expect(problems.some(p => p.startsWith('unknown option "allowAll"'))).toBe(true);
+    expect(problems).toContain('unknown option "strict" for config-002-missing-encryption-flag (rule has no options)');
+  });
+
+  it('reports a non-boolean kidsCategory', () => {
+    expect(validateConfig({ kidsCategory: 'yes' }, allRules)).toEqual(['"kidsCategory" must be true or false']);
+  });
+
+  it('reports a non-boolean allConfigurations, or one combined with configuration', () => {
+    expect(validateConfig({ allConfigurations: 'yes' }, allRules)).toEqual(['"allConfigurations" must be true or false']);
+    expect(validateConfig({ configuration: 'AppStore', allConfigurations: true }, allRules))
+      .toEqual(['set either "configuration" or "allConfigurations", not both']);
+  });
+
+  it('rejects a non-object root', () => {
+    expect(validateConfig([], allRules)).toEqual(['root must be a JSON object']);
+  });
+});
+
+describe('loadConfig', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-config-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('returns undefined when no config file exists', () => {
+    expect(findConfigFile(tempDir)).toBeUndefined();
+    expect(loadConfig(tempDir, allRules)).toBeUndefined();
+  });
+
+  it('prefers .shiplintrc over shiplint.config.json', () => {
+    fs.writeFileSync(path.join(tempDir, 'shiplint.config.json'), '{"exclude": []}');
+    fs.writeFileSync(path.join(tempDir, '.shiplintrc'), '{"configuration": "Debug"}');
+
+    const loaded = loadConfig(tempDir, allRules);
+    expect(loaded?.path).toBe(path.join(tempDir, '.shiplintrc'));
+    expect(loaded?.config.configuration).toBe('Debug');
+  });
+
+  it('throws InvalidConfigError for malformed JSON', () => {
+    fs.writeFileSync(path.join(tempDir, 'shiplint.config.json'), '{ exclude: ');
+    expect(() => loadConfig(tempDir, allRules)).toThrow(InvalidConfigError);
+  });
+
+  it('throws InvalidConfigError with every problem listed', () => {
+    fs.writeFileSync(path.join(tempDir, '.shiplintrc'), JSON.stringify({ foo: 1, exclude: ['bad-rule'] }));
+
+    try {
+      loadConfig(tempDir, allRules);
+      fail('Expected InvalidConfigError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidConfigError);
+      expect((error as InvalidConfigError).problems).toHaveLength(2);
+    }
+  });
+
+  it('throws when an explicit config path does not exist', () => {
+    expect(() => loadConfig(tempDir, allRules, path.join(tempDir, 'missing.json'))).toThrow(InvalidConfigError);
+  });
+});
+
+describe('source globs', () => {
+  it('converts globs to regular expressions', () => {
+    expect(globToRegExp('Vendor/**').test('Vendor/Lib/a.swift')).toBe(true);
+    expect(globToRegExp('**/*Tests.swift').test('App/FooTests.swift')).toBe(true);
+    expect(globToRegExp('**/*Tests.swift').test('FooTests.swift')).toBe(true);
+    expect(globToRegExp('*.swift').test('App/Foo.swift')).toBe(false);
+    expect(globToRegExp('App/?oo.m').test('App/Foo.m')).toBe(true);
+  });
+
+  it('applies include then exclude relative to the project root', () => {
+    const filter = createSourceFilter('/project', { include: ['App/**'], exclude: ['App/Generated/**'] })!;
+
+    expect(filter('/project/App/View.swift')).toBe(true);
+    expect(filter('/project/App/Generated/Api.swift')).toBe(false);
+    expect(filter('/project/Scripts/tool.swift')).toBe(false);
+  });
+
+  it('returns undefined when no globs are configured', () => {
+    expect(createSourceFilter('/project', {})).toBeUndefined();
+    expect(createSourceFilter('/project')).toBeUndefined();
+  });
+});
+
+describe('scan with config file', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-config-scan-test-'));
+    const xcodeprojDir = path.join(tempDir, 'MyApp.xcodeproj');
+    fs.mkdirSync(xcodeprojDir);
+    fs.writeFileSync(path.join(xcodeprojDir, 'project.pbxproj'), '// minimal project');
+    fs.writeFileSync(path.join(tempDir, 'Info.plist'), INFO_PLIST);
+    fs.mkdirSync(path.join(tempDir, 'Vendor'));
+    fs.writeFileSync(
+      path.join(tempDir, 'Vendor', 'Loader.swift'),
+      'let cls: AnyClass? = NSClassFromString("MyPluginHost")\n'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: unknown) =>
+    fs.writeFileSync(path.join(tempDir, 'shiplint.config.json'), JSON.stringify(config));
+
+  const dynamicCodeFindings = async () => {
+    const result = await scan({ path: tempDir, rules: ['code-003-dynamic-code-execution'] });
+    return result.findings;
+  };
+
+  it('reports the config path in the result', async () => {
+    writeConfig({ exclude: ['config-002-missing-encryption-flag'] });
+    const result = await scan({ path: tempDir });
+
+    expect(result.configPath).toBe(path.join(tempDir, 'shiplint.config.json'));
+    expect(result.rulesRun).not.toContain('config-002-missing-encryption-flag');
+  });
+
+  it('lets --rules override the config file rule selection', async () => {
+    writeConfig({ rules: ['config-002-missing-encryption-flag'] });
+    const result = await scan({ path: tempDir, rules: ['privacy-001-missing-camera-purpose'] });
+
+    expect(result.rulesRun).toEqual(['privacy-001-missing-camera-purpose']);
+  });
+
+  it('applies severity overrides', async () => {
+    writeConfig({ severity: { 'code-003-dynamic-code-execution': 'low' } });
+    const findings = await dynamicCodeFindings();
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].severity).toBe('low');
+  });
+
+  it('skips sources excluded by glob', async () => {
+    expect(await dynamicCodeFindings()).toHaveLength(1);
+
+    writeConfig({ sources: { exclude: ['Vendor/**'] } });
+    expect(await dynamicCodeFindings()).toHaveLength(0);
+  });
+
+  it('passes rule options to rules', async () => {
+    writeConfig({ ruleOptions: { 'code-003-dynamic-code-execution': { safeClasses: ['MyPluginHost'] } } });
+    expect(await dynamicCodeFindings()).toHaveLength(0);
+  });
+
+  it('rejects an invalid config file', async () => {
+    writeConfig({ severty: {} });
+    await expect(scan({ path: tempDir })).rejects.toThrow(InvalidConfigError);
+  });
+});
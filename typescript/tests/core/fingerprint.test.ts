@@ -0,0 +1,122 @@
+/**
+ * Tests for fingerprint.ts (stable finding identity)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { addFingerprints, fingerprintFinding, getFingerprintRoot } from '../../src/core/fingerprint';
+import { scan } from '../../src/core/scanner';
+import { formatJSON } from '../../src/formatters/json';
+import { formatSARIF } from '../../src/formatters/sarif';
+import type { Finding } from '../../src/types';
+import { Severity, Confidence } from '../../src/types';
+
+function makeFinding(overrides: Partial<Finding> = {}): Finding {
+  return {
+    ruleId: 'code-001-private-api-usage',
+    severity: Severity.Critical,
+    confidence: Confidence.High,
+    title: 'UIWebView Usage (Deprecated & Rejected)',
+    description: 'UIWebView detected',
+    guideline: '2.5.1',
+    fixGuidance: 'Replace with WKWebView',
+    ...overrides,
+  };
+}
+
+describe('fingerprint', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-fingerprint-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('fingerprintFinding', () => {
+    it('ignores line shifts and descriptions but not the flagged code', () => {
+      fs.mkdirSync(path.join(tempDir, 'App'));
+      const file = path.join(tempDir, 'App', 'Web.swift');
+      fs.writeFileSync(file, 'import UIKit\nlet web = UIWebView()\n');
+      const original = fingerprintFinding(makeFinding({ location: 'App/Web.swift', line: 2 }), tempDir);
+
+      fs.writeFileSync(file, 'import UIKit\n\n// Legacy\n  let web =   UIWebView()\n');
+      const moved = makeFinding({ location: 'App/Web.swift', line: 4, description: 'Found in: App/Web.swift:4' });
+      expect(fingerprintFinding(moved, tempDir)).toBe(original);
+
+      fs.writeFileSync(file, 'import UIKit\nlet other = UIWebView(frame: .zero)\n');
+      expect(fingerprintFinding(makeFinding({ location: 'App/Web.swift', line: 2 }), tempDir)).not.toBe(original);
+    });
+
+    it('treats absolute and relative locations under the root alike', () => {
+      const relative = fingerprintFinding(makeFinding({ location: 'Info.plist' }), tempDir);
+      const absolute = fingerprintFinding(makeFinding({ location: path.join(tempDir, 'Info.plist') }), tempDir);
+      expect(absolute).toBe(relative);
+    });
+
+    it('distinguishes targets', () => {
+      const app = fingerprintFinding(makeFinding({ location: 'Info.plist', targetName: 'MyApp' }), tempDir);
+      const widget = fingerprintFinding(makeFinding({ location: 'Info.plist', targetName: 'MyWidget' }), tempDir);
+      expect(app).not.toBe(widget);
+    });
+
+    it('uses the discriminator instead of the title when the rule provides one', () => {
+      const base = { ruleId: 'privacy-010-required-reason-api', location: 'PrivacyInfo.xcprivacy' };
+      const bootTime = makeFinding({ ...base, title: 'Undeclared Required Reason API: System Boot Time', discriminator: 'NSPrivacyAccessedAPICategorySystemBootTime' });
+      const renamed = makeFinding({ ...base, title: 'Undeclared API: Boot Time', discriminator: 'NSPrivacyAccessedAPICategorySystemBootTime' });
+      const diskSpace = makeFinding({ ...base, title: bootTime.title, discriminator: 'NSPrivacyAccessedAPICategoryDiskSpace' });
+
+      expect(fingerprintFinding(renamed, tempDir)).toBe(fingerprintFinding(bootTime, tempDir));
+      expect(fingerprintFinding(diskSpace, tempDir)).not.toBe(fingerprintFinding(bootTime, tempDir));
+    });
+  });
+
+  describe('getFingerprintRoot', () => {
+    it('uses the directory containing bundles and project files', () => {
+      expect(getFingerprintRoot({ projectPath: '/work/MyApp.ipa', projectType: 'ipa' })).toBe('/work');
+      expect(getFingerprintRoot({ projectPath: '/work/MyApp.xcodeproj', projectType: 'xcodeproj' })).toBe('/work');
+      expect(getFingerprintRoot({ projectPath: '/work', projectType: 'xcodeproj' })).toBe('/work');
+    });
+  });
+
+  describe('addFingerprints', () => {
+    it('keeps fingerprints that are already set', () => {
+      const [kept, computed] = addFingerprints(
+        [makeFinding({ fingerprint: 'preset' }), makeFinding({ location: 'Info.plist' })],
+        tempDir
+      );
+      expect(kept.fingerprint).toBe('preset');
+      expect(computed.fingerprint).toMatch(/^[0-9a-f]{32}$/);
+    });
+  });
+
+  describe('scan output', () => {
+    const rules = ['code-001-private-api-usage'];
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(tempDir, 'App'));
+      fs.writeFileSync(path.join(tempDir, 'App', 'Web.swift'), 'import UIKit\nlet web = UIWebView()\n');
+    });
+
+    it('emits the same fingerprint in JSON and SARIF on every run', async () => {
+      const first = await scan({ path: tempDir, rules });
+      const second = await scan({ path: tempDir, rules });
+      const fingerprint = first.findings[0].fingerprint;
+
+      expect(fingerprint).toMatch(/^[0-9a-f]{32}$/);
+      expect(second.findings[0].fingerprint).toBe(fingerprint);
+      expect(JSON.parse(formatJSON(first)).findings[0].fingerprint).toBe(fingerprint);
+      expect(JSON.parse(formatSARIF(first)).runs[0].results[0].partialFingerprints).toEqual({
+        'shiplintFingerprint/v1': fingerprint,
+      });
+    });
+
+    it('fingerprints suppressed findings too', async () => {
+      fs.writeFileSync(path.join(tempDir, '.shiplintignore'), 'code-001-private-api-usage\n');
+      const result = await scan({ path: tempDir, rules });
+      expect(result.suppressedFindings[0].fingerprint).toMatch(/^[0-9a-f]{32}$/);
+    });
+  });
+});
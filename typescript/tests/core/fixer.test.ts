@@ -0,0 +1,128 @@
+/**
+ * Tests for fixer.ts and diff.ts (`shiplint fix`)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { collectFixes, planFixes, writeFixPlan, formatFixDiff } from '../../src/core/fixer';
+import { createUnifiedDiff } from '../../src/core/diff';
+import type { Finding, FixEdit } from '../../src/types';
+import { Severity, Confidence } from '../../src/types';
+
+const INFO_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+	<key>CFBundleName</key>
+	<string>App</string>
+</dict>
+</plist>
+`;
+
+function makeFinding(fixes?: FixEdit[]): Finding {
+  return {
+    ruleId: 'config-002-missing-encryption-flag',
+    severity: Severity.Medium,
+    confidence: Confidence.High,
+    title: 'Missing encryption flag',
+    description: 'Missing encryption flag',
+    guideline: '5.0',
+    fixGuidance: 'Add it',
+    fixes,
+  };
+}
+
+describe('fixer', () => {
+  let tempDir: string;
+  let plistPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-fixer-test-'));
+    plistPath = path.join(tempDir, 'Info.plist');
+    fs.writeFileSync(plistPath, INFO_PLIST);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function encryptionFix(file = plistPath): FixEdit {
+    return { type: 'plist-set', file, key: 'ITSAppUsesNonExemptEncryption', value: false, description: 'Set ITSAppUsesNonExemptEncryption to false' };
+  }
+
+  it('collects edits once when several findings share them', () => {
+    const edits = collectFixes([makeFinding([encryptionFix()]), makeFinding([encryptionFix()]), makeFinding()]);
+    expect(edits).toEqual([encryptionFix()]);
+  });
+
+  it('plans, diffs and writes the edited files', () => {
+    const plan = planFixes([encryptionFix()]);
+    expect(plan.skipped).toEqual([]);
+    expect(plan.patches).toHaveLength(1);
+    expect(fs.readFileSync(plistPath, 'utf-8')).toBe(INFO_PLIST);
+
+    expect(formatFixDiff(plan, tempDir)).toBe(
+      '--- a/Info.plist\n' +
+      '+++ b/Info.plist\n' +
+      '@@ -3,5 +3,7 @@\n' +
+      ' <dict>\n' +
+      ' \t<key>CFBundleName</key>\n' +
+      ' \t<string>App</string>\n' +
+      '+\t<key>ITSAppUsesNonExemptEncryption</key>\n' +
+      '+\t<false/>\n' +
+      ' </dict>\n' +
+      ' </plist>\n'
+    );
+
+    writeFixPlan(plan);
+    expect(fs.readFileSync(plistPath, 'utf-8')).toBe(plan.patches[0].updated);
+  });
+
+  it('writes the comment of an appended item above it', () => {
+    const plan = planFixes([{
+      type: 'plist-append',
+      file: plistPath,
+      key: 'NSPrivacyAccessedAPITypes',
+      value: { NSPrivacyAccessedAPIType: 'NSPrivacyAccessedAPICategorySystemBootTime', NSPrivacyAccessedAPITypeReasons: [] },
+      comment: 'TODO: choose NSPrivacyAccessedAPITypeReasons',
+      description: 'Declare NSPrivacyAccessedAPICategorySystemBootTime',
+    }]);
+
+    const updated = plan.patches[0].updated;
+    expect(updated).toContain('<!-- TODO: choose NSPrivacyAccessedAPITypeReasons -->');
+    expect(updated.indexOf('TODO')).toBeLessThan(updated.indexOf('NSPrivacyAccessedAPICategorySystemBootTime'));
+  });
+
+  it('skips edits whose file is missing or cannot be edited', () => {
+    const missing = encryptionFix(path.join(tempDir, 'Missing.plist'));
+    const binary = encryptionFix(path.join(tempDir, 'Binary.plist'));
+    fs.writeFileSync(binary.file, Buffer.from('bplist00'));
+
+    const plan = planFixes([missing, binary]);
+    expect(plan.patches).toEqual([]);
+    expect(plan.skipped).toEqual([
+      { edit: missing, reason: 'file not found' },
+      { edit: binary, reason: 'not an XML property list with a root dictionary' },
+    ]);
+  });
+
+  it('leaves files alone when the edit changes nothing', () => {
+    fs.writeFileSync(plistPath, INFO_PLIST.replace('</dict>', '\t<key>ITSAppUsesNonExemptEncryption</key>\n\t<false/>\n</dict>'));
+    expect(planFixes([encryptionFix()]).patches).toEqual([]);
+  });
+
+  describe('createUnifiedDiff', () => {
+    it('returns an empty string for identical content', () => {
+      expect(createUnifiedDiff('a.txt', 'same\n', 'same\n')).toBe('');
+    });
+
+    it('splits distant changes into separate hunks', () => {
+      const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+      const after = before.replace('line 2\n', 'line two\n').replace('line 19\n', 'line 19\nline 19b\n');
+      expect(createUnifiedDiff('a.txt', before, after)).toBe(
+        '--- a/a.txt\n+++ b/a.txt\n' +
+        '@@ -1,5 +1,5 @@\n line 1\n-line 2\n+line two\n line 3\n line 4\n line 5\n' +
+        '@@ -17,4 +17,5 @@\n line 17\n line 18\n line 19\n+line 19b\n line 20\n'
+      );
+    });
+  });
+});
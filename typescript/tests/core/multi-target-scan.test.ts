@@ -0,0 +1,256 @@
+/**
+ * Tests for multi-target scanning
+ * Every shippable target (app, extensions, watch app, App Clip) gets its own ScanContext
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { scan } from '../../src/core/scanner';
+import { discoverProject, createScanContexts } from '../../src/parsers/project-parser';
+
+const APP_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>CFBundleIdentifier</key>
+  <string>com.example.app</string>
+  <key>NSCameraUsageDescription</key>
+  <string>We use the camera to scan receipts for your expense reports.</string>
+</dict>
+</plist>`;
+
+const WIDGET_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>NSExtension</key>
+  <dict>
+    <key>NSExtensionPointIdentifier</key>
+    <string>com.apple.widgetkit-extension</string>
+  </dict>
+</dict>
+</plist>`;
+
+const PBXPROJ = `// !$*UTF8*$!
+{
+  objects = {
+/* Begin PBXBuildFile section */
+    B1000000000000000001 /* AVFoundation.framework in Frameworks */ = {isa = PBXBuildFile; fileRef = F1000000000000000001 /* AVFoundation.framework */; };
+    B1000000000000000002 /* WidgetKit.framework in Frameworks */ = {isa = PBXBuildFile; fileRef = F1000000000000000002 /* WidgetKit.framework */; };
+/* End PBXBuildFile section */
+/* Begin PBXFrameworksBuildPhase section */
+    P1000000000000000001 /* Frameworks */ = {
+      isa = PBXFrameworksBuildPhase;
+      files = (
+        B1000000000000000001 /* AVFoundation.framework in Frameworks */,
+      );
+    };
+    P1000000000000000002 /* Frameworks */ = {
+      isa = PBXFrameworksBuildPhase;
+      files = (
+        B1000000000000000002 /* WidgetKit.framework in Frameworks */,
+      );
+    };
+/* End PBXFrameworksBuildPhase section */
+/* Begin PBXNativeTarget section */
+    T1000000000000000001 /* MyApp */ = {
+      isa = PBXNativeTarget;
+      buildConfigurationList = L1000000000000000001 /* Build configuration list for PBXNativeTarget "MyApp" */;
+      buildPhases = (
+        P1000000000000000001 /* Frameworks */,
+      );
+      name = MyApp;
+      productName = MyApp;
+      productType = "com.apple.product-type.application";
+    };
+    T1000000000000000002 /* MyWidget */ = {
+      isa = PBXNativeTarget;
+      buildConfigurationList = L1000000000000000002 /* Build configuration list for PBXNativeTarget "MyWidget" */;
+      buildPhases = (
+        P1000000000000000002 /* Frameworks */,
+      );
+      name = MyWidget;
+      productName = MyWidget;
+      productType = "com.apple.product-type.app-extension";
+    };
+    T1000000000000000003 /* MyAppTests */ = {
+      isa = PBXNativeTarget;
+      buildConfigurationList = L1000000000000000003 /* Build configuration list for PBXNativeTarget "MyAppTests" */;
+      buildPhases = (
+      );
+      name = MyAppTests;
+      productName = MyAppTests;
+      productType = "com.apple.product-type.bundle.unit-test";
+    };
+/* End PBXNativeTarget section */
+/* Begin XCBuildConfiguration section */
+    C1000000000000000001 /* Release */ = {
+      isa = XCBuildConfiguration;
+      buildSettings = {
+        INFOPLIST_FILE = MyApp/Info.plist;
+      };
+      name = Release;
+    };
+    C1000000000000000002 /* Release */ = {
+      isa = XCBuildConfiguration;
+      buildSettings = {
+        INFOPLIST_FILE = MyWidget/Info.plist;
+      };
+      name = Release;
+    };
+    C1000000000000000003 /* Release */ = {
+      isa = XCBuildConfiguration;
+      buildSettings = {
+        INFOPLIST_FILE = MyAppTests/Info.plist;
+      };
+      name = Release;
+    };
+/* End XCBuildConfiguration section */
+/* Begin XCConfigurationList section */
+    L1000000000000000001 /* Build configuration list for PBXNativeTarget "MyApp" */ = {
+      isa = XCConfigurationList;
+      buildConfigurations = (
+        C1000000000000000001 /* Release */,
+      );
+    };
+    L1000000000000000002 /* Build configuration list for PBXNativeTarget "MyWidget" */ = {
+      isa = XCConfigurationList;
+      buildConfigurations = (
+        C1000000000000000002 /* Release */,
+      );
+    };
+    L1000000000000000003 /* Build configuration list for PBXNativeTarget "MyAppTests" */ = {
+      isa = XCConfigurationList;
+      buildConfigurations = (
+        C1000000000000000003 /* Release */,
+      );
+    };
+/* End XCConfigurationList section */
+  };
+}`;
+
+describe('multi-target scanning', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-multi-target-'));
+    fs.mkdirSync(path.join(tempDir, 'MyApp.xcodeproj'));
+    fs.writeFileSync(path.join(tempDir, 'MyApp.xcodeproj', 'project.pbxproj'), PBXPROJ);
+    fs.mkdirSync(path.join(tempDir, 'MyApp'));
+    fs.writeFileSync(path.join(tempDir, 'MyApp', 'Info.plist'), APP_PLIST);
+    fs.writeFileSync(path.join(tempDir, 'MyApp', 'Camera.swift'), 'import AVFoundation\nlet session = AVCaptureSession()\n');
+    fs.mkdirSync(path.join(tempDir, 'MyWidget'));
+    fs.writeFileSync(path.join(tempDir, 'MyWidget', 'Info.plist'), WIDGET_PLIST);
+    fs.writeFileSync(path.join(tempDir, 'MyWidget', 'Widget.swift'), 'import WidgetKit\nimport SwiftUI\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create one context per shippable target, main app first', () => {
+    const contexts = createScanContexts(discoverProject(tempDir));
+
+    expect(contexts.map(c => c.targetName)).toEqual(['MyApp', 'MyWidget']);
+    expect(contexts[0].productType).toBe('com.apple.product-type.application');
+    expect(contexts[1].productType).toBe('com.apple.product-type.app-extension');
+  });
+
+  it('should give secondary targets their own artifacts and frameworks', () => {
+    const [, widget] = createScanContexts(discoverProject(tempDir));
+
+    expect(widget.infoPlistPath).toBe(path.join(tempDir, 'MyWidget', 'Info.plist'));
+    expect(widget.isExtension()).toBe(true);
+    expect(widget.hasFramework('WidgetKit')).toBe(true);
+    expect(widget.hasFramework('AVFoundation')).toBe(false);
+    expect(widget.sourceRoot).toBe(path.join(tempDir, 'MyWidget'));
+    expect(widget.dependencies).toEqual([]);
+  });
+
+  it('should report the number of scanned targets', async () => {
+    const result = await scan({ path: tempDir });
+
+    expect(result.targetCount).toBe(2);
+  });
+
+  it('should tag findings with the target they apply to', async () => {
+    const result = await scan({ path: tempDir, rules: ['config-002-missing-encryption-flag'] });
+
+    // The widget is an extension, so only the app needs the export compliance flag
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0].targetName).toBe('MyApp');
+    expect(result.findings[0].productType).toBe('com.apple.product-type.application');
+  });
+
+  it('should keep findings at the same Info.plist apart per target', async () => {
+    // An App Clip that shares the app's Info.plist has the same problem, in its own bundle
+    fs.writeFileSync(path.join(tempDir, 'MyApp.xcodeproj', 'project.pbxproj'), PBXPROJ
+      .replace('"com.apple.product-type.app-extension"', '"com.apple.product-type.application.on-demand-install-capable"')
+      .replace('INFOPLIST_FILE = MyWidget/Info.plist;', 'INFOPLIST_FILE = MyApp/Info.plist;'));
+
+    const result = await scan({ path: tempDir, rules: ['config-002-missing-encryption-flag'] });
+
+    expect(result.findings.map(f => [f.targetName, f.location])).toEqual([
+      ['MyApp', path.join(tempDir, 'MyApp', 'Info.plist')],
+      ['MyWidget', path.join(tempDir, 'MyApp', 'Info.plist')],
+    ]);
+  });
+
+  it('should not flag the widget for camera usage that lives in the app', async () => {
+    const result = await scan({ path: tempDir, rules: ['privacy-001-missing-camera-purpose'] });
+
+    expect(result.findings).toEqual([]);
+  });
+
+  it('should not apply iPhone app Info.plist rules to a watch app', async () => {
+    fs.writeFileSync(path.join(tempDir, 'MyApp.xcodeproj', 'project.pbxproj'), PBXPROJ
+      .replace('/* End PBXNativeTarget section */', `    T1000000000000000004 /* MyWatch */ = {
+      isa = PBXNativeTarget;
+      buildConfigurationList = L1000000000000000004 /* Build configuration list for PBXNativeTarget "MyWatch" */;
+      buildPhases = (
+      );
+      name = MyWatch;
+      productName = MyWatch;
+      productType = "com.apple.product-type.application.watchapp2";
+    };
+/* End PBXNativeTarget section */`)
+      .replace('/* End XCBuildConfiguration section */', `    C1000000000000000004 /* Release */ = {
+      isa = XCBuildConfiguration;
+      buildSettings = {
+        INFOPLIST_FILE = MyWatch/Info.plist;
+        SDKROOT = watchos;
+      };
+      name = Release;
+    };
+/* End XCBuildConfiguration section */`)
+      .replace('/* End XCConfigurationList section */', `    L1000000000000000004 /* Build configuration list for PBXNativeTarget "MyWatch" */ = {
+      isa = XCConfigurationList;
+      buildConfigurations = (
+        C1000000000000000004 /* Release */,
+      );
+    };
+/* End XCConfigurationList section */`));
+    fs.mkdirSync(path.join(tempDir, 'MyWatch'));
+    fs.writeFileSync(path.join(tempDir, 'MyWatch', 'Info.plist'), APP_PLIST.replace('com.example.app', 'com.example.app.watchkitapp'));
+
+    const watch = createScanContexts(discoverProject(tempDir)).find(c => c.targetName === 'MyWatch');
+    expect(watch?.isWatchTarget()).toBe(true);
+    expect(watch?.isExtension()).toBe(false);
+
+    const result = await scan({
+      path: tempDir,
+      rules: ['config-002-missing-encryption-flag', 'config-003-missing-launch-storyboard', 'metadata-002-missing-supported-orientations'],
+    });
+    expect(result.findings.filter(f => f.targetName === 'MyWatch')).toEqual([]);
+    expect(result.findings.filter(f => f.targetName === 'MyApp')).toHaveLength(3);
+  });
+
+  it('should fall back to a single context without a target graph', () => {
+    fs.writeFileSync(path.join(tempDir, 'MyApp.xcodeproj', 'project.pbxproj'), '// minimal project');
+
+    const contexts = createScanContexts(discoverProject(tempDir));
+
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0].targetName).toBeUndefined();
+  });
+});
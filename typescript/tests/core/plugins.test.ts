@@ -0,0 +1,260 @@
+/**
+ * Tests for plugins.ts (custom rule modules)
+ */
+// Mock chalk to avoid ESM issues in Jest
+const passthrough = (text: string) => text;
+const handler: ProxyHandler<any> = {
+  get: (_target: any, prop: string) => {
+    if (prop === 'default') return new Proxy(passthrough, handler);
+    if (prop === '__esModule') return true;
+    if (prop === 'then') return undefined;
+    return new Proxy(passthrough, handler);
+  },
+  apply: (_target: any, _thisArg: any, args: any[]) => args[0],
+};
+jest.mock('chalk', () => new Proxy(passthrough, handler));
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { loadPlugins, loadConfiguredPlugins, validatePluginRule } from '../../src/core/plugins';
+import { scan } from '../../src/core/scanner';
+import { allRules, getRule, registerRule } from '../../src/rules';
+import { formatText } from '../../src/formatters/text';
+import { formatSARIF } from '../../src/formatters/sarif';
+
+const INFO_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>CFBundleIdentifier</key>
+  <string>com.example.test</string>
+</dict>
+</plist>`;
+
+/**
+ * Source of a CommonJS plugin exporting a factory that builds one rule
+ */
+function factoryPlugin(ruleId: string, body: string): string {
+  return `module.exports = (api) => ({
+  id: '${ruleId}',
+  name: 'Custom URL Scheme Required',
+  description: 'Company policy: the app must declare CFBundleURLTypes',
+  category: 'config',
+  severity: api.Severity.High,
+  confidence: api.Confidence.High,
+  guidelineReference: 'internal',
+  async evaluate(context) {
+    ${body}
+  },
+});
+`;
+}
+
+describe('plugins', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-plugins-test-'));
+    const xcodeprojDir = path.join(tempDir, 'MyApp.xcodeproj');
+    fs.mkdirSync(xcodeprojDir);
+    fs.writeFileSync(path.join(xcodeprojDir, 'project.pbxproj'), '// minimal project');
+    fs.writeFileSync(path.join(tempDir, 'Info.plist'), INFO_PLIST);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writePlugin = (name: string, source: string) => {
+    fs.writeFileSync(path.join(tempDir, name), source);
+    return `./${name}`;
+  };
+
+  describe('validatePluginRule', () => {
+    it('lists missing Rule fields', () => {
+      const problems = validatePluginRule({ id: 'acme-001', severity: 'severe' });
+
+      expect(problems).toContain('"name" must be a non-empty string');
+      expect(problems.some(p => p.startsWith('"severity" must be one of'))).toBe(true);
+      expect(problems).toContain('"evaluate" must be a function');
+    });
+  });
+
+  describe('loadPlugins', () => {
+    it('registers rules from a factory plugin with the helper API', async () => {
+      const spec = writePlugin('url-types.js', factoryPlugin('acme-001-url-types', `
+    if (context.hasPlistKey('CFBundleURLTypes')) return [];
+    return [api.makeFinding(this, { description: 'No CFBundleURLTypes', fixGuidance: 'Add a URL type' })];`));
+
+      const { plugins, errors } = await loadPlugins([spec], tempDir);
+
+      expect(errors).toEqual([]);
+      expect(plugins).toHaveLength(1);
+      expect(plugins[0].rules.map(r => r.id)).toEqual(['acme-001-url-types']);
+      expect(getRule('acme-001-url-types')?.plugin).toBe(spec);
+      expect(allRules.some(r => r.id === 'acme-001-url-types')).toBe(true);
+    });
+
+    it('accepts a { rules: [...] } export', async () => {
+      const spec = writePlugin('list.js', `module.exports = { rules: [{
+  id: 'acme-002-list', name: 'List rule', description: 'd', category: 'config',
+  severity: 'low', confidence: 'low', guidelineReference: 'internal',
+  async evaluate() { return []; },
+}] };`);
+
+      const { plugins, errors } = await loadPlugins([spec], tempDir);
+      expect(errors).toEqual([]);
+      expect(plugins[0].rules[0].id).toBe('acme-002-list');
+    });
+
+    it('keeps the methods of class-based rules', async () => {
+      const spec = writePlugin('class.js', `class UrlTypesRule {
+  constructor() {
+    Object.assign(this, {
+      id: 'acme-005-class', name: 'Class rule', description: 'd', category: 'config',
+      severity: 'low', confidence: 'low', guidelineReference: 'internal',
+    });
+  }
+  async evaluate() { return [{ ruleId: this.id }]; }
+}
+module.exports = new UrlTypesRule();`);
+
+      const { plugins, errors } = await loadPlugins([spec], tempDir);
+
+      expect(errors).toEqual([]);
+      const [rule] = plugins[0].rules;
+      expect(rule.plugin).toBe(spec);
+      await expect(rule.evaluate({} as never)).resolves.toEqual([{ ruleId: 'acme-005-class' }]);
+    });
+
+    it('reports modules that cannot be loaded', async () => {
+      const { plugins, errors } = await loadPlugins(['./does-not-exist.js'], tempDir);
+
+      expect(plugins).toEqual([]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].plugin).toBe('./does-not-exist.js');
+      expect(errors[0].message).toMatch(/^failed to load/);
+    });
+
+    it('reports factories that throw and modules without rules', async () => {
+      const throwing = writePlugin('throwing.js', 'module.exports = () => { throw new Error("boom"); };');
+      const empty = writePlugin('empty.js', 'module.exports = { helpers: true };');
+
+      const { errors } = await loadPlugins([throwing, empty], tempDir);
+
+      expect(errors).toEqual([
+        { plugin: throwing, message: 'plugin factory threw: boom' },
+        { plugin: empty, message: 'module does not export any rules' },
+      ]);
+    });
+
+    it('refuses to shadow built-in rules', async () => {
+      const spec = writePlugin('shadow.js', factoryPlugin('privacy-001-missing-camera-purpose', 'return [];'));
+
+      const { errors } = await loadPlugins([spec], tempDir);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].ruleId).toBe('privacy-001-missing-camera-purpose');
+      expect(errors[0].message).toContain('already registered by a built-in rule');
+      expect(getRule('privacy-001-missing-camera-purpose')?.plugin).toBeUndefined();
+    });
+
+    it('lets a plugin re-register its own rules', async () => {
+      const spec = writePlugin('again.js', factoryPlugin('acme-003-again', 'return [];'));
+
+      await loadPlugins([spec], tempDir);
+      const { errors } = await loadPlugins([spec], tempDir);
+
+      expect(errors).toEqual([]);
+      expect(allRules.filter(r => r.id === 'acme-003-again')).toHaveLength(1);
+    });
+  });
+
+  describe('registerRule', () => {
+    it('rejects ID collisions between plugins', () => {
+      const rule = { ...allRules[0], id: 'acme-004-collide', plugin: 'a.js' };
+      registerRule(rule);
+      expect(() => registerRule({ ...rule, plugin: 'b.js' })).toThrow('already registered by plugin a.js');
+    });
+  });
+
+  describe('scan with plugins', () => {
+    it('runs plugin rules declared in the config file', async () => {
+      writePlugin('url-types.js', factoryPlugin('acme-010-url-types', `
+    if (context.hasPlistKey('CFBundleURLTypes')) return [];
+    return [api.makeFinding(this, { description: 'No CFBundleURLTypes', fixGuidance: 'Add a URL type' })];`));
+      fs.writeFileSync(path.join(tempDir, '.shiplintrc'), JSON.stringify({
+        plugins: ['./url-types.js'],
+        severity: { 'acme-010-url-types': 'low' },
+      }));
+
+      const result = await scan({ path: tempDir });
+
+      expect(result.rulesRun).toContain('acme-010-url-types');
+      const finding = result.findings.find(f => f.ruleId === 'acme-010-url-types');
+      expect(finding?.severity).toBe('low');
+      expect(result.pluginErrors).toBeUndefined();
+    });
+
+    it('does not run one project\'s plugins when scanning the next', async () => {
+      writePlugin('url-types.js', factoryPlugin('acme-012-url-types', 'return [];'));
+      fs.writeFileSync(path.join(tempDir, '.shiplintrc'), JSON.stringify({ plugins: ['./url-types.js'] }));
+      const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-plugins-other-'));
+      fs.writeFileSync(path.join(otherDir, 'Info.plist'), INFO_PLIST);
+
+      try {
+        const first = await scan({ path: tempDir });
+        const second = await scan({ path: otherDir });
+
+        expect(first.rulesRun).toContain('acme-012-url-types');
+        expect(second.rulesRun).not.toContain('acme-012-url-types');
+        expect(getRule('acme-012-url-types')).toBeUndefined();
+      } finally {
+        fs.rmSync(otherDir, { recursive: true, force: true });
+      }
+    });
+
+    it('reports plugin rules that throw during evaluation', async () => {
+      const spec = path.join(tempDir, 'crash.js');
+      fs.writeFileSync(spec, factoryPlugin('acme-011-crash', 'throw new Error("bad context");'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await scan({ path: tempDir, plugins: [spec], rules: ['acme-011-crash'] });
+      // Reported once, through the result (the CLI prints it via the formatter)
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+
+      expect(result.rulesRun).not.toContain('acme-011-crash');
+      expect(result.pluginErrors).toEqual([
+        { plugin: spec, ruleId: 'acme-011-crash', message: 'threw during evaluation: bad context' },
+      ]);
+
+      const text = await formatText(result);
+      expect(text).toContain('Plugin');
+      expect(text).toContain('bad context');
+
+      const sarif = JSON.parse(formatSARIF(result));
+      const notifications = sarif.runs[0].invocations[0].toolExecutionNotifications;
+      expect(notifications[0].associatedRule.id).toBe('acme-011-crash');
+    });
+
+    it('reports load errors without aborting the scan', async () => {
+      fs.writeFileSync(path.join(tempDir, 'shiplint.config.json'), JSON.stringify({ plugins: ['./missing.js'] }));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await scan({ path: tempDir, rules: ['config-002-missing-encryption-flag'] });
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+
+      expect(result.rulesRun).toEqual(['config-002-missing-encryption-flag']);
+      expect(result.pluginErrors?.[0].plugin).toBe('./missing.js');
+    });
+  });
+
+  describe('loadConfiguredPlugins', () => {
+    it('returns nothing without a config file or extra plugins', async () => {
+      expect(await loadConfiguredPlugins(undefined)).toEqual({ plugins: [], errors: [] });
+    });
+  });
+});
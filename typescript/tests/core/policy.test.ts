@@ -0,0 +1,148 @@
+/**
+ * Tests for policy.ts (failure policy and exit codes)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  evaluatePolicy,
+  resolvePolicy,
+  exitCodeForResult,
+  exitCodeForError,
+  ExitCode,
+  InvalidPolicyError,
+} from '../../src/core/policy';
+import { InvalidConfigError, validateConfig } from '../../src/core/config';
+import { InvalidBaselineError } from '../../src/core/baseline';
+import { scan, InvalidRulesError, NoRulesError, UnknownConfigurationError, InvalidOptionsError } from '../../src/core/scanner';
+import { allRules } from '../../src/rules';
+import type { Finding } from '../../src/types';
+import { Severity, Confidence } from '../../src/types';
+
+function makeFinding(severity: Severity, confidence: Confidence = Confidence.High): Finding {
+  return {
+    ruleId: `rule-${severity}-${confidence}`,
+    severity,
+    confidence,
+    title: 'Finding',
+    description: 'Finding',
+    guideline: '1.0',
+    fixGuidance: 'Fix it',
+  };
+}
+
+describe('policy', () => {
+  describe('evaluatePolicy', () => {
+    it('fails only on critical findings by default', () => {
+      expect(evaluatePolicy([makeFinding(Severity.High)]).passed).toBe(true);
+
+      const result = evaluatePolicy([makeFinding(Severity.Critical), makeFinding(Severity.Medium)]);
+      expect(result.passed).toBe(false);
+      expect(result.failingCount).toBe(1);
+      expect(result.warningCount).toBe(1);
+      expect(result.reasons).toEqual(['1 finding at or above critical severity']);
+    });
+
+    it('applies the severity threshold and confidence filter together', () => {
+      const policy = resolvePolicy(undefined, { failOn: Severity.High, minConfidence: Confidence.High });
+
+      expect(evaluatePolicy([makeFinding(Severity.Critical, Confidence.Medium)], policy).passed).toBe(true);
+      expect(evaluatePolicy([makeFinding(Severity.High, Confidence.High)], policy).passed).toBe(false);
+    });
+
+    it('enforces the warning budget without counting info findings', () => {
+      const policy = resolvePolicy(undefined, { failOn: Severity.High, maxWarnings: 1 });
+      const findings = [makeFinding(Severity.Medium), makeFinding(Severity.Info), makeFinding(Severity.Info)];
+      expect(evaluatePolicy(findings, policy).passed).toBe(true);
+
+      const result = evaluatePolicy([...findings, makeFinding(Severity.Low)], policy);
+      expect(result.passed).toBe(false);
+      expect(result.reasons).toEqual(['2 warnings (maximum 1)']);
+    });
+
+    it('never fails on severity with failOn none', () => {
+      const policy = resolvePolicy(undefined, { failOn: 'none' });
+      const result = evaluatePolicy([makeFinding(Severity.Critical)], policy);
+      expect(result.passed).toBe(true);
+      expect(result.warningCount).toBe(1);
+    });
+  });
+
+  describe('resolvePolicy', () => {
+    it('lets options override the config file key by key', () => {
+      expect(resolvePolicy({ failOn: Severity.High, maxWarnings: 5 }, { maxWarnings: 0 })).toEqual({
+        failOn: Severity.High,
+        minConfidence: Confidence.Low,
+        maxWarnings: 0,
+      });
+    });
+
+    it('rejects invalid options', () => {
+      expect(() => resolvePolicy(undefined, { failOn: 'severe' as Severity })).toThrow(InvalidPolicyError);
+      expect(() => resolvePolicy(undefined, { maxWarnings: NaN })).toThrow('"maxWarnings" must be a non-negative integer');
+    });
+  });
+
+  describe('config file', () => {
+    it('validates the policy key', () => {
+      expect(validateConfig({ policy: { failOn: 'high', minConfidence: 'medium', maxWarnings: 3 } }, allRules)).toEqual([]);
+      expect(validateConfig({ policy: { failOn: 'urgent', maxWarnings: -1, strict: true } }, allRules)).toEqual([
+        'unknown key "policy.strict"',
+        'invalid "policy.failOn" value "urgent" (use critical, high, medium, low, info, none)',
+        '"policy.maxWarnings" must be a non-negative integer',
+      ]);
+    });
+  });
+
+  describe('exit codes', () => {
+    it('maps invalid input and other errors to distinct codes', () => {
+      expect(exitCodeForError(new InvalidConfigError('.shiplintrc', ['bad']))).toBe(ExitCode.InvalidConfig);
+      expect(exitCodeForError(new InvalidBaselineError('b.json', 'bad'))).toBe(ExitCode.InvalidConfig);
+      expect(exitCodeForError(new InvalidPolicyError(['bad']))).toBe(ExitCode.InvalidConfig);
+      expect(exitCodeForError(new InvalidRulesError(['acme-001'], ['privacy-001']))).toBe(ExitCode.InvalidConfig);
+      expect(exitCodeForError(new NoRulesError('All rules were excluded. At least one rule must run.'))).toBe(ExitCode.InvalidConfig);
+      expect(exitCodeForError(new UnknownConfigurationError('Staging', ['Debug', 'Release']))).toBe(ExitCode.InvalidConfig);
+      expect(exitCodeForError(new InvalidOptionsError('Use either --configuration or --all-configurations, not both')))
+        .toBe(ExitCode.InvalidConfig);
+      expect(exitCodeForError(new Error('boom'))).toBe(ExitCode.ToolError);
+    });
+  });
+
+  describe('scan', () => {
+    let tempDir: string;
+    const rules = ['code-001-private-api-usage'];
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-policy-test-'));
+      fs.mkdirSync(path.join(tempDir, 'App'));
+      // UIWebView is a critical finding
+      fs.writeFileSync(path.join(tempDir, 'App', 'Web.swift'), 'import UIKit\nlet web = UIWebView()\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('reports the verdict in the result', async () => {
+      const result = await scan({ path: tempDir, rules });
+      expect(result.policy?.passed).toBe(false);
+      expect(exitCodeForResult(result)).toBe(ExitCode.PolicyFailed);
+
+      const relaxed = await scan({ path: tempDir, rules, policy: { failOn: 'none' } });
+      expect(relaxed.policy?.passed).toBe(true);
+      expect(exitCodeForResult(relaxed)).toBe(ExitCode.Success);
+    });
+
+    it('reads the policy from the config file', async () => {
+      fs.writeFileSync(path.join(tempDir, '.shiplintrc'), JSON.stringify({ policy: { failOn: 'none', maxWarnings: 0 } }));
+      const result = await scan({ path: tempDir, rules });
+      expect(result.policy?.policy).toEqual({ failOn: 'none', minConfidence: Confidence.Low, maxWarnings: 0 });
+      expect(result.policy?.reasons).toEqual(['1 warning (maximum 0)']);
+    });
+
+    it('rejects invalid policy options before running rules', async () => {
+      await expect(scan({ path: tempDir, rules, policy: { minConfidence: 'certain' as Confidence } }))
+        .rejects.toThrow(InvalidPolicyError);
+    });
+  });
+});
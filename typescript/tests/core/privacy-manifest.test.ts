@@ -0,0 +1,109 @@
+/**
+ * Tests for privacy-manifest.ts (`shiplint privacy-manifest generate`)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { generatePrivacyManifest } from '../../src/core/privacy-manifest';
+import { parsePlistString } from '../../src/parsers/plist-parser';
+
+describe('privacy-manifest', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-privacy-manifest-test-'));
+    fs.mkdirSync(path.join(tempDir, 'App'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeSource(name: string, content: string): void {
+    fs.writeFileSync(path.join(tempDir, 'App', name), content);
+  }
+
+  it('creates a manifest with detected categories and TODOs for ambiguous reasons', async () => {
+    writeSource('Settings.swift', 'let on = UserDefaults.standard.bool(forKey: "on")\n');
+    writeSource('Files.swift', 'let date = attributes[FileAttributeKey.modificationDate]\n');
+
+    const generated = await generatePrivacyManifest({ path: tempDir });
+
+    expect(generated.original).toBeUndefined();
+    expect(generated.added).toEqual([
+      { category: 'NSPrivacyAccessedAPICategoryFileTimestamp', reasons: [] },
+      { category: 'NSPrivacyAccessedAPICategoryUserDefaults', reasons: ['CA92.1'] },
+    ]);
+    expect(parsePlistString(generated.content)).toEqual({
+      NSPrivacyTracking: false,
+      NSPrivacyTrackingDomains: [],
+      NSPrivacyCollectedDataTypes: [],
+      NSPrivacyAccessedAPITypes: [
+        { NSPrivacyAccessedAPIType: 'NSPrivacyAccessedAPICategoryFileTimestamp', NSPrivacyAccessedAPITypeReasons: [] },
+        { NSPrivacyAccessedAPIType: 'NSPrivacyAccessedAPICategoryUserDefaults', NSPrivacyAccessedAPITypeReasons: ['CA92.1'] },
+      ],
+    });
+    expect(generated.content).toContain(
+      '<!-- TODO: choose NSPrivacyAccessedAPITypeReasons for NSPrivacyAccessedAPICategoryFileTimestamp (used in App/Files.swift) -->'
+    );
+    expect(generated.content).toContain('<!--   C617.1: ');
+    expect(generated.todos).toHaveLength(2);
+  });
+
+  it('only pre-selects UserDefaults reasons when every suite is known', async () => {
+    writeSource('Shared.swift', 'let shared = UserDefaults(suiteName: "group.com.example.app")\n');
+    let generated = await generatePrivacyManifest({ path: tempDir });
+    expect(generated.added).toEqual([{ category: 'NSPrivacyAccessedAPICategoryUserDefaults', reasons: ['1C8F.1'] }]);
+
+    writeSource('Other.swift', 'let other = UserDefaults(suiteName: suite)\n');
+    generated = await generatePrivacyManifest({ path: tempDir });
+    expect(generated.added).toEqual([{ category: 'NSPrivacyAccessedAPICategoryUserDefaults', reasons: [] }]);
+  });
+
+  it('declares tracking when tracking SDKs are present', async () => {
+    fs.writeFileSync(path.join(tempDir, 'Podfile.lock'), 'PODS:\n  - AppsFlyerFramework (6.0.0)\n');
+
+    const generated = await generatePrivacyManifest({ path: tempDir });
+
+    expect(generated.trackingSDKs).toEqual(['AppsFlyer']);
+    expect(parsePlistString(generated.content)).toMatchObject({ NSPrivacyTracking: true, NSPrivacyTrackingDomains: [] });
+    expect(generated.content).toContain('<!-- TODO: list the tracking domains contacted by AppsFlyer');
+  });
+
+  it('merges into an existing manifest without touching declared entries', async () => {
+    const existing = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+    <key>NSPrivacyAccessedAPITypes</key>
+    <array>
+        <dict>
+            <key>NSPrivacyAccessedAPIType</key>
+            <string>NSPrivacyAccessedAPICategoryUserDefaults</string>
+            <key>NSPrivacyAccessedAPITypeReasons</key>
+            <array>
+                <string>1C8F.1</string>
+            </array>
+        </dict>
+    </array>
+    <key>NSPrivacyCollectedDataTypes</key>
+    <array/>
+    <key>NSPrivacyTracking</key>
+    <false/>
+</dict>
+</plist>
+`;
+    const manifestPath = path.join(tempDir, 'App', 'PrivacyInfo.xcprivacy');
+    fs.writeFileSync(manifestPath, existing);
+    writeSource('Settings.swift', 'let on = UserDefaults.standard.bool(forKey: "on")\nlet up = ProcessInfo.processInfo.systemUptime\n');
+
+    const generated = await generatePrivacyManifest({ path: tempDir });
+
+    expect(generated.path).toBe(fs.realpathSync(manifestPath));
+    expect(generated.original).toBe(existing);
+    expect(generated.added).toEqual([{ category: 'NSPrivacyAccessedAPICategorySystemBootTime', reasons: [] }]);
+    // Everything before the new entry is unchanged
+    const insertAt = existing.indexOf('    </array>\n    <key>NSPrivacyCollectedDataTypes');
+    expect(generated.content.slice(0, insertAt)).toBe(existing.slice(0, insertAt));
+    expect(generated.content).toContain('        <dict>\n            <key>NSPrivacyAccessedAPIType</key>\n            <string>NSPrivacyAccessedAPICategorySystemBootTime</string>');
+  });
+});
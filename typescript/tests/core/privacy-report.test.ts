@@ -0,0 +1,182 @@
+/**
+ * Tests for privacy-report.ts (`shiplint privacy-manifest report`)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createPrivacyReport, formatPrivacyReportJSON, formatPrivacyReportMarkdown } from '../../src/core/privacy-report';
+
+function manifest(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${body}
+</dict>
+</plist>
+`;
+}
+
+const APP_MANIFEST = manifest(`	<key>NSPrivacyTracking</key>
+	<false/>
+	<key>NSPrivacyCollectedDataTypes</key>
+	<array>
+		<dict>
+			<key>NSPrivacyCollectedDataType</key>
+			<string>NSPrivacyCollectedDataTypeEmailAddress</string>
+			<key>NSPrivacyCollectedDataTypeLinked</key>
+			<true/>
+			<key>NSPrivacyCollectedDataTypeTracking</key>
+			<false/>
+			<key>NSPrivacyCollectedDataTypePurposes</key>
+			<array>
+				<string>NSPrivacyCollectedDataTypePurposeAppFunctionality</string>
+			</array>
+		</dict>
+	</array>
+	<key>NSPrivacyAccessedAPITypes</key>
+	<array>
+		<dict>
+			<key>NSPrivacyAccessedAPIType</key>
+			<string>NSPrivacyAccessedAPICategoryUserDefaults</string>
+			<key>NSPrivacyAccessedAPITypeReasons</key>
+			<array>
+				<string>CA92.1</string>
+			</array>
+		</dict>
+	</array>`);
+
+const SDK_MANIFEST = manifest(`	<key>NSPrivacyTracking</key>
+	<true/>
+	<key>NSPrivacyTrackingDomains</key>
+	<array>
+		<string>app-measurement.com</string>
+	</array>
+	<key>NSPrivacyCollectedDataTypes</key>
+	<array>
+		<dict>
+			<key>NSPrivacyCollectedDataType</key>
+			<string>NSPrivacyCollectedDataTypeEmailAddress</string>
+			<key>NSPrivacyCollectedDataTypeLinked</key>
+			<false/>
+			<key>NSPrivacyCollectedDataTypeTracking</key>
+			<true/>
+			<key>NSPrivacyCollectedDataTypePurposes</key>
+			<array>
+				<string>NSPrivacyCollectedDataTypePurposeThirdPartyAdvertising</string>
+			</array>
+		</dict>
+		<dict>
+			<key>NSPrivacyCollectedDataType</key>
+			<string>NSPrivacyCollectedDataTypeCrashData</string>
+			<key>NSPrivacyCollectedDataTypeLinked</key>
+			<false/>
+			<key>NSPrivacyCollectedDataTypeTracking</key>
+			<false/>
+			<key>NSPrivacyCollectedDataTypePurposes</key>
+			<array>
+				<string>NSPrivacyCollectedDataTypePurposeAnalytics</string>
+			</array>
+		</dict>
+	</array>
+	<key>NSPrivacyAccessedAPITypes</key>
+	<array>
+		<dict>
+			<key>NSPrivacyAccessedAPIType</key>
+			<string>NSPrivacyAccessedAPICategoryUserDefaults</string>
+			<key>NSPrivacyAccessedAPITypeReasons</key>
+			<array>
+				<string>C56D.1</string>
+			</array>
+		</dict>
+	</array>`);
+
+describe('privacy-report', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-privacy-report-test-'));
+    write('App/Info.plist', manifest('\t<key>CFBundleIdentifier</key>\n\t<string>com.example.app</string>'));
+    write('App/PrivacyInfo.xcprivacy', APP_MANIFEST);
+    write('Pods/FirebaseAnalytics/Frameworks/PrivacyInfo.xcprivacy', SDK_MANIFEST);
+    write('Pods/Alamofire/Source/Session.swift', '');
+    write('Podfile.lock', [
+      'PODS:',
+      '  - Alamofire (5.6.0)',
+      '  - FirebaseAnalytics (10.20.0)',
+      '',
+      'COCOAPODS: 1.15.2',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(relativePath: string, content: string): void {
+    const file = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  it('merges the app and SDK manifests', async () => {
+    const report = await createPrivacyReport({ path: tempDir });
+
+    expect(report.manifests.map(m => [m.origin, m.owner])).toEqual([
+      ['app', 'App'],
+      ['cocoapods', 'FirebaseAnalytics'],
+    ]);
+    expect(report.tracking).toBe(true);
+    expect(report.trackingDomains).toEqual(['app-measurement.com']);
+    expect(report.collectedDataTypes).toEqual([
+      {
+        type: 'NSPrivacyCollectedDataTypeCrashData',
+        linked: false,
+        tracking: false,
+        purposes: ['NSPrivacyCollectedDataTypePurposeAnalytics'],
+        declaredBy: ['FirebaseAnalytics'],
+      },
+      {
+        type: 'NSPrivacyCollectedDataTypeEmailAddress',
+        linked: true,
+        tracking: true,
+        purposes: ['NSPrivacyCollectedDataTypePurposeAppFunctionality', 'NSPrivacyCollectedDataTypePurposeThirdPartyAdvertising'],
+        declaredBy: ['App', 'FirebaseAnalytics'],
+      },
+    ]);
+    expect(report.accessedAPITypes).toEqual([
+      { category: 'NSPrivacyAccessedAPICategoryUserDefaults', reasons: ['CA92.1', 'C56D.1'], declaredBy: ['App', 'FirebaseAnalytics'] },
+    ]);
+    expect(report.sdksWithoutManifest.map(sdk => sdk.dependency)).toEqual(['Alamofire']);
+  });
+
+  it('reports unreadable manifests without failing', async () => {
+    write('App/PrivacyInfo.xcprivacy', '<plist><dict><key>NSPrivacyTracking</key>');
+
+    const report = await createPrivacyReport({ path: tempDir });
+
+    expect(report.manifests[0].error).toBeDefined();
+    expect(report.collectedDataTypes.map(t => t.declaredBy)).toEqual([['FirebaseAnalytics'], ['FirebaseAnalytics']]);
+  });
+
+  it('exports Markdown grouped like the App Store Connect privacy questions', async () => {
+    const markdown = formatPrivacyReportMarkdown(await createPrivacyReport({ path: tempDir }), tempDir);
+
+    expect(markdown).toContain(`# App Privacy Report: ${path.basename(tempDir)}`);
+    expect(markdown).toContain('## Data Used to Track You\n\n| Data type | Purposes | Declared by |\n| --- | --- | --- |\n' +
+      '| Email Address | App Functionality, Third-Party Advertising | App, FirebaseAnalytics |');
+    expect(markdown).toContain('## Data Not Linked to You\n\n| Data type | Purposes | Declared by |\n| --- | --- | --- |\n' +
+      '| Crash Data | Analytics | FirebaseAnalytics |');
+    expect(markdown).toContain('| User Defaults | CA92.1, C56D.1 | App, FirebaseAnalytics |');
+    expect(markdown).toContain('| CocoaPods | FirebaseAnalytics | `Pods/FirebaseAnalytics/Frameworks/PrivacyInfo.xcprivacy` |');
+    expect(markdown).toContain('- Alamofire 5.6.0 (`Pods/Alamofire`)');
+  });
+
+  it('exports JSON with relative paths', async () => {
+    const json = JSON.parse(formatPrivacyReportJSON(await createPrivacyReport({ path: tempDir }), tempDir));
+
+    expect(json.projectPath).toBe('.');
+    expect(json.manifests[0]).toEqual({ path: 'App/PrivacyInfo.xcprivacy', origin: 'app', owner: 'App' });
+    expect(json.sdksWithoutManifest[0]).toMatchObject({ dependency: 'Alamofire', sdk: 'Alamofire', path: 'Pods/Alamofire' });
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Builders for binary fixtures (bplist00 files, ZIP archives and Mach-O binaries)
+ *
+ * Real build products are compiled by Xcode; these produce the same formats
+ * from plain values so tests can exercise IPA and .app scanning.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+/**
+ * Encode a JS value as a binary plist (bplist00)
+ *
+ * Supports objects, arrays, strings, integers, floats, booleans and Buffers.
+ */
+export function buildBinaryPlist(value: unknown): Buffer {
+  const objects: Buffer[] = [];
+
+  const encodeLength = (type: number, length: number): Buffer => {
+    if (length < 15) {
+      return Buffer.from([(type << 4) | length]);
+    }
+    const size = Buffer.alloc(6);
+    size[0] = (type << 4) | 0x0f;
+    size[1] = 0x12;
+    size.writeUInt32BE(length, 2);
+    return size;
+  };
+
+  const refBuffer = (refs: number[]): Buffer => {
+    const buffer = Buffer.alloc(refs.length * 2);
+    refs.forEach((ref, i) => buffer.writeUInt16BE(ref, i * 2));
+    return buffer;
+  };
+
+  const add = (item: unknown): number => {
+    const index = objects.length;
+    objects.push(Buffer.alloc(0));
+
+    let encoded: Buffer;
+    if (typeof item === 'boolean') {
+      encoded = Buffer.from([item ? 0x09 : 0x08]);
+    } else if (typeof item === 'number' && Number.isInteger(item)) {
+      encoded = Buffer.alloc(9);
+      encoded[0] = 0x13;
+      encoded.writeBigInt64BE(BigInt(item), 1);
+    } else if (typeof item === 'number') {
+      encoded = Buffer.alloc(9);
+      encoded[0] = 0x23;
+      encoded.writeDoubleBE(item, 1);
+    } else if (typeof item === 'string') {
+      if (/^[\x00-\x7f]*$/.test(item)) {
+        encoded = Buffer.concat([encodeLength(0x5, item.length), Buffer.from(item, 'latin1')]);
+      } else {
+        const utf16 = Buffer.from(item, 'utf16le').swap16();
+        encoded = Buffer.concat([encodeLength(0x6, utf16.length / 2), utf16]);
+      }
+    } else if (Buffer.isBuffer(item)) {
+      encoded = Buffer.concat([encodeLength(0x4, item.length), item]);
+    } else if (Array.isArray(item)) {
+      const refs = item.map(add);
+      encoded = Buffer.concat([encodeLength(0xa, refs.length), refBuffer(refs)]);
+    } else if (typeof item === 'object' && item !== null) {
+      const entries = Object.entries(item);
+      const keyRefs = entries.map(([key]) => add(key));
+      const valueRefs = entries.map(([, entryValue]) => add(entryValue));
+      encoded = Buffer.concat([encodeLength(0xd, entries.length), refBuffer([...keyRefs, ...valueRefs])]);
+    } else {
+      throw new Error(`Cannot encode ${typeof item} in a binary plist`);
+    }
+
+    objects[index] = encoded;
+    return index;
+  };
+
+  add(value);
+
+  const header = Buffer.from('bplist00', 'latin1');
+  const offsets: number[] = [];
+  let position = header.length;
+  for (const object of objects) {
+    offsets.push(position);
+    position += object.length;
+  }
+
+  const offsetTable = Buffer.alloc(offsets.length * 4);
+  offsets.forEach((offset, i) => offsetTable.writeUInt32BE(offset, i * 4));
+
+  const trailer = Buffer.alloc(32);
+  trailer[6] = 4; // offset int size
+  trailer[7] = 2; // object ref size
+  trailer.writeBigUInt64BE(BigInt(objects.length), 8);
+  trailer.writeBigUInt64BE(0n, 16);
+  trailer.writeBigUInt64BE(BigInt(position), 24);
+
+  return Buffer.concat([header, ...objects, offsetTable, trailer]);
+}
+
+/**
+ * Build a ZIP archive from a map of entry names to contents (deflated)
+ */
+export function buildZip(files: Record<string, string | Buffer>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8');
+    const compressed = zlib.deflateRawSync(data);
+    const nameBuffer = Buffer.from(name, 'utf-8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(0, 14); // CRC is not checked by the reader
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x031e, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE((0o100644 << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, compressed);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const count = Object.keys(files).length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(count, 8);
+  eocd.writeUInt16LE(count, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, eocd]);
+}
+
+/**
+ * Write files (relative path → contents) under a directory
+ */
+export function writeTree(root: string, files: Record<string, string | Buffer>): void {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+}
+
+/**
+ * Wrap an XML plist in bytes resembling a CMS-signed embedded.mobileprovision
+ */
+export function buildMobileProvision(profileXml: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([0x30, 0x82, 0x1f, 0x3a, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7]),
+    Buffer.from(profileXml, 'utf-8'),
+    Buffer.from([0xa0, 0x82, 0x0d, 0x3e, 0x30, 0x82]),
+  ]);
+}
+
+export interface MachOFixture {
+  /** Install names of linked dylibs */
+  dylibs?: string[];
+  /** Undefined external symbols, without the leading underscore */
+  imports?: string[];
+  /** Defined external symbols, without the leading underscore */
+  exports?: string[];
+  /** Selectors referenced from __objc_selrefs */
+  selectors?: string[];
+  /** Leave selrefs zeroed, as in an object file before linking */
+  unlinkedSelrefs?: boolean;
+}
+
+const ARM64 = 0x0100000c;
+const TEXT_VMADDR = 0x100000000;
+
+/**
+ * Build a thin 64-bit arm64 Mach-O with the given dylibs, symbols and selector references
+ */
+export function buildMachO(fixture: MachOFixture = {}): Buffer {
+  const dylibs = fixture.dylibs ?? [];
+  const selectors = fixture.selectors ?? [];
+  const symbols = [
+    ...(fixture.imports ?? []).map(name => ({ name, type: 0x01 })),
+    ...(fixture.exports ?? []).map(name => ({ name, type: 0x0f })),
+  ];
+
+  const align8 = (n: number): number => Math.ceil(n / 8) * 8;
+  const dylibCommandSizes = dylibs.map(name => align8(24 + name.length + 1));
+  const sizeofcmds = 2 * (72 + 80) + dylibCommandSizes.reduce((a, b) => a + b, 0) + 24;
+
+  // Data follows the load commands: method names, selrefs, symbol table, string table
+  const methnameOffset = 32 + sizeofcmds;
+  const methnameBlob = Buffer.from(selectors.map(sel => `${sel}\0`).join(''), 'latin1');
+  const selrefsOffset = align8(methnameOffset + methnameBlob.length);
+  const selrefs = Buffer.alloc(selectors.length * 8);
+  let nameOffset = 0;
+  selectors.forEach((sel, i) => {
+    if (!fixture.unlinkedSelrefs) {
+      selrefs.writeBigUInt64LE(BigInt(TEXT_VMADDR + methnameOffset + nameOffset), i * 8);
+    }
+    nameOffset += sel.length + 1;
+  });
+
+  const symoff = selrefsOffset + selrefs.length;
+  const symtab = Buffer.alloc(symbols.length * 16);
+  const strings: string[] = ['\0'];
+  let strx = 1;
+  symbols.forEach((symbol, i) => {
+    symtab.writeUInt32LE(strx, i * 16);
+    symtab[i * 16 + 4] = symbol.type;
+    strings.push(`_${symbol.name}\0`);
+    strx += symbol.name.length + 2;
+  });
+  const stringTable = Buffer.from(strings.join(''), 'latin1');
+  const stroff = symoff + symtab.length;
+
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeUInt32LE(ARM64, 4);
+  header.writeUInt32LE(2, 12); // MH_EXECUTE
+  header.writeUInt32LE(3 + dylibs.length, 16);
+  header.writeUInt32LE(sizeofcmds, 20);
+
+  const segment = (segname: string, sectname: string, offset: number, size: number): Buffer => {
+    const command = Buffer.alloc(72 + 80);
+    command.writeUInt32LE(0x19, 0);
+    command.writeUInt32LE(command.length, 4);
+    command.write(segname, 8, 'latin1');
+    command.writeBigUInt64LE(BigInt(TEXT_VMADDR + (segname === '__TEXT' ? 0 : offset)), 24);
+    command.writeUInt32LE(1, 64);
+    command.write(sectname, 72, 'latin1');
+    command.write(segname, 88, 'latin1');
+    command.writeBigUInt64LE(BigInt(TEXT_VMADDR + offset), 104);
+    command.writeBigUInt64LE(BigInt(size), 112);
+    command.writeUInt32LE(offset, 120);
+    return command;
+  };
+
+  const dylibCommands = dylibs.map((name, i) => {
+    const command = Buffer.alloc(dylibCommandSizes[i]);
+    command.writeUInt32LE(0xc, 0);
+    command.writeUInt32LE(command.length, 4);
+    command.writeUInt32LE(24, 8);
+    command.write(name, 24, 'latin1');
+    return command;
+  });
+
+  const symtabCommand = Buffer.alloc(24);
+  symtabCommand.writeUInt32LE(0x2, 0);
+  symtabCommand.writeUInt32LE(24, 4);
+  symtabCommand.writeUInt32LE(symoff, 8);
+  symtabCommand.writeUInt32LE(symbols.length, 12);
+  symtabCommand.writeUInt32LE(stroff, 16);
+  symtabCommand.writeUInt32LE(stringTable.length, 20);
+
+  return Buffer.concat([
+    header,
+    segment('__TEXT', '__objc_methname', methnameOffset, methnameBlob.length),
+    segment('__DATA', '__objc_selrefs', selrefsOffset, selrefs.length),
+    ...dylibCommands,
+    symtabCommand,
+    methnameBlob,
+    Buffer.alloc(selrefsOffset - methnameOffset - methnameBlob.length),
+    selrefs,
+    symtab,
+    stringTable,
+  ]);
+}
+
+/**
+ * Wrap thin Mach-O slices in a fat (universal) binary
+ */
+export function buildFatMachO(slices: { cpuType: number; binary: Buffer }[]): Buffer {
+  const header = Buffer.alloc(8 + slices.length * 20);
+  header.writeUInt32BE(0xcafebabe, 0);
+  header.writeUInt32BE(slices.length, 4);
+
+  const parts: Buffer[] = [header];
+  let offset = header.length;
+  slices.forEach((slice, i) => {
+    const padding = Buffer.alloc((16 - (offset % 16)) % 16);
+    parts.push(padding);
+    offset += padding.length;
+    header.writeUInt32BE(slice.cpuType, 8 + i * 20);
+    header.writeUInt32BE(offset, 8 + i * 20 + 8);
+    header.writeUInt32BE(slice.binary.length, 8 + i * 20 + 12);
+    parts.push(slice.binary);
+    offset += slice.binary.length;
+  });
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Build a static library (ar archive with BSD long member names)
+ */
+export function buildStaticLibrary(members: Record<string, Buffer>): Buffer {
+  const parts: Buffer[] = [Buffer.from('!<arch>\n', 'latin1')];
+  for (const [name, data] of Object.entries(members)) {
+    const nameBuffer = Buffer.from(name, 'latin1');
+    const size = nameBuffer.length + data.length;
+    const header = `#1/${nameBuffer.length}`.padEnd(16) + '0'.padEnd(12) + '0'.padEnd(6) + '0'.padEnd(6) +
+      '100644'.padEnd(8) + String(size).padEnd(10) + '`\n';
+    parts.push(Buffer.from(header, 'latin1'), nameBuffer, data);
+    if (size % 2) parts.push(Buffer.from('\n'));
+  }
+  return Buffer.concat(parts);
+}
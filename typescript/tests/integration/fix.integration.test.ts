@@ -0,0 +1,82 @@
+/**
+ * Integration test: shiplint fix
+ *
+ * Applies the fix edits of a scan to a real fixture and re-scans it.
+ * The fixed findings should disappear.
+ */
+import * as fs from 'fs';
+import { FixtureBuilder } from '../helpers/fixture-builder';
+import { withFixture, runScan, hasFinding, hasNoFinding } from '../helpers/integration-runner';
+import { collectFixes, planFixes, writeFixPlan } from '../../src/core/fixer';
+
+const ENCRYPTION = 'config-002-missing-encryption-flag';
+const ORIENTATIONS = 'metadata-002-missing-supported-orientations';
+const LAUNCH = 'config-003-missing-launch-storyboard';
+const REQUIRED_REASON = 'privacy-010-required-reason-api';
+
+async function fix(projectDir: string) {
+  const result = await runScan(projectDir);
+  const plan = planFixes(collectFixes(result.findings));
+  writeFixPlan(plan);
+  return plan;
+}
+
+describe('Integration: shiplint fix', () => {
+  it('adds missing keys to Info.plist', async () => {
+    await withFixture(async (tmpDir) => {
+      const fixture = new FixtureBuilder('FixPlistApp')
+        .withInfoPlistKey('CFBundleName', 'FixPlistApp')
+        .withPrivacyManifest()
+        .build(tmpDir);
+
+      const before = await runScan(fixture.projectDir);
+      expect(hasFinding(before, ENCRYPTION)).toBe(true);
+
+      const plan = await fix(fixture.projectDir);
+      expect(plan.skipped).toEqual([]);
+      expect(plan.patches.map((patch) => patch.file)).toEqual([fs.realpathSync(fixture.infoPlistPath!)]);
+
+      const after = await runScan(fixture.projectDir);
+      expect(hasNoFinding(after, ENCRYPTION)).toBe(true);
+      expect(hasNoFinding(after, ORIENTATIONS)).toBe(true);
+      expect(hasNoFinding(after, LAUNCH)).toBe(true);
+    });
+  });
+
+  it('sets INFOPLIST_KEY_* build settings for generated Info.plist targets', async () => {
+    await withFixture(async (tmpDir) => {
+      const fixture = new FixtureBuilder('FixGeneratedApp')
+        .withGeneratedInfoPlist()
+        .withPrivacyManifest()
+        .build(tmpDir);
+
+      await fix(fixture.projectDir);
+
+      const pbxproj = fs.readFileSync(fixture.pbxprojPath, 'utf-8');
+      expect(pbxproj).toContain('INFOPLIST_KEY_ITSAppUsesNonExemptEncryption = NO;');
+      const after = await runScan(fixture.projectDir);
+      expect(hasNoFinding(after, ENCRYPTION)).toBe(true);
+    });
+  });
+
+  it('declares undeclared Required Reason APIs in the privacy manifest', async () => {
+    await withFixture(async (tmpDir) => {
+      const fixture = new FixtureBuilder('FixManifestApp')
+        .withInfoPlistKey('ITSAppUsesNonExemptEncryption', false)
+        .withPrivacyManifest()
+        .withSwiftFile('Settings.swift', 'let launches = UserDefaults.standard.integer(forKey: "launches")\n')
+        .build(tmpDir);
+
+      const before = await runScan(fixture.projectDir);
+      expect(hasFinding(before, REQUIRED_REASON)).toBe(true);
+
+      await fix(fixture.projectDir);
+
+      const manifest = fs.readFileSync(fixture.privacyManifestPath!, 'utf-8');
+      expect(manifest).toContain('<string>NSPrivacyAccessedAPICategoryUserDefaults</string>');
+      expect(manifest).toContain('<string>CA92.1</string>');
+      const after = await runScan(fixture.projectDir);
+      expect(hasNoFinding(after, REQUIRED_REASON)).toBe(true);
+    });
+  });
+});
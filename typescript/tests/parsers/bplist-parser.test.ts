@@ -0,0 +1,79 @@
+/**
+ * Tests for bplist-parser.ts (binary property lists)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { isBinaryPlist, parseBinaryPlist } from '../../src/parsers/bplist-parser';
+import { parsePlist } from '../../src/parsers/plist-parser';
+import { buildBinaryPlist } from '../helpers/binary-fixtures';
+
+describe('parseBinaryPlist', () => {
+  it('decodes dictionaries, arrays and scalars', () => {
+    const value = {
+      CFBundleIdentifier: 'com.example.app',
+      UIRequiredDeviceCapabilities: ['arm64'],
+      ITSAppUsesNonExemptEncryption: false,
+      UIStatusBarHidden: true,
+      LSMinimumSystemVersionCount: 42,
+      Negative: -7,
+      Ratio: 1.5,
+    };
+
+    expect(parseBinaryPlist(buildBinaryPlist(value))).toEqual(value);
+  });
+
+  it('decodes UTF-16 strings, long strings and data', () => {
+    const long = 'This app uses the camera to scan QR codes on event tickets.';
+    const parsed = parseBinaryPlist(buildBinaryPlist({
+      NSCameraUsageDescription: long,
+      CFBundleDisplayName: 'Café ☕',
+      Blob: Buffer.from([1, 2, 3]),
+    })) as Record<string, unknown>;
+
+    expect(parsed.NSCameraUsageDescription).toBe(long);
+    expect(parsed.CFBundleDisplayName).toBe('Café ☕');
+    expect(parsed.Blob).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  it('rejects XML and truncated input', () => {
+    const xml = Buffer.from('<?xml version="1.0"?><plist><dict/></plist>');
+    expect(isBinaryPlist(xml)).toBe(false);
+    expect(() => parseBinaryPlist(xml)).toThrow('missing bplist00 header');
+
+    const truncated = buildBinaryPlist({ a: 'b' }).subarray(0, 20);
+    expect(() => parseBinaryPlist(truncated)).toThrow();
+  });
+
+  it('rejects reference cycles', () => {
+    // An array (object 0) whose only element is itself
+    const buffer = Buffer.concat([
+      Buffer.from('bplist00', 'latin1'),
+      Buffer.from([0xa1, 0x00]),
+      Buffer.from([0x08]),
+      Buffer.alloc(32),
+    ]);
+    const trailer = buffer.length - 32;
+    buffer[trailer + 6] = 1;
+    buffer[trailer + 7] = 1;
+    buffer.writeBigUInt64BE(1n, trailer + 8);
+    buffer.writeBigUInt64BE(0n, trailer + 16);
+    buffer.writeBigUInt64BE(10n, trailer + 24);
+
+    expect(() => parseBinaryPlist(buffer)).toThrow('reference cycle');
+  });
+});
+
+describe('parsePlist with binary files', () => {
+  it('reads compiled Info.plist files', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-bplist-test-'));
+    try {
+      const plistPath = path.join(tempDir, 'Info.plist');
+      fs.writeFileSync(plistPath, buildBinaryPlist({ CFBundleIdentifier: 'com.example.app' }));
+
+      expect(parsePlist(plistPath)).toEqual({ CFBundleIdentifier: 'com.example.app' });
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
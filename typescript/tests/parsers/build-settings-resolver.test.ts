@@ -0,0 +1,218 @@
+/**
+ * Tests for build-settings-resolver.ts and xcconfig layering in scan contexts
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { resolveBuildSettingLayers, matchesBuildSettingConditions, expandBuildSettingValue } from '../../src/parsers/build-settings-resolver';
+import { parseXcconfigContent } from '../../src/parsers/xcconfig-parser';
+import { resolvePbxprojObjectPath } from '../../src/parsers/pbxproj-parser';
+import { discoverProject, createScanContext } from '../../src/parsers/project-parser';
+
+const layer = (content: string) => parseXcconfigContent(content);
+
+describe('resolveBuildSettingLayers', () => {
+  it('lets each level override the one below and expands $(inherited) from below', () => {
+    const settings = resolveBuildSettingLayers([
+      layer('PRODUCT_NAME = $(TARGET_NAME)\nOTHER_LDFLAGS = -lz'),
+      layer('OTHER_LDFLAGS = $(inherited) -ObjC\nSWIFT_VERSION = 5.0'),
+      layer('SWIFT_VERSION = 6.0\nOTHER_LDFLAGS = $(inherited) -lc++'),
+    ], { variables: { TARGET_NAME: 'Receipts' } });
+
+    expect(settings).toEqual({
+      PRODUCT_NAME: 'Receipts',
+      OTHER_LDFLAGS: '-lz -ObjC -lc++',
+      SWIFT_VERSION: '6.0',
+    });
+  });
+
+  it('expands $(VAR) against the final settings', () => {
+    const settings = resolveBuildSettingLayers([
+      layer('APP_ENV = Staging\nINFOPLIST_FILE = $(SRCROOT)/$(TARGET_NAME)/Info-$(APP_ENV).plist'),
+      layer('APP_ENV = Production\nPRODUCT_BUNDLE_IDENTIFIER = com.example.${PRODUCT_NAME:rfc1034identifier}'),
+    ], { variables: { TARGET_NAME: 'App', PRODUCT_NAME: 'My App' } });
+
+    // Unknown variables such as SRCROOT are kept for path normalization
+    expect(settings.INFOPLIST_FILE).toBe('$(SRCROOT)/App/Info-Production.plist');
+    expect(settings.PRODUCT_BUNDLE_IDENTIFIER).toBe('com.example.My-App');
+  });
+
+  it('applies [sdk=...] and [config=...] conditions', () => {
+    const layers = [layer(`SDKROOT = iphoneos
+CODE_SIGN_ENTITLEMENTS = App/App.entitlements
+CODE_SIGN_ENTITLEMENTS[config=AppStore] = App/AppStore.entitlements
+EXCLUDED_ARCHS[sdk=iphonesimulator*] = arm64
+SUPPORTS_MACCATALYST[sdk=macosx*] = YES`)];
+
+    expect(resolveBuildSettingLayers(layers, { configuration: 'Release' })).toEqual({
+      SDKROOT: 'iphoneos',
+      CODE_SIGN_ENTITLEMENTS: 'App/App.entitlements',
+    });
+    expect(resolveBuildSettingLayers(layers, { configuration: 'AppStore' }).CODE_SIGN_ENTITLEMENTS).toBe('App/AppStore.entitlements');
+  });
+
+  it('matches [sdk=...] against SDKROOT', () => {
+    const settings = resolveBuildSettingLayers([
+      layer('SDKROOT = macosx\nINFOPLIST_KEY_LSApplicationCategoryType[sdk=macosx*] = public.app-category.finance'),
+    ]);
+
+    expect(settings.INFOPLIST_KEY_LSApplicationCategoryType).toBe('public.app-category.finance');
+  });
+});
+
+describe('matchesBuildSettingConditions', () => {
+  it('supports wildcards and rejects unknown conditions', () => {
+    expect(matchesBuildSettingConditions({ sdk: 'iphoneos*', arch: 'arm*' }, {})).toBe(true);
+    expect(matchesBuildSettingConditions({ config: 'Debug' }, { configuration: 'Release' })).toBe(false);
+    expect(matchesBuildSettingConditions({ variant: 'profile' }, {})).toBe(false);
+  });
+});
+
+describe('expandBuildSettingValue', () => {
+  it('leaves cyclic and unknown references in place', () => {
+    const values: Record<string, string> = { A: '$(B)', B: '$(A)' };
+
+    expect(expandBuildSettingValue('$(A) $(UNKNOWN) $(UNKNOWN:default=x)', name => values[name])).toBe('$(A) $(UNKNOWN) x');
+  });
+});
+
+describe('xcconfig files in scan contexts', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-build-settings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  const PBXPROJ = `// !$*UTF8*$!
+{
+  objects = {
+/* Begin PBXFileReference section */
+    F1000000000000000001 /* Project.xcconfig */ = {isa = PBXFileReference; lastKnownFileType = text.xcconfig; path = Project.xcconfig; sourceTree = "<group>"; };
+    F1000000000000000002 /* Release.xcconfig */ = {isa = PBXFileReference; lastKnownFileType = text.xcconfig; path = Release.xcconfig; sourceTree = "<group>"; };
+/* End PBXFileReference section */
+/* Begin PBXGroup section */
+    G1000000000000000001 = {
+      isa = PBXGroup;
+      children = (
+        G1000000000000000002 /* Configuration */,
+      );
+      sourceTree = "<group>";
+    };
+    G1000000000000000002 /* Configuration */ = {
+      isa = PBXGroup;
+      children = (
+        F1000000000000000001 /* Project.xcconfig */,
+        G1000000000000000003 /* App */,
+      );
+      path = Configuration;
+      sourceTree = "<group>";
+    };
+    G1000000000000000003 /* App */ = {
+      isa = PBXGroup;
+      children = (
+        F1000000000000000002 /* Release.xcconfig */,
+      );
+      path = App;
+      sourceTree = "<group>";
+    };
+/* End PBXGroup section */
+/* Begin PBXNativeTarget section */
+    T1000000000000000001 /* Receipts */ = {
+      isa = PBXNativeTarget;
+      buildConfigurationList = L1000000000000000002 /* Build configuration list for PBXNativeTarget "Receipts" */;
+      buildPhases = (
+      );
+      name = Receipts;
+      productName = Receipts;
+      productType = "com.apple.product-type.application";
+    };
+/* End PBXNativeTarget section */
+/* Begin XCBuildConfiguration section */
+    C1000000000000000001 /* Release */ = {
+      isa = XCBuildConfiguration;
+      baseConfigurationReference = F1000000000000000001 /* Project.xcconfig */;
+      buildSettings = {
+        SWIFT_VERSION = 5.0;
+      };
+      name = Release;
+    };
+    C1000000000000000002 /* Release */ = {
+      isa = XCBuildConfiguration;
+      baseConfigurationReference = F1000000000000000002 /* Release.xcconfig */;
+      buildSettings = {
+        "INFOPLIST_KEY_NSCameraUsageDescription[sdk=iphoneos*]" = "Scan receipts";
+      };
+      name = Release;
+    };
+/* End XCBuildConfiguration section */
+/* Begin XCConfigurationList section */
+    L1000000000000000001 /* Build configuration list for PBXProject "Receipts" */ = {
+      isa = XCConfigurationList;
+      buildConfigurations = (
+        C1000000000000000001 /* Release */,
+      );
+    };
+    L1000000000000000002 /* Build configuration list for PBXNativeTarget "Receipts" */ = {
+      isa = XCConfigurationList;
+      buildConfigurations = (
+        C1000000000000000002 /* Release */,
+      );
+    };
+/* End XCConfigurationList section */
+  };
+  rootObject = R1000000000000000001 /* Project object */;
+}`;
+
+  beforeEach(() => {
+    write('Receipts.xcodeproj/project.pbxproj', PBXPROJ);
+    write('Configuration/Project.xcconfig', 'GENERATE_INFOPLIST_FILE = YES\nSWIFT_VERSION = 4.2\nAPP_ENV = Production');
+    write('Configuration/Shared.xcconfig', 'CODE_SIGN_ENTITLEMENTS = Receipts/Receipts-$(APP_ENV).entitlements\nINFOPLIST_KEY_NSCameraUsageDescription = Take photos');
+    write('Configuration/App/Release.xcconfig', '#include "../Shared.xcconfig"\nINFOPLIST_FILE = $(SRCROOT)/$(TARGET_NAME)/Info.plist');
+    write('Receipts/Info.plist', '<?xml version="1.0" encoding="UTF-8"?>\n<plist version="1.0"><dict></dict></plist>');
+    write('Receipts/Receipts-Production.entitlements', '<?xml version="1.0" encoding="UTF-8"?>\n<plist version="1.0"><dict><key>aps-environment</key><string>production</string></dict></plist>');
+  });
+
+  it('resolves file references through their groups', () => {
+    expect(resolvePbxprojObjectPath(PBXPROJ, 'F1000000000000000002', tempDir))
+      .toBe(path.join(tempDir, 'Configuration', 'App', 'Release.xcconfig'));
+  });
+
+  it('layers project and target xcconfigs under their build settings', () => {
+    const discovery = discoverProject(tempDir);
+    const context = createScanContext(discovery);
+
+    expect(discovery.infoPlistPath).toBe(path.join(tempDir, 'Receipts', 'Info.plist'));
+    expect(discovery.entitlementsPath).toBe(path.join(tempDir, 'Receipts', 'Receipts-Production.entitlements'));
+    expect(context.buildSettings).toMatchObject({
+      PRODUCT_NAME: 'Receipts',
+      GENERATE_INFOPLIST_FILE: 'YES',
+      SWIFT_VERSION: '5.0',
+      INFOPLIST_FILE: '$(SRCROOT)/Receipts/Info.plist',
+      INFOPLIST_KEY_NSCameraUsageDescription: 'Scan receipts',
+    });
+    expect(context.generatesInfoPlist()).toBe(true);
+    expect(context.plistString('NSCameraUsageDescription')).toBe('Scan receipts');
+  });
+
+  it('reads base configurations from synchronized folders', () => {
+    write('Receipts.xcodeproj/project.pbxproj', PBXPROJ
+      .replace('baseConfigurationReference = F1000000000000000002 /* Release.xcconfig */;',
+        'baseConfigurationReferenceAnchor = S1000000000000000001 /* Configuration */;\n      baseConfigurationReferenceRelativePath = App/Release.xcconfig;')
+      .replace('/* End PBXGroup section */', `/* End PBXGroup section */
+    S1000000000000000001 /* Configuration */ = {isa = PBXFileSystemSynchronizedRootGroup; path = Configuration; sourceTree = "<group>"; };`));
+
+    const context = createScanContext(discoverProject(tempDir));
+
+    expect(context.buildSettings.CODE_SIGN_ENTITLEMENTS).toBe('Receipts/Receipts-Production.entitlements');
+  });
+});
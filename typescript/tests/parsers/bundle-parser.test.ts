@@ -0,0 +1,269 @@
+/**
+ * Tests for bundle-parser.ts and zip-reader.ts (IPA and .app scanning)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { extractIpa, parseMobileProvision, readAppBundle } from '../../src/parsers/bundle-parser';
+import { readZipEntries, extractZipEntries } from '../../src/parsers/zip-reader';
+import { discoverProject, createScanContexts, cleanupDiscovery } from '../../src/parsers/project-parser';
+import { ProductType } from '../../src/parsers/pbxproj-parser';
+import { scan } from '../../src/core/scanner';
+import { DependencySource } from '../../src/types';
+import { buildBinaryPlist, buildZip, buildMobileProvision, buildMachO, writeTree } from '../helpers/binary-fixtures';
+
+const PRIVACY_MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>NSPrivacyTracking</key>
+  <false/>
+  <key>NSPrivacyAccessedAPITypes</key>
+  <array/>
+</dict>
+</plist>`;
+
+function provisioningProfile(entitlements: string): Buffer {
+  return buildMobileProvision(`<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>Name</key>
+  <string>MyApp App Store</string>
+  <key>Entitlements</key>
+  <dict>
+    ${entitlements}
+  </dict>
+</dict>
+</plist>`);
+}
+
+/**
+ * Files of a built MyApp.app with a widget extension and two embedded frameworks
+ */
+function appBundleFiles(prefix = ''): Record<string, string | Buffer> {
+  return {
+    [`${prefix}MyApp.app/Info.plist`]: buildBinaryPlist({
+      CFBundleIdentifier: 'com.example.myapp',
+      CFBundleName: 'MyApp',
+      UILaunchStoryboardName: 'LaunchScreen',
+    }),
+    [`${prefix}MyApp.app/embedded.mobileprovision`]: provisioningProfile(
+      '<key>com.apple.developer.applesignin</key><array><string>Default</string></array>'
+    ),
+    [`${prefix}MyApp.app/MyApp`]: buildMachO({ imports: ['OBJC_CLASS_$_NSUserDefaults'] }),
+    [`${prefix}MyApp.app/Frameworks/FirebaseCore.framework/Info.plist`]: buildBinaryPlist({
+      CFBundleIdentifier: 'org.cocoapods.FirebaseCore',
+      CFBundleShortVersionString: '10.20.0',
+    }),
+    [`${prefix}MyApp.app/Frameworks/FirebaseCore.framework/PrivacyInfo.xcprivacy`]: PRIVACY_MANIFEST,
+    [`${prefix}MyApp.app/Frameworks/Mixpanel.framework/Info.plist`]: buildBinaryPlist({
+      CFBundleShortVersionString: '4.1.0',
+    }),
+    [`${prefix}MyApp.app/Frameworks/Mixpanel.framework/Mixpanel`]: buildMachO({ imports: ['mach_absolute_time', 'dlopen'] }),
+    [`${prefix}MyApp.app/PlugIns/MyWidget.appex/Info.plist`]: buildBinaryPlist({
+      CFBundleIdentifier: 'com.example.myapp.widget',
+      NSExtension: { NSExtensionPointIdentifier: 'com.apple.widgetkit-extension' },
+    }),
+    [`${prefix}MyApp.app/PlugIns/MyWidget.appex/PrivacyInfo.xcprivacy`]: PRIVACY_MANIFEST,
+  };
+}
+
+describe('bundle parsing', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-bundle-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('zip-reader', () => {
+    it('lists and extracts deflated entries, skipping paths that escape the destination', () => {
+      const zipPath = path.join(tempDir, 'test.zip');
+      fs.writeFileSync(zipPath, buildZip({
+        'Payload/A.app/Info.plist': 'hello',
+        '../evil.txt': 'nope',
+      }));
+
+      const entries = readZipEntries(zipPath);
+      expect(entries.map(e => e.name)).toEqual(['Payload/A.app/Info.plist', '../evil.txt']);
+
+      const outDir = path.join(tempDir, 'out');
+      const written = extractZipEntries(zipPath, entries, outDir);
+
+      expect(written).toEqual([path.join(outDir, 'Payload/A.app/Info.plist')]);
+      expect(fs.readFileSync(written[0], 'utf-8')).toBe('hello');
+      expect(fs.existsSync(path.join(tempDir, 'evil.txt'))).toBe(false);
+    });
+
+    it('rejects files that are not ZIP archives', () => {
+      const notZip = path.join(tempDir, 'App.ipa');
+      fs.writeFileSync(notZip, 'not a zip');
+      expect(() => readZipEntries(notZip)).toThrow('Not a ZIP archive');
+    });
+  });
+
+  describe('parseMobileProvision', () => {
+    it('reads the plist embedded in the signed profile', () => {
+      const profilePath = path.join(tempDir, 'embedded.mobileprovision');
+      fs.writeFileSync(profilePath, provisioningProfile('<key>aps-environment</key><string>production</string>'));
+
+      const profile = parseMobileProvision(profilePath);
+      expect(profile.Name).toBe('MyApp App Store');
+      expect(profile.Entitlements).toEqual({ 'aps-environment': 'production' });
+    });
+  });
+
+  describe('readAppBundle', () => {
+    it('reads Info.plist, entitlements, frameworks, manifests and nested bundles', () => {
+      writeTree(tempDir, appBundleFiles());
+
+      const bundle = readAppBundle(path.join(tempDir, 'MyApp.app'));
+
+      expect(bundle.infoPlist.CFBundleIdentifier).toBe('com.example.myapp');
+      expect(bundle.entitlements['com.apple.developer.applesignin']).toEqual(['Default']);
+      expect(bundle.frameworks.map(fw => [fw.name, fw.version])).toEqual([
+        ['FirebaseCore', '10.20.0'],
+        ['Mixpanel', '4.1.0'],
+      ]);
+      expect(bundle.privacyManifests.map(m => m.bundleName)).toEqual(['FirebaseCore.framework']);
+      expect(bundle.nestedBundles).toHaveLength(1);
+      expect(bundle.nestedBundles[0].name).toBe('MyWidget');
+      expect(bundle.nestedBundles[0].productType).toBe(ProductType.AppExtension);
+      expect(bundle.nestedBundles[0].privacyManifests[0].isAppManifest).toBe(true);
+    });
+  });
+
+  describe('extractIpa', () => {
+    it('extracts Payload/*.app to a temporary directory', () => {
+      const ipaPath = path.join(tempDir, 'MyApp.ipa');
+      fs.writeFileSync(ipaPath, buildZip({
+        ...appBundleFiles('Payload/'),
+        'Symbols/ABC.symbols': 'skipped',
+      }));
+
+      const { appPath, tempDir: extractDir } = extractIpa(ipaPath);
+      try {
+        expect(path.basename(appPath)).toBe('MyApp.app');
+        expect(fs.existsSync(path.join(appPath, 'PlugIns', 'MyWidget.appex', 'Info.plist'))).toBe(true);
+        expect(fs.existsSync(path.join(extractDir, 'Symbols'))).toBe(false);
+      } finally {
+        fs.rmSync(extractDir, { recursive: true, force: true });
+      }
+    });
+
+    it('fails when the archive has no app payload', () => {
+      const ipaPath = path.join(tempDir, 'Empty.ipa');
+      fs.writeFileSync(ipaPath, buildZip({ 'README.txt': 'hi' }));
+      expect(() => extractIpa(ipaPath)).toThrow('No Payload/*.app found');
+    });
+  });
+
+  describe('bundle scan contexts', () => {
+    it('creates one context per bundle from a .app directory', () => {
+      writeTree(tempDir, appBundleFiles());
+
+      const discovery = discoverProject(path.join(tempDir, 'MyApp.app'));
+      const contexts = createScanContexts(discovery);
+
+      expect(discovery.bundle?.kind).toBe('app');
+      expect(discovery.projectPath).toBe(tempDir);
+      expect(contexts.map(c => c.targetName)).toEqual(['MyApp', 'MyWidget']);
+
+      const [app, widget] = contexts;
+      expect(app.productType).toBe(ProductType.Application);
+      expect(app.hasPlistKey('UILaunchStoryboardName')).toBe(true);
+      expect(app.hasEntitlement('com.apple.developer.applesignin')).toBe(true);
+      expect(app.hasFramework('FirebaseCore')).toBe(true);
+      expect(app.dependencies).toContainEqual({ name: 'Mixpanel', version: '4.1.0', source: DependencySource.Manual });
+      expect(widget.isExtension()).toBe(true);
+      expect(widget.dependencies).toEqual([]);
+      
+      expect(app.binaries?.map(b => b.bundleName)).toEqual(['MyApp.app', 'Mixpanel.framework']);
+      expect(app.binaries?.[1].importedSymbols).toEqual(['dlopen', 'mach_absolute_time']);
+      expect(widget.binaries).toEqual([]);
+    });
+
+    it('reads vendored framework and xcframework binaries in a project', () => {
+      writeTree(tempDir, {
+        'App/AppDelegate.swift': 'import UIKit',
+        'Vendor/Legacy.framework/Legacy': buildMachO({ imports: ['stat'] }),
+        'Vendor/Ads.xcframework/Info.plist': buildBinaryPlist({
+          AvailableLibraries: [
+            { LibraryIdentifier: 'ios-arm64_x86_64-simulator', LibraryPath: 'Ads.framework', SupportedPlatform: 'ios', SupportedPlatformVariant: 'simulator' },
+            { LibraryIdentifier: 'ios-arm64', LibraryPath: 'Ads.framework', SupportedPlatform: 'ios' },
+          ],
+        }),
+        'Vendor/Ads.xcframework/ios-arm64/Ads.framework/Ads': buildMachO({ imports: ['dlopen'] }),
+        'Vendor/Ads.xcframework/ios-arm64_x86_64-simulator/Ads.framework/Ads': buildMachO({ imports: ['simulator_only'] }),
+        'Pods/Analytics/Analytics.xcframework/ios-arm64/libAnalytics.a': buildMachO({ imports: ['statfs'] }),
+      });
+
+      const [context] = createScanContexts(discoverProject(tempDir));
+      const binaries = Object.fromEntries((context.binaries ?? []).map(b => [b.bundleName, b.importedSymbols]));
+
+      expect(binaries).toEqual({
+        'Legacy.framework': ['stat'],
+        'Ads.xcframework': ['dlopen'],
+        'Analytics.xcframework': ['statfs'],
+      });
+    });
+
+    it('removes the extracted IPA on cleanup', () => {
+      const ipaPath = path.join(tempDir, 'MyApp.ipa');
+      fs.writeFileSync(ipaPath, buildZip(appBundleFiles('Payload/')));
+
+      const discovery = discoverProject(ipaPath);
+      expect(discovery.bundle?.kind).toBe('ipa');
+      expect(fs.existsSync(discovery.bundle!.tempDir!)).toBe(true);
+
+      cleanupDiscovery(discovery);
+      expect(fs.existsSync(discovery.bundle!.tempDir!)).toBe(false);
+    });
+  });
+
+  describe('scan', () => {
+    it('scans an IPA and reports locations inside the archive', async () => {
+      const ipaPath = path.join(tempDir, 'MyApp.ipa');
+      fs.writeFileSync(ipaPath, buildZip(appBundleFiles('Payload/')));
+
+      const result = await scan({
+        path: ipaPath,
+        rules: ['config-002-missing-encryption-flag', 'metadata-001-missing-privacy-manifest'],
+      });
+
+      expect(result.projectType).toBe('ipa');
+      expect(result.targetCount).toBe(2);
+
+      const encryption = result.findings.find(f => f.ruleId === 'config-002-missing-encryption-flag' && f.targetName === 'MyApp');
+      expect(encryption?.location).toBe('MyApp.ipa/Payload/MyApp.app/Info.plist');
+
+      // Mixpanel ships no manifest and the app has none; FirebaseCore brings its own
+      const manifest = result.findings.find(f => f.ruleId === 'metadata-001-missing-privacy-manifest');
+      expect(manifest?.description).toContain('Mixpanel');
+      expect(manifest?.description).not.toContain('Firebase');
+    });
+
+    it('fingerprints an IPA the same from any working directory', async () => {
+      fs.mkdirSync(path.join(tempDir, 'build'));
+      fs.writeFileSync(path.join(tempDir, 'build', 'MyApp.ipa'), buildZip(appBundleFiles('Payload/')));
+      const rules = ['config-002-missing-encryption-flag'];
+      const cwd = process.cwd();
+
+      try {
+        process.chdir(tempDir);
+        const fromRoot = await scan({ path: 'build/MyApp.ipa', rules });
+        process.chdir(path.join(tempDir, 'build'));
+        const fromBuild = await scan({ path: 'MyApp.ipa', rules });
+
+        expect(fromRoot.findings.length).toBeGreaterThan(0);
+        expect(fromBuild.findings.map(f => f.fingerprint)).toEqual(fromRoot.findings.map(f => f.fingerprint));
+      } finally {
+        process.chdir(cwd);
+      }
+    });
+  });
+});
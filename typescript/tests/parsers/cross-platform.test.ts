@@ -0,0 +1,149 @@
+/**
+ * Tests for cross-platform.ts
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { detectCrossPlatformProject, detectPluginFrameworks } from '../../src/parsers/cross-platform';
+import { discoverProject, createScanContext } from '../../src/parsers/project-parser';
+import { scan } from '../../src/core/scanner';
+
+describe('cross-platform projects', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-cross-platform-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  function writeXcodeProject(dir: string, name: string): void {
+    write(path.join(dir, `${name}.xcodeproj`, 'project.pbxproj'), '// !$*UTF8*$!\n{ objects = {}; }');
+    write(path.join(dir, name, 'Info.plist'), `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0"><dict><key>CFBundleIdentifier</key><string>com.example.app</string></dict></plist>`);
+  }
+
+  describe('detectCrossPlatformProject', () => {
+    it('detects React Native from package.json, from the root or from ios/', () => {
+      write('package.json', JSON.stringify({ dependencies: { 'react-native': '0.74.1' } }));
+      fs.mkdirSync(path.join(tempDir, 'ios'));
+
+      const fromRoot = detectCrossPlatformProject(tempDir);
+      const fromIos = detectCrossPlatformProject(path.join(tempDir, 'ios'));
+
+      expect(fromRoot).toEqual({ kind: 'react-native', rootDir: tempDir, iosDir: path.join(tempDir, 'ios') });
+      expect(fromIos).toEqual(fromRoot);
+    });
+
+    it('detects Flutter from pubspec.yaml', () => {
+      write('pubspec.yaml', 'name: app\ndependencies:\n  flutter:\n    sdk: flutter\n');
+
+      expect(detectCrossPlatformProject(tempDir)?.kind).toBe('flutter');
+    });
+
+    it('detects Capacitor and its ios/App project', () => {
+      write('capacitor.config.ts', 'export default { appId: "com.example.app" };');
+      fs.mkdirSync(path.join(tempDir, 'ios', 'App'), { recursive: true });
+
+      expect(detectCrossPlatformProject(tempDir)).toEqual({
+        kind: 'capacitor',
+        rootDir: tempDir,
+        iosDir: path.join(tempDir, 'ios', 'App'),
+      });
+    });
+
+    it('detects Kotlin Multiplatform and Unity', () => {
+      write('kmp/settings.gradle.kts', 'include(":shared")');
+      fs.mkdirSync(path.join(tempDir, 'kmp', 'iosApp'));
+      write('game/ProjectSettings/ProjectVersion.txt', 'm_EditorVersion: 2022.3.20f1');
+      write('game/Builds/iOS/Unity-iPhone.xcodeproj/project.pbxproj', '');
+
+      expect(detectCrossPlatformProject(path.join(tempDir, 'kmp'))?.kind).toBe('kmp');
+      expect(detectCrossPlatformProject(path.join(tempDir, 'game'))).toEqual({
+        kind: 'unity',
+        rootDir: path.join(tempDir, 'game'),
+        iosDir: path.join(tempDir, 'game', 'Builds', 'iOS'),
+      });
+    });
+
+    it('ignores plain iOS projects and Node packages', () => {
+      fs.mkdirSync(path.join(tempDir, '.git'));
+      write('package.json', JSON.stringify({ dependencies: { express: '^4.0.0' } }));
+
+      expect(detectCrossPlatformProject(tempDir)).toBeUndefined();
+    });
+  });
+
+  describe('detectPluginFrameworks', () => {
+    it('maps React Native plugins and react-native-permissions handlers to frameworks', () => {
+      write('package.json', JSON.stringify({
+        dependencies: { 'react-native': '0.74.1', 'react-native-vision-camera': '^4.0.0', 'expo-location': '~17.0.0' },
+      }));
+      write('ios/Podfile', "setup_permissions([\n  'Contacts',\n  'Microphone',\n])");
+
+      const project = detectCrossPlatformProject(tempDir)!;
+
+      expect([...detectPluginFrameworks(project)].sort()).toEqual(['AVFAudio', 'AVFoundation', 'Contacts', 'CoreLocation']);
+    });
+
+    it('maps Flutter plugins and permission_handler macros to frameworks', () => {
+      write('pubspec.yaml', 'dependencies:\n  flutter:\n    sdk: flutter\n');
+      write('pubspec.lock', 'packages:\n  image_picker:\n    version: "1.0.7"\n  location:\n    version: "5.0.3"\n');
+      write('ios/Podfile', `post_install do |installer|
+  config.build_settings['GCC_PREPROCESSOR_DEFINITIONS'] ||= [
+    '$(inherited)',
+    'PERMISSION_CAMERA=1',
+    'PERMISSION_NOTIFICATIONS=1',
+  ]
+end`);
+
+      const project = detectCrossPlatformProject(tempDir)!;
+
+      expect([...detectPluginFrameworks(project)].sort()).toEqual(['AVFoundation', 'CoreLocation', 'Photos', 'PhotosUI']);
+    });
+
+    it('reads platform imports from Kotlin iOS sources', () => {
+      write('settings.gradle.kts', '');
+      fs.mkdirSync(path.join(tempDir, 'iosApp'));
+      write('shared/src/iosMain/kotlin/Location.kt', 'import platform.CoreLocation.CLLocationManager\nimport platform.posix.memcpy');
+      write('shared/src/commonMain/kotlin/Common.kt', 'import platform.Contacts.CNContactStore');
+
+      const project = detectCrossPlatformProject(tempDir)!;
+
+      expect([...detectPluginFrameworks(project)]).toEqual(['CoreLocation']);
+    });
+  });
+
+  describe('discovery', () => {
+    it('finds the iOS project under ios/ and adds plugin frameworks to the context', () => {
+      write('package.json', JSON.stringify({ dependencies: { 'react-native': '0.74.1', 'expo-camera': '~15.0.0' } }));
+      writeXcodeProject('ios', 'MyApp');
+      writeXcodeProject('android/sample', 'Other');
+
+      const discovery = discoverProject(tempDir);
+      const context = createScanContext(discovery);
+
+      expect(discovery.crossPlatform?.kind).toBe('react-native');
+      expect(discovery.pbxprojPath).toBe(path.join(tempDir, 'ios', 'MyApp.xcodeproj', 'project.pbxproj'));
+      expect(discovery.infoPlistPath).toBe(path.join(tempDir, 'ios', 'MyApp', 'Info.plist'));
+      expect(context.hasFramework('AVFoundation')).toBe(true);
+    });
+
+    it('reports the cross-platform project type', async () => {
+      write('pubspec.yaml', 'dependencies:\n  flutter:\n    sdk: flutter\n');
+      writeXcodeProject('ios', 'Runner');
+
+      const result = await scan({ path: tempDir, rules: ['config-002-missing-encryption-flag'] });
+
+      expect(result.projectType).toBe('flutter');
+    });
+  });
+});
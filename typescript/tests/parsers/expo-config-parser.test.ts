@@ -0,0 +1,153 @@
+/**
+ * Tests for expo-config-parser.ts
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { parseExpoConfig, expoKeyLocation } from '../../src/parsers/expo-config-parser';
+import { discoverProject } from '../../src/parsers/project-parser';
+import { scan } from '../../src/core/scanner';
+
+describe('parseExpoConfig', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-expo-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): string {
+    const filePath = path.join(tempDir, file);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  const APP_JSON = `{
+  "expo": {
+    "name": "Snap",
+    "version": "1.2.0",
+    "orientation": "portrait",
+    "ios": {
+      "bundleIdentifier": "com.example.snap",
+      "usesAppleSignIn": true,
+      "infoPlist": {
+        "NSLocationWhenInUseUsageDescription": "Find photos taken nearby"
+      },
+      "entitlements": {
+        "aps-environment": "production"
+      }
+    },
+    "plugins": [
+      ["expo-camera", { "cameraPermission": "Take photos of receipts", "microphonePermission": false }],
+      "expo-contacts"
+    ]
+  }
+}
+`;
+
+  it('returns undefined without an Expo config', () => {
+    write('app.json', '{ "name": "bare-app", "displayName": "Bare App" }');
+
+    expect(parseExpoConfig(tempDir)).toBeUndefined();
+  });
+
+  it('builds Info.plist and entitlements from ios fields and plugins', () => {
+    const appJson = write('app.json', APP_JSON);
+
+    const config = parseExpoConfig(tempDir)!;
+
+    expect(config.path).toBe(appJson);
+    expect(config.infoPlist).toEqual({
+      UILaunchStoryboardName: 'SplashScreen',
+      CFBundleDisplayName: 'Snap',
+      CFBundleIdentifier: 'com.example.snap',
+      CFBundleShortVersionString: '1.2.0',
+      UISupportedInterfaceOrientations: ['UIInterfaceOrientationPortrait'],
+      NSCameraUsageDescription: 'Take photos of receipts',
+      NSContactsUsageDescription: 'Allow $(PRODUCT_NAME) to access your contacts',
+      NSLocationWhenInUseUsageDescription: 'Find photos taken nearby',
+    });
+    expect(config.entitlements).toEqual({
+      'com.apple.developer.applesignin': ['Default'],
+      'aps-environment': 'production',
+    });
+  });
+
+  it('records the JSON path and line of each key', () => {
+    write('app.json', APP_JSON);
+
+    const config = parseExpoConfig(tempDir)!;
+
+    expect(config.keySources.NSLocationWhenInUseUsageDescription).toMatchObject({
+      jsonPath: 'expo.ios.infoPlist.NSLocationWhenInUseUsageDescription',
+      line: 10,
+    });
+    expect(config.keySources.NSCameraUsageDescription).toMatchObject({ jsonPath: 'expo.plugins[expo-camera]', line: 17 });
+    expect(expoKeyLocation(config, 'NSMicrophoneUsageDescription')).toMatchObject({
+      jsonPath: 'expo.ios.infoPlist.NSMicrophoneUsageDescription',
+      line: 9,
+    });
+    expect(expoKeyLocation(config, 'com.apple.developer.healthkit').jsonPath).toBe('expo.ios.entitlements.com.apple.developer.healthkit');
+  });
+
+  it('layers a static app.config.ts over app.json', () => {
+    write('app.json', APP_JSON);
+    const appConfig = write('app.config.ts', `import { ExpoConfig, ConfigContext } from 'expo/config';
+
+export default ({ config }: ConfigContext): ExpoConfig => ({
+  ...config,
+  name: 'Snap Pro',
+  ios: {
+    // Tablet support ships in 2.0
+    bundleIdentifier: 'com.example.snap',
+    infoPlist: {
+      NSLocationWhenInUseUsageDescription: 'Tag receipts with the store\\'s location',
+      UIBackgroundModes: ['remote-notification',],
+    },
+  },
+});
+`);
+
+    const config = parseExpoConfig(tempDir)!;
+
+    expect(config.path).toBe(appConfig);
+    expect(config.infoPlist.CFBundleDisplayName).toBe('Snap Pro');
+    expect(config.infoPlist.NSLocationWhenInUseUsageDescription).toBe("Tag receipts with the store's location");
+    expect(config.infoPlist.UIBackgroundModes).toEqual(['remote-notification']);
+    // Plugins from app.json still apply
+    expect(config.infoPlist.NSCameraUsageDescription).toBe('Take photos of receipts');
+    expect(config.keySources.UIBackgroundModes).toMatchObject({ file: appConfig, jsonPath: 'ios.infoPlist.UIBackgroundModes', line: 11 });
+  });
+
+  it('falls back to app.json when app.config.js is computed', () => {
+    const appJson = write('app.json', APP_JSON);
+    write('app.config.js', 'module.exports = { name: process.env.APP_NAME, ios: { bundleIdentifier: "com.example.snap" } };');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const config = parseExpoConfig(tempDir)!;
+
+    expect(config.path).toBe(appJson);
+    expect(config.infoPlist.CFBundleDisplayName).toBe('Snap');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("app.config.js is computed at build time"));
+    warn.mockRestore();
+  });
+
+  it('scans a managed Expo project against its app.json', async () => {
+    const appJson = write('app.json', APP_JSON.replace('["expo-camera", { "cameraPermission": "Take photos of receipts", "microphonePermission": false }],', ''));
+    write('package.json', JSON.stringify({ dependencies: { expo: '~51.0.0', 'expo-camera': '~15.0.0' } }));
+
+    const discovery = discoverProject(tempDir);
+    const result = await scan({ path: tempDir, rules: ['privacy-001-missing-camera-purpose', 'privacy-006-missing-contacts-purpose'] });
+
+    expect(discovery.infoPlistPath).toBe(appJson);
+    expect(result.projectType).toBe('react-native');
+    expect(result.findings.map(f => [f.ruleId, f.location, f.line])).toEqual([
+      ['privacy-001-missing-camera-purpose', appJson, 9],
+    ]);
+    expect(result.findings[0].description).toContain('the setting belongs at expo.ios.infoPlist.NSCameraUsageDescription');
+    expect(result.findings[0].fixes).toBeUndefined();
+  });
+});
@@ -10,6 +10,8 @@ import {
   loadDependenciesForProject,
   parsePodfileLockContent,
   parsePackageResolvedData,
+  parsePackageJsonData,
+  parsePubspecLockContent,
   detectTrackingSDKs,
   detectSocialLoginSDKs,
   scanSwiftImports 
@@ -238,6 +240,50 @@ describe('parsePackageResolvedData', () => {
   });
 });
 
+describe('parsePackageJsonData', () => {
+  it('should return dependencies but not devDependencies', () => {
+    const deps = parsePackageJsonData({
+      dependencies: { 'react-native': '0.74.1', 'react-native-code-push': '^8.2.0' },
+      devDependencies: { jest: '^29.0.0' },
+    });
+
+    expect(deps.map(d => d.name)).toEqual(['react-native', 'react-native-code-push']);
+    expect(deps[1]).toEqual({ name: 'react-native-code-push', version: '^8.2.0', source: DependencySource.NPM });
+  });
+
+  it('should handle a package.json without dependencies', () => {
+    expect(parsePackageJsonData({ name: 'app' })).toEqual([]);
+  });
+});
+
+describe('parsePubspecLockContent', () => {
+  it('should parse packages and versions', () => {
+    const content = `# Generated by pub
+packages:
+  http:
+    dependency: "direct main"
+    description:
+      name: http
+      url: "https://pub.dev"
+    source: hosted
+    version: "1.2.1"
+  shorebird_code_push:
+    dependency: "direct main"
+    source: hosted
+    version: "1.1.3"
+sdks:
+  dart: ">=3.3.0 <4.0.0"
+`;
+
+    const deps = parsePubspecLockContent(content);
+
+    expect(deps).toEqual([
+      { name: 'http', version: '1.2.1', source: DependencySource.Pub },
+      { name: 'shorebird_code_push', version: '1.1.3', source: DependencySource.Pub },
+    ]);
+  });
+});
+
 describe('detectTrackingSDKs', () => {
   it('should detect Facebook SDK', () => {
     const deps = [
@@ -0,0 +1,89 @@
+/**
+ * Tests for macho-parser.ts
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { isMachO, parseMachO, readBinaryImage } from '../../src/parsers/macho-parser';
+import { buildMachO, buildFatMachO, buildStaticLibrary } from '../helpers/binary-fixtures';
+
+describe('macho-parser', () => {
+  describe('isMachO', () => {
+    it('recognizes thin, fat and archive headers', () => {
+      expect(isMachO(buildMachO())).toBe(true);
+      expect(isMachO(buildFatMachO([{ cpuType: 0x0100000c, binary: buildMachO() }]))).toBe(true);
+      expect(isMachO(buildStaticLibrary({ 'a.o': buildMachO() }))).toBe(true);
+      expect(isMachO(Buffer.from('#!/bin/sh\n'))).toBe(false);
+    });
+  });
+
+  describe('parseMachO', () => {
+    it('extracts dylibs, imported symbols and selector references', () => {
+      const result = parseMachO(buildMachO({
+        dylibs: ['/System/Library/Frameworks/UIKit.framework/UIKit', '/usr/lib/libSystem.B.dylib'],
+        imports: ['stat', 'mach_absolute_time', 'OBJC_CLASS_$_NSUserDefaults'],
+        exports: ['main'],
+        selectors: ['systemUptime', 'viewDidLoad'],
+      }));
+
+      expect(result.arch).toBe('arm64');
+      expect(result.dylibs).toEqual([
+        '/System/Library/Frameworks/UIKit.framework/UIKit',
+        '/usr/lib/libSystem.B.dylib',
+      ]);
+      expect(result.importedSymbols).toEqual(['OBJC_CLASS_$_NSUserDefaults', 'mach_absolute_time', 'stat']);
+      expect(result.selectors).toEqual(['systemUptime', 'viewDidLoad']);
+    });
+
+    it('falls back to method names when selrefs are not linked', () => {
+      const result = parseMachO(buildMachO({ selectors: ['activeInputModes'], unlinkedSelrefs: true }));
+      expect(result.selectors).toEqual(['activeInputModes']);
+    });
+
+    it('prefers the arm64 slice of a fat binary', () => {
+      const x86 = buildMachO({ imports: ['x86_only'] });
+      x86.writeUInt32LE(0x01000007, 4);
+      const fat = buildFatMachO([
+        { cpuType: 0x01000007, binary: x86 },
+        { cpuType: 0x0100000c, binary: buildMachO({ imports: ['dlopen'] }) },
+      ]);
+
+      const result = parseMachO(fat);
+      expect(result.arch).toBe('arm64');
+      expect(result.importedSymbols).toEqual(['dlopen']);
+    });
+
+    it('merges static library members and drops symbols defined inside the archive', () => {
+      const library = buildStaticLibrary({
+        'Tracker.o': buildMachO({ imports: ['statfs', 'VendorHelper'], selectors: ['_performMemoryWarning'] }),
+        'Helper.o': buildMachO({ exports: ['VendorHelper'], imports: ['dlopen'] }),
+      });
+
+      const result = parseMachO(library);
+      expect(result.importedSymbols).toEqual(['dlopen', 'statfs']);
+      expect(result.selectors).toEqual(['_performMemoryWarning']);
+    });
+
+    it('rejects truncated and foreign data', () => {
+      expect(() => parseMachO(Buffer.from([0xcf, 0xfa, 0xed, 0xfe]))).toThrow('truncated');
+      expect(() => parseMachO(Buffer.alloc(64))).toThrow('Not a Mach-O binary');
+    });
+  });
+
+  describe('readBinaryImage', () => {
+    it('reads a binary from disk and records its bundle', () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-macho-test-'));
+      try {
+        const binaryPath = path.join(tempDir, 'Vendor');
+        fs.writeFileSync(binaryPath, buildMachO({ imports: ['stat'] }));
+
+        const image = readBinaryImage(binaryPath, 'Vendor.framework');
+        expect(image.path).toBe(binaryPath);
+        expect(image.bundleName).toBe('Vendor.framework');
+        expect(image.importedSymbols).toEqual(['stat']);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for pbxproj-editor.ts (build setting edits used by `shiplint fix`)
+ */
+import { setTargetBuildSetting } from '../../src/parsers/pbxproj-editor';
+import { parseBuildConfigurations } from '../../src/parsers/pbxproj-parser';
+
+const PBXPROJ = `
+/* Begin PBXNativeTarget section */
+		A1B2C3D4E5F6A1B2C3D4E5F6 /* MyApp */ = {
+			isa = PBXNativeTarget;
+			buildConfigurationList = C1C1C1C1C1C1C1C1C1C1C1C1;
+			name = MyApp;
+			productType = "com.apple.product-type.application";
+		};
+		A1B2C3D4E5F6A1B2C3D4E5F7 /* Widget */ = {
+			isa = PBXNativeTarget;
+			buildConfigurationList = C2C2C2C2C2C2C2C2C2C2C2C2;
+			name = Widget;
+			productType = "com.apple.product-type.app-extension";
+		};
+/* End PBXNativeTarget section */
+
+/* Begin XCBuildConfiguration section */
+		A1A1A1A1A1A1A1A1A1A1A1A1 /* Debug */ = {
+			isa = XCBuildConfiguration;
+			buildSettings = {
+				GENERATE_INFOPLIST_FILE = YES;
+				INFOPLIST_KEY_UILaunchScreen_Generation = YES;
+				PRODUCT_NAME = "$(TARGET_NAME)";
+			};
+			name = Debug;
+		};
+		B2B2B2B2B2B2B2B2B2B2B2B2 /* Release */ = {
+			isa = XCBuildConfiguration;
+			buildSettings = {
+				GENERATE_INFOPLIST_FILE = YES;
+				INFOPLIST_KEY_ITSAppUsesNonExemptEncryption = YES;
+			};
+			name = Release;
+		};
+		D3D3D3D3D3D3D3D3D3D3D3D3 /* Release */ = {
+			isa = XCBuildConfiguration;
+			buildSettings = {
+				PRODUCT_NAME = Widget;
+			};
+			name = Release;
+		};
+/* End XCBuildConfiguration section */
+
+/* Begin XCConfigurationList section */
+		C1C1C1C1C1C1C1C1C1C1C1C1 /* Build configuration list for PBXNativeTarget "MyApp" */ = {
+			isa = XCConfigurationList;
+			buildConfigurations = (
+				A1A1A1A1A1A1A1A1A1A1A1A1 /* Debug */,
+				B2B2B2B2B2B2B2B2B2B2B2B2 /* Release */,
+			);
+		};
+		C2C2C2C2C2C2C2C2C2C2C2C2 /* Build configuration list for PBXNativeTarget "Widget" */ = {
+			isa = XCConfigurationList;
+			buildConfigurations = (
+				D3D3D3D3D3D3D3D3D3D3D3D3 /* Release */,
+			);
+		};
+/* End XCConfigurationList section */
+`;
+
+describe('pbxproj-editor', () => {
+  describe('setTargetBuildSetting', () => {
+    it('sets the key in every configuration of the target only', () => {
+      const edited = setTargetBuildSetting(PBXPROJ, 'MyApp', 'INFOPLIST_KEY_ITSAppUsesNonExemptEncryption', 'NO');
+      const configs = parseBuildConfigurations(edited);
+
+      expect(configs.get('A1A1A1A1A1A1A1A1A1A1A1A1')?.buildSettings.INFOPLIST_KEY_ITSAppUsesNonExemptEncryption).toBe('NO');
+      expect(configs.get('B2B2B2B2B2B2B2B2B2B2B2B2')?.buildSettings.INFOPLIST_KEY_ITSAppUsesNonExemptEncryption).toBe('NO');
+      expect(configs.get('D3D3D3D3D3D3D3D3D3D3D3D3')?.buildSettings.INFOPLIST_KEY_ITSAppUsesNonExemptEncryption).toBeUndefined();
+    });
+
+    it('inserts new settings in alphabetical order with matching indentation', () => {
+      const edited = setTargetBuildSetting(PBXPROJ, 'MyApp', 'INFOPLIST_KEY_ITSAppUsesNonExemptEncryption', 'NO');
+      expect(edited).toContain(
+        '\t\t\t\tGENERATE_INFOPLIST_FILE = YES;\n' +
+        '\t\t\t\tINFOPLIST_KEY_ITSAppUsesNonExemptEncryption = NO;\n' +
+        '\t\t\t\tINFOPLIST_KEY_UILaunchScreen_Generation = YES;\n'
+      );
+    });
+
+    it('replaces existing values without touching other lines', () => {
+      const edited = setTargetBuildSetting(PBXPROJ, 'MyApp', 'INFOPLIST_KEY_ITSAppUsesNonExemptEncryption', 'NO');
+      const releaseStart = PBXPROJ.indexOf('\t\tB2B2B2B2B2B2B2B2B2B2B2B2 /* Release */ = {');
+
+      // The Release configuration already has the key: only its value changes
+      expect(edited.slice(edited.indexOf('\t\tB2B2B2B2B2B2B2B2B2B2B2B2 /* Release */ = {'))).toBe(
+        PBXPROJ.slice(releaseStart).replace(
+          'INFOPLIST_KEY_ITSAppUsesNonExemptEncryption = YES;',
+          'INFOPLIST_KEY_ITSAppUsesNonExemptEncryption = NO;'
+        )
+      );
+    });
+
+    it('appends after the last setting and quotes values that need it', () => {
+      const edited = setTargetBuildSetting(PBXPROJ, 'Widget', 'SWIFT_ACTIVE_COMPILATION_CONDITIONS', 'WIDGET EXTENSION');
+      expect(edited).toContain(
+        '\t\t\t\tPRODUCT_NAME = Widget;\n' +
+        '\t\t\t\tSWIFT_ACTIVE_COMPILATION_CONDITIONS = "WIDGET EXTENSION";\n' +
+        '\t\t\t};'
+      );
+    });
+
+    it('throws for unknown targets', () => {
+      expect(() => setTargetBuildSetting(PBXPROJ, 'Missing', 'KEY', 'YES')).toThrow('target "Missing" not found');
+    });
+  });
+});
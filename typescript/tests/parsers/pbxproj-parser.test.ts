@@ -19,6 +19,8 @@ import {
   ProductType,
   parseBuildConfigurations,
   parseConfigurationLists,
+  getShippableTargets,
+  getTargetLinkedFrameworks,
 } from '../../src/parsers/pbxproj-parser';
 
 describe('pbxproj-parser', () => {
@@ -845,3 +847,57 @@ describe('pbxproj-parser', () => {
     });
   });
 });
+
+describe('getShippableTargets', () => {
+  it('should return shippable targets with the main app first', () => {
+    const targets = [
+      { id: '1', name: 'MyWidget', productType: 'com.apple.product-type.app-extension', buildConfigurationListId: 'a' },
+      { id: '2', name: 'MyAppTests', productType: 'com.apple.product-type.bundle.unit-test', buildConfigurationListId: 'b' },
+      { id: '3', name: 'MyApp', productType: 'com.apple.product-type.application', buildConfigurationListId: 'c' },
+      { id: '4', name: 'MyWatch', productType: 'com.apple.product-type.application.watchapp2', buildConfigurationListId: 'd' },
+      { id: '5', name: 'Shared', productType: 'com.apple.product-type.framework', buildConfigurationListId: 'e' },
+    ];
+
+    expect(getShippableTargets(targets, 'MyApp').map(t => t.name)).toEqual(['MyApp', 'MyWidget', 'MyWatch']);
+  });
+
+  it('should return an empty list when nothing is shippable', () => {
+    const targets = [
+      { id: '1', name: 'Shared', productType: 'com.apple.product-type.framework', buildConfigurationListId: 'a' },
+    ];
+
+    expect(getShippableTargets(targets)).toEqual([]);
+  });
+});
+
+describe('getTargetLinkedFrameworks', () => {
+  it('should only return frameworks from the target\'s own Frameworks phase', () => {
+    const content = `
+      P1 /* Frameworks */ = {
+        isa = PBXFrameworksBuildPhase;
+        files = (
+          B1 /* AVFoundation.framework in Frameworks */,
+        );
+      };
+      P2 /* Frameworks */ = {
+        isa = PBXFrameworksBuildPhase;
+        files = (
+          B2 /* WidgetKit.framework in Frameworks */,
+          B3 /* SwiftUI.framework in Frameworks */,
+        );
+      };
+      T2 /* MyWidget */ = {
+        isa = PBXNativeTarget;
+        buildConfigurationList = L2;
+        buildPhases = (
+          P2 /* Frameworks */,
+        );
+        productType = "com.apple.product-type.app-extension";
+      };
+    `;
+    const [target] = parsePbxprojTargets(content);
+
+    expect(target.buildPhaseIds).toEqual(['P2']);
+    expect([...getTargetLinkedFrameworks(content, target)].sort()).toEqual(['SwiftUI', 'WidgetKit']);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for plist-editor.ts (text-level plist edits used by `shiplint fix`)
+ */
+import { setPlistKey, appendToPlistArray, findPlistLine, PlistEditError } from '../../src/parsers/plist-editor';
+import { parsePlistString } from '../../src/parsers/plist-parser';
+
+const HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">\n';
+
+function plist(body: string): string {
+  return `${HEADER}<plist version="1.0">\n<dict>\n${body}</dict>\n</plist>\n`;
+}
+
+describe('plist-editor', () => {
+  describe('setPlistKey', () => {
+    it('appends a new key at the end of the root dictionary', () => {
+      const xml = plist('\t<key>CFBundleName</key>\n\t<string>App</string>\n');
+      expect(setPlistKey(xml, 'ITSAppUsesNonExemptEncryption', false)).toBe(plist(
+        '\t<key>CFBundleName</key>\n\t<string>App</string>\n' +
+        '\t<key>ITSAppUsesNonExemptEncryption</key>\n\t<false/>\n'
+      ));
+    });
+
+    it('replaces an existing value in place and keeps key order', () => {
+      const xml = plist(
+        '\t<key>UISupportedInterfaceOrientations</key>\n\t<array/>\n' +
+        '\t<key>CFBundleName</key>\n\t<string>App</string>\n'
+      );
+      expect(setPlistKey(xml, 'UISupportedInterfaceOrientations', ['UIInterfaceOrientationPortrait'])).toBe(plist(
+        '\t<key>UISupportedInterfaceOrientations</key>\n\t<array>\n\t\t<string>UIInterfaceOrientationPortrait</string>\n\t</array>\n' +
+        '\t<key>CFBundleName</key>\n\t<string>App</string>\n'
+      ));
+    });
+
+    it('copies space indentation and CRLF line endings from the file', () => {
+      const xml = plist('    <key>CFBundleName</key>\n    <string>App</string>\n').replace(/\n/g, '\r\n');
+      const edited = setPlistKey(xml, 'UILaunchScreen', { UIColorName: 'Launch' });
+      expect(edited).toContain(
+        '    <key>UILaunchScreen</key>\r\n    <dict>\r\n        <key>UIColorName</key>\r\n        <string>Launch</string>\r\n    </dict>\r\n</dict>'
+      );
+      expect(edited).not.toMatch(/[^\r]\n/);
+    });
+
+    it('expands an empty root dictionary', () => {
+      const xml = `${HEADER}<plist version="1.0">\n<dict/>\n</plist>\n`;
+      const edited = setPlistKey(xml, 'UILaunchScreen', {});
+      expect(parsePlistString(edited)).toEqual({ UILaunchScreen: {} });
+    });
+
+    it('escapes string values', () => {
+      const edited = setPlistKey(plist(''), 'NSCameraUsageDescription', 'Scan <QR> & share');
+      expect(edited).toContain('<string>Scan &lt;QR&gt; &amp; share</string>');
+    });
+
+    it('rejects documents without a root dictionary', () => {
+      expect(() => setPlistKey('<plist><array/></plist>', 'Key', true)).toThrow(PlistEditError);
+    });
+  });
+
+  describe('appendToPlistArray', () => {
+    const entry = {
+      NSPrivacyAccessedAPIType: 'NSPrivacyAccessedAPICategoryUserDefaults',
+      NSPrivacyAccessedAPITypeReasons: ['CA92.1'],
+    };
+
+    it('appends after the existing items', () => {
+      const xml = plist(
+        '\t<key>NSPrivacyAccessedAPITypes</key>\n\t<array>\n\t\t<dict>\n' +
+        '\t\t\t<key>NSPrivacyAccessedAPIType</key>\n\t\t\t<string>NSPrivacyAccessedAPICategoryDiskSpace</string>\n' +
+        '\t\t</dict>\n\t</array>\n\t<key>NSPrivacyTracking</key>\n\t<false/>\n'
+      );
+      const edited = appendToPlistArray(xml, 'NSPrivacyAccessedAPITypes', entry);
+
+      expect(edited.startsWith(xml.slice(0, xml.indexOf('\t\t</dict>') + '\t\t</dict>\n'.length))).toBe(true);
+      expect(edited).toContain(
+        '\t\t<dict>\n\t\t\t<key>NSPrivacyAccessedAPIType</key>\n\t\t\t<string>NSPrivacyAccessedAPICategoryUserDefaults</string>\n' +
+        '\t\t\t<key>NSPrivacyAccessedAPITypeReasons</key>\n\t\t\t<array>\n\t\t\t\t<string>CA92.1</string>\n\t\t\t</array>\n' +
+        '\t\t</dict>\n\t</array>\n\t<key>NSPrivacyTracking</key>'
+      );
+      expect((parsePlistString(edited) as Record<string, unknown[]>).NSPrivacyAccessedAPITypes).toHaveLength(2);
+    });
+
+    it('creates the array when the key is missing', () => {
+      const edited = appendToPlistArray(plist('\t<key>NSPrivacyTracking</key>\n\t<false/>\n'), 'NSPrivacyAccessedAPITypes', entry);
+      expect(parsePlistString(edited)).toEqual({ NSPrivacyTracking: false, NSPrivacyAccessedAPITypes: [entry] });
+    });
+
+    it('rejects keys that are not arrays', () => {
+      const xml = plist('\t<key>NSPrivacyAccessedAPITypes</key>\n\t<string>none</string>\n');
+      expect(() => appendToPlistArray(xml, 'NSPrivacyAccessedAPITypes', entry)).toThrow('"NSPrivacyAccessedAPITypes" is not an array');
+    });
+  });
+
+  describe('findPlistLine', () => {
+    const xml = plist(
+      '\t<key>NSPrivacyAccessedAPITypes</key>\n\t<array>\n\t\t<dict>\n' +
+      '\t\t\t<key>NSPrivacyAccessedAPIType</key>\n\t\t\t<string>NSPrivacyAccessedAPICategoryDiskSpace</string>\n' +
+      '\t\t</dict>\n\t</array>\n'
+    );
+
+    it('returns the line of the value at a key path', () => {
+      expect(findPlistLine(xml, [])).toBe(4);
+      expect(findPlistLine(xml, ['NSPrivacyAccessedAPITypes'])).toBe(6);
+      expect(findPlistLine(xml, ['NSPrivacyAccessedAPITypes', 0, 'NSPrivacyAccessedAPIType'])).toBe(9);
+    });
+
+    it('returns undefined for missing paths and non-plists', () => {
+      expect(findPlistLine(xml, ['NSPrivacyAccessedAPITypes', 1])).toBeUndefined();
+      expect(findPlistLine(xml, ['NSPrivacyTracking'])).toBeUndefined();
+      expect(findPlistLine('<plist><dict></plist>', [])).toBeUndefined();
+    });
+  });
+});
@@ -144,11 +144,11 @@ describe('discoverProject', () => {
   });
 
   describe('Edge cases', () => {
-    it('should throw on IPA file input', () => {
+    it('should throw on an IPA file that is not a ZIP archive', () => {
       const ipaPath = path.join(tempDir, 'MyApp.ipa');
       fs.writeFileSync(ipaPath, 'not a real ipa');
 
-      expect(() => discoverProject(ipaPath)).toThrow('IPA scanning is not yet supported');
+      expect(() => discoverProject(ipaPath)).toThrow('Not a ZIP archive');
     });
 
     it('should handle empty directory gracefully', () => {
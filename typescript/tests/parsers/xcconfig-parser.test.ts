@@ -0,0 +1,85 @@
+/**
+ * Tests for xcconfig-parser.ts
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { parseBuildSettingKey, parseXcconfig, parseXcconfigContent } from '../../src/parsers/xcconfig-parser';
+
+describe('parseBuildSettingKey', () => {
+  it('splits conditions off the setting name', () => {
+    expect(parseBuildSettingKey('OTHER_LDFLAGS')).toEqual({ key: 'OTHER_LDFLAGS', conditions: {} });
+    expect(parseBuildSettingKey('OTHER_LDFLAGS[sdk=iphoneos*][arch=arm64]')).toEqual({
+      key: 'OTHER_LDFLAGS',
+      conditions: { sdk: 'iphoneos*', arch: 'arm64' },
+    });
+    expect(parseBuildSettingKey('CODE_SIGN_IDENTITY[sdk=iphoneos*,config=Release]')).toEqual({
+      key: 'CODE_SIGN_IDENTITY',
+      conditions: { sdk: 'iphoneos*', config: 'Release' },
+    });
+  });
+});
+
+describe('parseXcconfigContent', () => {
+  it('reads assignments, skipping comments, directives and blank lines', () => {
+    const assignments = parseXcconfigContent(`// Shared settings
+#include "Base.xcconfig"
+
+PRODUCT_BUNDLE_IDENTIFIER = com.example.app // set per environment
+INFOPLIST_KEY_NSCameraUsageDescription = Scan receipts to attach them to expenses;
+OTHER_LDFLAGS[config=Release][sdk=iphoneos*] = $(inherited) -ObjC
+`, 'App.xcconfig');
+
+    expect(assignments).toEqual([
+      { key: 'PRODUCT_BUNDLE_IDENTIFIER', conditions: {}, value: 'com.example.app', file: 'App.xcconfig', line: 4 },
+      { key: 'INFOPLIST_KEY_NSCameraUsageDescription', conditions: {}, value: 'Scan receipts to attach them to expenses', file: 'App.xcconfig', line: 5 },
+      { key: 'OTHER_LDFLAGS', conditions: { config: 'Release', sdk: 'iphoneos*' }, value: '$(inherited) -ObjC', file: 'App.xcconfig', line: 6 },
+    ]);
+  });
+});
+
+describe('parseXcconfig', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-xcconfig-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): string {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('flattens #include chains relative to the including file', () => {
+    write('Shared/Base.xcconfig', 'SWIFT_VERSION = 5.0\nCODE_SIGN_ENTITLEMENTS = App/App.entitlements');
+    write('Configs/Common.xcconfig', '#include "../Shared/Base.xcconfig"\nGENERATE_INFOPLIST_FILE = YES');
+    const release = write('Configs/Release.xcconfig', '#include "Common.xcconfig"\n#include? "Local.xcconfig"\nSWIFT_VERSION = 6.0');
+
+    const assignments = parseXcconfig(release);
+
+    expect(assignments.map(a => [a.key, a.value, path.relative(tempDir, a.file!), a.line])).toEqual([
+      ['SWIFT_VERSION', '5.0', path.join('Shared', 'Base.xcconfig'), 1],
+      ['CODE_SIGN_ENTITLEMENTS', 'App/App.entitlements', path.join('Shared', 'Base.xcconfig'), 2],
+      ['GENERATE_INFOPLIST_FILE', 'YES', path.join('Configs', 'Common.xcconfig'), 2],
+      ['SWIFT_VERSION', '6.0', path.join('Configs', 'Release.xcconfig'), 3],
+    ]);
+  });
+
+  it('warns about missing required includes and breaks include cycles', () => {
+    write('A.xcconfig', '#include "B.xcconfig"\nA = 1');
+    const b = write('B.xcconfig', '#include "A.xcconfig"\n#include "Missing.xcconfig"\nB = 2');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const assignments = parseXcconfig(b);
+
+    expect(assignments.map(a => a.key)).toEqual(['A', 'B']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('includes missing file Missing.xcconfig'));
+    warn.mockRestore();
+  });
+});
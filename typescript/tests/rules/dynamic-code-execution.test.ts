@@ -3,7 +3,7 @@
  */
 import { DynamicCodeExecutionRule } from '../../src/rules/code/dynamic-code-execution';
 import { createContextObject } from '../../src/parsers/project-parser';
-import { Severity } from '../../src/types';
+import { Severity, Confidence } from '../../src/types';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -22,6 +22,17 @@ function cleanupDir(dir: string) {
   fs.rmSync(dir, { recursive: true, force: true });
 }
 
+function binaryImage(importedSymbols: string[], extra: { dylibs?: string[]; selectors?: string[] } = {}) {
+  return {
+    path: '/build/MyApp.app/Frameworks/Vendor.framework/Vendor',
+    bundleName: 'Vendor.framework',
+    arch: 'arm64',
+    dylibs: extra.dylibs ?? [],
+    importedSymbols,
+    selectors: extra.selectors ?? [],
+  };
+}
+
 describe('DynamicCodeExecutionRule', () => {
   let tempDir: string;
 
@@ -141,4 +152,17 @@ class ViewController: UIViewController {
 
     expect(findings).toHaveLength(0);
   });
+
+  it('should detect dlopen imported by a compiled binary', async () => {
+    tempDir = makeTempProject({});
+    const context = createContextObject(tempDir, {}, {}, new Set(), []);
+    context.binaries = [binaryImage(['dlopen', 'dlsym']), binaryImage(['malloc'])];
+
+    const findings = await DynamicCodeExecutionRule.evaluate(context);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].title).toBe('Dynamic Library Loading (dlopen)');
+    expect(findings[0].severity).toBe(Severity.High);
+    expect(findings[0].confidence).toBe(Confidence.Medium);
+  });
 });
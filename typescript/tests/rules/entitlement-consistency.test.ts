@@ -0,0 +1,169 @@
+/**
+ * Tests for the entitlements consistency rules
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { PushNotificationMismatchRule } from '../../src/rules/entitlements/push-notification-mismatch';
+import { BackgroundModeCapabilityRule } from '../../src/rules/entitlements/background-mode-capability';
+import { MalformedAssociatedDomainsRule, associatedDomainProblem } from '../../src/rules/entitlements/malformed-associated-domains';
+import { HealthKitCapabilityMismatchRule } from '../../src/rules/entitlements/healthkit-capability-mismatch';
+import { ContainerIdentifierPrefixRule, hasContainerPrefix } from '../../src/rules/entitlements/container-identifier-prefix';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { RuleCategory, Severity } from '../../src/types';
+
+describe('entitlements consistency rules', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-entitlements-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function source(content: string): void {
+    fs.mkdirSync(path.join(tempDir, 'App'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'App', 'AppDelegate.swift'), content);
+  }
+
+  function context(plist: Record<string, unknown>, entitlements: Record<string, unknown>, frameworks: string[] = []) {
+    return createContextObject(tempDir, plist, entitlements, new Set(frameworks), []);
+  }
+
+  describe('PushNotificationMismatchRule', () => {
+    it('flags push registration without aps-environment (ITMS-90078)', async () => {
+      source('application.registerForRemoteNotifications()');
+
+      const findings = await PushNotificationMismatchRule.evaluate(context({}, {}));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].ruleId).toBe('entitlements-001-push-notification-mismatch');
+      expect(findings[0].title).toBe('Missing Push Notification Entitlement');
+      expect(findings[0].description).toContain('ITMS-90078');
+      expect(PushNotificationMismatchRule.category).toBe(RuleCategory.Entitlements);
+    });
+
+    it('flags the remote-notification mode without aps-environment', async () => {
+      const findings = await PushNotificationMismatchRule.evaluate(context({ UIBackgroundModes: ['remote-notification'] }, {}));
+
+      expect(findings.map(f => f.title)).toEqual(['remote-notification Mode Without Push Entitlement']);
+    });
+
+    it('flags invalid aps-environment values and background handlers without the mode', async () => {
+      source(`func application(_ application: UIApplication, didReceiveRemoteNotification userInfo: [AnyHashable: Any],
+                 fetchCompletionHandler completionHandler: @escaping (UIBackgroundFetchResult) -> Void) {}`);
+
+      const findings = await PushNotificationMismatchRule.evaluate(context({}, { 'aps-environment': 'staging' }));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'Invalid aps-environment Entitlement',
+        'Background Push Handler Without remote-notification Mode',
+      ]);
+      expect(findings[1].severity).toBe(Severity.Medium);
+    });
+
+    it('passes a consistent configuration', async () => {
+      source('application.registerForRemoteNotifications()');
+
+      expect(await PushNotificationMismatchRule.evaluate(context(
+        { UIBackgroundModes: ['remote-notification'] }, { 'aps-environment': 'development' }
+      ))).toEqual([]);
+    });
+  });
+
+  describe('BackgroundModeCapabilityRule', () => {
+    it('flags unknown, deprecated and unentitled modes', async () => {
+      const findings = await BackgroundModeCapabilityRule.evaluate(context(
+        { UIBackgroundModes: ['audio', 'background-fetch', 'newsstand-content', 'push-to-talk'] }, {}
+      ));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'Unknown Background Mode: background-fetch',
+        'Deprecated Background Mode: newsstand-content',
+        'Background Mode push-to-talk Without Entitlement',
+      ]);
+    });
+
+    it('accepts entitled modes', async () => {
+      expect(await BackgroundModeCapabilityRule.evaluate(context(
+        { UIBackgroundModes: ['push-to-talk', 'processing'] }, { 'com.apple.developer.push-to-talk': true }
+      ))).toEqual([]);
+    });
+  });
+
+  describe('MalformedAssociatedDomainsRule', () => {
+    it('explains malformed entries', () => {
+      expect(associatedDomainProblem('applinks:example.com')).toBeUndefined();
+      expect(associatedDomainProblem('webcredentials:*.example.com?mode=developer')).toBeUndefined();
+      expect(associatedDomainProblem('applinks:$(APP_LINK_DOMAIN)')).toBeUndefined();
+      expect(associatedDomainProblem('example.com')).toContain('no service prefix');
+      expect(associatedDomainProblem('https://example.com')).toContain('is a URL');
+      expect(associatedDomainProblem('applinks:example.com/path')).toContain('includes a path');
+      expect(associatedDomainProblem('applink:example.com')).toContain('not an associated domains service');
+      expect(associatedDomainProblem('applinks:example.com?mode=staging')).toContain('not a supported mode');
+    });
+
+    it('reports each malformed entry', async () => {
+      const findings = await MalformedAssociatedDomainsRule.evaluate(context({}, {
+        'com.apple.developer.associated-domains': ['applinks:example.com', 'applinks:https://example.com', 'webcredentials:example.com/login'],
+      }));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'Malformed Associated Domain: applinks:https://example.com',
+        'Malformed Associated Domain: webcredentials:example.com/login',
+      ]);
+    });
+
+    it('accepts the provisioning profile wildcard', async () => {
+      expect(await MalformedAssociatedDomainsRule.evaluate(context({}, { 'com.apple.developer.associated-domains': '*' }))).toEqual([]);
+    });
+  });
+
+  describe('HealthKitCapabilityMismatchRule', () => {
+    it('flags the entitlement without a purpose string', async () => {
+      const findings = await HealthKitCapabilityMismatchRule.evaluate(context({}, { 'com.apple.developer.healthkit': true }));
+
+      expect(findings.map(f => f.title)).toEqual(['HealthKit Entitlement Without Usage Description']);
+    });
+
+    it('flags HealthKit use without the entitlement and clinical records without their key', async () => {
+      source('let store = HKHealthStore()');
+
+      const findings = await HealthKitCapabilityMismatchRule.evaluate(context(
+        { NSHealthShareUsageDescription: 'We read your workouts to show weekly trends.' },
+        { 'com.apple.developer.healthkit.access': ['health-records'] }
+      ));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'HealthKit Used Without Entitlement',
+        'Clinical Health Records Without Usage Description',
+      ]);
+    });
+  });
+
+  describe('ContainerIdentifierPrefixRule', () => {
+    it('checks prefixes, allowing team-prefixed App Groups on macOS', () => {
+      expect(hasContainerPrefix('group.com.example.app', 'group.', false)).toBe(true);
+      expect(hasContainerPrefix('com.example.app', 'group.', false)).toBe(false);
+      expect(hasContainerPrefix('$(TeamIdentifierPrefix)com.example.app', 'group.', true)).toBe(true);
+      expect(hasContainerPrefix('ABCDE12345.com.example.app', 'group.', true)).toBe(true);
+      expect(hasContainerPrefix('iCloud.$(CFBundleIdentifier)', 'iCloud.', false)).toBe(true);
+    });
+
+    it('flags unprefixed identifiers and iCloud services without a container', async () => {
+      const findings = await ContainerIdentifierPrefixRule.evaluate(context({}, {
+        'com.apple.security.application-groups': ['group.com.example.shared', 'com.example.shared'],
+        'com.apple.developer.ubiquity-container-identifiers': ['com.example.docs'],
+        'com.apple.developer.icloud-services': ['CloudKit'],
+      }));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'Invalid App Groups Identifier: com.example.shared',
+        'Invalid iCloud Identifier: com.example.docs',
+        'iCloud Services Without Container',
+      ]);
+    });
+  });
+});
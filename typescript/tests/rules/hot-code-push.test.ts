@@ -0,0 +1,152 @@
+/**
+ * Tests for HotCodePushRule
+ */
+import { HotCodePushRule } from '../../src/rules/code/hot-code-push';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Severity, Confidence, DependencySource } from '../../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+function makeTempProject(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-test-'));
+  for (const [name, content] of Object.entries(files)) {
+    const filePath = path.join(dir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+  return dir;
+}
+
+function cleanupDir(dir: string) {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+describe('HotCodePushRule', () => {
+  let tempDir: string;
+
+  afterEach(() => {
+    if (tempDir) cleanupDir(tempDir);
+  });
+
+  it('should report CodePush from the package.json above the iOS project', async () => {
+    tempDir = makeTempProject({
+      'package.json': JSON.stringify({
+        dependencies: { 'react-native': '0.74.1', 'react-native-code-push': '^8.2.0' },
+      }),
+      'ios/App/AppDelegate.swift': 'import UIKit',
+    });
+
+    const context = createContextObject(path.join(tempDir, 'ios'), {}, {}, new Set(), []);
+    const findings = await HotCodePushRule.evaluate(context);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].title).toBe('Over-the-Air Code Updates: CodePush');
+    expect(findings[0].severity).toBe(Severity.Medium);
+    expect(findings[0].confidence).toBe(Confidence.Low);
+    expect(findings[0].location).toBe(path.join(tempDir, 'package.json'));
+    expect(findings[0].description).toContain("doesn't change the app's primary purpose");
+  });
+
+  it('should report Expo Updates once across pods and package.json', async () => {
+    tempDir = makeTempProject({
+      'package.json': JSON.stringify({ dependencies: { expo: '~51.0.0', 'expo-updates': '~0.25.0' } }),
+    });
+
+    const context = createContextObject(tempDir, {}, {}, new Set(), [
+      { name: 'EXUpdates', version: '0.25.0', source: DependencySource.CocoaPods },
+    ]);
+    const findings = await HotCodePushRule.evaluate(context);
+
+    expect(findings.map(f => f.title)).toEqual(['Over-the-Air Code Updates: Expo Updates']);
+  });
+
+  it('should report Shorebird from pubspec.lock or shorebird.yaml', async () => {
+    tempDir = makeTempProject({
+      'shorebird.yaml': 'app_id: 0a1b2c3d\n',
+      'ios/Runner/AppDelegate.swift': 'import Flutter',
+    });
+
+    const context = createContextObject(path.join(tempDir, 'ios'), {}, {}, new Set(), []);
+    const findings = await HotCodePushRule.evaluate(context);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].discriminator).toBe('Shorebird');
+    expect(findings[0].description).toContain('Dart code patches');
+  });
+
+  it('should report native hot patching frameworks as critical', async () => {
+    tempDir = makeTempProject({
+      'App/Patch.m': '[JPEngine startEngine];',
+    });
+
+    const context = createContextObject(tempDir, {}, {}, new Set(), [
+      { name: 'Rollout.io', version: '2.0.0', source: DependencySource.CocoaPods },
+    ]);
+    const findings = await HotCodePushRule.evaluate(context);
+
+    expect(findings.map(f => [f.title, f.severity, f.confidence])).toEqual([
+      ['Native Hot Patching Framework: Rollout.io', Severity.Critical, Confidence.High],
+      ['Native Hot Patching Framework: JSPatch', Severity.Critical, Confidence.High],
+    ]);
+    expect(findings[1].line).toBe(1);
+  });
+
+  it('should report downloaded Lua scripts and web view scripts', async () => {
+    tempDir = makeTempProject({
+      'App/ScriptRunner.swift': `
+func run() {
+    URLSession.shared.dataTask(with: scriptURL) { data, _, _ in
+        let source = String(decoding: data!, as: UTF8.self)
+        luaL_loadstring(state, source)
+        webView.evaluateJavaScript(source)
+    }.resume()
+}
+`,
+    });
+
+    const context = createContextObject(tempDir, {}, {}, new Set(), []);
+    const findings = await HotCodePushRule.evaluate(context);
+
+    expect(findings.map(f => [f.title, f.line])).toEqual([
+      ['Downloaded Lua Script Execution', 5],
+      ['Downloaded JavaScript Injected into Web View', 6],
+    ]);
+    expect(findings[0].severity).toBe(Severity.High);
+    expect(findings[1].confidence).toBe(Confidence.Low);
+  });
+
+  it('should not report bundled scripts or literal web view scripts', async () => {
+    tempDir = makeTempProject({
+      'App/Game.swift': `
+func load() {
+    let path = Bundle.main.path(forResource: "level", ofType: "lua")!
+    luaL_loadstring(state, try! String(contentsOfFile: path))
+    webView.evaluateJavaScript("document.body.style.zoom = 1.5")
+}
+`,
+      'App/API.swift': 'URLSession.shared.dataTask(with: url).resume()\nwebView.evaluateJavaScript("window.scrollTo(0, 0)")',
+    });
+
+    const context = createContextObject(tempDir, {}, {}, new Set(), []);
+    const findings = await HotCodePushRule.evaluate(context);
+
+    expect(findings).toEqual([]);
+  });
+
+  it('should ignore devDependencies and unrelated packages', async () => {
+    tempDir = makeTempProject({
+      'package.json': JSON.stringify({
+        dependencies: { 'react-native': '0.74.1' },
+        devDependencies: { 'react-native-code-push': '^8.2.0' },
+      }),
+    });
+
+    const context = createContextObject(tempDir, {}, {}, new Set(), [
+      { name: 'Alamofire', version: '5.9.0', source: DependencySource.SPM },
+    ]);
+    const findings = await HotCodePushRule.evaluate(context);
+
+    expect(findings).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for the Kids Category rules
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { KidsThirdPartyAnalyticsRule } from '../../src/rules/kids/third-party-analytics';
+import { KidsAdvertisingIdentifierRule } from '../../src/rules/kids/advertising-identifier';
+import { KidsUnguardedExternalLinkRule } from '../../src/rules/kids/unguarded-external-link';
+import { KidsPersonalDataPermissionRule } from '../../src/rules/kids/personal-data-permission';
+import { kidsCategoryReason } from '../../src/rules/kids/kids-category';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Confidence, Dependency, DependencySource, Severity } from '../../src/types';
+
+function pod(name: string): Dependency {
+  return { name, version: '1.0.0', source: DependencySource.CocoaPods };
+}
+
+describe('Kids Category rules', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-kids-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  function context(options: {
+    kidsCategory?: boolean;
+    plist?: Record<string, unknown>;
+    frameworks?: string[];
+    dependencies?: Dependency[];
+  } = {}) {
+    return createContextObject(
+      tempDir, options.plist ?? {}, {}, new Set(options.frameworks ?? []), options.dependencies ?? [],
+      undefined, undefined, undefined, undefined, {}, { kidsCategory: 'kidsCategory' in options ? options.kidsCategory : true }
+    );
+  }
+
+  describe('kidsCategoryReason', () => {
+    it('is undefined for apps not made for kids', () => {
+      expect(kidsCategoryReason(context({ kidsCategory: undefined }))).toBeUndefined();
+    });
+
+    it('infers the Kids Category from fastlane and child-directed SDK settings', () => {
+      write('fastlane/app_rating_config.json', '{"kidsAgeBand": "SIX_TO_EIGHT"}');
+      expect(kidsCategoryReason(context({ kidsCategory: undefined }))).toBe('fastlane/app_rating_config.json sets a kids age band');
+
+      fs.rmSync(path.join(tempDir, 'fastlane'), { recursive: true });
+      write('App/Ads.swift', 'GADMobileAds.sharedInstance().requestConfiguration.tagForChildDirectedTreatment = true');
+      expect(kidsCategoryReason(context({ kidsCategory: undefined }))).toContain('tagForChildDirectedTreatment');
+    });
+
+    it('does not infer the Kids Category when the config file sets it to false', () => {
+      write('fastlane/app_rating_config.json', '{"kidsAgeBand": "SIX_TO_EIGHT"}');
+      write('App/Ads.swift', 'GADMobileAds.sharedInstance().requestConfiguration.tagForChildDirectedTreatment = true');
+      expect(kidsCategoryReason(context({ kidsCategory: false }))).toBeUndefined();
+    });
+  });
+
+  it('runs no rule for apps not made for kids', async () => {
+    write('App/Links.swift', 'UIApplication.shared.open(url)');
+    const ctx = context({
+      kidsCategory: undefined,
+      plist: { NSUserTrackingUsageDescription: 'Ads', NSContactsUsageDescription: 'Friends' },
+      dependencies: [pod('GoogleMobileAds')],
+    });
+
+    for (const rule of [KidsThirdPartyAnalyticsRule, KidsAdvertisingIdentifierRule, KidsUnguardedExternalLinkRule, KidsPersonalDataPermissionRule]) {
+      expect(await rule.evaluate(ctx)).toEqual([]);
+    }
+  });
+
+  describe('KidsThirdPartyAnalyticsRule', () => {
+    it('reports analytics and advertising SDKs', async () => {
+      const findings = await KidsThirdPartyAnalyticsRule.evaluate(context({
+        dependencies: [pod('GoogleMobileAds'), pod('FirebaseCrashlytics'), pod('Alamofire')],
+      }));
+
+      expect(findings.map(f => [f.discriminator, f.confidence])).toEqual([
+        ['Google Mobile Ads', Confidence.High],
+        ['Firebase', Confidence.Medium],
+      ]);
+      expect(findings[0].ruleId).toBe('kids-001-third-party-analytics');
+      expect(findings[0].severity).toBe(Severity.Critical);
+      expect(findings[0].description).toContain('"kidsCategory" is set in the config file');
+    });
+
+    it('lowers confidence when the Kids Category is inferred', async () => {
+      write('fastlane/app_rating_config.json', '{"kidsAgeBand": "FIVE_AND_UNDER"}');
+
+      const findings = await KidsThirdPartyAnalyticsRule.evaluate(context({
+        kidsCategory: undefined,
+        dependencies: [pod('AppsFlyerFramework')],
+      }));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].confidence).toBe(Confidence.Medium);
+    });
+  });
+
+  describe('KidsAdvertisingIdentifierRule', () => {
+    it('reports IDFA access and tracking permission', async () => {
+      write('App/Ads.swift', 'let idfa = ASIdentifierManager.shared().advertisingIdentifier');
+
+      const findings = await KidsAdvertisingIdentifierRule.evaluate(context({
+        plist: { NSUserTrackingUsageDescription: 'We show relevant ads' },
+        frameworks: ['AdSupport'],
+      }));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'Advertising Identifier in Kids Category App',
+        'Tracking Permission in Kids Category App',
+      ]);
+      expect(findings[0].description).toContain('AdSupport framework, ASIdentifierManager, advertisingIdentifier');
+    });
+
+    it('accepts apps that do not track', async () => {
+      write('App/ContentView.swift', 'Text("Count to ten")');
+
+      expect(await KidsAdvertisingIdentifierRule.evaluate(context())).toEqual([]);
+    });
+  });
+
+  describe('KidsUnguardedExternalLinkRule', () => {
+    it('reports each file that links out without a parental gate', async () => {
+      write('App/AboutView.swift', `
+struct AboutView: View {
+    var body: some View {
+        Link("Our website", destination: URL(string: "https://example.com")!)
+    }
+}
+`);
+      write('App/MoreAppsViewController.swift', `
+func showMoreApps() {
+    let store = SKStoreProductViewController()
+    UIApplication.shared.open(url)
+}
+`);
+
+      const findings = await KidsUnguardedExternalLinkRule.evaluate(context());
+
+      expect(findings.map(f => [path.basename(f.location!), f.line, f.title]).sort()).toEqual([
+        ['AboutView.swift', 4, 'External Link Without Parental Gate: Link'],
+        ['MoreAppsViewController.swift', 3, 'External Link Without Parental Gate: SKStoreProductViewController'],
+      ]);
+      expect(findings[0].confidence).toBe(Confidence.Medium);
+    });
+
+    it('accepts apps with a parental gate', async () => {
+      write('App/AboutView.swift', `
+ParentalGateView(onPass: {
+    UIApplication.shared.open(url)
+})
+`);
+
+      expect(await KidsUnguardedExternalLinkRule.evaluate(context())).toEqual([]);
+    });
+  });
+
+  describe('KidsPersonalDataPermissionRule', () => {
+    it('reports contacts and location access', async () => {
+      write('App/LocationService.swift', 'manager.requestWhenInUseAuthorization()');
+
+      const findings = await KidsPersonalDataPermissionRule.evaluate(context({
+        plist: { NSContactsUsageDescription: 'Invite friends' },
+      }));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'Contacts Access in Kids Category App',
+        'Location Access in Kids Category App',
+      ]);
+      expect(findings[1].description).toContain('requestWhenInUseAuthorization');
+    });
+
+    it('accepts apps without personal data permissions', async () => {
+      expect(await KidsPersonalDataPermissionRule.evaluate(context({
+        plist: { NSMicrophoneUsageDescription: 'Sing along' },
+      }))).toEqual([]);
+    });
+  });
+});
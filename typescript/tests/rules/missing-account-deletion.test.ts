@@ -0,0 +1,100 @@
+/**
+ * Tests for MissingAccountDeletionRule
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { MissingAccountDeletionRule } from '../../src/rules/auth/missing-account-deletion';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Confidence, Dependency, DependencySource, Severity } from '../../src/types';
+
+describe('MissingAccountDeletionRule', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-account-deletion-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string | Buffer): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  function context(dependencies: Dependency[] = []) {
+    return createContextObject(tempDir, {}, {}, new Set(), dependencies);
+  }
+
+  const firebaseAuth: Dependency = { name: 'FirebaseAuth', version: '10.0.0', source: DependencySource.CocoaPods };
+
+  it('reports sign-up without deletion with high confidence', async () => {
+    write('App/SignUpView.swift', `import FirebaseAuth
+
+func signUp(email: String, password: String) async throws {
+    try await Auth.auth().createUser(withEmail: email, password: password)
+}
+`);
+
+    const findings = await MissingAccountDeletionRule.evaluate(context([firebaseAuth]));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].ruleId).toBe('auth-002-missing-account-deletion');
+    expect(findings[0].severity).toBe(Severity.High);
+    expect(findings[0].confidence).toBe(Confidence.High);
+    expect(findings[0].description).toContain('createUser');
+    expect(findings[0].description).toContain(path.join('App', 'SignUpView.swift'));
+    expect(findings[0].location).toBe(path.join(tempDir, 'App', 'SignUpView.swift'));
+    expect(findings[0].line).toBe(4);
+  });
+
+  it('lowers confidence for sign-in flows and SDK-only evidence', async () => {
+    write('App/LoginView.swift', 'let request = ASAuthorizationAppleIDProvider().createRequest()');
+    expect((await MissingAccountDeletionRule.evaluate(context()))[0].confidence).toBe(Confidence.Medium);
+
+    fs.rmSync(path.join(tempDir, 'App'), { recursive: true });
+    const findings = await MissingAccountDeletionRule.evaluate(context([firebaseAuth]));
+    expect(findings[0].confidence).toBe(Confidence.Low);
+    expect(findings[0].line).toBeUndefined();
+  });
+
+  it.each([
+    ['deleteUser', 'try await api.deleteUser(id: user.id)'],
+    ['Firebase user.delete()', 'try await Auth.auth().currentUser?.delete()'],
+    ['token revocation', 'let url = URL(string: "https://appleid.apple.com/auth/revoke")!'],
+    ['a "Delete Account" string', 'Button("Delete my account", role: .destructive) { confirm = true }'],
+  ])('accepts a deletion flow (%s)', async (_label, deletion) => {
+    write('App/SignUpView.swift', 'Auth.auth().createUser(withEmail: email, password: password)');
+    write('App/SettingsView.swift', deletion);
+
+    expect(await MissingAccountDeletionRule.evaluate(context())).toEqual([]);
+  });
+
+  it('accepts "Delete Account" in UTF-16 localized strings', async () => {
+    write('App/SignUpView.swift', 'Auth.auth().createUser(withEmail: email, password: password)');
+    write('App/en.lproj/Localizable.strings', Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from('"settings.delete" = "Delete Account";\n', 'utf16le'),
+    ]));
+
+    expect(await MissingAccountDeletionRule.evaluate(context())).toEqual([]);
+  });
+
+  it('ignores deletion mentioned only in comments', async () => {
+    write('App/SignUpView.swift', `
+// TODO: deleteAccount
+Auth.auth().createUser(withEmail: email, password: password)
+`);
+
+    expect(await MissingAccountDeletionRule.evaluate(context())).toHaveLength(1);
+  });
+
+  it('ignores apps without account creation', async () => {
+    write('App/ContentView.swift', 'Text("Hello")');
+
+    expect(await MissingAccountDeletionRule.evaluate(context())).toEqual([]);
+  });
+});
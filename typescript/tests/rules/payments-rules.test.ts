@@ -0,0 +1,260 @@
+/**
+ * Tests for in-app purchase and payments rules
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ExternalPaymentSDKRule } from '../../src/rules/payments/external-payment-sdk';
+import { ExternalPurchaseLinkRule } from '../../src/rules/payments/external-purchase-link';
+import { MissingRestorePurchasesRule } from '../../src/rules/payments/missing-restore-purchases';
+import { StoreProductViewMisuseRule } from '../../src/rules/payments/store-product-view-misuse';
+import { detectPaymentSDKs, detectStoreKitSDKs } from '../../src/parsers/framework-detector';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Confidence, Dependency, DependencySource, Severity } from '../../src/types';
+
+function pod(name: string): Dependency {
+  return { name, version: '1.0.0', source: DependencySource.CocoaPods };
+}
+
+describe('payments rules', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-payments-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function source(content: string, file = 'App/PaywallView.swift'): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  function context(
+    plist: Record<string, unknown> = {},
+    entitlements: Record<string, unknown> = {},
+    dependencies: Dependency[] = [],
+    buildSettings?: Record<string, string>
+  ) {
+    return createContextObject(tempDir, plist, entitlements, new Set(), dependencies, undefined, undefined, undefined, buildSettings);
+  }
+
+  describe('payment SDK detection', () => {
+    it('detects payment and StoreKit SDKs by dependency name', () => {
+      const deps = [pod('StripePaymentSheet'), pod('Braintree'), pod('RevenueCat'), pod('Alamofire')];
+
+      expect(detectPaymentSDKs(deps)).toEqual(['Stripe', 'Braintree']);
+      expect(detectStoreKitSDKs(deps)).toEqual(['RevenueCat']);
+    });
+  });
+
+  describe('ExternalPaymentSDKRule', () => {
+    it('reports digital goods sold through a payment SDK', async () => {
+      source(`import StripePaymentSheet
+
+struct PaywallView: View {
+    var body: some View {
+        Button("Upgrade to Premium Plan") { checkout() }
+    }
+}
+`);
+
+      const findings = await ExternalPaymentSDKRule.evaluate(context({}, {}, [pod('StripePaymentSheet')]));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].ruleId).toBe('payments-001-external-payment-sdk');
+      expect(findings[0].severity).toBe(Severity.High);
+      expect(findings[0].confidence).toBe(Confidence.Medium);
+      expect(findings[0].description).toContain('Stripe');
+      expect(findings[0].description).toContain('premium tier');
+      expect(findings[0].location).toBe(path.join(tempDir, 'App', 'PaywallView.swift'));
+      expect(findings[0].line).toBe(5);
+    });
+
+    it('accepts payment SDKs for physical goods', async () => {
+      source('Button("Place order") { checkout(cart) }');
+
+      expect(await ExternalPaymentSDKRule.evaluate(context({}, {}, [pod('PayPalCheckout')]))).toEqual([]);
+    });
+
+    it('accepts apps that also sell through StoreKit', async () => {
+      source(`
+let products = try await Product.products(for: ["com.example.premium.monthly"])
+Text("Unlock Premium")
+`);
+
+      expect(await ExternalPaymentSDKRule.evaluate(context({}, {}, [pod('Stripe')]))).toEqual([]);
+      expect(await ExternalPaymentSDKRule.evaluate(context({}, {}, [pod('Stripe'), pod('RevenueCat')]))).toEqual([]);
+    });
+
+    it('skips framework targets', async () => {
+      source('Text("Unlock Premium")');
+
+      expect(await ExternalPaymentSDKRule.evaluate(context(
+        {}, {}, [pod('Stripe')], { PRODUCT_TYPE: 'com.apple.product-type.framework' }
+      ))).toEqual([]);
+    });
+  });
+
+  describe('ExternalPurchaseLinkRule', () => {
+    it('reports links to a web checkout without the entitlement', async () => {
+      source(`import SafariServices
+
+func upgrade() {
+    let url = URL(string: "https://example.com/checkout?plan=pro")!
+    UIApplication.shared.open(url)
+}
+`);
+
+      const findings = await ExternalPurchaseLinkRule.evaluate(context());
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].title).toBe('Link to External Checkout');
+      expect(findings[0].severity).toBe(Severity.High);
+      expect(findings[0].confidence).toBe(Confidence.Medium);
+      expect(findings[0].line).toBe(4);
+    });
+
+    it('ignores API endpoints and Apple pages', async () => {
+      source(`
+let endpoint = URL(string: "https://api.example.com/payments")!
+let manage = URL(string: "https://apps.apple.com/account/subscriptions")!
+UIApplication.shared.open(manage)
+`);
+
+      expect(await ExternalPurchaseLinkRule.evaluate(context())).toEqual([]);
+    });
+
+    it('reports external purchase APIs without the entitlement', async () => {
+      source(`
+if await ExternalPurchaseLink.canOpen {
+    try await ExternalPurchaseLink.open()
+}
+`);
+
+      const findings = await ExternalPurchaseLinkRule.evaluate(context());
+
+      expect(findings.map(f => f.title)).toEqual(['External Purchase API Without Entitlement']);
+      expect(findings[0].description).toContain('ExternalPurchaseLink');
+    });
+
+    it('reports the entitlement without its Info.plist key', async () => {
+      source(`
+if await ExternalPurchaseLink.canOpen {
+    try await ExternalPurchaseLink.open()
+}
+let url = URL(string: "https://example.com/checkout")!
+UIApplication.shared.open(url)
+`);
+
+      const findings = await ExternalPurchaseLinkRule.evaluate(context(
+        {}, { 'com.apple.developer.storekit.external-purchase-link': true }
+      ));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'StoreKit External Purchase Link Entitlement Without SKExternalPurchaseLink',
+      ]);
+    });
+
+    it('accepts an entitled and configured app', async () => {
+      source('let url = URL(string: "https://example.com/checkout")!\nUIApplication.shared.open(url)');
+
+      expect(await ExternalPurchaseLinkRule.evaluate(context(
+        { SKExternalPurchase: ['kr'] },
+        { 'com.apple.developer.storekit.external-purchase': true }
+      ))).toEqual([]);
+    });
+  });
+
+  describe('MissingRestorePurchasesRule', () => {
+    it('reports subscriptions without a restore call', async () => {
+      source(`
+let products = try await Product.products(for: ids)
+let subscriptions = products.filter { $0.type == .autoRenewable }
+`);
+
+      const findings = await MissingRestorePurchasesRule.evaluate(context());
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].ruleId).toBe('payments-003-missing-restore-purchases');
+      expect(findings[0].description).toContain('.autoRenewable');
+      expect(findings[0].line).toBe(3);
+    });
+
+    it.each([
+      ['AppStore.sync', 'Button("Restore Purchases") { Task { try? await AppStore.sync() } }'],
+      ['restoreCompletedTransactions', 'SKPaymentQueue.default().restoreCompletedTransactions()'],
+      ['RevenueCat', 'Purchases.shared.restorePurchases { info, error in }'],
+      ['SubscriptionStoreView button', '.storeButton(.visible, for: .restorePurchases)'],
+    ])('accepts a restore mechanism (%s)', async (_label, restore) => {
+      source(`
+SubscriptionStoreView(groupID: groupID)
+${restore}
+`);
+
+      expect(await MissingRestorePurchasesRule.evaluate(context())).toEqual([]);
+    });
+
+    it('ignores consumable-only stores', async () => {
+      source('let coins = products.filter { $0.type == .consumable }');
+
+      expect(await MissingRestorePurchasesRule.evaluate(context())).toEqual([]);
+    });
+  });
+
+  describe('StoreProductViewMisuseRule', () => {
+    it('reports a store sheet pushed onto a navigation stack', async () => {
+      source(`
+func showApp() {
+    let storeVC = SKStoreProductViewController()
+    storeVC.delegate = self
+    navigationController?.pushViewController(storeVC, animated: true)
+}
+
+func productViewControllerDidFinish(_ viewController: SKStoreProductViewController) {
+    viewController.dismiss(animated: true)
+}
+`);
+
+      const findings = await StoreProductViewMisuseRule.evaluate(context());
+
+      expect(findings.map(f => f.title)).toEqual(['SKStoreProductViewController Pushed Onto Navigation Stack']);
+      expect(findings[0].severity).toBe(Severity.High);
+      expect(findings[0].line).toBe(5);
+    });
+
+    it('reports Objective-C pushes', async () => {
+      source(`
+SKStoreProductViewController *store = [[SKStoreProductViewController alloc] init];
+[self.navigationController pushViewController:store animated:YES];
+- (void)productViewControllerDidFinish:(SKStoreProductViewController *)controller {}
+`, 'App/StoreLink.m');
+
+      const findings = await StoreProductViewMisuseRule.evaluate(context());
+
+      expect(findings.map(f => f.title)).toEqual(['SKStoreProductViewController Pushed Onto Navigation Stack']);
+    });
+
+    it('reports a store sheet nobody dismisses', async () => {
+      source(`
+let storeVC = SKStoreProductViewController()
+present(storeVC, animated: true)
+`);
+
+      const findings = await StoreProductViewMisuseRule.evaluate(context());
+
+      expect(findings.map(f => f.title)).toEqual(['SKStoreProductViewController Without productViewControllerDidFinish']);
+      expect(findings[0].severity).toBe(Severity.Medium);
+      expect(findings[0].line).toBe(2);
+    });
+
+    it('ignores apps without SKStoreProductViewController', async () => {
+      source('SKStoreReviewController.requestReview(in: scene)');
+
+      expect(await StoreProductViewMisuseRule.evaluate(context())).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for the privacy manifest rule family (privacy-011 to privacy-014)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { MalformedPrivacyManifestRule } from '../../src/rules/privacy/privacy-manifest-malformed';
+import { InvalidRequiredReasonDeclarationRule } from '../../src/rules/privacy/privacy-manifest-api-reasons';
+import { TrackingWithoutDomainsRule } from '../../src/rules/privacy/privacy-manifest-tracking-domains';
+import { InvalidCollectedDataTypeRule } from '../../src/rules/privacy/privacy-manifest-collected-data';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Severity } from '../../src/types';
+
+const VALID_MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+	<key>NSPrivacyTracking</key>
+	<true/>
+	<key>NSPrivacyTrackingDomains</key>
+	<array>
+		<string>tracking.example.com</string>
+	</array>
+	<key>NSPrivacyCollectedDataTypes</key>
+	<array>
+		<dict>
+			<key>NSPrivacyCollectedDataType</key>
+			<string>NSPrivacyCollectedDataTypeEmailAddress</string>
+			<key>NSPrivacyCollectedDataTypeLinked</key>
+			<true/>
+			<key>NSPrivacyCollectedDataTypeTracking</key>
+			<false/>
+			<key>NSPrivacyCollectedDataTypePurposes</key>
+			<array>
+				<string>NSPrivacyCollectedDataTypePurposeAppFunctionality</string>
+			</array>
+		</dict>
+	</array>
+	<key>NSPrivacyAccessedAPITypes</key>
+	<array>
+		<dict>
+			<key>NSPrivacyAccessedAPIType</key>
+			<string>NSPrivacyAccessedAPICategoryUserDefaults</string>
+			<key>NSPrivacyAccessedAPITypeReasons</key>
+			<array>
+				<string>CA92.1</string>
+			</array>
+		</dict>
+	</array>
+</dict>
+</plist>
+`;
+
+const ALL_RULES = [
+  MalformedPrivacyManifestRule,
+  InvalidRequiredReasonDeclarationRule,
+  TrackingWithoutDomainsRule,
+  InvalidCollectedDataTypeRule,
+];
+
+describe('privacy manifest rules', () => {
+  let tempDir: string;
+  let manifestPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-manifest-rules-test-'));
+    manifestPath = path.join(tempDir, 'PrivacyInfo.xcprivacy');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function evaluate(manifest: string) {
+    fs.writeFileSync(manifestPath, manifest);
+    const context = createContextObject(tempDir, {}, {}, new Set(), []);
+    const findings = [];
+    for (const rule of ALL_RULES) {
+      findings.push(...await rule.evaluate(context));
+    }
+    return findings;
+  }
+
+  /** Line of the first occurrence of `text` in the manifest */
+  function lineOf(manifest: string, text: string): number {
+    return manifest.slice(0, manifest.indexOf(text)).split('\n').length;
+  }
+
+  it('accepts a valid manifest', async () => {
+    expect(await evaluate(VALID_MANIFEST)).toEqual([]);
+  });
+
+  it('reports nothing when there is no manifest', async () => {
+    const context = createContextObject(tempDir, {}, {}, new Set(), []);
+    for (const rule of ALL_RULES) {
+      expect(await rule.evaluate(context)).toEqual([]);
+    }
+  });
+
+  describe('privacy-012-invalid-required-reason-declaration', () => {
+    it('reports unknown reason codes on their line', async () => {
+      const manifest = VALID_MANIFEST.replace('<string>CA92.1</string>', '<string>CA92.9</string>');
+      const findings = await evaluate(manifest);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        ruleId: 'privacy-012-invalid-required-reason-declaration',
+        severity: Severity.High,
+        title: 'Invalid Reason Code CA92.9',
+        location: manifestPath,
+        line: lineOf(manifest, '<string>CA92.9</string>'),
+      });
+      expect(findings[0].description).toContain('Valid reasons for NSPrivacyAccessedAPICategoryUserDefaults: CA92.1, 1C8F.1, C56D.1, AC6B.1');
+    });
+
+    it('reports reason codes that belong to another category', async () => {
+      const findings = await evaluate(VALID_MANIFEST.replace('<string>CA92.1</string>', '<string>C617.1</string>'));
+      expect(findings.map(f => f.title)).toEqual(['Reason Code C617.1 Belongs to NSPrivacyAccessedAPICategoryFileTimestamp']);
+    });
+
+    it('reports empty reasons and unknown categories', async () => {
+      const manifest = VALID_MANIFEST
+        .replace('NSPrivacyAccessedAPICategoryUserDefaults', 'NSPrivacyAccessedAPICategoryClipboard')
+        .replace('<array>\n\t\t\t\t<string>CA92.1</string>\n\t\t\t</array>', '<array/>');
+      const findings = await evaluate(manifest);
+
+      expect(findings.map(f => [f.title, f.line])).toEqual([
+        ['Unknown Required Reason API Category: NSPrivacyAccessedAPICategoryClipboard', lineOf(manifest, '<string>NSPrivacyAccessedAPICategoryClipboard')],
+        ['No Reasons Declared for NSPrivacyAccessedAPICategoryClipboard', lineOf(manifest, '<array/>')],
+      ]);
+    });
+  });
+
+  describe('privacy-013-tracking-without-domains', () => {
+    it('reports tracking without domains on the NSPrivacyTracking line', async () => {
+      const manifest = VALID_MANIFEST.replace('<array>\n\t\t<string>tracking.example.com</string>\n\t</array>', '<array/>');
+      const findings = await evaluate(manifest);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        ruleId: 'privacy-013-tracking-without-domains',
+        line: lineOf(manifest, '<true/>'),
+      });
+      expect(findings[0].description).toContain('NSPrivacyTrackingDomains lists no domains');
+    });
+  });
+
+  describe('privacy-014-invalid-collected-data-type', () => {
+    it('reports unknown types, missing flags and invalid purposes', async () => {
+      const manifest = VALID_MANIFEST
+        .replace('NSPrivacyCollectedDataTypeEmailAddress', 'NSPrivacyCollectedDataTypeEmail')
+        .replace('\t\t\t<key>NSPrivacyCollectedDataTypeTracking</key>\n\t\t\t<false/>\n', '')
+        .replace('NSPrivacyCollectedDataTypePurposeAppFunctionality', 'NSPrivacyCollectedDataTypePurposeMarketing');
+      const findings = await evaluate(manifest);
+
+      expect(findings.every(f => f.ruleId === 'privacy-014-invalid-collected-data-type')).toBe(true);
+      expect(findings.map(f => [f.title, f.line])).toEqual([
+        ['Unknown Collected Data Type: NSPrivacyCollectedDataTypeEmail', lineOf(manifest, '<string>NSPrivacyCollectedDataTypeEmail<')],
+        ['Invalid NSPrivacyCollectedDataTypeTracking for NSPrivacyCollectedDataTypeEmail', lineOf(manifest, '\t\t<dict>\n\t\t\t<key>NSPrivacyCollectedDataType<')],
+        ['Invalid Collection Purpose for NSPrivacyCollectedDataTypeEmail', lineOf(manifest, '<string>NSPrivacyCollectedDataTypePurposeMarketing')],
+      ]);
+    });
+  });
+
+  describe('privacy-011-malformed-privacy-manifest', () => {
+    it('reports mistyped top-level keys', async () => {
+      const manifest = VALID_MANIFEST.replace('<key>NSPrivacyTracking</key>\n\t<true/>', '<key>NSPrivacyTracking</key>\n\t<string>YES</string>');
+      const findings = await evaluate(manifest);
+
+      expect(findings.map(f => [f.ruleId, f.title, f.line])).toEqual([
+        ['privacy-011-malformed-privacy-manifest', 'Invalid NSPrivacyTracking in Privacy Manifest', lineOf(manifest, '<string>YES')],
+      ]);
+    });
+
+    it('reports files that are not well-formed', async () => {
+      const findings = await evaluate(VALID_MANIFEST.replace('</array>\n</dict>', '</dict>'));
+
+      expect(findings.map(f => f.ruleId)).toEqual(['privacy-011-malformed-privacy-manifest']);
+      expect(findings[0].description).toContain('cannot be parsed');
+    });
+  });
+});
@@ -22,6 +22,17 @@ function cleanupDir(dir: string) {
   fs.rmSync(dir, { recursive: true, force: true });
 }
 
+function binaryImage(importedSymbols: string[], extra: { dylibs?: string[]; selectors?: string[] } = {}) {
+  return {
+    path: '/build/MyApp.app/Frameworks/Vendor.framework/Vendor',
+    bundleName: 'Vendor.framework',
+    arch: 'arm64',
+    dylibs: extra.dylibs ?? [],
+    importedSymbols,
+    selectors: extra.selectors ?? [],
+  };
+}
+
 describe('PrivateAPIUsageRule', () => {
   let tempDir: string;
 
@@ -173,4 +184,36 @@ class ViewController: UIViewController {
 
     expect(findings).toHaveLength(0);
   });
+
+  describe('compiled binaries', () => {
+    it('should detect UIWebView, private frameworks and private selectors', async () => {
+      tempDir = makeTempProject({});
+      const context = createContextObject(tempDir, {}, {}, new Set(), []);
+      context.binaries = [binaryImage(['OBJC_CLASS_$_UIWebView'], {
+        dylibs: ['/System/Library/PrivateFrameworks/SpringBoardServices.framework/SpringBoardServices'],
+        selectors: ['_performMemoryWarning', 'viewDidLoad'],
+      })];
+
+      const findings = await PrivateAPIUsageRule.evaluate(context);
+
+      expect(findings.map(f => f.title)).toEqual([
+        'UIWebView Usage (Deprecated & Rejected)',
+        'Private Framework Linked',
+        'Private Selector Usage',
+      ]);
+      expect(findings[0].location).toBe('/build/MyApp.app/Frameworks/Vendor.framework/Vendor');
+      expect(findings[2].description).toContain('_performMemoryWarning');
+    });
+
+    it('should ignore public symbols and frameworks', async () => {
+      tempDir = makeTempProject({});
+      const context = createContextObject(tempDir, {}, {}, new Set(), []);
+      context.binaries = [binaryImage(['OBJC_CLASS_$_WKWebView'], {
+        dylibs: ['/System/Library/Frameworks/WebKit.framework/WebKit'],
+        selectors: ['loadRequest:'],
+      })];
+
+      expect(await PrivateAPIUsageRule.evaluate(context)).toHaveLength(0);
+    });
+  });
 });
@@ -287,6 +287,7 @@ describe('RequiredReasonAPIRule', () => {
       expect(findings.length).toBe(1);
       expect(findings[0].title).toContain('System Boot Time');
       expect(findings[0].description).toContain('NSPrivacyAccessedAPICategorySystemBootTime');
+      expect(findings[0].discriminator).toBe('NSPrivacyAccessedAPICategorySystemBootTime');
     });
 
     it('should find multiple undeclared categories', async () => {
@@ -316,6 +317,29 @@ describe('RequiredReasonAPIRule', () => {
       const findings = await RequiredReasonAPIRule.evaluate(context);
       expect(findings.length).toBe(3); // UserDefaults, SystemBootTime, ActiveKeyboards
     });
+
+    it('should only fill in reason codes the sources make unambiguous', async () => {
+      setupMockFs({
+        sourceFiles: {
+          '/test/project/App.swift': 'UserDefaults.standard.set(1, forKey: "x")\nlet t = mach_absolute_time()',
+        },
+        privacyManifest: '<?xml version="1.0" encoding="UTF-8"?>\n<plist version="1.0">\n<dict>\n</dict>\n</plist>',
+      });
+
+      const context = createContextObject('/test/project', {}, {}, new Set(), []);
+      const findings = await RequiredReasonAPIRule.evaluate(context);
+      const fix = (category: string) => findings.find(f => f.discriminator === category)?.fixes?.[0];
+
+      expect(fix('NSPrivacyAccessedAPICategoryUserDefaults')).toMatchObject({
+        value: { NSPrivacyAccessedAPITypeReasons: ['CA92.1'] },
+        description: 'Declare NSPrivacyAccessedAPICategoryUserDefaults with reason CA92.1',
+      });
+      const bootTime = fix('NSPrivacyAccessedAPICategorySystemBootTime');
+      expect(bootTime).toMatchObject({ value: { NSPrivacyAccessedAPITypeReasons: [] } });
+      expect(bootTime?.type === 'plist-append' && bootTime.comment)
+        .toContain('TODO: choose NSPrivacyAccessedAPITypeReasons for NSPrivacyAccessedAPICategorySystemBootTime (used in App.swift)');
+      expect(bootTime?.type === 'plist-append' && bootTime.comment).toContain('  35F9.1: ');
+    });
   });
 
   describe('File timestamp detection', () => {
@@ -397,6 +421,60 @@ describe('RequiredReasonAPIRule', () => {
     });
   });
 
+  describe('Compiled binaries', () => {
+    const binary = (bundleName: string, importedSymbols: string[], selectors: string[] = []) => ({
+      path: `/test/project/Frameworks/${bundleName}/${bundleName.split('.')[0]}`,
+      bundleName,
+      arch: 'arm64',
+      dylibs: [],
+      importedSymbols,
+      selectors,
+    });
+
+    it('should detect APIs imported by binaries without sources', async () => {
+      setupMockFs({});
+
+      const context = createContextObject('/test/project', {}, {}, new Set(), []);
+      context.binaries = [
+        binary('Vendor.framework', ['stat', 'OBJC_CLASS_$_NSUserDefaults']),
+        binary('Timer.framework', [], ['systemUptime']),
+      ];
+
+      const findings = await RequiredReasonAPIRule.evaluate(context);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].description).toContain('File Timestamp APIs');
+      expect(findings[0].description).toContain('UserDefaults API');
+      expect(findings[0].description).toContain('System Boot Time APIs');
+    });
+
+    it('should check SDKs that ship a manifest against their own manifest', async () => {
+      const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+    <key>NSPrivacyAccessedAPITypes</key>
+    <array>
+        <dict>
+            <key>NSPrivacyAccessedAPIType</key>
+            <string>NSPrivacyAccessedAPICategoryUserDefaults</string>
+        </dict>
+    </array>
+</dict>
+</plist>`;
+      setupMockFs({ privacyManifest: manifest });
+
+      const context = createContextObject('/test/project', {}, {}, new Set(), []);
+      context.privacyManifests = [
+        { path: '/test/project/Frameworks/Vendor.framework/PrivacyInfo.xcprivacy', bundleName: 'Vendor.framework', isAppManifest: false },
+      ];
+      context.binaries = [binary('Vendor.framework', ['OBJC_CLASS_$_NSUserDefaults', 'mach_absolute_time'])];
+
+      const findings = await RequiredReasonAPIRule.evaluate(context);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].title).toBe('Undeclared Required Reason API in Vendor.framework: System Boot Time APIs');
+      expect(findings[0].location).toBe('/test/project/Frameworks/Vendor.framework/PrivacyInfo.xcprivacy');
+    });
+  });
+
   describe('Rule metadata', () => {
     it('should have correct metadata', () => {
       expect(RequiredReasonAPIRule.id).toBe('privacy-010-required-reason-api');
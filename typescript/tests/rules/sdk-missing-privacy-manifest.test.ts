@@ -0,0 +1,160 @@
+/**
+ * Tests for SDKMissingPrivacyManifestRule and privacy manifest discovery
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SDKMissingPrivacyManifestRule } from '../../src/rules/privacy/sdk-missing-privacy-manifest';
+import { discoverPrivacyManifests } from '../../src/parsers/privacy-manifest-discovery';
+import { findDependencyCheckouts } from '../../src/parsers/dependency-checkouts';
+import { findCommonlyUsedSDK } from '../../src/parsers/framework-detector';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Dependency, DependencySource, Severity } from '../../src/types';
+
+const MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+	<key>NSPrivacyTracking</key>
+	<false/>
+</dict>
+</plist>
+`;
+
+describe('SDKMissingPrivacyManifestRule', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-sdk-manifest-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(relativePath: string, content = ''): void {
+    const file = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function context(dependencies: Dependency[]) {
+    return createContextObject(tempDir, {}, {}, new Set(), dependencies);
+  }
+
+  it('matches pod names and Swift package identities against Apple\'s list', () => {
+    expect(findCommonlyUsedSDK('Alamofire')).toBe('Alamofire');
+    expect(findCommonlyUsedSDK('sdwebimage')).toBe('SDWebImage');
+    expect(findCommonlyUsedSDK('firebase-ios-sdk')).toBe('FirebaseABTesting');
+    expect(findCommonlyUsedSDK('Firebase/Core')).toBeUndefined();
+    expect(findCommonlyUsedSDK('MyInternalKit')).toBeUndefined();
+  });
+
+  it('reports installed pods on the list that ship no manifest', async () => {
+    write('Pods/Alamofire/Source/Session.swift');
+    write('Pods/Kingfisher/Sources/PrivacyInfo.xcprivacy', MANIFEST);
+    write('Pods/Target Support Files/Pods-App/Pods-App.xcconfig');
+
+    const findings = await SDKMissingPrivacyManifestRule.evaluate(context([
+      { name: 'Alamofire', version: '5.6.0', source: DependencySource.CocoaPods },
+      { name: 'Kingfisher', version: '7.10.0', source: DependencySource.CocoaPods },
+    ]));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].ruleId).toBe('privacy-015-sdk-missing-privacy-manifest');
+    expect(findings[0].severity).toBe(Severity.High);
+    expect(findings[0].title).toBe('Alamofire Ships No Privacy Manifest');
+    expect(findings[0].description).toContain('Alamofire 5.6.0');
+    expect(findings[0].location).toBe(path.join(tempDir, 'Pods', 'Alamofire'));
+  });
+
+  it('checks Swift package checkouts in .build and SourcePackages', async () => {
+    write('.build/checkouts/SnapKit/Sources/SnapKit/Constraint.swift');
+    write('DerivedData/App-abc123/SourcePackages/checkouts/lottie-ios/Package.swift');
+
+    const findings = await SDKMissingPrivacyManifestRule.evaluate(context([
+      { name: 'snapkit', version: '5.0.1', source: DependencySource.SPM },
+      { name: 'lottie-ios', version: '4.3.0', source: DependencySource.SPM },
+    ]));
+
+    expect(findings.map(f => f.title)).toEqual([
+      'snapkit Ships No Privacy Manifest',
+      'lottie-ios Ships No Privacy Manifest',
+    ]);
+    expect(findings[1].description).toContain('(listed as Lottie)');
+  });
+
+  it('ignores dependencies that are not installed or not on the list', async () => {
+    write('Pods/MyInternalKit/Source/Kit.swift');
+
+    const findings = await SDKMissingPrivacyManifestRule.evaluate(context([
+      { name: 'Alamofire', version: '5.6.0', source: DependencySource.CocoaPods },
+      { name: 'MyInternalKit', version: '1.0.0', source: DependencySource.CocoaPods },
+    ]));
+
+    expect(findings).toEqual([]);
+  });
+
+  it('checks embedded frameworks of built bundles', async () => {
+    const ctx = createContextObject(tempDir, {}, {}, new Set(['Alamofire', 'SnapKit']), [
+      { name: 'Alamofire', source: DependencySource.Manual },
+      { name: 'SnapKit', source: DependencySource.Manual },
+    ]);
+    ctx.privacyManifests = [
+      { path: path.join(tempDir, 'Frameworks/SnapKit.framework/PrivacyInfo.xcprivacy'), bundleName: 'SnapKit.framework', isAppManifest: false },
+    ];
+
+    const findings = await SDKMissingPrivacyManifestRule.evaluate(ctx);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].description).toContain('embedded framework contains no PrivacyInfo.xcprivacy');
+    expect(findings[0].location).toBe(path.join(tempDir, 'Frameworks', 'Alamofire.framework'));
+  });
+});
+
+describe('discoverPrivacyManifests', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-manifest-discovery-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(relativePath: string, content = MANIFEST): void {
+    const file = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  it('finds the app, local package, pod and package checkout manifests', () => {
+    write('App/Resources/PrivacyInfo.xcprivacy');
+    write('Widget/PrivacyInfo.xcprivacy');
+    write('Packages/CoreKit/Package.swift', '// swift-tools-version:5.9\n');
+    write('Packages/CoreKit/Sources/CoreKit/PrivacyInfo.xcprivacy');
+    write('Pods/FirebaseCore/FirebaseCore/Sources/Resources/PrivacyInfo.xcprivacy');
+    write('SourcePackages/checkouts/Alamofire/Source/PrivacyInfo.xcprivacy');
+    write('build/Debug-iphoneos/App.app/PrivacyInfo.xcprivacy');
+
+    const manifests = discoverPrivacyManifests([tempDir])
+      .map(m => ({ origin: m.origin, owner: m.owner, path: path.relative(tempDir, m.path) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    expect(manifests).toEqual([
+      { origin: 'app', owner: 'App', path: path.join('App', 'Resources', 'PrivacyInfo.xcprivacy') },
+      { origin: 'local-package', owner: 'CoreKit', path: path.join('Packages', 'CoreKit', 'Sources', 'CoreKit', 'PrivacyInfo.xcprivacy') },
+      { origin: 'cocoapods', owner: 'FirebaseCore', path: path.join('Pods', 'FirebaseCore', 'FirebaseCore', 'Sources', 'Resources', 'PrivacyInfo.xcprivacy') },
+      { origin: 'spm', owner: 'Alamofire', path: path.join('SourcePackages', 'checkouts', 'Alamofire', 'Source', 'PrivacyInfo.xcprivacy') },
+      { origin: 'app', owner: 'Widget', path: path.join('Widget', 'PrivacyInfo.xcprivacy') },
+    ]);
+  });
+
+  it('skips CocoaPods support directories', () => {
+    write('Pods/Target Support Files/Pods-App/Info.plist', '');
+    write('Pods/Pods.xcodeproj/project.pbxproj', '');
+    write('Pods/SnapKit/Sources/Constraint.swift', '');
+
+    expect(findDependencyCheckouts([tempDir]).map(c => c.name)).toEqual(['SnapKit']);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for the Sign in with Apple source rules
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SIWATokenRevocationRule } from '../../src/rules/auth/siwa-token-revocation';
+import { CustomAppleSignInButtonRule } from '../../src/rules/auth/custom-apple-sign-in-button';
+import { SIWARedundantScopePromptRule } from '../../src/rules/auth/siwa-redundant-scope-prompt';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Confidence, Severity } from '../../src/types';
+
+const SIWA_FLOW = `import AuthenticationServices
+
+func signInWithApple() {
+    let request = ASAuthorizationAppleIDProvider().createRequest()
+    request.requestedScopes = [.fullName, .email]
+    let controller = ASAuthorizationController(authorizationRequests: [request])
+    controller.performRequests()
+}
+`;
+
+describe('Sign in with Apple source rules', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-siwa-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function source(file: string, content: string): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  function context() {
+    return createContextObject(tempDir, {}, { 'com.apple.developer.applesignin': ['Default'] }, new Set(), []);
+  }
+
+  describe('SIWATokenRevocationRule', () => {
+    it('reports Sign in with Apple without revocation', async () => {
+      source('App/LoginView.swift', SIWA_FLOW);
+
+      const findings = await SIWATokenRevocationRule.evaluate(context());
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].ruleId).toBe('auth-003-siwa-token-revocation');
+      expect(findings[0].severity).toBe(Severity.High);
+      expect(findings[0].location).toBe(path.join(tempDir, 'App', 'LoginView.swift'));
+      expect(findings[0].line).toBe(4);
+    });
+
+    it.each([
+      ['the REST API', 'let url = URL(string: "https://appleid.apple.com/auth/revoke")!'],
+      ['Firebase', 'try await Auth.auth().revokeToken(withAuthorizationCode: code)'],
+      ['a server', 'let code = credential.authorizationCode'],
+    ])('accepts revocation through %s', async (_label, revocation) => {
+      source('App/LoginView.swift', SIWA_FLOW);
+      source('App/AccountService.swift', revocation);
+
+      expect(await SIWATokenRevocationRule.evaluate(context())).toEqual([]);
+    });
+
+    it('ignores apps without Sign in with Apple', async () => {
+      source('App/ContentView.swift', 'Text("Hello")');
+
+      expect(await SIWATokenRevocationRule.evaluate(context())).toEqual([]);
+    });
+  });
+
+  describe('CustomAppleSignInButtonRule', () => {
+    it('reports each custom-drawn button', async () => {
+      source('App/LoginView.swift', SIWA_FLOW);
+      source('App/WelcomeView.swift', `
+Button(action: signInWithApple) {
+    Label("Sign in with Apple", systemImage: "apple.logo")
+}
+Button("Continue with Apple", action: signInWithApple)
+`);
+
+      const findings = await CustomAppleSignInButtonRule.evaluate(context());
+
+      expect(findings.map(f => [f.line, f.discriminator])).toEqual([
+        [3, '"Sign in with Apple"'],
+        [5, '"Continue with Apple"'],
+      ]);
+      expect(findings[0].ruleId).toBe('auth-004-custom-apple-sign-in-button');
+      expect(findings[0].severity).toBe(Severity.Medium);
+    });
+
+    it('accepts the system button', async () => {
+      source('App/LoginView.swift', `${SIWA_FLOW}
+let button = ASAuthorizationAppleIDButton(type: .signIn, style: .black)
+let label = "Sign in with Apple"
+`);
+
+      expect(await CustomAppleSignInButtonRule.evaluate(context())).toEqual([]);
+    });
+
+    it('ignores Apple titles in apps without Sign in with Apple', async () => {
+      source('App/WelcomeView.swift', 'Text("Sign in with Apple")');
+
+      expect(await CustomAppleSignInButtonRule.evaluate(context())).toEqual([]);
+    });
+  });
+
+  describe('SIWARedundantScopePromptRule', () => {
+    it('reports prompts for data the app never reads from the credential', async () => {
+      source('App/LoginView.swift', SIWA_FLOW);
+      source('App/ProfileView.swift', `
+TextField("Email", text: $email)
+    .textContentType(.emailAddress)
+TextField("Full name", text: $name)
+`);
+
+      const findings = await SIWARedundantScopePromptRule.evaluate(context());
+
+      expect(findings.map(f => [f.title, f.line])).toEqual([
+        ['Sign in with Apple Email Requested Again', 2],
+        ['Sign in with Apple Email Requested Again', 3],
+        ['Sign in with Apple Name Requested Again', 4],
+      ]);
+      expect(findings[0].confidence).toBe(Confidence.Medium);
+      expect(findings[0].description).toContain('never reads credential.email');
+    });
+
+    it('lowers confidence when the credential is read and only flags the sign-in screen', async () => {
+      source('App/LoginView.swift', `${SIWA_FLOW}
+let email = credential.email
+let name = credential.fullName
+TextField("Email", text: $email)
+`);
+      source('App/EmailSignUpView.swift', 'TextField("Email", text: $email)');
+
+      const findings = await SIWARedundantScopePromptRule.evaluate(context());
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].location).toBe(path.join(tempDir, 'App', 'LoginView.swift'));
+      expect(findings[0].confidence).toBe(Confidence.Low);
+    });
+
+    it('ignores scopes the app does not request', async () => {
+      source('App/LoginView.swift', SIWA_FLOW.replace('[.fullName, .email]', '[]'));
+      source('App/ProfileView.swift', 'TextField("Email", text: $email)');
+
+      expect(await SIWARedundantScopePromptRule.evaluate(context())).toEqual([]);
+    });
+  });
+});
@@ -41,6 +41,18 @@ describe('ThirdPartyLoginNoSIWARule', () => {
     expect(findings[0].confidence).toBe(Confidence.High);
   });
 
+  it('should keep the same discriminator when another login SDK is added', async () => {
+    const google = { name: 'GoogleSignIn', version: '6.0.0', source: DependencySource.CocoaPods };
+    const facebook = { name: 'FBSDKLoginKit', version: '14.0.0', source: DependencySource.CocoaPods };
+    const discriminator = async (dependencies: typeof google[]) => {
+      const context = createContextObject('/test/project', {}, {}, new Set(['UIKit']), dependencies);
+      const [finding] = await ThirdPartyLoginNoSIWARule.evaluate(context);
+      return finding.discriminator;
+    };
+
+    expect(await discriminator([google, facebook])).toBe(await discriminator([google]));
+  });
+
   it('should find missing SIWA when Facebook Login is present', async () => {
     const context = createContextObject(
       '/test/project',
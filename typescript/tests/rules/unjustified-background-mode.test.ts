@@ -0,0 +1,136 @@
+/**
+ * Tests for UnjustifiedBackgroundModeRule and background mode source detection
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { UnjustifiedBackgroundModeRule } from '../../src/rules/entitlements/unjustified-background-mode';
+import { detectBackgroundModeUsage } from '../../src/rules/entitlements/background-mode-source-usage';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Confidence, Dependency, DependencySource, Severity } from '../../src/types';
+
+describe('UnjustifiedBackgroundModeRule', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-background-mode-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function source(content: string, file = 'App/AppDelegate.swift'): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  function context(plist: Record<string, unknown>, dependencies: Dependency[] = []) {
+    return createContextObject(tempDir, plist, {}, new Set(), dependencies);
+  }
+
+  it('reports declared modes that no source uses', async () => {
+    source(`
+      try AVAudioSession.sharedInstance().setCategory(.playback)
+      // PKPushRegistry is only mentioned in a comment
+    `);
+
+    const findings = await UnjustifiedBackgroundModeRule.evaluate(context({ UIBackgroundModes: ['audio', 'voip', 'location'] }));
+
+    expect(findings.map(f => f.title)).toEqual([
+      'Unused Background Mode: voip',
+      'Unused Background Mode: location',
+    ]);
+    expect(findings[0].ruleId).toBe('entitlements-006-unjustified-background-mode');
+    expect(findings[0].severity).toBe(Severity.High);
+    expect(findings[0].confidence).toBe(Confidence.Medium);
+    expect(findings[0].description).toContain('PKPushRegistry');
+  });
+
+  it('accepts modes used by a known SDK dependency', async () => {
+    source('print("hello")');
+
+    expect(await UnjustifiedBackgroundModeRule.evaluate(context(
+      { UIBackgroundModes: ['remote-notification'] },
+      [{ name: 'FirebaseMessaging', version: '10.0.0', source: DependencySource.CocoaPods }]
+    ))).toEqual([]);
+  });
+
+  it('does not judge modes without any native source', async () => {
+    expect(await UnjustifiedBackgroundModeRule.evaluate(context({ UIBackgroundModes: ['audio'] }))).toEqual([]);
+  });
+
+  it('reports BGTaskScheduler identifiers missing from the permitted list', async () => {
+    source(`import BackgroundTasks
+
+BGTaskScheduler.shared.register(forTaskWithIdentifier: "com.example.refresh", using: nil) { _ in }
+BGTaskScheduler.shared.register(forTaskWithIdentifier: "com.example.cleanup", using: nil) { _ in }
+let request = BGProcessingTaskRequest(identifier: "com.example.cleanup")
+`);
+
+    const findings = await UnjustifiedBackgroundModeRule.evaluate(context({
+      UIBackgroundModes: ['processing'],
+      BGTaskSchedulerPermittedIdentifiers: ['com.example.refresh'],
+    }));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].title).toBe('BGTaskScheduler Identifier Not Permitted: com.example.cleanup');
+    expect(findings[0].location).toBe(path.join(tempDir, 'App', 'AppDelegate.swift'));
+    expect(findings[0].line).toBe(4);
+    expect(findings[0].fixGuidance).toContain('<string>com.example.cleanup</string>');
+  });
+
+  it('matches wildcard permitted identifiers', async () => {
+    source('BGTaskScheduler.shared.register(forTaskWithIdentifier: "com.example.sync.photos", using: nil) { _ in }');
+
+    expect(await UnjustifiedBackgroundModeRule.evaluate(context({
+      BGTaskSchedulerPermittedIdentifiers: ['com.example.sync.*'],
+    }))).toEqual([]);
+  });
+
+  it('reports task requests without the fetch or processing mode', async () => {
+    source('let request = BGAppRefreshTaskRequest(identifier: "com.example.refresh")');
+
+    const findings = await UnjustifiedBackgroundModeRule.evaluate(context({
+      BGTaskSchedulerPermittedIdentifiers: ['com.example.refresh'],
+    }));
+
+    expect(findings.map(f => f.title)).toEqual(['BGAppRefreshTaskRequest Without fetch Background Mode']);
+  });
+
+  it('skips built bundles', async () => {
+    const bundle = context({ UIBackgroundModes: ['audio'] });
+    bundle.privacyManifests = [];
+
+    expect(await UnjustifiedBackgroundModeRule.evaluate(bundle)).toEqual([]);
+  });
+});
+
+describe('detectBackgroundModeUsage', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-background-usage-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('collects evidence per mode from Swift and Objective-C', () => {
+    fs.writeFileSync(path.join(tempDir, 'Location.swift'), 'manager.allowsBackgroundLocationUpdates = true');
+    fs.writeFileSync(path.join(tempDir, 'Tasks.m'),
+      '[[BGTaskScheduler sharedScheduler] registerForTaskWithIdentifier:@"com.example.task" usingQueue:nil launchHandler:^(BGTask *task) {}];\n' +
+      '[[AVAudioSession sharedInstance] setCategory:AVAudioSessionCategoryPlayback error:nil];');
+
+    const usage = detectBackgroundModeUsage(tempDir);
+
+    expect(usage.hasSourceFiles).toBe(true);
+    expect(usage.evidence['location']).toEqual(['allowsBackgroundLocationUpdates']);
+    expect(usage.evidence['audio']).toEqual(['AVAudioSessionCategoryPlayback']);
+    expect(usage.taskIdentifiers).toEqual([
+      { identifier: 'com.example.task', kind: 'register', file: path.join(tempDir, 'Tasks.m'), line: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for UnsignedSDKXCFrameworkRule and the XCFramework locator
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { UnsignedSDKXCFrameworkRule, compareVersions } from '../../src/rules/metadata/unsigned-sdk-xcframework';
+import { findVendoredXCFrameworks, parseBinaryTargetPaths, parseProjectXCFrameworkPaths } from '../../src/parsers/xcframework-locator';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Dependency, DependencySource, Severity } from '../../src/types';
+
+describe('UnsignedSDKXCFrameworkRule', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-xcframework-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(relativePath: string, content = ''): void {
+    const file = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function xcframework(relativePath: string, signed: boolean): void {
+    write(path.join(relativePath, 'Info.plist'));
+    if (signed) {
+      write(path.join(relativePath, '_CodeSignature', 'CodeSignature'));
+    }
+  }
+
+  function context(dependencies: Dependency[] = [], pbxprojPath?: string) {
+    return createContextObject(tempDir, {}, {}, new Set(), dependencies, undefined, undefined, pbxprojPath);
+  }
+
+  it('flags unsigned vendored pods on Apple\'s list with the first signed release', async () => {
+    xcframework('Pods/FirebaseCore/Frameworks/FirebaseCore.xcframework', false);
+    xcframework('Pods/GoogleAppMeasurement/Frameworks/GoogleAppMeasurement.xcframework', false);
+    xcframework('Pods/FBSDKCoreKit/XCFrameworks/FBSDKCoreKit.xcframework', true);
+
+    const findings = await UnsignedSDKXCFrameworkRule.evaluate(context([
+      { name: 'FirebaseCore', version: '10.10.0', source: DependencySource.CocoaPods },
+      { name: 'FBSDKCoreKit', version: '17.0.0', source: DependencySource.CocoaPods },
+    ]));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].ruleId).toBe('metadata-003-unsigned-sdk-xcframework');
+    expect(findings[0].severity).toBe(Severity.High);
+    expect(findings[0].title).toBe('Unsigned SDK: FirebaseCore.xcframework');
+    expect(findings[0].description).toContain('(from FirebaseCore 10.10.0)');
+    expect(findings[0].description).toContain('predates 10.22.0');
+    expect(findings[0].fixGuidance).toContain('Update FirebaseCore to 10.22.0 or later');
+    expect(findings[0].location).toBe(path.join(tempDir, 'Pods/FirebaseCore/Frameworks/FirebaseCore.xcframework'));
+  });
+
+  it('checks downloaded and local Swift package binary targets', async () => {
+    xcframework('SourcePackages/artifacts/googlesignin-ios/GoogleSignIn/GoogleSignIn.xcframework', false);
+    write('SourcePackages/checkouts/onesignal-xcframework/Package.swift',
+      'targets: [\n  .binaryTarget(\n    name: "OneSignalCore",\n    path: "iOS_SDK/OneSignalCore.xcframework"\n  ),\n]\n');
+    xcframework('SourcePackages/checkouts/onesignal-xcframework/iOS_SDK/OneSignalCore.xcframework', false);
+
+    const findings = await UnsignedSDKXCFrameworkRule.evaluate(context());
+
+    expect(findings.map(f => f.title).sort()).toEqual([
+      'Unsigned SDK: GoogleSignIn.xcframework',
+      'Unsigned SDK: OneSignalCore.xcframework',
+    ]);
+  });
+
+  it('resolves XCFrameworks referenced by the Xcode project', async () => {
+    xcframework('Vendor/SDKs/Lottie.xcframework', false);
+    write('App.xcodeproj/project.pbxproj',
+      '\t\tAB12 /* Lottie.xcframework */ = {isa = PBXFileReference; lastKnownFileType = wrapper.xcframework; path = Lottie.xcframework; sourceTree = "<group>"; };\n');
+
+    const findings = await UnsignedSDKXCFrameworkRule.evaluate(context([], path.join(tempDir, 'App.xcodeproj', 'project.pbxproj')));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].location).toBe(path.join(tempDir, 'Vendor/SDKs/Lottie.xcframework'));
+    expect(findings[0].fixGuidance).toContain('Update Lottie to a release that ships a signed XCFramework');
+  });
+
+  it('ignores SDKs that are not on the list, secondary targets and built bundles', async () => {
+    xcframework('Pods/VendorKit/VendorKit.xcframework', false);
+    xcframework('Pods/Alamofire/Alamofire.xcframework', false);
+
+    expect(await UnsignedSDKXCFrameworkRule.evaluate(context())).toHaveLength(1);
+
+    const widget = createContextObject(tempDir, {}, {}, new Set(), [], undefined, undefined, undefined, {}, {
+      targetName: 'Widget',
+      sourceRoot: path.join(tempDir, 'Widget'),
+    });
+    expect(await UnsignedSDKXCFrameworkRule.evaluate(widget)).toEqual([]);
+
+    const bundle = context();
+    bundle.privacyManifests = [];
+    expect(await UnsignedSDKXCFrameworkRule.evaluate(bundle)).toEqual([]);
+  });
+
+  it('finds each XCFramework once', () => {
+    xcframework('Pods/SnapKit/SnapKit.xcframework', false);
+    write('App.xcodeproj/project.pbxproj', 'path = "Pods/SnapKit/SnapKit.xcframework";\n');
+
+    const found = findVendoredXCFrameworks([tempDir], path.join(tempDir, 'App.xcodeproj', 'project.pbxproj'));
+
+    expect(found).toEqual([
+      { name: 'SnapKit', path: path.join(tempDir, 'Pods/SnapKit/SnapKit.xcframework'), origin: 'cocoapods', owner: 'SnapKit' },
+    ]);
+  });
+});
+
+describe('xcframework-locator parsing', () => {
+  it('parses local binary targets', () => {
+    expect(parseBinaryTargetPaths(
+      '.binaryTarget(name: "A", path: "A.xcframework"),\n.binaryTarget(name: "B", url: "https://example.com/B.zip", checksum: "abc")'
+    )).toEqual([{ name: 'A', path: 'A.xcframework' }]);
+  });
+
+  it('parses project file references', () => {
+    expect(parseProjectXCFrameworkPaths(
+      'path = Lottie.xcframework;\npath = "Vendor/My SDK.xcframework";\npath = Lottie.xcframework;'
+    )).toEqual(['Lottie.xcframework', 'Vendor/My SDK.xcframework']);
+  });
+
+  it('compares versions numerically', () => {
+    expect(compareVersions('10.9.0', '10.22.0')).toBeLessThan(0);
+    expect(compareVersions('10.22', '10.22.0')).toBe(0);
+    expect(compareVersions('17.0.1', '17.0.0')).toBeGreaterThan(0);
+  });
+});
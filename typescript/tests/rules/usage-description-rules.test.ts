@@ -0,0 +1,242 @@
+/**
+ * Tests for the usage description rules built on checkUsageDescription
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { MissingCalendarsPurposeRule } from '../../src/rules/privacy/missing-calendars-purpose';
+import { MissingRemindersPurposeRule } from '../../src/rules/privacy/missing-reminders-purpose';
+import { MissingHealthPurposeRule } from '../../src/rules/privacy/missing-health-purpose';
+import { MissingMotionPurposeRule } from '../../src/rules/privacy/missing-motion-purpose';
+import { MissingSpeechRecognitionPurposeRule } from '../../src/rules/privacy/missing-speech-recognition-purpose';
+import { MissingHomeKitPurposeRule } from '../../src/rules/privacy/missing-homekit-purpose';
+import { MissingSiriPurposeRule } from '../../src/rules/privacy/missing-siri-purpose';
+import { MissingAppleMusicPurposeRule } from '../../src/rules/privacy/missing-apple-music-purpose';
+import { MissingNFCPurposeRule } from '../../src/rules/privacy/missing-nfc-purpose';
+import { MissingLocalNetworkPurposeRule } from '../../src/rules/privacy/missing-local-network-purpose';
+import { MissingFocusStatusPurposeRule } from '../../src/rules/privacy/missing-focus-status-purpose';
+import { MissingNearbyInteractionPurposeRule } from '../../src/rules/privacy/missing-nearby-interaction-purpose';
+import { MissingPhotoLibraryAddPurposeRule } from '../../src/rules/privacy/missing-photo-library-add-purpose';
+import { createContextObject } from '../../src/parsers/project-parser';
+import { Confidence, Rule, Severity } from '../../src/types';
+
+const GOOD_DESCRIPTION = 'We use this to power a specific feature you turned on in Settings.';
+
+describe('usage description rules', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shiplint-usage-description-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function source(content: string, file = 'App/Feature.swift'): void {
+    const filePath = path.join(tempDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  function context(
+    plist: Record<string, unknown> = {},
+    frameworks: string[] = [],
+    entitlements: Record<string, unknown> = {},
+    buildSettings: Record<string, string> = {}
+  ) {
+    return createContextObject(
+      tempDir, { CFBundleIdentifier: 'com.example.app', ...plist }, entitlements,
+      new Set(frameworks), [], undefined, undefined, undefined, buildSettings
+    );
+  }
+
+  describe.each<[string, Rule, string, { frameworks?: string[]; entitlements?: Record<string, unknown>; source?: string }]>([
+    ['motion', MissingMotionPurposeRule, 'NSMotionUsageDescription', { source: 'let pedometer = CMPedometer()' }],
+    ['speech', MissingSpeechRecognitionPurposeRule, 'NSSpeechRecognitionUsageDescription', { frameworks: ['Speech'] }],
+    ['HomeKit', MissingHomeKitPurposeRule, 'NSHomeKitUsageDescription', { entitlements: { 'com.apple.developer.homekit': true } }],
+    ['Siri', MissingSiriPurposeRule, 'NSSiriUsageDescription', { source: 'INPreferences.requestSiriAuthorization { _ in }' }],
+    ['Apple Music', MissingAppleMusicPurposeRule, 'NSAppleMusicUsageDescription', { source: 'let songs = MPMediaQuery.songs()' }],
+    ['NFC', MissingNFCPurposeRule, 'NFCReaderUsageDescription', { frameworks: ['CoreNFC'] }],
+    ['Focus status', MissingFocusStatusPurposeRule, 'NSFocusStatusUsageDescription', { source: 'INFocusStatusCenter.default.requestAuthorization { _ in }' }],
+    ['nearby interaction', MissingNearbyInteractionPurposeRule, 'NSNearbyInteractionUsageDescription', { source: 'let session = NISession()' }],
+  ])('%s', (_name, rule, key, signal) => {
+    function signalledContext(plist: Record<string, unknown> = {}) {
+      if (signal.source) source(signal.source);
+      return context(plist, signal.frameworks, signal.entitlements);
+    }
+
+    it('returns no findings without framework, entitlement or source evidence', async () => {
+      expect(await rule.evaluate(context({}, ['UIKit']))).toEqual([]);
+    });
+
+    it(`finds a missing ${key}`, async () => {
+      const findings = await rule.evaluate(signalledContext());
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].ruleId).toBe(rule.id);
+      expect(findings[0].severity).toBe(Severity.Critical);
+      expect(findings[0].title).toMatch(/^Missing .* Usage Description$/);
+      expect(findings[0].description).toContain(key);
+      expect(findings[0].fixGuidance).toContain(`<key>${key}</key>`);
+    });
+
+    it(`finds an empty or placeholder ${key}`, async () => {
+      expect((await rule.evaluate(signalledContext({ [key]: ' ' })))[0].title).toMatch(/^Empty /);
+      expect((await rule.evaluate(signalledContext({ [key]: 'TODO' })))[0].title).toMatch(/^Placeholder /);
+    });
+
+    it('passes with a meaningful description', async () => {
+      expect(await rule.evaluate(signalledContext({ [key]: GOOD_DESCRIPTION }))).toEqual([]);
+    });
+  });
+
+  it('ignores APIs that only appear in comments', async () => {
+    source('// TODO: use CMPedometer for step counts\nlet manager = CMMotionManager()');
+
+    expect(await MissingMotionPurposeRule.evaluate(context({}, ['CoreMotion']))).toEqual([]);
+  });
+
+  it('skips framework targets', async () => {
+    const framework = createContextObject(tempDir, {}, {}, new Set(['Speech']), [], undefined, undefined, undefined, {
+      PRODUCT_TYPE: 'com.apple.product-type.framework',
+    });
+
+    expect(await MissingSpeechRecognitionPurposeRule.evaluate(framework)).toEqual([]);
+  });
+
+  describe('MissingCalendarsPurposeRule', () => {
+    it('requires the iOS 17 full access key for full access requests', async () => {
+      source('store.requestFullAccessToEvents { granted, _ in }');
+
+      const findings = await MissingCalendarsPurposeRule.evaluate(context({ NSCalendarsUsageDescription: GOOD_DESCRIPTION }, ['EventKit']));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].title).toBe('Missing Calendars Usage Description');
+      expect(findings[0].description).toContain('NSCalendarsFullAccessUsageDescription');
+      expect(findings[0].description).toContain('requestFullAccessToEvents');
+    });
+
+    it('accepts the write-only key for write-only requests', async () => {
+      source('store.requestWriteOnlyAccessToEvents { granted, _ in }');
+
+      expect(await MissingCalendarsPurposeRule.evaluate(context({
+        NSCalendarsWriteOnlyAccessUsageDescription: GOOD_DESCRIPTION,
+      }))).toEqual([]);
+    });
+
+    it('requires the legacy key when deploying below iOS 17', async () => {
+      source('store.requestAccess(to: .event) { granted, _ in }');
+
+      const findings = await MissingCalendarsPurposeRule.evaluate(context(
+        { NSCalendarsFullAccessUsageDescription: GOOD_DESCRIPTION }, [], {}, { IPHONEOS_DEPLOYMENT_TARGET: '15.0' }
+      ));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].title).toBe('Missing Legacy Calendars Usage Description');
+      expect(findings[0].description).toContain('deployment target iOS 15');
+    });
+
+    it('reports EventKit alone at medium severity and confidence and accepts any calendar key', async () => {
+      const findings = await MissingCalendarsPurposeRule.evaluate(context({}, ['EventKitUI']));
+      expect(findings[0].severity).toBe(Severity.Medium);
+      expect(findings[0].confidence).toBe(Confidence.Medium);
+
+      expect(await MissingCalendarsPurposeRule.evaluate(context({
+        NSCalendarsWriteOnlyAccessUsageDescription: GOOD_DESCRIPTION,
+      }, ['EventKitUI']))).toEqual([]);
+    });
+
+    it('does not flag EventKit used only for reminders', async () => {
+      source('store.requestFullAccessToReminders { granted, _ in }');
+
+      expect(await MissingCalendarsPurposeRule.evaluate(context({
+        NSRemindersFullAccessUsageDescription: GOOD_DESCRIPTION,
+      }, ['EventKit']))).toEqual([]);
+    });
+  });
+
+  describe('MissingRemindersPurposeRule', () => {
+    it('only applies to reminder APIs', async () => {
+      expect(await MissingRemindersPurposeRule.evaluate(context({}, ['EventKit']))).toEqual([]);
+
+      source('let reminder = EKReminder(eventStore: store)');
+      const findings = await MissingRemindersPurposeRule.evaluate(context({}, ['EventKit']));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].description).toContain('NSRemindersFullAccessUsageDescription');
+    });
+  });
+
+  describe('MissingHealthPurposeRule', () => {
+    it('requires the share key for reads and the update key for writes', async () => {
+      source('store.requestAuthorization(toShare: [workoutType], read: [stepType]) { _, _ in }');
+
+      const findings = await MissingHealthPurposeRule.evaluate(context({}, ['HealthKit']));
+
+      expect(findings.map(f => f.title)).toEqual([
+        'Missing Health Share Usage Description',
+        'Missing Health Update Usage Description',
+      ]);
+    });
+
+    it('does not require the update key when nothing is written', async () => {
+      source('store.requestAuthorization(toShare: nil, read: [stepType]) { _, _ in }');
+
+      expect(await MissingHealthPurposeRule.evaluate(context({
+        NSHealthShareUsageDescription: GOOD_DESCRIPTION,
+      }, ['HealthKit']))).toEqual([]);
+    });
+  });
+
+  describe('MissingLocalNetworkPurposeRule', () => {
+    it('requires the purpose string and Bonjour services for browsing', async () => {
+      source('let browser = NWBrowser(for: .bonjour(type: "_printer._tcp", domain: nil), using: .tcp)');
+
+      const findings = await MissingLocalNetworkPurposeRule.evaluate(context());
+
+      expect(findings.map(f => f.title)).toEqual([
+        'Missing Local Network Usage Description',
+        'Missing Bonjour Services Declaration',
+      ]);
+      expect(findings[1].severity).toBe(Severity.High);
+    });
+
+    it('passes when both are declared', async () => {
+      expect(await MissingLocalNetworkPurposeRule.evaluate(context({
+        NSLocalNetworkUsageDescription: GOOD_DESCRIPTION,
+        NSBonjourServices: ['_my-app._tcp', '_my-app._udp'],
+      }, ['MultipeerConnectivity']))).toEqual([]);
+    });
+
+    it('does not require Bonjour services for a plain listener', async () => {
+      source('let listener = try NWListener(using: .tcp, on: 8080)');
+
+      expect(await MissingLocalNetworkPurposeRule.evaluate(context({
+        NSLocalNetworkUsageDescription: GOOD_DESCRIPTION,
+      }))).toEqual([]);
+    });
+  });
+
+  describe('MissingPhotoLibraryAddPurposeRule', () => {
+    it('requires the add key for UIKit saves even with full library access', async () => {
+      source('UIImageWriteToSavedPhotosAlbum(image, nil, nil, nil)');
+
+      const findings = await MissingPhotoLibraryAddPurposeRule.evaluate(context({
+        NSPhotoLibraryUsageDescription: GOOD_DESCRIPTION,
+      }));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].title).toBe('Missing Photo Library Add Usage Description');
+      expect(findings[0].fixGuidance).toContain('always ask for add-only access');
+    });
+
+    it('accepts full library access for PhotoKit change requests', async () => {
+      source('PHPhotoLibrary.shared().performChanges { PHAssetCreationRequest.forAsset() }');
+
+      expect(await MissingPhotoLibraryAddPurposeRule.evaluate(context({
+        NSPhotoLibraryUsageDescription: GOOD_DESCRIPTION,
+      }))).toEqual([]);
+    });
+  });
+});